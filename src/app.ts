@@ -5,21 +5,70 @@ import { merchantsRouter } from "./routers/merchants.js";
 import { huntersRouter } from "./routers/hunters.js";
 import { defaultRouter } from "./routers/default.js";
 import { transactionsRouter } from "./routers/transactions.js";
+import { searchRouter } from "./routers/search.js";
+import { docsRouter } from "./routers/docs.js";
+import { authRouter } from "./routers/auth.js";
+import { auditRouter } from "./routers/audit.js";
+import { reportsRouter } from "./routers/reports.js";
+import { webhooksRouter } from "./routers/webhooks.js";
+import { pricingRulesRouter } from "./routers/pricing.js";
+import { graphqlRouter } from "./routers/graphql.js";
+import { authenticate } from "./middleware/auth.js";
+import { idempotency } from "./middleware/idempotency.js";
+import { requestContext } from "./middleware/context.js";
+import { errorHandler } from "./middleware/errors.js";
+import { csvBody, IMPORT_LIMIT, IMPORT_PATHS } from "./utils/bulk.js";
+import { listenWebhookEvents } from "./utils/webhooks.js";
 const app = express();
 
+/**
+ * Routers de la API junto con la ruta en la que se montan. Todas sus rutas
+ * deben estar descritas en el documento OpenAPI y exigen un token de acceso.
+ * Sus rutas `POST` admiten la cabecera `Idempotency-Key` (ver `idempotency`).
+ */
+export const apiRouters: Array<[string, express.Router]> = [
+  ["/goods", goodsRouter],
+  ["/hunters", huntersRouter],
+  ["/merchants", merchantsRouter],
+  ["/transactions", transactionsRouter],
+  ["/search", searchRouter],
+  ["/auth", authRouter],
+  ["/audit", auditRouter],
+  ["/reports", reportsRouter],
+  ["/webhooks", webhooksRouter],
+  ["/pricing-rules", pricingRulesRouter],
+  ["/graphql", graphqlRouter],
+];
+
+// El token se comprueba antes de leer el cuerpo: así una petición anónima no
+// obliga a leer una importación de hasta `IMPORT_LIMIT`
+for (const [path] of apiRouters) {
+  app.use(path, authenticate);
+}
+
+// Solo las importaciones masivas admiten cuerpos de hasta `IMPORT_LIMIT` y
+// en CSV (ver `importDocuments`); el resto usa el límite por defecto de
+// Express. Se leen aquí para que `idempotency` incluya el CSV en la huella
+app.use(IMPORT_PATHS, express.json({ limit: IMPORT_LIMIT }), csvBody);
 app.use(express.json());
+app.use(requestContext);
 
-app.use("/goods", goodsRouter);
-app.use("/hunters", huntersRouter);
-app.use("/merchants", merchantsRouter);
-app.use("/transactions", transactionsRouter);
+for (const [path, router] of apiRouters) {
+  app.use(path, idempotency, router);
+}
+app.use(docsRouter);
 app.use(defaultRouter);
 
+// Debe registrarse el último: recibe los errores de todas las rutas
+app.use(errorHandler);
+
 /**
- * Función que inicializa la aplicación Express y conecta a la base de datos.
+ * Función que inicializa la aplicación Express, conecta a la base de datos y
+ * empieza a enviar los eventos a los webhooks suscritos.
  */
 export async function setupApp() {
   await connectMongoose();
+  await listenWebhookEvents();
   return app;
 }
 
@@ -0,0 +1,53 @@
+import { TransactionModel } from "../models/transaction.js";
+
+/**
+ * Migra las transacciones con un único cliente polimórfico (`client` y
+ * `clientModel`) al modelo de dos partes (`buyer` y `seller`).
+ *
+ * @remarks
+ * En las compras el cliente era el comprador y en las ventas el vendedor;
+ * la otra parte queda vacía, lo que equivale a la propia posada.
+ * La migración es idempotente: solo afecta a documentos que aún tengan `client`.
+ *
+ * @returns Número de transacciones migradas.
+ */
+export async function migrateTransactionParties() {
+  const collection = TransactionModel.collection;
+
+  const purchases = await collection.updateMany(
+    { type: "purchase", client: { $exists: true } },
+    [
+      {
+        $set: {
+          buyer: "$client",
+          buyerModel: "$clientModel",
+          seller: null,
+        },
+      },
+      { $unset: ["client", "clientModel"] },
+    ],
+  );
+  const sales = await collection.updateMany(
+    { type: "sale", client: { $exists: true } },
+    [
+      {
+        $set: {
+          seller: "$client",
+          sellerModel: "$clientModel",
+          buyer: null,
+        },
+      },
+      { $unset: ["client", "clientModel"] },
+    ],
+  );
+
+  return purchases.modifiedCount + sales.modifiedCount;
+}
+
+/**
+ * Ejecuta todas las migraciones pendientes sobre la base de datos conectada.
+ */
+export async function runMigrations() {
+  const parties = await migrateTransactionParties();
+  console.log(`Transacciones migradas a comprador/vendedor: ${parties}`);
+}
@@ -0,0 +1,209 @@
+/**
+ * Códigos de error estables que se devuelven en el campo `code` de las
+ * respuestas `application/problem+json`.
+ */
+export const ERROR_CODES = [
+  "VALIDATION_FAILED",
+  "MALFORMED_BODY",
+  "PAYLOAD_TOO_LARGE",
+  "UNAUTHENTICATED",
+  "FORBIDDEN",
+  "NOT_FOUND",
+  "CONFLICT",
+  "REFERENCED",
+  "INVENTORY_FULL",
+  "INSUFFICIENT_STOCK",
+  "INSUFFICIENT_FUNDS",
+  "IDEMPOTENCY_KEY_REUSED",
+  "PRECONDITION_FAILED",
+  "NOT_IMPLEMENTED",
+  "INTERNAL_ERROR",
+] as const;
+
+/**
+ * Código de error estable (ver `ERROR_CODES`).
+ */
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+/**
+ * Parte de la petición en la que se encuentra un campo.
+ */
+export type RequestLocation = "body" | "params" | "query";
+
+/**
+ * Error de validación de un campo concreto.
+ */
+export interface FieldError {
+  /** Parte de la petición */
+  location: RequestLocation;
+  /** Ruta del campo (p. ej. `items.0.quantity`); vacía si es la raíz */
+  field: string;
+  /** Descripción del error */
+  message: string;
+}
+
+/**
+ * Error de la API que se traduce en una respuesta HTTP con el código indicado.
+ *
+ * @remarks
+ * Se lanza desde los modelos y routers para abortar una operación (y la sesión
+ * de MongoDB en curso, si la hay). El manejador de errores de la aplicación
+ * (`errorHandler`) lo convierte en una respuesta `application/problem+json`.
+ */
+export class ApiError extends Error {
+  /**
+   * @param status - Código HTTP de la respuesta
+   * @param code - Código de error estable para los clientes
+   * @param message - Mensaje de error (campo `detail` de la respuesta)
+   */
+  constructor(
+    public readonly status: number,
+    public readonly code: ErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * La petición no es válida (400). Puede detallar los campos erróneos.
+ */
+export class ValidationError extends ApiError {
+  /**
+   * @param message - Mensaje de error
+   * @param errors - Errores de cada campo
+   */
+  constructor(
+    message: string,
+    public readonly errors: FieldError[] = [],
+  ) {
+    super(400, "VALIDATION_FAILED", message);
+  }
+
+  /**
+   * Crea un error de validación de un único campo.
+   *
+   * @param location - Parte de la petición
+   * @param field - Nombre del campo
+   * @param message - Mensaje de error
+   * @returns Error de validación
+   */
+  static field(location: RequestLocation, field: string, message: string) {
+    return new ValidationError(message, [{ location, field, message }]);
+  }
+}
+
+/**
+ * La petición no incluye un token de acceso válido (401).
+ */
+export class UnauthorizedError extends ApiError {
+  /**
+   * @param message - Mensaje de error
+   */
+  constructor(message: string) {
+    super(401, "UNAUTHENTICATED", message);
+  }
+}
+
+/**
+ * El rol del token no permite la operación sobre el recurso (403).
+ */
+export class ForbiddenError extends ApiError {
+  /**
+   * @param message - Mensaje de error
+   */
+  constructor(message: string) {
+    super(403, "FORBIDDEN", message);
+  }
+}
+
+/**
+ * El recurso solicitado, o alguno de los que referencia, no existe (404).
+ */
+export class NotFoundError extends ApiError {
+  /**
+   * @param message - Mensaje de error
+   */
+  constructor(message: string) {
+    super(404, "NOT_FOUND", message);
+  }
+}
+
+/**
+ * La operación entra en conflicto con el estado actual (409).
+ */
+export class ConflictError extends ApiError {
+  /**
+   * @param message - Mensaje de error
+   * @param code - Código concreto del conflicto (por defecto `CONFLICT`)
+   */
+  constructor(message: string, code: ErrorCode = "CONFLICT") {
+    super(409, code, message);
+  }
+}
+
+/**
+ * El documento no se puede eliminar porque lo referencian transacciones (409).
+ */
+export class ReferencedError extends ConflictError {
+  /**
+   * @param message - Mensaje de error
+   * @param transactions - Identificadores de las transacciones que lo impiden
+   */
+  constructor(
+    message: string,
+    public readonly transactions: string[],
+  ) {
+    super(message, "REFERENCED");
+  }
+}
+
+/**
+ * El documento no cumple la condición `If-Match` de la petición (412).
+ */
+export class PreconditionFailedError extends ApiError {
+  /**
+   * @param message - Mensaje de error
+   */
+  constructor(message: string) {
+    super(412, "PRECONDITION_FAILED", message);
+  }
+}
+
+/**
+ * No hay unidades suficientes de un bien en la posada o en el inventario de
+ * un mercader (400).
+ */
+export class InsufficientStockError extends ApiError {
+  /**
+   * @param message - Mensaje de error
+   */
+  constructor(message: string) {
+    super(400, "INSUFFICIENT_STOCK", message);
+  }
+}
+
+/**
+ * Una parte de la transacción no tiene monedas suficientes (400).
+ */
+export class InsufficientFundsError extends ApiError {
+  /**
+   * @param message - Mensaje de error
+   */
+  constructor(message: string) {
+    super(400, "INSUFFICIENT_FUNDS", message);
+  }
+}
+
+/**
+ * La clave de idempotencia ya se usó con una petición distinta (422).
+ */
+export class IdempotencyKeyReusedError extends ApiError {
+  /**
+   * @param message - Mensaje de error
+   */
+  constructor(message: string) {
+    super(422, "IDEMPOTENCY_KEY_REUSED", message);
+  }
+}
@@ -0,0 +1,144 @@
+import DataLoader from "dataloader";
+import { Model, Types } from "mongoose";
+import { GoodDocument, GoodModel } from "../models/good.js";
+import { HunterDocument, HunterModel } from "../models/hunter.js";
+import { MerchantDocument, MerchantModel } from "../models/merchant.js";
+import {
+  TransactionDocument,
+  TransactionModel,
+  TransactionType,
+} from "../models/transaction.js";
+
+/**
+ * Página de las transacciones de un cazador o mercader que se carga con
+ * `transactionsByClient`.
+ */
+export interface ClientTransactionsKey {
+  /** Identificador del cazador o mercader */
+  client: string;
+  /** Tipo de transacción (todos si no se indica) */
+  type?: TransactionType;
+  /** Parte a la que se limita el usuario (ver `ownParty`) */
+  party?: string;
+  /** Número máximo de transacciones */
+  limit: number;
+  /** Número de transacciones que se omiten, desde la más reciente */
+  offset: number;
+}
+
+/**
+ * Cargadores de documentos de una petición GraphQL.
+ *
+ * @remarks
+ * Agrupan en una sola consulta por colección las búsquedas que hacen los
+ * resolvers de una misma petición (p. ej. el bien de cada ítem de una lista
+ * de transacciones), de modo que el número de consultas no crece con el
+ * número de resultados (problema N+1). Cada petición crea los suyos, por lo
+ * que la caché no se comparte entre usuarios.
+ */
+export interface Loaders {
+  /** Bienes por identificador (incluidos los eliminados) */
+  goods: DataLoader<string, GoodDocument | null>;
+  /** Cazadores por identificador (incluidos los eliminados) */
+  hunters: DataLoader<string, HunterDocument | null>;
+  /** Mercaderes por identificador (incluidos los eliminados) */
+  merchants: DataLoader<string, MerchantDocument | null>;
+  /**
+   * Página de las transacciones en las que participa cada cazador o
+   * mercader, de la más reciente a la más antigua
+   */
+  transactionsByClient: DataLoader<
+    ClientTransactionsKey,
+    TransactionDocument[],
+    string
+  >;
+}
+
+/**
+ * Crea un cargador de documentos por identificador.
+ *
+ * @param model - Modelo de los documentos
+ * @returns Cargador que devuelve `null` para los identificadores que no existen
+ */
+function byId<T>(model: Model<T>) {
+  return new DataLoader<string, T | null>(async (ids) => {
+    const docs = await model.find({ _id: { $in: ids } });
+    const found = new Map(
+      docs.map((doc) => [String((doc as { _id: Types.ObjectId })._id), doc]),
+    );
+    return ids.map((id) => found.get(id) ?? null);
+  });
+}
+
+/**
+ * Filtro de las transacciones de una página de `transactionsByClient`.
+ *
+ * @param key - Página solicitada
+ * @returns Filtro para `$match` (sin conversión automática de tipos)
+ */
+function clientTransactionsFilter({
+  client,
+  type,
+  party,
+}: ClientTransactionsKey) {
+  const participates = (id: string) => ({
+    $or: [
+      { buyer: new Types.ObjectId(id) },
+      { seller: new Types.ObjectId(id) },
+    ],
+  });
+  return {
+    $and: [
+      participates(client),
+      ...(party ? [participates(party)] : []),
+      ...(type ? [{ type }] : []),
+    ],
+  };
+}
+
+/**
+ * Crea los cargadores de una petición GraphQL.
+ *
+ * @remarks
+ * Las páginas de `transactionsByClient` se cargan con una sola agregación:
+ * cada una es una rama de `$facet` con su propio `$skip` y `$limit`, de modo
+ * que nunca se lee el historial completo de un cliente.
+ *
+ * @returns Cargadores vacíos
+ */
+export function createLoaders(): Loaders {
+  return {
+    goods: byId(GoodModel),
+    hunters: byId(HunterModel),
+    merchants: byId(MerchantModel),
+    transactionsByClient: new DataLoader(
+      async (keys) => {
+        const filters = keys.map(clientTransactionsFilter);
+        const [pages] = await TransactionModel.aggregate<
+          Record<string, unknown[]>
+        >([
+          { $match: { $or: filters } },
+          { $sort: { date: -1, _id: -1 } },
+          {
+            $facet: Object.fromEntries(
+              keys.map((key, i) => [
+                String(i),
+                [
+                  { $match: filters[i] },
+                  { $skip: key.offset },
+                  { $limit: key.limit },
+                ],
+              ]),
+            ),
+          },
+        ]);
+        return keys.map((_key, i) =>
+          (pages?.[String(i)] ?? []).map((doc) =>
+            TransactionModel.hydrate(doc),
+          ),
+        );
+      },
+      { cacheKeyFn: (key) => JSON.stringify(key) },
+    ),
+  };
+}
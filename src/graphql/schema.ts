@@ -0,0 +1,574 @@
+import {
+  buildSchema,
+  GraphQLFieldResolver,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLUnionType,
+  valueFromASTUntyped,
+} from "graphql";
+import { FilterQuery, Model, Types } from "mongoose";
+import { ForbiddenError, NotFoundError, ValidationError } from "../errors.js";
+import { GoodModel } from "../models/good.js";
+import { HunterModel } from "../models/hunter.js";
+import { MerchantModel } from "../models/merchant.js";
+import { visibleFilter } from "../models/softDelete.js";
+import {
+  PartyModel,
+  TransactionDocument,
+  TransactionItem,
+  TransactionModel,
+  TransactionType,
+} from "../models/transaction.js";
+import { assertRole, ownParty } from "../middleware/auth.js";
+import { validateRequest } from "../middleware/validate.js";
+import { transactionBody } from "../openapi/requests.js";
+import { goodListOptions } from "../routers/goods.js";
+import { hunterListOptions } from "../routers/hunters.js";
+import { merchantListOptions } from "../routers/merchants.js";
+import { transactionListOptions } from "../routers/transactions.js";
+import {
+  DEFAULT_LIMIT,
+  MAX_LIMIT,
+  paginate,
+  PaginationOptions,
+  positiveInteger,
+} from "../utils/pagination.js";
+import { TokenClaims } from "../utils/tokens.js";
+import {
+  assertParticipant,
+  createTransaction,
+  CreateTransactionRequest,
+  deleteTransaction,
+  updateTransaction,
+} from "../utils/transactions.js";
+import { Loaders } from "./loaders.js";
+
+/**
+ * Contexto de cada petición GraphQL.
+ */
+export interface GraphQLContext {
+  /** Datos del token de acceso */
+  auth: TokenClaims | undefined;
+  /** Cargadores de documentos de la petición (ver `createLoaders`) */
+  loaders: Loaders;
+}
+
+/**
+ * Esquema GraphQL de la API (SDL).
+ *
+ * @remarks
+ * Los listados admiten los mismos filtros, búsqueda, orden y paginación que
+ * las rutas REST: cada `FilterInput` equivale a un parámetro `campo[op]=valor`
+ * de la query string (ver `parseFilters`).
+ */
+export const typeDefs = /* GraphQL */ `
+  "Fecha en formato ISO 8601"
+  scalar DateTime
+
+  enum TransactionType {
+    purchase
+    sale
+  }
+
+  "Filtro de un listado: equivale a campo[op]=valor en la API REST"
+  input FilterInput {
+    field: String!
+    "eq (por defecto), ne, gt, gte, lt, lte, in, nin, any o all"
+    op: String
+    value: String!
+  }
+
+  type Good {
+    _id: ID!
+    id: Int!
+    name: String!
+    description: String
+    material: String!
+    weight: Float!
+    value: Float!
+    stock: Int!
+    reorderLevel: Int!
+    reorderQuantity: Int!
+    deletedAt: DateTime
+  }
+
+  type Hunter {
+    _id: ID!
+    name: String!
+    type: String!
+    experience: Int!
+    preferredWeapon: String
+    coins: Float!
+    isActive: Boolean!
+    email: String
+    monsterSpecialty: [String!]!
+    deletedAt: DateTime
+    """
+    Transacciones del cazador, de la más reciente a la más antigua: limit
+    (por defecto ${DEFAULT_LIMIT}, máximo ${MAX_LIMIT}) a partir de offset
+    """
+    transactions(type: TransactionType, limit: Int, offset: Int): [Transaction!]!
+  }
+
+  type Merchant {
+    _id: ID!
+    name: String!
+    location: String!
+    specialty: String!
+    isTraveling: Boolean!
+    inventorySize: Int!
+    reputation: Float!
+    coins: Float!
+    contact: String
+    deletedAt: DateTime
+    """
+    Transacciones del mercader, de la más reciente a la más antigua: limit
+    (por defecto ${DEFAULT_LIMIT}, máximo ${MAX_LIMIT}) a partir de offset
+    """
+    transactions(type: TransactionType, limit: Int, offset: Int): [Transaction!]!
+  }
+
+  "Cazador o mercader"
+  union Client = Hunter | Merchant
+
+  type TransactionItem {
+    "Bien (null si se eliminó definitivamente)"
+    good: Good
+    quantity: Int!
+    priceAtTransaction: Float!
+    "Precio antes de las reglas de precio (null en transacciones anteriores)"
+    basePrice: Float
+    "Reglas de precio aplicadas, en orden"
+    appliedRules: [AppliedPricingRule!]!
+  }
+
+  "Regla de precio aplicada a un ítem, tal como estaba al calcular el precio"
+  type AppliedPricingRule {
+    rule: ID!
+    name: String!
+    "Porcentaje sumado al precio (negativo si es un descuento)"
+    adjustment: Float!
+  }
+
+  type Transaction {
+    _id: ID!
+    type: TransactionType!
+    date: DateTime!
+    "Comprador (null si es la posada)"
+    buyer: Client
+    "Vendedor (null si es la posada)"
+    seller: Client
+    "Cliente: el comprador en las compras y el vendedor en las ventas"
+    client: Client
+    items: [TransactionItem!]!
+    totalAmount: Float!
+  }
+
+  type GoodPage {
+    data: [Good!]!
+    total: Int!
+    page: Int!
+    pages: Int!
+    limit: Int!
+  }
+
+  type HunterPage {
+    data: [Hunter!]!
+    total: Int!
+    page: Int!
+    pages: Int!
+    limit: Int!
+  }
+
+  type MerchantPage {
+    data: [Merchant!]!
+    total: Int!
+    page: Int!
+    pages: Int!
+    limit: Int!
+  }
+
+  type TransactionPage {
+    data: [Transaction!]!
+    total: Int!
+    page: Int!
+    pages: Int!
+    limit: Int!
+  }
+
+  input TransactionItemInput {
+    goodName: String!
+    quantity: Int!
+  }
+
+  "Mismos campos que el cuerpo de POST /transactions"
+  input TransactionInput {
+    type: TransactionType!
+    clientName: String
+    buyerName: String
+    buyerId: ID
+    sellerName: String
+    sellerId: ID
+    items: [TransactionItemInput!]!
+  }
+
+  type Query {
+    goods(
+      filter: [FilterInput!]
+      q: String
+      sort: String
+      page: Int
+      limit: Int
+      includeDeleted: Boolean
+    ): GoodPage!
+    good(id: ID!, includeDeleted: Boolean): Good
+    hunters(
+      filter: [FilterInput!]
+      q: String
+      sort: String
+      page: Int
+      limit: Int
+      includeDeleted: Boolean
+    ): HunterPage!
+    hunter(id: ID, name: String, includeDeleted: Boolean): Hunter
+    merchants(
+      filter: [FilterInput!]
+      q: String
+      sort: String
+      page: Int
+      limit: Int
+      includeDeleted: Boolean
+    ): MerchantPage!
+    merchant(id: ID, name: String, includeDeleted: Boolean): Merchant
+    transactions(
+      type: TransactionType
+      clientName: String
+      startDate: DateTime
+      endDate: DateTime
+      sort: String
+      page: Int
+      limit: Int
+    ): TransactionPage!
+    transaction(id: ID!): Transaction
+  }
+
+  type Mutation {
+    createTransaction(input: TransactionInput!): Transaction!
+    updateTransaction(id: ID!, input: TransactionInput!): Transaction!
+    deleteTransaction(id: ID!): Transaction!
+  }
+`;
+
+/** Argumentos de los listados de bienes, cazadores y mercaderes */
+interface ListArgs {
+  filter?: Array<{ field: string; op?: string | null; value: string }> | null;
+  q?: string | null;
+  sort?: string | null;
+  page?: number | null;
+  limit?: number | null;
+  includeDeleted?: boolean | null;
+}
+
+/** Argumentos de las consultas de un documento */
+interface FindArgs {
+  id?: string | null;
+  name?: string | null;
+  includeDeleted?: boolean | null;
+}
+
+/** Argumentos del listado de transacciones */
+interface TransactionListArgs {
+  type?: TransactionType | null;
+  clientName?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  sort?: string | null;
+  page?: number | null;
+  limit?: number | null;
+}
+
+/** Argumentos de las transacciones de un cliente */
+interface ClientTransactionsArgs {
+  type?: TransactionType | null;
+  limit?: number | null;
+  offset?: number | null;
+}
+
+/**
+ * Resolver de un campo con el tipo de su origen (un documento de Mongoose, o
+ * `undefined` en `Query` y `Mutation`) y de sus argumentos.
+ */
+type Resolver<
+  TSource = undefined,
+  TArgs = Record<string, never>,
+> = GraphQLFieldResolver<TSource, GraphQLContext, TArgs>;
+
+/**
+ * Filtro de visibilidad de los documentos eliminados (ver `visibleFilter`).
+ *
+ * @param context - Contexto de la petición
+ * @param includeDeleted - Argumento `includeDeleted`
+ * @returns Filtro a añadir a la consulta
+ */
+const visible = (context: GraphQLContext, includeDeleted?: boolean | null) =>
+  visibleFilter({
+    auth: context.auth,
+    query: { includeDeleted: String(includeDeleted ?? false) },
+  });
+
+/**
+ * Convierte los argumentos de un listado en la query string equivalente de
+ * la API REST, para reutilizar `paginate` y `parseFilters`.
+ *
+ * @param args - Argumentos del listado
+ * @returns Query string equivalente
+ */
+function listQuery(
+  args: Omit<ListArgs, "includeDeleted">,
+): Record<string, unknown> {
+  const query: Record<string, unknown> = {};
+  for (const { field, op, value } of args.filter ?? []) {
+    query[op ? `${field}[${op}]` : field] = value;
+  }
+  for (const key of ["q", "sort", "page", "limit"] as const) {
+    if (args[key] != null) query[key] = String(args[key]);
+  }
+  return query;
+}
+
+/**
+ * Resolver de un listado paginado de bienes, cazadores o mercaderes.
+ *
+ * @param model - Modelo del listado
+ * @param options - Opciones de paginación de la ruta REST equivalente
+ * @returns Resolver de la consulta
+ */
+const listResolver =
+  <T>(
+    model: Model<T>,
+    options: PaginationOptions,
+  ): Resolver<undefined, ListArgs> =>
+  (_source, args, context) =>
+    paginate(
+      model,
+      visible(context, args.includeDeleted) as FilterQuery<T>,
+      listQuery(args),
+      options,
+    );
+
+/**
+ * Resolver de la consulta de un documento por identificador o nombre.
+ *
+ * @param model - Modelo del documento
+ * @returns Resolver de la consulta
+ * @throws ValidationError - Si no se indica `id` ni `name`
+ */
+const findResolver =
+  <T>(model: Model<T>): Resolver<undefined, FindArgs> =>
+  (_source, { id, name, includeDeleted }, context) => {
+    if (!id && !name) {
+      throw new ValidationError("Debe indicar id o name");
+    }
+    return model.findOne({
+      ...(id ? { _id: id } : { name }),
+      ...visible(context, includeDeleted),
+    } as FilterQuery<T>);
+  };
+
+/**
+ * Carga una parte de una transacción.
+ *
+ * @param context - Contexto de la petición
+ * @param id - Identificador de la parte (`null` si es la posada)
+ * @param model - Modelo de la parte
+ * @returns Cazador o mercader, o `null`
+ */
+function loadParty(
+  context: GraphQLContext,
+  id: unknown,
+  model: PartyModel | undefined,
+) {
+  if (!id || !model) return null;
+  return model === "Hunter"
+    ? context.loaders.hunters.load(String(id))
+    : context.loaders.merchants.load(String(id));
+}
+
+/**
+ * Resolver de las transacciones de un cazador o mercader.
+ *
+ * @remarks
+ * Los mercaderes y cazadores solo ven las transacciones en las que
+ * participan. Se devuelven como mucho `MAX_LIMIT` transacciones.
+ *
+ * @throws ValidationError - Si `limit` no es un entero positivo u `offset`
+ *   es negativo
+ */
+const clientTransactions: Resolver<{ _id: unknown }, ClientTransactionsArgs> = (
+  client,
+  { type, limit, offset },
+  context,
+) => {
+  if (offset != null && offset < 0) {
+    throw new ValidationError("El argumento offset no puede ser negativo");
+  }
+  return context.loaders.transactionsByClient.load({
+    client: String(client._id),
+    type: type ?? undefined,
+    party: ownParty(context.auth)?.toString(),
+    limit: Math.min(
+      positiveInteger(limit ?? undefined, "limit", DEFAULT_LIMIT),
+      MAX_LIMIT,
+    ),
+    offset: offset ?? 0,
+  });
+};
+
+/**
+ * Comprueba los datos de una transacción con el mismo esquema que
+ * `POST /transactions`.
+ *
+ * @param input - Datos recibidos
+ * @returns Datos validados
+ * @throws ValidationError - Si no son válidos
+ */
+function transactionInput(input: unknown): CreateTransactionRequest {
+  const errors = validateRequest(
+    { body: transactionBody },
+    { params: {}, query: {}, body: input },
+  );
+  if (errors.length) {
+    throw new ValidationError("La transacción no es válida", errors);
+  }
+  return { ...(input as CreateTransactionRequest) };
+}
+
+/**
+ * Resolvers de cada tipo: tipo → campo → resolver. Los campos sin resolver
+ * se leen directamente del documento.
+ *
+ * @remarks
+ * Cada resolver declara el tipo de su origen y de sus argumentos; el mapa
+ * admite cualquiera de ellos (`never`).
+ */
+const resolvers: Record<string, Record<string, Resolver<never, never>>> = {
+  Query: {
+    goods: listResolver(GoodModel, goodListOptions),
+    good: findResolver(GoodModel),
+    hunters: listResolver(HunterModel, hunterListOptions),
+    hunter: findResolver(HunterModel),
+    merchants: listResolver(MerchantModel, merchantListOptions),
+    merchant: findResolver(MerchantModel),
+    transactions: async (_source, args: TransactionListArgs, context) => {
+      const filter: FilterQuery<TransactionDocument> = {};
+      if (args.type) filter.type = args.type;
+      if (args.startDate || args.endDate) {
+        filter.date = {
+          ...(args.startDate ? { $gte: new Date(args.startDate) } : {}),
+          ...(args.endDate ? { $lte: new Date(args.endDate) } : {}),
+        };
+      }
+      const party = ownParty(context.auth);
+      if (args.clientName) {
+        const hunter = await HunterModel.findOne({ name: args.clientName });
+        const merchant = await MerchantModel.findOne({ name: args.clientName });
+        const ids = [hunter?._id, merchant?._id].filter((id) => id != null);
+        if (ids.length === 0) throw new NotFoundError("Cliente no encontrado");
+        if (party && !ids.some((id) => party.equals(id as Types.ObjectId))) {
+          throw new ForbiddenError(
+            "Solo puede acceder a sus propias transacciones",
+          );
+        }
+        filter.$or = [{ buyer: { $in: ids } }, { seller: { $in: ids } }];
+      } else if (party) {
+        filter.$or = [{ buyer: party }, { seller: party }];
+      }
+
+      return paginate(TransactionModel, filter, listQuery(args), {
+        ...transactionListOptions,
+        populate: [],
+      });
+    },
+    transaction: async (_source, { id }: { id: string }, context) => {
+      const transaction = await TransactionModel.findById(id);
+      if (transaction) assertParticipant(context.auth, transaction);
+      return transaction;
+    },
+  },
+  Mutation: {
+    createTransaction: (_source, { input }: { input: unknown }, context) => {
+      assertRole(context.auth, "admin", "merchant", "hunter");
+      return createTransaction(transactionInput(input), context.auth);
+    },
+    updateTransaction: (
+      _source,
+      { id, input }: { id: string; input: unknown },
+      context,
+    ) => {
+      assertRole(context.auth, "admin", "merchant", "hunter");
+      return updateTransaction(id, transactionInput(input), context.auth);
+    },
+    deleteTransaction: (_source, { id }: { id: string }, context) => {
+      assertRole(context.auth, "admin");
+      return deleteTransaction(id);
+    },
+  },
+  Hunter: { transactions: clientTransactions },
+  Merchant: { transactions: clientTransactions },
+  Transaction: {
+    buyer: (transaction: TransactionDocument, _args, context) =>
+      loadParty(context, transaction.buyer, transaction.buyerModel),
+    seller: (transaction: TransactionDocument, _args, context) =>
+      loadParty(context, transaction.seller, transaction.sellerModel),
+    client: (transaction: TransactionDocument, _args, context) =>
+      transaction.type === "purchase"
+        ? loadParty(context, transaction.buyer, transaction.buyerModel)
+        : loadParty(context, transaction.seller, transaction.sellerModel),
+  },
+  TransactionItem: {
+    good: (item: TransactionItem, _args, context) =>
+      item.good ? context.loaders.goods.load(String(item.good)) : null,
+  },
+};
+
+/**
+ * Construye el esquema ejecutable: el SDL de `typeDefs` con los resolvers,
+ * el tipo de cada `Client` y la serialización de `DateTime`.
+ *
+ * @returns Esquema GraphQL
+ */
+function buildExecutableSchema() {
+  const schema = buildSchema(typeDefs);
+
+  for (const [typeName, fields] of Object.entries(resolvers)) {
+    const type = schema.getType(typeName) as GraphQLObjectType;
+    for (const [fieldName, resolve] of Object.entries(fields)) {
+      // GraphQL valida el origen y los argumentos antes de llamar al resolver
+      type.getFields()[fieldName].resolve = resolve as Resolver<
+        unknown,
+        unknown
+      >;
+    }
+  }
+
+  (schema.getType("Client") as GraphQLUnionType).resolveType = (client) =>
+    client instanceof HunterModel ? "Hunter" : "Merchant";
+
+  const dateTime = schema.getType("DateTime") as GraphQLScalarType;
+  dateTime.serialize = (value) => new Date(value as Date).toISOString();
+  dateTime.parseValue = (value) => {
+    if (typeof value !== "string" || isNaN(Date.parse(value))) {
+      throw new ValidationError(`La fecha ${String(value)} no es válida`);
+    }
+    return value;
+  };
+  dateTime.parseLiteral = (node, variables) =>
+    dateTime.parseValue(valueFromASTUntyped(node, variables));
+
+  return schema;
+}
+
+/**
+ * Esquema GraphQL ejecutable de la API (ver `graphqlRouter`).
+ */
+export const schema = buildExecutableSchema();
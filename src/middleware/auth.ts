@@ -0,0 +1,146 @@
+import { NextFunction, Request, Response } from "express";
+import { Types } from "mongoose";
+import { ForbiddenError, UnauthorizedError } from "../errors.js";
+import { NOT_DELETED } from "../models/softDelete.js";
+import { Role, TokenClaims, verifyToken } from "../utils/tokens.js";
+
+declare module "express-serve-static-core" {
+  interface Request {
+    /** Datos del token de acceso (los fija `authenticate`) */
+    auth?: TokenClaims;
+    /** Documento que modifica la ruta (lo fija `authorizeOwner`) */
+    target?: Types.ObjectId | null;
+  }
+}
+
+/**
+ * Exige un token de acceso válido en la cabecera `Authorization`.
+ *
+ * @remarks
+ * El token se envía como `Authorization: Bearer <token>` y se verifica con
+ * el secreto local (`AUTH_SECRET`). Sus datos quedan en `req.auth`.
+ *
+ * @param req - Express Request
+ * @param _res - Express Response
+ * @param next - Siguiente middleware
+ * @throws UnauthorizedError - Si falta el token o no es válido
+ */
+export function authenticate(req: Request, _res: Response, next: NextFunction) {
+  const [scheme, token] = (req.get("Authorization") ?? "").split(" ");
+  if (scheme?.toLowerCase() !== "bearer" || !token) {
+    throw new UnauthorizedError("Se requiere un token de acceso");
+  }
+  req.auth = verifyToken(token);
+  next();
+}
+
+/**
+ * Restringe una ruta a los roles indicados.
+ *
+ * @param roles - Roles que pueden acceder a la ruta
+ * @returns Middleware de Express
+ *
+ * @example
+ * ```typescript
+ * goodsRouter.delete("/:id", authorize("admin"), handler);
+ * ```
+ */
+export function authorize(...roles: Role[]) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    assertRole(req.auth, ...roles);
+    next();
+  };
+}
+
+/**
+ * Comprueba que el rol del usuario es uno de los indicados.
+ *
+ * @remarks
+ * Es la comprobación de `authorize` para las operaciones que no son rutas
+ * de Express, como las mutaciones de GraphQL.
+ *
+ * @param auth - Datos del token de acceso
+ * @param roles - Roles que pueden realizar la operación
+ * @throws ForbiddenError - Si el rol no está entre los indicados
+ */
+export function assertRole(auth: TokenClaims | undefined, ...roles: Role[]) {
+  if (!auth || !roles.includes(auth.role)) {
+    throw new ForbiddenError("Su rol no permite realizar esta operación");
+  }
+}
+
+/**
+ * Parte (mercader o cazador) a la que se limita el acceso del usuario.
+ *
+ * @param auth - Datos del token de acceso
+ * @returns Identificador de la parte en los roles `merchant` y `hunter`;
+ *   `null` si el rol puede acceder a todos los datos
+ * @throws ForbiddenError - Si el token no indica su parte
+ */
+export function ownParty(auth: TokenClaims | undefined) {
+  if (auth?.role !== "merchant" && auth?.role !== "hunter") return null;
+  if (!auth.party || !Types.ObjectId.isValid(auth.party)) {
+    throw new ForbiddenError("El token no está asociado a ningún documento");
+  }
+  return new Types.ObjectId(auth.party);
+}
+
+/**
+ * Restringe la modificación de un mercader o cazador a los administradores
+ * y a su propio usuario.
+ *
+ * @remarks
+ * El documento se busca una sola vez, entre los no eliminados, por el
+ * parámetro `:id` o por `?name=`, y su `_id` queda en `req.target` para
+ * que la ruta lo modifique por identificador y no vuelva a buscarlo por
+ * nombre. Si no existe, `req.target` es `null` y la petición continúa para
+ * que la ruta responda 404. Si se indican `fields`, el dueño solo puede
+ * enviar esos campos en el cuerpo; el resto quedan para los administradores.
+ *
+ * @param role - Rol del dueño (`merchant` o `hunter`)
+ * @param find - Busca el documento con el filtro indicado
+ * @param fields - Campos del cuerpo que puede modificar el dueño
+ * @returns Middleware de Express
+ *
+ * @example
+ * ```typescript
+ * huntersRouter.patch(
+ *   "/:id",
+ *   authorizeOwner("hunter", (filter) => HunterModel.exists(filter), ["email"]),
+ *   handler,
+ * );
+ * ```
+ */
+export function authorizeOwner(
+  role: "merchant" | "hunter",
+  find: (filter: object) => PromiseLike<{ _id: unknown } | null>,
+  fields?: readonly string[],
+) {
+  return async (req: Request, _res: Response, next: NextFunction) => {
+    if (req.auth?.role !== "admin" && req.auth?.role !== role) {
+      throw new ForbiddenError("Su rol no permite realizar esta operación");
+    }
+    const party = ownParty(req.auth);
+
+    const restricted =
+      party && fields
+        ? Object.keys(req.body ?? {}).filter((field) => !fields.includes(field))
+        : [];
+    if (restricted.length) {
+      throw new ForbiddenError(
+        `Solo un administrador puede modificar: ${restricted.join(", ")}`,
+      );
+    }
+    const target = await find({
+      ...(req.params.id
+        ? { _id: req.params.id }
+        : { name: String(req.query.name) }),
+      ...NOT_DELETED,
+    });
+    if (target && party && !party.equals(target._id as Types.ObjectId)) {
+      throw new ForbiddenError("Solo puede modificar su propio documento");
+    }
+    req.target = (target?._id as Types.ObjectId | undefined) ?? null;
+    next();
+  };
+}
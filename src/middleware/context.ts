@@ -0,0 +1,37 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { NextFunction, Request, Response } from "express";
+
+/**
+ * Petición en curso, accesible desde cualquier función asíncrona que se
+ * ejecute al atenderla (p. ej. los middleware de Mongoose).
+ */
+const storage = new AsyncLocalStorage<Request>();
+
+/**
+ * Asocia la petición al contexto asíncrono en el que se atiende.
+ *
+ * @remarks
+ * Debe registrarse después de `express.json()`: el parser lee el cuerpo de
+ * forma asíncrona y no conserva el contexto.
+ *
+ * @param req - Express Request
+ * @param _res - Express Response
+ * @param next - Siguiente middleware
+ */
+export function requestContext(
+  req: Request,
+  _res: Response,
+  next: NextFunction,
+) {
+  storage.run(req, next);
+}
+
+/**
+ * Devuelve la petición que se está atendiendo.
+ *
+ * @returns Petición en curso, o `undefined` fuera de una petición (p. ej. en
+ *   las migraciones)
+ */
+export function currentRequest() {
+  return storage.getStore();
+}
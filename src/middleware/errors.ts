@@ -0,0 +1,167 @@
+import { STATUS_CODES } from "node:http";
+import { NextFunction, Request, Response } from "express";
+import { Error as MongooseError } from "mongoose";
+import {
+  ApiError,
+  ConflictError,
+  FieldError,
+  ReferencedError,
+  ValidationError,
+} from "../errors.js";
+
+/**
+ * Cuerpo de las respuestas de error (RFC 7807, `application/problem+json`).
+ */
+export interface Problem {
+  /** Tipo de problema (`about:blank`: se describe con `status` y `code`) */
+  type: string;
+  /** Frase del código HTTP */
+  title: string;
+  /** Código HTTP */
+  status: number;
+  /** Descripción del error concreto */
+  detail: string;
+  /** Código de error estable (ver `ErrorCode`) */
+  code: ApiError["code"];
+  /** Ruta de la petición que produjo el error */
+  instance: string;
+  /** Errores de cada campo, en los errores de validación */
+  errors?: FieldError[];
+  /** Transacciones que impiden eliminar el documento (`REFERENCED`) */
+  transactions?: string[];
+}
+
+/**
+ * Convierte los errores de validación de Mongoose en errores de campo del
+ * cuerpo (p. ej. las validaciones personalizadas de los esquemas, como el
+ * email, que no cubren los esquemas de las rutas).
+ *
+ * @param err - Error de validación de Mongoose
+ * @returns Errores de campo
+ */
+function mongooseFieldErrors(err: MongooseError.ValidationError): FieldError[] {
+  return Object.entries(err.errors).map(([field, error]) => ({
+    location: "body",
+    field,
+    message: error.message,
+  }));
+}
+
+/**
+ * Traduce cualquier error capturado a un `ApiError`.
+ *
+ * @param err - Error capturado
+ * @returns Error de la API equivalente (500 si no es un error conocido)
+ */
+export function toApiError(err: unknown): ApiError {
+  if (err instanceof ApiError) return err;
+  if (err instanceof MongooseError.ValidationError) {
+    return new ValidationError(
+      "La petición no es válida",
+      mongooseFieldErrors(err),
+    );
+  }
+  if (err instanceof MongooseError.VersionError) {
+    return new ConflictError(
+      "El documento se modificó a la vez desde otra petición",
+    );
+  }
+  if (err instanceof MongooseError.CastError) {
+    return ValidationError.field("body", err.path, err.message);
+  }
+  const { type, code, status } = (err ?? {}) as {
+    type?: string;
+    code?: number;
+    status?: number;
+  };
+  if (type === "entity.parse.failed") {
+    return new ApiError(
+      400,
+      "MALFORMED_BODY",
+      "El cuerpo no es un JSON válido",
+    );
+  }
+  if (type === "entity.too.large" || status === 413) {
+    return new ApiError(
+      413,
+      "PAYLOAD_TOO_LARGE",
+      "El cuerpo supera el tamaño máximo admitido",
+    );
+  }
+  if (code === 11000) {
+    return new ConflictError("Ya existe un documento con esos datos");
+  }
+  return new ApiError(500, "INTERNAL_ERROR", "Error interno del servidor");
+}
+
+/**
+ * Traduce un error capturado a un `ApiError` y registra los desconocidos.
+ *
+ * @remarks
+ * Los errores que no son de la API y se responden como 500 se escriben en
+ * el log con todos sus detalles, que no se exponen al cliente. Lo usan el
+ * manejador de errores de la API, el endpoint GraphQL y `idempotency` al
+ * guardar las respuestas.
+ *
+ * @param err - Error capturado
+ * @returns Error de la API equivalente (ver `toApiError`)
+ */
+export function reportError(err: unknown): ApiError {
+  const error = toApiError(err);
+  if (error.status >= 500 && !(err instanceof ApiError)) console.error(err);
+  return error;
+}
+
+/**
+ * Construye el cuerpo `application/problem+json` de un error.
+ *
+ * @param error - Error de la API
+ * @param instance - Ruta de la petición
+ * @returns Cuerpo de la respuesta
+ */
+export function problem(error: ApiError, instance: string): Problem {
+  return {
+    type: "about:blank",
+    title: STATUS_CODES[error.status] ?? "Error",
+    status: error.status,
+    detail: error.message,
+    code: error.code,
+    instance,
+    ...(error instanceof ValidationError ? { errors: error.errors } : {}),
+    ...(error instanceof ReferencedError
+      ? { transactions: error.transactions }
+      : {}),
+  };
+}
+
+/**
+ * Manejador de errores de la aplicación.
+ *
+ * @remarks
+ * Recibe los errores lanzados (o rechazados) por cualquier ruta y responde
+ * con `application/problem+json` (y la cabecera `WWW-Authenticate` en los
+ * 401). Los errores desconocidos se registran y se responden como 500 sin
+ * exponer sus detalles (ver `reportError`).
+ *
+ * @param err - Error capturado
+ * @param req - Express Request
+ * @param res - Express Response
+ * @param next - Siguiente manejador (si la respuesta ya se envió)
+ */
+export function errorHandler(
+  err: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+  const error = reportError(err);
+  if (error.status === 401) res.set("WWW-Authenticate", "Bearer");
+  res
+    .status(error.status)
+    .type("application/problem+json")
+    .json(problem(error, req.originalUrl));
+}
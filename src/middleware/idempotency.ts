@@ -0,0 +1,168 @@
+import { createHash } from "node:crypto";
+import { NextFunction, Request, Response } from "express";
+import {
+  ConflictError,
+  IdempotencyKeyReusedError,
+  ValidationError,
+} from "../errors.js";
+import { IdempotencyKeyModel } from "../models/idempotency.js";
+import { reportError } from "./errors.js";
+
+/** Longitud máxima de la cabecera `Idempotency-Key` */
+export const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+
+/**
+ * Configuración de las claves de idempotencia.
+ *
+ * @remarks
+ * Es modificable para poder ajustarla en las pruebas.
+ */
+export const idempotencyOptions = {
+  /** Tiempo durante el que se reenvía la respuesta original (ms) */
+  retention: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Serializa un valor en JSON con las claves de los objetos ordenadas, de
+ * modo que dos cuerpos equivalentes producen el mismo texto.
+ *
+ * @param value - Valor a serializar
+ * @returns JSON canónico
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value !== null && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`,
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Huella de una petición: SHA-256 del método, la ruta (con la query string)
+ * y el cuerpo.
+ *
+ * @param req - Express Request
+ * @returns Huella en hexadecimal
+ */
+export function requestFingerprint(req: Request) {
+  return createHash("sha256")
+    .update(`${req.method} ${req.originalUrl}\n${canonicalJson(req.body)}`)
+    .digest("hex");
+}
+
+/**
+ * Hace idempotentes las peticiones `POST` que incluyen la cabecera
+ * `Idempotency-Key`.
+ *
+ * @remarks
+ * La primera petición con una clave se atiende normalmente y su respuesta se
+ * guarda junto con la huella de la petición (ver `requestFingerprint`).
+ * Durante `idempotencyOptions.retention`, las peticiones del mismo usuario
+ * con la misma clave:
+ * - Si son idénticas, reciben la respuesta original (con la cabecera
+ *   `Idempotent-Replayed: true`) sin volver a ejecutarse.
+ * - Si la original aún se está atendiendo, reciben un 409.
+ * - Si son distintas (otra ruta u otro cuerpo), reciben un 422.
+ *
+ * Las respuestas 5xx no se guardan, de modo que la petición se puede
+ * reintentar con la misma clave. Solo se guardan las respuestas JSON
+ * (`res.json`). Debe registrarse después de `authenticate`.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @param next - Siguiente middleware
+ * @throws ValidationError - Si la clave está vacía o es demasiado larga
+ * @throws ConflictError - Si la petición original aún se está atendiendo
+ * @throws IdempotencyKeyReusedError - Si la clave se usó con otra petición
+ *
+ * @example
+ * ```http
+ * POST /transactions
+ * Idempotency-Key: 5f1c2a9e-8d7b-4c3e-9a61-0b2f7e4d8c15
+ * ```
+ */
+export async function idempotency(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const key = req.get("Idempotency-Key");
+  if (req.method !== "POST" || key === undefined) {
+    next();
+    return;
+  }
+  if (!key.trim() || key.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+    throw new ValidationError(
+      `La cabecera Idempotency-Key debe tener entre 1 y ${IDEMPOTENCY_KEY_MAX_LENGTH} caracteres`,
+    );
+  }
+
+  const user = req.auth?.sub ?? "";
+  const fingerprint = requestFingerprint(req);
+  const now = new Date();
+  const inProgress = new ConflictError(
+    "La petición con esta clave de idempotencia aún se está procesando",
+  );
+
+  const existing = await IdempotencyKeyModel.findOne({ user, key });
+  if (existing && existing.expiresAt > now) {
+    if (existing.fingerprint !== fingerprint) {
+      throw new IdempotencyKeyReusedError(
+        "La clave de idempotencia ya se usó con una petición distinta",
+      );
+    }
+    if (existing.status === "pending" || !existing.response) throw inProgress;
+
+    const { status, contentType, body } = existing.response;
+    res
+      .status(status)
+      .type(contentType)
+      .set("Idempotent-Replayed", "true")
+      .json(body);
+    return;
+  }
+  // Caducada, pero MongoDB aún no la ha eliminado
+  if (existing) await existing.deleteOne();
+
+  const record = await IdempotencyKeyModel.create({
+    key,
+    user,
+    fingerprint,
+    expiresAt: new Date(now.getTime() + idempotencyOptions.retention),
+  }).catch((err: unknown) => {
+    // Otra petición con la misma clave se adelantó
+    if ((err as { code?: number }).code === 11000) throw inProgress;
+    throw err;
+  });
+
+  // La respuesta se envía cuando ya está guardada, para que un reintento
+  // inmediato la encuentre
+  let responded = false;
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    responded = true;
+    const saved =
+      res.statusCode >= 500
+        ? record.deleteOne()
+        : record.updateOne({
+            status: "completed",
+            response: {
+              status: res.statusCode,
+              contentType: res.get("Content-Type") ?? "application/json",
+              body: JSON.parse(JSON.stringify(body ?? null)),
+            },
+          });
+    void saved.catch(reportError).then(() => json(body));
+    return res;
+  };
+  res.on("close", () => {
+    if (!responded) void record.deleteOne().catch(() => undefined);
+  });
+  next();
+}
@@ -0,0 +1,277 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { FieldError, RequestLocation, ValidationError } from "../errors.js";
+import { JsonSchema, OBJECT_ID_PATTERN } from "../openapi/schemas.js";
+
+/**
+ * Esquemas declarativos (JSON Schema) de las partes de una petición.
+ */
+export interface RequestSchema {
+  /** Esquema del cuerpo */
+  body?: JsonSchema;
+  /** Esquema de los parámetros de ruta */
+  params?: JsonSchema;
+  /** Esquema de la query string */
+  query?: JsonSchema;
+}
+
+/**
+ * Tipo JSON de un valor.
+ *
+ * @param value - Valor a comprobar
+ * @returns Tipo JSON (`integer` incluido en `number`)
+ */
+function jsonType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Comprueba si un valor es del tipo JSON indicado.
+ *
+ * @param value - Valor a comprobar
+ * @param type - Tipo de JSON Schema
+ * @returns `true` si el valor es de ese tipo
+ */
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "object":
+      return jsonType(value) === "object";
+    default:
+      return jsonType(value) === type;
+  }
+}
+
+/**
+ * Convierte un texto de la query string o de la ruta al tipo esperado.
+ *
+ * @param value - Valor recibido
+ * @param types - Tipos admitidos por el esquema
+ * @returns Valor convertido, o el original si no se puede convertir
+ */
+function coerce(value: unknown, types: string[]): unknown {
+  if (typeof value !== "string") return value;
+  if (
+    (types.includes("number") || types.includes("integer")) &&
+    value.trim() !== "" &&
+    Number.isFinite(Number(value))
+  ) {
+    return Number(value);
+  }
+  if (types.includes("boolean") && (value === "true" || value === "false")) {
+    return value === "true";
+  }
+  return value;
+}
+
+/**
+ * Valida un valor contra un esquema, acumulando los errores encontrados.
+ *
+ * @remarks
+ * Se admite el subconjunto de JSON Schema que generan los esquemas de
+ * Mongoose y las rutas: `type`, `enum`, `minimum`, `maximum`, `minLength`,
+ * `maxLength`, `pattern`, `format: date-time`, `items`, `minItems`,
+ * `properties`, `required`, `additionalProperties: false`, `minProperties`
+ * y `anyOf`.
+ *
+ * @param schema - Esquema del valor
+ * @param value - Valor a validar
+ * @param field - Ruta del campo
+ * @param location - Parte de la petición
+ * @param errors - Lista en la que acumular los errores
+ */
+function check(
+  schema: JsonSchema,
+  value: unknown,
+  field: string,
+  location: RequestLocation,
+  errors: FieldError[],
+) {
+  const fail = (message: string) => errors.push({ location, field, message });
+  const types = ([] as string[]).concat((schema.type as string) ?? []);
+  if (location !== "body") value = coerce(value, types);
+
+  if (types.length && !types.some((type) => hasType(value, type))) {
+    fail(`Debe ser de tipo ${types.join(" o ")}`);
+    return;
+  }
+  if (value === null) return;
+
+  const values = schema.enum as unknown[] | undefined;
+  if (values && !values.includes(value)) {
+    fail(`Debe ser uno de: ${values.join(", ")}`);
+    return;
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      fail(`Debe ser mayor o igual que ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      fail(`Debe ser menor o igual que ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (
+      typeof schema.minLength === "number" &&
+      value.length < schema.minLength
+    ) {
+      fail(`Debe tener al menos ${schema.minLength} caracteres`);
+    }
+    if (
+      typeof schema.maxLength === "number" &&
+      value.length > schema.maxLength
+    ) {
+      fail(`Debe tener como máximo ${schema.maxLength} caracteres`);
+    }
+    if (
+      typeof schema.pattern === "string" &&
+      !new RegExp(schema.pattern).test(value)
+    ) {
+      fail(
+        schema.pattern === OBJECT_ID_PATTERN
+          ? "No es un identificador válido"
+          : "No tiene un formato válido",
+      );
+    }
+    if (schema.format === "date-time" && isNaN(Date.parse(value))) {
+      fail("Debe ser una fecha válida");
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      fail(`Debe contener al menos ${schema.minItems} elemento(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) =>
+        check(
+          schema.items as JsonSchema,
+          item,
+          join(field, String(i)),
+          location,
+          errors,
+        ),
+      );
+    }
+  }
+
+  if (jsonType(value) === "object") {
+    const object = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    const keys = Object.keys(object);
+
+    if (
+      typeof schema.minProperties === "number" &&
+      keys.length < schema.minProperties
+    ) {
+      fail(`Debe indicar al menos ${schema.minProperties} campo(s)`);
+    }
+    for (const name of (schema.required ?? []) as string[]) {
+      if (object[name] === undefined || object[name] === "") {
+        errors.push({
+          location,
+          field: join(field, name),
+          message: "El campo es obligatorio",
+        });
+      }
+    }
+    for (const name of keys) {
+      if (properties[name]) {
+        if (object[name] !== undefined) {
+          check(
+            properties[name],
+            object[name],
+            join(field, name),
+            location,
+            errors,
+          );
+        }
+      } else if (schema.additionalProperties === false) {
+        errors.push({
+          location,
+          field: join(field, name),
+          message: "Campo no permitido",
+        });
+      }
+    }
+  }
+
+  const alternatives = schema.anyOf as JsonSchema[] | undefined;
+  if (alternatives) {
+    const results = alternatives.map((alternative) => {
+      const found: FieldError[] = [];
+      check(alternative, value, field, location, found);
+      return found;
+    });
+    if (results.every((found) => found.length)) errors.push(...results[0]);
+  }
+}
+
+/**
+ * Une la ruta de un campo con el nombre de un hijo.
+ *
+ * @param parent - Ruta del campo padre
+ * @param child - Nombre del hijo
+ * @returns Ruta completa
+ */
+const join = (parent: string, child: string) =>
+  parent ? `${parent}.${child}` : child;
+
+/**
+ * Valida las partes de una petición contra sus esquemas.
+ *
+ * @param schema - Esquemas de la petición
+ * @param req - Petición a validar
+ * @returns Errores encontrados (vacío si es válida)
+ */
+export function validateRequest(
+  schema: RequestSchema,
+  req: Record<RequestLocation, unknown>,
+): FieldError[] {
+  const errors: FieldError[] = [];
+  for (const location of ["params", "query", "body"] as const) {
+    const part = schema[location];
+    if (part) check(part, req[location] ?? {}, "", location, errors);
+  }
+  return errors;
+}
+
+/**
+ * Middleware que valida el cuerpo, los parámetros y la query string de la
+ * petición antes de llegar a la ruta.
+ *
+ * @remarks
+ * Si la petición no es válida pasa un `ValidationError` (400) con los errores
+ * de cada campo al manejador de errores, sin llegar a consultar la base de
+ * datos.
+ *
+ * @param schema - Esquemas de la petición
+ * @returns Middleware de Express
+ *
+ * @example
+ * ```typescript
+ * goodsRouter.get("/:id", validate({ params: idParams }), handler);
+ * ```
+ */
+export function validate<P, ResBody, ReqBody, ReqQuery>(
+  schema: RequestSchema,
+): RequestHandler<P, ResBody, ReqBody, ReqQuery> {
+  return (
+    req: Request<P, ResBody, ReqBody, ReqQuery>,
+    _res: Response,
+    next: NextFunction,
+  ) => {
+    const errors = validateRequest(schema, req);
+    next(
+      errors.length
+        ? new ValidationError("La petición no es válida", errors)
+        : undefined,
+    );
+  };
+}
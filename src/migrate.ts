@@ -0,0 +1,14 @@
+import mongoose from "mongoose";
+import { connectMongoose } from "./db/mongoose.js";
+import { runMigrations } from "./db/migrations.js";
+
+async function main() {
+  await connectMongoose();
+  await runMigrations();
+  await mongoose.disconnect();
+}
+
+main().catch((err) => {
+  console.error("Error ejecutando migraciones:", err);
+  process.exit(1);
+});
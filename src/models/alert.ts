@@ -0,0 +1,175 @@
+import { ClientSession, Document, model, Schema, Types } from "mongoose";
+import { publishAfterCommit } from "../utils/events.js";
+import { GoodDocument } from "./good.js";
+import { InventoryModel } from "./inventory.js";
+import { MerchantModel } from "./merchant.js";
+import { NOT_DELETED } from "./softDelete.js";
+
+/**
+ * Transacción sugerida para reponer un bien: una venta de un mercader a la
+ * posada, con el mismo formato que el cuerpo de `POST /transactions`.
+ */
+export interface RestockSuggestion {
+  /** Siempre `sale`: la posada compra a un mercader */
+  type: "sale";
+  /**
+   * Mercader con más unidades del bien en su inventario (se omite si ningún
+   * mercader lo tiene)
+   */
+  sellerName?: string;
+  /** Bien y unidades a reponer */
+  items: Array<{ goodName: string; quantity: number }>;
+}
+
+/**
+ * Interfaz que representa una alerta de stock bajo.
+ */
+export interface StockAlertDocument extends Document {
+  /** Bien que ha quedado por debajo de su nivel de reposición */
+  good: Types.ObjectId | GoodDocument;
+  /** Transacción que ha provocado la alerta */
+  transaction: Types.ObjectId | null;
+  /** Stock de la posada tras la transacción */
+  stock: number;
+  /** Nivel de reposición del bien en ese momento */
+  reorderLevel: number;
+  /** Transacción sugerida para reponer el bien */
+  suggestion: RestockSuggestion;
+  /** Momento de la alerta */
+  createdAt: Date;
+}
+
+/**
+ * Esquema de Mongoose de las alertas de stock bajo.
+ */
+const stockAlertSchema = new Schema<StockAlertDocument>(
+  {
+    good: { type: Schema.Types.ObjectId, ref: "Good", required: true },
+    transaction: {
+      type: Schema.Types.ObjectId,
+      ref: "Transaction",
+      default: null,
+    },
+    stock: { type: Number, required: true },
+    reorderLevel: { type: Number, required: true },
+    suggestion: {
+      type: { type: String, enum: ["sale"], required: true },
+      sellerName: String,
+      items: [
+        {
+          _id: false,
+          goodName: { type: String, required: true },
+          quantity: { type: Number, required: true },
+        },
+      ],
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+  },
+);
+
+stockAlertSchema.index({ good: 1, createdAt: -1 });
+
+/**
+ * Modelo de Mongoose para la colección de alertas de stock bajo.
+ */
+export const StockAlertModel = model<StockAlertDocument>(
+  "StockAlert",
+  stockAlertSchema,
+);
+
+/**
+ * Indica si el stock de un bien está por debajo de su nivel de reposición.
+ *
+ * @param good - Bien
+ * @returns `true` si tiene nivel de reposición y el stock es inferior
+ */
+export const isLowStock = (good: GoodDocument) =>
+  good.reorderLevel > 0 && good.stock < good.reorderLevel;
+
+/**
+ * Calcula la transacción sugerida para reponer un bien.
+ *
+ * @remarks
+ * Se reponen `reorderQuantity` unidades o, si no bastan, las necesarias para
+ * volver al nivel de reposición. El vendedor sugerido es el mercader (no
+ * eliminado) con más unidades del bien en su inventario.
+ *
+ * @param good - Bien a reponer
+ * @param session - Sesión de MongoDB en la que se ejecuta la consulta
+ * @returns Transacción sugerida
+ */
+export async function restockSuggestion(
+  good: GoodDocument,
+  session: ClientSession | null = null,
+): Promise<RestockSuggestion> {
+  const quantity = Math.max(
+    good.reorderQuantity,
+    good.reorderLevel - good.stock,
+    1,
+  );
+  const lines = await InventoryModel.find({
+    good: good._id,
+    quantity: { $gt: 0 },
+  })
+    .sort({ quantity: -1, _id: 1 })
+    .session(session);
+
+  for (const line of lines) {
+    const merchant = await MerchantModel.findOne({
+      _id: line.merchant,
+      ...NOT_DELETED,
+    }).session(session);
+    if (merchant) {
+      return {
+        type: "sale",
+        sellerName: merchant.name,
+        items: [{ goodName: good.name, quantity }],
+      };
+    }
+  }
+  return { type: "sale", items: [{ goodName: good.name, quantity }] };
+}
+
+/**
+ * Registra una alerta si el stock de un bien acaba de bajar de su nivel de
+ * reposición.
+ *
+ * @remarks
+ * Solo hay alerta cuando el stock cruza el nivel (antes estaba en él o por
+ * encima), de modo que las compras sucesivas de un bien que ya estaba bajo
+ * no repiten la alerta. La alerta se guarda en la misma sesión que la
+ * transacción y el evento `good.stock_low` se emite al confirmarse (ver
+ * `publishAfterCommit`).
+ *
+ * @param good - Bien con el stock ya actualizado
+ * @param previousStock - Stock anterior a la transacción
+ * @param transaction - Identificador de la transacción, si se conoce
+ * @param session - Sesión de MongoDB de la transacción
+ * @returns Alerta registrada, o `null` si no hay alerta
+ */
+export async function checkReorderLevel(
+  good: GoodDocument,
+  previousStock: number,
+  transaction: Types.ObjectId | null,
+  session: ClientSession | null,
+): Promise<StockAlertDocument | null> {
+  if (!isLowStock(good) || previousStock < good.reorderLevel) return null;
+
+  const [alert] = await StockAlertModel.create(
+    [
+      {
+        good: good._id,
+        transaction,
+        stock: good.stock,
+        reorderLevel: good.reorderLevel,
+        suggestion: await restockSuggestion(good, session),
+      },
+    ],
+    { session },
+  );
+  publishAfterCommit("good.stock_low", alert, session);
+  return alert;
+}
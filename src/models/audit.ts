@@ -0,0 +1,346 @@
+import {
+  ClientSession,
+  Document,
+  model,
+  Model,
+  Query,
+  Schema,
+  Types,
+} from "mongoose";
+import { currentRequest } from "../middleware/context.js";
+import { Role } from "../utils/tokens.js";
+import { VERSION_KEY } from "./versioning.js";
+
+/**
+ * Tipos de documento auditados.
+ */
+export const AUDIT_ENTITIES = [
+  "good",
+  "hunter",
+  "merchant",
+  "transaction",
+  "inventory",
+] as const;
+
+/**
+ * Tipo de documento auditado (ver `AUDIT_ENTITIES`).
+ */
+export type AuditEntity = (typeof AUDIT_ENTITIES)[number];
+
+/**
+ * Operación registrada en el historial.
+ */
+export type AuditAction = "create" | "update" | "delete";
+
+/**
+ * Interfaz que representa una entrada del historial de cambios.
+ */
+export interface AuditEntryDocument extends Document {
+  /** Usuario que hizo el cambio (`null` si no viene de una petición) */
+  actor: { sub: string; role: Role } | null;
+  /** Método HTTP de la petición */
+  method?: string;
+  /** Ruta de la petición */
+  route?: string;
+  /** Tipo de documento modificado */
+  entity: AuditEntity;
+  /** Identificador del documento modificado */
+  entityId: Types.ObjectId;
+  /** Operación realizada */
+  action: AuditAction;
+  /** Documento antes del cambio (`null` al crear) */
+  before: Record<string, unknown> | null;
+  /** Documento después del cambio (`null` al eliminar) */
+  after: Record<string, unknown> | null;
+  /** Campos que cambian entre `before` y `after` */
+  changes: string[];
+  /** Momento del cambio */
+  timestamp: Date;
+}
+
+/**
+ * Esquema de Mongoose de las entradas del historial de cambios.
+ */
+const auditEntrySchema = new Schema<AuditEntryDocument>(
+  {
+    actor: {
+      type: new Schema(
+        { sub: String, role: String },
+        { _id: false, versionKey: false },
+      ),
+      default: null,
+    },
+    method: String,
+    route: String,
+    entity: { type: String, enum: AUDIT_ENTITIES, required: true },
+    entityId: { type: Schema.Types.ObjectId, required: true },
+    action: {
+      type: String,
+      enum: ["create", "update", "delete"],
+      required: true,
+    },
+    before: { type: Schema.Types.Mixed, default: null },
+    after: { type: Schema.Types.Mixed, default: null },
+    changes: { type: [String], default: [] },
+    timestamp: { type: Date, default: Date.now },
+  },
+  { versionKey: false, minimize: false },
+);
+
+auditEntrySchema.index({ entity: 1, entityId: 1, timestamp: -1 });
+auditEntrySchema.index({ timestamp: -1 });
+
+/**
+ * Modelo de Mongoose para la colección del historial de cambios.
+ */
+export const AuditEntryModel = model<AuditEntryDocument>(
+  "AuditEntry",
+  auditEntrySchema,
+);
+
+/** Documento plano tal y como se guarda en el historial */
+type Snapshot = Record<string, unknown> & { _id: Types.ObjectId };
+
+/**
+ * Datos de un cambio que se recogen antes de ejecutarlo.
+ */
+interface PendingChange {
+  /** Petición que origina el cambio */
+  context: ReturnType<typeof currentRequest>;
+  /** Documento antes del cambio */
+  before: Snapshot | null;
+}
+
+/** Cambios pendientes de las consultas de actualización y borrado */
+const pendingQueries = new WeakMap<object, PendingChange>();
+
+/**
+ * Datos de un cambio sobre varios documentos (`updateMany`, `deleteMany`).
+ */
+interface PendingBulkChange {
+  /** Petición que origina el cambio */
+  context: ReturnType<typeof currentRequest>;
+  /** Documentos que cumplen el filtro antes del cambio */
+  before: Snapshot[];
+}
+
+/** Cambios pendientes de las consultas sobre varios documentos */
+const pendingBulkQueries = new WeakMap<object, PendingBulkChange>();
+
+/** Campos que no se comparan al calcular los cambios */
+const IGNORED_FIELDS = ["updatedAt", VERSION_KEY];
+
+/**
+ * Campos de primer nivel que cambian entre dos versiones de un documento.
+ *
+ * @param before - Documento antes del cambio
+ * @param after - Documento después del cambio
+ * @returns Nombres de los campos modificados
+ */
+export function changedFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+) {
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+  return [...fields].filter(
+    (field) =>
+      !IGNORED_FIELDS.includes(field) &&
+      JSON.stringify(before?.[field]) !== JSON.stringify(after?.[field]),
+  );
+}
+
+/**
+ * Guarda una entrada en el historial dentro de la sesión del cambio.
+ *
+ * @param entity - Tipo de documento
+ * @param change - Petición y documento antes del cambio
+ * @param after - Documento después del cambio
+ * @param session - Sesión de MongoDB del cambio
+ */
+async function record(
+  entity: AuditEntity,
+  { context, before }: PendingChange,
+  after: Snapshot | null,
+  session: ClientSession | null,
+) {
+  const action: AuditAction = !before ? "create" : after ? "update" : "delete";
+  const changes = changedFields(before, after);
+  if (action === "update" && changes.length === 0) return;
+
+  const auth = context?.auth;
+  await AuditEntryModel.create(
+    [
+      {
+        actor: auth ? { sub: auth.sub, role: auth.role } : null,
+        method: context?.method,
+        route: context?.originalUrl,
+        entity,
+        entityId: (after ?? before)!._id,
+        action,
+        before,
+        after,
+        changes,
+      },
+    ],
+    { session },
+  );
+}
+
+/**
+ * Plugin de Mongoose que registra en el historial cada creación,
+ * modificación y borrado de los documentos del esquema.
+ *
+ * @remarks
+ * Cubre `save`, `updateOne`, `updateMany`, `findOneAndUpdate` (y
+ * `findByIdAndUpdate`), `findOneAndDelete` (y `findByIdAndDelete`),
+ * `deleteMany` y `deleteOne` sobre un documento. En `updateMany` y
+ * `deleteMany` se registra una entrada por cada documento afectado. La
+ * entrada se guarda en la misma sesión que el cambio, por lo
+ * que se descarta si la transacción se aborta. El usuario y la ruta se toman
+ * de la petición en curso (ver `requestContext`).
+ *
+ * @param entity - Tipo de documento con el que se registran los cambios
+ * @returns Plugin para `schema.plugin`
+ *
+ * @example
+ * ```typescript
+ * goodSchema.plugin(auditPlugin("good"));
+ * ```
+ */
+export function auditPlugin(entity: AuditEntity) {
+  return (schema: Schema) => {
+    schema.pre("save", async function () {
+      const model = this.constructor as Model<unknown>;
+      this.$locals.audit = {
+        context: currentRequest(),
+        before: this.isNew
+          ? null
+          : await model
+              .findById(this._id)
+              .session(this.$session())
+              .lean<Snapshot>(),
+      };
+    });
+
+    schema.post("save", async function () {
+      const change = this.$locals.audit as PendingChange;
+      await record(
+        entity,
+        change,
+        this.toObject() as Snapshot,
+        this.$session(),
+      );
+    });
+
+    schema.pre("deleteOne", { document: true, query: false }, function () {
+      this.$locals.audit = {
+        context: currentRequest(),
+        before: this.toObject() as Snapshot,
+      };
+    });
+
+    schema.post(
+      "deleteOne",
+      { document: true, query: false },
+      async function () {
+        const change = this.$locals.audit as PendingChange;
+        await record(entity, change, null, this.$session());
+      },
+    );
+
+    schema.pre(
+      ["updateOne", "findOneAndUpdate", "findOneAndDelete"],
+      { document: false, query: true },
+      async function (this: Query<unknown, unknown>) {
+        const context = currentRequest();
+        const before = await this.model
+          .findOne(this.getFilter())
+          .session(this.getOptions().session ?? null)
+          .lean<Snapshot>();
+        pendingQueries.set(this, { context, before });
+      },
+    );
+
+    schema.post(
+      ["updateOne", "findOneAndUpdate"],
+      { document: false, query: true },
+      async function (this: Query<unknown, unknown>) {
+        const change = pendingQueries.get(this);
+        if (!change?.before) return;
+        const session = this.getOptions().session ?? null;
+        const after = await this.model
+          .findById(change.before._id)
+          .session(session)
+          .lean<Snapshot>();
+        await record(entity, change, after, session);
+      },
+    );
+
+    schema.post(
+      "findOneAndDelete",
+      { document: false, query: true },
+      async function (this: Query<unknown, unknown>) {
+        const change = pendingQueries.get(this);
+        if (!change?.before) return;
+        await record(entity, change, null, this.getOptions().session ?? null);
+      },
+    );
+
+    schema.pre(
+      ["updateMany", "deleteMany"],
+      { document: false, query: true },
+      async function (this: Query<unknown, unknown>) {
+        const context = currentRequest();
+        const before = await this.model
+          .find(this.getFilter())
+          .session(this.getOptions().session ?? null)
+          .lean<Snapshot[]>();
+        pendingBulkQueries.set(this, { context, before });
+      },
+    );
+
+    schema.post(
+      "updateMany",
+      { document: false, query: true },
+      async function (this: Query<unknown, unknown>) {
+        const change = pendingBulkQueries.get(this);
+        if (!change?.before.length) return;
+        const session = this.getOptions().session ?? null;
+        const after = await this.model
+          .find({ _id: { $in: change.before.map((doc) => doc._id) } })
+          .session(session)
+          .lean<Snapshot[]>();
+        const afterById = new Map(after.map((doc) => [String(doc._id), doc]));
+        for (const before of change.before) {
+          await record(
+            entity,
+            { context: change.context, before },
+            afterById.get(String(before._id)) ?? null,
+            session,
+          );
+        }
+      },
+    );
+
+    schema.post(
+      "deleteMany",
+      { document: false, query: true },
+      async function (this: Query<unknown, unknown>) {
+        const change = pendingBulkQueries.get(this);
+        if (!change) return;
+        const session = this.getOptions().session ?? null;
+        for (const before of change.before) {
+          await record(
+            entity,
+            { context: change.context, before },
+            null,
+            session,
+          );
+        }
+      },
+    );
+  };
+}
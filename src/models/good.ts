@@ -1,5 +1,8 @@
 import { Document, model, Schema } from "mongoose";
 import validator from "validator";
+import { auditPlugin } from "./audit.js";
+import { versioningPlugin } from "./versioning.js";
+import { softDeletePlugin } from "./softDelete.js";
 
 /**
  * Interfaz que representa un documento de Bien en la base de datos.
@@ -18,8 +21,16 @@ export interface GoodDocument extends Document {
   weight: number;
   /** Valor monetario del bien (no puede ser negativo) */
   value: number;
-  /** Cantidad disponible en inventario (no puede ser negativo) */
+  /** Cantidad disponible en el stock de la posada (no puede ser negativo) */
   stock: number;
+  /** Stock por debajo del cual hay que reponer el bien (`0` desactiva las alertas) */
+  reorderLevel: number;
+  /** Unidades que se reponen cada vez */
+  reorderQuantity: number;
+  /** Fecha de borrado lógico (`null` si el bien no está eliminado) */
+  deletedAt: Date | null;
+  /** Versión del documento, que aumenta con cada cambio (ver `versioningPlugin`) */
+  version: number;
 }
 
 /**
@@ -83,13 +94,46 @@ const goodSchema = new Schema<GoodDocument>(
       min: [0, "El stock no puede ser negativo"],
       default: 0,
     },
+    reorderLevel: {
+      type: Number,
+      min: [0, "El nivel de reposición no puede ser negativo"],
+      default: 0,
+    },
+    reorderQuantity: {
+      type: Number,
+      min: [0, "La cantidad de reposición no puede ser negativa"],
+      default: 0,
+    },
   },
   {
     timestamps: true,
-    versionKey: false,
   },
 );
 
+/**
+ * Índice de texto para la búsqueda (`GET /search` y `q=` en `GET /goods`).
+ */
+goodSchema.index(
+  { name: "text", description: "text" },
+  { weights: { name: 10, description: 1 }, default_language: "spanish" },
+);
+
+/**
+ * Historial de cambios de los documentos (ver `auditPlugin`).
+ */
+goodSchema.plugin(auditPlugin("good"));
+
+/**
+ * Borrado lógico de los documentos (ver `softDeletePlugin`).
+ */
+goodSchema.plugin(softDeletePlugin);
+
+/**
+ * Versión de los documentos para las cabeceras `ETag` e `If-Match` (ver
+ * `versioningPlugin`).
+ */
+goodSchema.plugin(versioningPlugin);
+
 /**
  * Modelo de Mongoose para la colección de Bienes.
  * Proporciona métodos para interactuar con la colección 'goods' en la base de datos.
@@ -1,5 +1,20 @@
 import { Document, model, Schema } from "mongoose";
 import validator from "validator";
+import { auditPlugin } from "./audit.js";
+import { versioningPlugin } from "./versioning.js";
+import { softDeletePlugin } from "./softDelete.js";
+
+/**
+ * Tipos de cazador permitidos.
+ */
+export const HUNTER_TYPES = [
+  "brujo",
+  "caballero",
+  "noble",
+  "bandido",
+  "mercenario",
+  "aldeano",
+] as const;
 
 /**
  * Interfaz que representa un documento de Cazador en la base de datos.
@@ -22,6 +37,10 @@ export interface HunterDocument extends Document {
   email?: string;
   /** Lista de especialidades en tipos de monstruos (mínimo 1 especialidad) */
   monsterSpecialty: string[];
+  /** Fecha de borrado lógico (`null` si el cazador no está eliminado) */
+  deletedAt: Date | null;
+  /** Versión del documento, que aumenta con cada cambio (ver `versioningPlugin`) */
+  version: number;
 }
 
 /**
@@ -46,14 +65,7 @@ const hunterSchema = new Schema<HunterDocument>(
       type: String,
       required: [true, "El tipo es obligatorio"],
       enum: {
-        values: [
-          "brujo",
-          "caballero",
-          "noble",
-          "bandido",
-          "mercenario",
-          "aldeano",
-        ],
+        values: HUNTER_TYPES,
         message: "{VALUE} no es un tipo de cazador permitido",
       },
     },
@@ -99,10 +111,36 @@ const hunterSchema = new Schema<HunterDocument>(
   },
   {
     timestamps: true,
-    versionKey: false,
   },
 );
 
+/**
+ * Índice de texto para la búsqueda (`GET /search` y `q=` en `GET /hunters`).
+ */
+hunterSchema.index(
+  { name: "text", preferredWeapon: "text", monsterSpecialty: "text" },
+  {
+    weights: { name: 10, preferredWeapon: 2, monsterSpecialty: 2 },
+    default_language: "spanish",
+  },
+);
+
+/**
+ * Historial de cambios de los documentos (ver `auditPlugin`).
+ */
+hunterSchema.plugin(auditPlugin("hunter"));
+
+/**
+ * Borrado lógico de los documentos (ver `softDeletePlugin`).
+ */
+hunterSchema.plugin(softDeletePlugin);
+
+/**
+ * Versión de los documentos para las cabeceras `ETag` e `If-Match` (ver
+ * `versioningPlugin`).
+ */
+hunterSchema.plugin(versioningPlugin);
+
 /**
  * Modelo de Mongoose para la colección de Cazadores.
  * Proporciona métodos para interactuar con la colección 'hunters' en MongoDB.
@@ -0,0 +1,84 @@
+import { Document, model, Schema } from "mongoose";
+
+/**
+ * Estados de una clave de idempotencia: `pending` mientras se atiende la
+ * petición original y `completed` cuando ya se guardó su respuesta.
+ */
+export const IDEMPOTENCY_STATUSES = ["pending", "completed"] as const;
+
+/**
+ * Estado de una clave de idempotencia (ver `IDEMPOTENCY_STATUSES`).
+ */
+export type IdempotencyStatus = (typeof IDEMPOTENCY_STATUSES)[number];
+
+/**
+ * Respuesta guardada de una petición con clave de idempotencia.
+ */
+export interface StoredResponse {
+  /** Código HTTP */
+  status: number;
+  /** Tipo de contenido */
+  contentType: string;
+  /** Cuerpo JSON */
+  body: unknown;
+}
+
+/**
+ * Interfaz que representa una clave de idempotencia (cabecera
+ * `Idempotency-Key`).
+ */
+export interface IdempotencyKeyDocument extends Document {
+  /** Valor de la cabecera */
+  key: string;
+  /** Usuario (`sub` del token) que envió la petición */
+  user: string;
+  /** Huella (SHA-256) del método, la ruta y el cuerpo de la petición */
+  fingerprint: string;
+  /** Estado de la petición original */
+  status: IdempotencyStatus;
+  /** Respuesta de la petición original (cuando está completada) */
+  response?: StoredResponse;
+  /** Momento a partir del cual la clave deja de tener efecto */
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+/**
+ * Esquema de Mongoose de las claves de idempotencia.
+ */
+const idempotencyKeySchema = new Schema<IdempotencyKeyDocument>(
+  {
+    key: { type: String, required: true },
+    user: { type: String, required: true },
+    fingerprint: { type: String, required: true },
+    status: {
+      type: String,
+      enum: IDEMPOTENCY_STATUSES,
+      default: "pending",
+    },
+    response: {
+      _id: false,
+      status: Number,
+      contentType: String,
+      body: Schema.Types.Mixed,
+    },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+  },
+);
+
+// Cada usuario tiene su propio espacio de claves
+idempotencyKeySchema.index({ user: 1, key: 1 }, { unique: true });
+// MongoDB elimina las claves caducadas
+idempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Modelo de Mongoose para la colección de claves de idempotencia.
+ */
+export const IdempotencyKeyModel = model<IdempotencyKeyDocument>(
+  "IdempotencyKey",
+  idempotencyKeySchema,
+);
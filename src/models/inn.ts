@@ -0,0 +1,62 @@
+import { ClientSession, Document, model, Schema } from "mongoose";
+
+/** Identificador del único documento de la tesorería */
+const TREASURY_ID = "treasury";
+
+/**
+ * Interfaz que representa la tesorería de la posada.
+ */
+export interface InnDocument extends Document<string> {
+  /** Monedas de la posada */
+  coins: number;
+}
+
+/**
+ * Esquema de Mongoose de la tesorería de la posada.
+ */
+const innSchema = new Schema<InnDocument>(
+  {
+    _id: { type: String, default: TREASURY_ID },
+    coins: { type: Number, default: 0 },
+  },
+  { versionKey: false },
+);
+
+/**
+ * Modelo de Mongoose para la tesorería de la posada.
+ *
+ * @remarks
+ * La colección tiene un único documento, que se crea con la primera
+ * transacción en la que participa la posada.
+ */
+export const InnModel = model<InnDocument>("Inn", innSchema);
+
+/**
+ * Modifica el saldo de la tesorería de la posada.
+ *
+ * @remarks
+ * La posada actúa como banca: cobra lo que le compran y paga lo que compra,
+ * y su saldo puede quedar en negativo. Así la suma de las monedas de
+ * cazadores, mercaderes y posada no cambia con las transacciones.
+ *
+ * @param delta - Monedas a sumar (negativo para descontar)
+ * @param session - Sesión de MongoDB en la que se ejecuta la operación
+ */
+export async function adjustInnCoins(delta: number, session: ClientSession) {
+  await InnModel.updateOne(
+    { _id: TREASURY_ID },
+    { $inc: { coins: delta } },
+    { upsert: true, session },
+  );
+}
+
+/**
+ * Saldo de la tesorería de la posada.
+ *
+ * @returns Monedas de la posada (0 si aún no ha participado en ninguna
+ *   transacción)
+ */
+export async function innCoins() {
+  const treasury = await InnModel.findById(TREASURY_ID);
+  return treasury?.coins ?? 0;
+}
@@ -0,0 +1,205 @@
+import { Request } from "express";
+import { ClientSession, Types } from "mongoose";
+import { ReferencedError } from "../errors.js";
+import { TransactionModel } from "./transaction.js";
+
+/**
+ * Política de integridad de una referencia desde las transacciones.
+ *
+ * - `restrict`: el documento referenciado no se puede eliminar.
+ * - `nullify`: al purgar el documento se anula la referencia en las
+ *   transacciones.
+ *
+ * La segunda permite el borrado lógico con `force`; mientras el documento
+ * está eliminado las transacciones conservan la referencia, de modo que al
+ * restaurarlo recupera su historial.
+ */
+export type IntegrityPolicy = "restrict" | "nullify";
+
+/**
+ * Referencia de las transacciones a otro documento.
+ */
+export interface Relation {
+  /** Campo de la transacción con la referencia (p. ej. `items.good`) */
+  path: string;
+  /** Política que se aplica al eliminar el documento referenciado */
+  policy: IntegrityPolicy;
+}
+
+/** Documentos que pueden estar referenciados por transacciones */
+export type ReferencedEntity = "good" | "hunter" | "merchant";
+
+/**
+ * Políticas de integridad de cada relación.
+ *
+ * @remarks
+ * Los bienes se restringen para no perder el detalle de las transacciones
+ * (sus ítems necesitan el bien para revertir el stock). Los clientes se
+ * anulan al purgarlos: la transacción se conserva sin comprador o vendedor,
+ * pero con su modelo (`buyerModel`, `sellerModel`), que la distingue de las
+ * de la posada.
+ */
+export const INTEGRITY_POLICIES: Record<ReferencedEntity, Relation[]> = {
+  good: [{ path: "items.good", policy: "restrict" }],
+  hunter: [{ path: "buyer", policy: "nullify" }],
+  merchant: [
+    { path: "buyer", policy: "nullify" },
+    { path: "seller", policy: "nullify" },
+  ],
+};
+
+/** Nombre de cada documento en los mensajes de error */
+const LABELS: Record<ReferencedEntity, string> = {
+  good: "El bien",
+  hunter: "El cazador",
+  merchant: "El mercader",
+};
+
+/**
+ * Anula la referencia de una transacción al documento que se purga.
+ *
+ * @remarks
+ * Las transacciones se modifican una a una para que los cambios queden en
+ * el historial (ver `auditPlugin`).
+ *
+ * @param relation - Relación `nullify`
+ * @param transactionId - Transacción que referencia al documento
+ * @param id - Documento que se purga
+ * @param session - Sesión de MongoDB de la purga
+ */
+async function nullifyReference(
+  relation: Relation,
+  transactionId: Types.ObjectId,
+  id: Types.ObjectId,
+  session: ClientSession,
+) {
+  const [array, field] = relation.path.split(".");
+  if (field) {
+    await TransactionModel.updateOne(
+      { _id: transactionId },
+      { $set: { [`${array}.$[ref].${field}`]: null } },
+      { arrayFilters: [{ [`ref.${field}`]: id }], session },
+    );
+  } else {
+    await TransactionModel.updateOne(
+      { _id: transactionId },
+      { $set: { [relation.path]: null } },
+      { session },
+    );
+  }
+}
+
+/**
+ * Comprueba las referencias de las transacciones a un documento antes de
+ * eliminarlo.
+ *
+ * @remarks
+ * Sin `force`, cualquier referencia impide el borrado. Con `force`, solo lo
+ * impiden las relaciones `restrict`; las `nullify` se resuelven al purgar
+ * el documento (ver `resolveReferences`).
+ *
+ * @param entity - Tipo del documento que se elimina
+ * @param id - Identificador del documento
+ * @param force - Si se ha pedido forzar el borrado (`?force=true`)
+ * @param session - Sesión de MongoDB del borrado
+ * @throws ReferencedError - Con las transacciones que impiden el borrado
+ */
+export async function enforceIntegrity(
+  entity: ReferencedEntity,
+  id: Types.ObjectId,
+  force: boolean,
+  session: ClientSession,
+) {
+  const relations = INTEGRITY_POLICIES[entity];
+  const blocking: Types.ObjectId[] = [];
+
+  for (const relation of relations) {
+    if (force && relation.policy !== "restrict") continue;
+    const ids = (await TransactionModel.distinct("_id", {
+      [relation.path]: id,
+    }).session(session)) as Types.ObjectId[];
+    blocking.push(...ids);
+  }
+
+  if (blocking.length > 0) {
+    const unique = [...new Set(blocking.map(String))];
+    const hint =
+      !force && relations.some((relation) => relation.policy !== "restrict")
+        ? "; use force=true para forzar el borrado"
+        : "";
+    throw new ReferencedError(
+      `${LABELS[entity]} está referenciado por ${unique.length} transacción(es)${hint}`,
+      unique,
+    );
+  }
+}
+
+/**
+ * Documentos que no se pueden purgar por estar referenciados en una
+ * relación `restrict`.
+ *
+ * @param entity - Tipo de los documentos
+ * @param ids - Identificadores de los documentos
+ * @param session - Sesión de MongoDB de la purga
+ * @returns Identificadores referenciados (puede incluir otros que no están
+ *   en `ids`)
+ */
+export async function restrictedReferences(
+  entity: ReferencedEntity,
+  ids: Types.ObjectId[],
+  session: ClientSession,
+) {
+  const referenced: Types.ObjectId[] = [];
+  for (const relation of INTEGRITY_POLICIES[entity]) {
+    if (relation.policy !== "restrict") continue;
+    const values = await TransactionModel.distinct(relation.path, {
+      [relation.path]: { $in: ids },
+    }).session(session);
+    referenced.push(...(values as Types.ObjectId[]));
+  }
+  return referenced;
+}
+
+/**
+ * Aplica la política `nullify` a las transacciones que referencian a los
+ * documentos que se purgan (ver `purgeDeleted`).
+ *
+ * @param entity - Tipo de los documentos
+ * @param ids - Identificadores de los documentos que se purgan
+ * @param session - Sesión de MongoDB de la purga
+ */
+export async function resolveReferences(
+  entity: ReferencedEntity,
+  ids: Types.ObjectId[],
+  session: ClientSession,
+) {
+  for (const id of ids) {
+    for (const relation of INTEGRITY_POLICIES[entity]) {
+      if (relation.policy === "restrict") continue;
+      const transactions = (await TransactionModel.distinct("_id", {
+        [relation.path]: id,
+      }).session(session)) as Types.ObjectId[];
+      for (const transactionId of transactions) {
+        await nullifyReference(relation, transactionId, id, session);
+      }
+    }
+  }
+}
+
+/**
+ * Comprobación de integridad previa a un borrado lógico (ver `softDelete`).
+ *
+ * @param entity - Tipo del documento que se elimina
+ * @param req - Petición de borrado, que puede forzarse con `?force=true`
+ * @returns Función `beforeDelete` para `softDelete`
+ *
+ * @example
+ * ```typescript
+ * softDelete(GoodModel, { _id: id }, integrityGuard("good", req));
+ * ```
+ */
+export function integrityGuard(entity: ReferencedEntity, req: Request) {
+  const force = String(req.query.force) === "true";
+  return (doc: { _id: unknown }, session: ClientSession) =>
+    enforceIntegrity(entity, doc._id as Types.ObjectId, force, session);
+}
@@ -0,0 +1,140 @@
+import { ClientSession, Document, model, Schema, Types } from "mongoose";
+import { ConflictError, InsufficientStockError } from "../errors.js";
+import { GoodDocument } from "./good.js";
+import { MerchantDocument, MerchantModel } from "./merchant.js";
+import { auditPlugin } from "./audit.js";
+
+/**
+ * Interfaz que representa una línea del inventario de un Comerciante.
+ * Cada línea indica cuántas unidades de un bien posee el comerciante.
+ */
+export interface InventoryDocument extends Document {
+  /** Comerciante propietario de la línea */
+  merchant: Types.ObjectId | MerchantDocument;
+  /** Bien almacenado */
+  good: Types.ObjectId | GoodDocument;
+  /** Unidades disponibles (no puede ser negativo) */
+  quantity: number;
+  /** Precio propio del comerciante para el bien (opcional, no negativo) */
+  price?: number;
+}
+
+/**
+ * Esquema de Mongoose que define la estructura y validaciones
+ * para las líneas de inventario de los comerciantes.
+ */
+const inventorySchema = new Schema<InventoryDocument>(
+  {
+    merchant: {
+      type: Schema.Types.ObjectId,
+      ref: "Merchant",
+      required: [true, "El comerciante es obligatorio"],
+    },
+    good: {
+      type: Schema.Types.ObjectId,
+      ref: "Good",
+      required: [true, "El bien es obligatorio"],
+    },
+    quantity: {
+      type: Number,
+      required: [true, "La cantidad es obligatoria"],
+      min: [0, "La cantidad no puede ser negativa"],
+      default: 0,
+    },
+    price: {
+      type: Number,
+      min: [0, "El precio no puede ser negativo"],
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  },
+);
+
+inventorySchema.index({ merchant: 1, good: 1 }, { unique: true });
+
+/**
+ * Historial de cambios de los documentos (ver `auditPlugin`).
+ */
+inventorySchema.plugin(auditPlugin("inventory"));
+
+/**
+ * Modelo de Mongoose para la colección de líneas de inventario.
+ * Proporciona métodos para interactuar con la colección 'inventories' en MongoDB.
+ */
+export const InventoryModel = model<InventoryDocument>(
+  "Inventory",
+  inventorySchema,
+);
+
+/**
+ * Calcula las unidades que ocupa el inventario de un comerciante.
+ *
+ * @param merchantId - Identificador del comerciante
+ * @param session - Sesión de MongoDB en la que se ejecuta la operación
+ * @returns Suma de las cantidades de todas sus líneas
+ */
+export async function inventoryUsage(
+  merchantId: Types.ObjectId,
+  session: ClientSession | null = null,
+) {
+  const [usage] = await InventoryModel.aggregate<{ total: number }>([
+    { $match: { merchant: merchantId } },
+    { $group: { _id: null, total: { $sum: "$quantity" } } },
+  ]).session(session);
+  return usage?.total ?? 0;
+}
+
+/**
+ * Suma o resta unidades de un bien en el inventario de un comerciante.
+ *
+ * @remarks
+ * La capacidad del inventario (`inventorySize`) se mide en unidades: la suma
+ * de las cantidades de todas las líneas no puede superarla. Si el comerciante
+ * ya no existe no hay inventario que ajustar.
+ *
+ * @param merchantId - Identificador del comerciante
+ * @param good - Bien a ajustar
+ * @param delta - Unidades a sumar (negativo para retirar)
+ * @param session - Sesión de MongoDB en la que se ejecuta la operación
+ * @param price - Precio propio del comerciante para el bien (opcional)
+ * @returns Línea de inventario actualizada, o `null` si el comerciante no existe
+ * @throws InsufficientStockError - Si no hay unidades suficientes
+ * @throws ConflictError - `INVENTORY_FULL` si se supera la capacidad
+ */
+export async function adjustInventory(
+  merchantId: Types.ObjectId,
+  good: GoodDocument,
+  delta: number,
+  session: ClientSession | null = null,
+  price?: number,
+) {
+  const merchant = await MerchantModel.findById(merchantId).session(session);
+  if (!merchant) return null;
+
+  let line = await InventoryModel.findOne({
+    merchant: merchantId,
+    good: good._id,
+  }).session(session);
+
+  if (delta < 0 && (!line || line.quantity < -delta)) {
+    throw new InsufficientStockError(
+      `Stock insuficiente en el inventario de ${merchant.name} para: ${good.name}`,
+    );
+  }
+  if (delta > 0) {
+    const used = await inventoryUsage(merchantId, session);
+    if (used + delta > merchant.inventorySize) {
+      throw new ConflictError(
+        `El inventario de ${merchant.name} no admite ${delta} unidades más (${used}/${merchant.inventorySize})`,
+        "INVENTORY_FULL",
+      );
+    }
+  }
+
+  line ??= new InventoryModel({ merchant: merchantId, good: good._id });
+  line.quantity += delta;
+  if (price !== undefined) line.price = price;
+  return line.save({ session });
+}
@@ -1,5 +1,8 @@
 import { Document, model, Schema } from "mongoose";
 import validator from "validator";
+import { auditPlugin } from "./audit.js";
+import { versioningPlugin } from "./versioning.js";
+import { softDeletePlugin } from "./softDelete.js";
 
 /**
  * Interfaz que representa un documento de Comerciante en la base de datos.
@@ -18,8 +21,14 @@ export interface MerchantDocument extends Document {
   inventorySize: number;
   /** Nivel de reputación (escala de 0 a 10) */
   reputation: number;
+  /** Tesorería del comerciante en monedas (no puede ser negativa) */
+  coins: number;
   /** Información de contacto opcional (email válido si se proporciona) */
   contact?: string;
+  /** Fecha de borrado lógico (`null` si el mercader no está eliminado) */
+  deletedAt: Date | null;
+  /** Versión del documento, que aumenta con cada cambio (ver `versioningPlugin`) */
+  version: number;
 }
 
 /**
@@ -70,6 +79,12 @@ const merchantSchema = new Schema<MerchantDocument>(
       min: [0, "La reputación no puede ser negativa"],
       max: [10, "La reputación máxima es 10"],
     },
+    coins: {
+      type: Number,
+      required: [true, "Las monedas son obligatorias"],
+      min: [0, "Las monedas no pueden ser negativas"],
+      default: 0,
+    },
     contact: {
       type: String,
       trim: true,
@@ -82,10 +97,33 @@ const merchantSchema = new Schema<MerchantDocument>(
   },
   {
     timestamps: true,
-    versionKey: false,
   },
 );
 
+/**
+ * Índice de texto para la búsqueda (`GET /search` y `q=` en `GET /merchants`).
+ */
+merchantSchema.index(
+  { name: "text", location: "text" },
+  { weights: { name: 10, location: 2 }, default_language: "spanish" },
+);
+
+/**
+ * Historial de cambios de los documentos (ver `auditPlugin`).
+ */
+merchantSchema.plugin(auditPlugin("merchant"));
+
+/**
+ * Borrado lógico de los documentos (ver `softDeletePlugin`).
+ */
+merchantSchema.plugin(softDeletePlugin);
+
+/**
+ * Versión de los documentos para las cabeceras `ETag` e `If-Match` (ver
+ * `versioningPlugin`).
+ */
+merchantSchema.plugin(versioningPlugin);
+
 /**
  * Modelo de Mongoose para la colección de Comerciantes.
  * Proporciona métodos para interactuar con la colección 'merchants' en MongoDB.
@@ -0,0 +1,141 @@
+import { Document, model, Schema, Types } from "mongoose";
+import { HUNTER_TYPES } from "./hunter.js";
+import { PartyModel, TransactionType } from "./transaction.js";
+
+/**
+ * Partes de una transacción cuyas características evalúa una regla de
+ * precio.
+ */
+export const PRICING_PARTIES = ["buyer", "seller"] as const;
+
+/**
+ * Parte evaluada por una regla de precio (ver `PRICING_PARTIES`).
+ */
+export type PricingParty = (typeof PRICING_PARTIES)[number];
+
+/**
+ * Interfaz que representa una regla de precio.
+ *
+ * @remarks
+ * Una regla se aplica a un ítem cuando la parte indicada en `party` cumple
+ * todas sus condiciones; las condiciones vacías (`null` o listas vacías)
+ * no restringen. Las condiciones sobre un campo que la parte no tiene (la
+ * experiencia de un mercader, la reputación de un cazador) nunca se
+ * cumplen, y la posada no cumple ninguna regla.
+ */
+export interface PricingRuleDocument extends Document {
+  /** Nombre único de la regla */
+  name: string;
+  /** Descripción opcional de la regla */
+  description: string;
+  /** Parte de la transacción a la que se refieren las condiciones */
+  party: PricingParty;
+  /** Modelo que debe tener la parte (`null` para cualquiera) */
+  partyModel: PartyModel | null;
+  /** Tipo de transacción al que se aplica (`null` para ambos) */
+  transactionType: TransactionType | null;
+  /** Tipos de cazador a los que se aplica (vacía para cualquiera) */
+  hunterTypes: string[];
+  /** Experiencia mínima del cazador */
+  minExperience: number | null;
+  /** Experiencia máxima del cazador */
+  maxExperience: number | null;
+  /** Reputación mínima del mercader */
+  minReputation: number | null;
+  /** Reputación máxima del mercader */
+  maxReputation: number | null;
+  /** Porcentaje que se suma al precio (negativo para un descuento) */
+  adjustment: number;
+  /** Orden de aplicación: primero las de menor prioridad */
+  priority: number;
+  /** Si es `false` la regla no se aplica */
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Regla de precio aplicada a un ítem de una transacción, tal como estaba al
+ * calcular el precio.
+ */
+export interface AppliedPricingRule {
+  /** Referencia a la regla (puede haberse modificado o eliminado después) */
+  rule: Types.ObjectId;
+  /** Nombre de la regla */
+  name: string;
+  /** Porcentaje aplicado */
+  adjustment: number;
+}
+
+/**
+ * Esquema de Mongoose de las reglas de precio.
+ */
+const pricingRuleSchema = new Schema<PricingRuleDocument>(
+  {
+    name: {
+      type: String,
+      required: [true, "El nombre es obligatorio"],
+      trim: true,
+      unique: true,
+    },
+    description: { type: String, trim: true, default: "" },
+    party: {
+      type: String,
+      required: [true, "La parte evaluada es obligatoria"],
+      enum: {
+        values: PRICING_PARTIES,
+        message: "{VALUE} no es una parte válida",
+      },
+    },
+    partyModel: {
+      type: String,
+      enum: {
+        values: ["Hunter", "Merchant"] as const,
+        message: "{VALUE} no es un modelo de parte válido",
+      },
+      default: null,
+    },
+    transactionType: {
+      type: String,
+      enum: {
+        values: ["purchase", "sale"] as const,
+        message: "{VALUE} no es un tipo de transacción válido",
+      },
+      default: null,
+    },
+    hunterTypes: {
+      type: [
+        {
+          type: String,
+          enum: {
+            values: HUNTER_TYPES,
+            message: "{VALUE} no es un tipo de cazador permitido",
+          },
+        },
+      ],
+      default: [],
+    },
+    minExperience: { type: Number, min: 0, max: 100, default: null },
+    maxExperience: { type: Number, min: 0, max: 100, default: null },
+    minReputation: { type: Number, min: 0, max: 10, default: null },
+    maxReputation: { type: Number, min: 0, max: 10, default: null },
+    adjustment: {
+      type: Number,
+      required: [true, "El porcentaje de ajuste es obligatorio"],
+      min: [-100, "El descuento no puede superar el 100 %"],
+    },
+    priority: { type: Number, default: 0 },
+    active: { type: Boolean, default: true },
+  },
+  { timestamps: true, versionKey: false },
+);
+
+pricingRuleSchema.index({ active: 1, priority: 1 });
+
+/**
+ * Modelo de Mongoose para la colección de reglas de precio.
+ */
+export const PricingRuleModel = model<PricingRuleDocument>(
+  "PricingRule",
+  pricingRuleSchema,
+);
@@ -0,0 +1,150 @@
+import { Request } from "express";
+import mongoose, {
+  ClientSession,
+  FilterQuery,
+  HydratedDocument,
+  Model,
+  Schema,
+  Types,
+} from "mongoose";
+import { ForbiddenError } from "../errors.js";
+
+/**
+ * Filtro de los documentos que no están eliminados.
+ */
+export const NOT_DELETED = { deletedAt: null };
+
+/**
+ * Plugin de Mongoose que añade el borrado lógico a un esquema.
+ *
+ * @remarks
+ * Añade el campo `deletedAt` (`null` mientras el documento no se elimina).
+ * El campo no se puede fijar al crear: solo lo modifican las rutas de
+ * borrado y restauración. Las consultas deben filtrar con `NOT_DELETED` (o
+ * `visibleFilter`) para ocultar los documentos eliminados; `populate` los
+ * sigue devolviendo, de modo que las transacciones conservan sus partes.
+ *
+ * @param schema - Esquema de Mongoose
+ */
+export function softDeletePlugin(schema: Schema) {
+  schema.add({ deletedAt: { type: Date, default: null } });
+  schema.index({ deletedAt: 1 });
+  schema.pre("save", function () {
+    if (this.isNew) this.set("deletedAt", null);
+  });
+}
+
+/**
+ * Filtro de visibilidad de los documentos según la petición.
+ *
+ * @remarks
+ * Por defecto se ocultan los documentos eliminados; los administradores los
+ * incluyen con `?includeDeleted=true`.
+ *
+ * @param req - Express Request
+ * @returns Filtro a añadir a la consulta
+ * @throws ForbiddenError - Si un usuario que no es administrador pide los eliminados
+ */
+export function visibleFilter(req: Pick<Request, "auth" | "query">) {
+  if (String(req.query.includeDeleted) !== "true") return NOT_DELETED;
+  if (req.auth?.role !== "admin") {
+    throw new ForbiddenError(
+      "Solo los administradores pueden ver los documentos eliminados",
+    );
+  }
+  return {};
+}
+
+/**
+ * Elimina de forma lógica el primer documento que cumpla el filtro.
+ *
+ * @remarks
+ * Se ejecuta en una transacción de MongoDB junto con `beforeDelete`, que
+ * puede impedir el borrado lanzando un error o modificar los documentos
+ * relacionados (p. ej. `enforceIntegrity`).
+ *
+ * @param model - Modelo del documento
+ * @param filter - Filtro del documento a eliminar
+ * @param beforeDelete - Comprobaciones previas al borrado
+ * @returns Documento eliminado, o `null` si no existe o ya estaba eliminado
+ */
+export async function softDelete<T>(
+  model: Model<T>,
+  filter: FilterQuery<T>,
+  beforeDelete?: (
+    doc: HydratedDocument<T>,
+    session: ClientSession,
+  ) => Promise<void>,
+) {
+  return mongoose.connection.transaction(async (session) => {
+    const doc = await model
+      .findOne({ ...filter, ...NOT_DELETED })
+      .session(session);
+    if (!doc) return null;
+    await beforeDelete?.(doc, session);
+    return model.findByIdAndUpdate(
+      doc._id,
+      { deletedAt: new Date() },
+      { new: true, session },
+    );
+  });
+}
+
+/**
+ * Resultado de una purga.
+ */
+export interface PurgeResult {
+  /** Documentos eliminados definitivamente */
+  purged: number;
+  /** Documentos eliminados que se conservan por estar referenciados */
+  kept: number;
+}
+
+/**
+ * Elimina definitivamente los documentos con borrado lógico que no estén
+ * referenciados.
+ *
+ * @remarks
+ * Se ejecuta en una transacción de MongoDB y elimina los documentos uno a
+ * uno para que queden en el historial de cambios.
+ *
+ * @param model - Modelo a purgar
+ * @param referenced - Devuelve, de los identificadores recibidos, los que
+ *   siguen referenciados (p. ej. por alguna transacción)
+ * @param resolveDependents - Resuelve los documentos que dependen de los
+ *   purgados (p. ej. `resolveReferences`)
+ * @returns Número de documentos purgados y conservados
+ */
+export async function purgeDeleted<T>(
+  model: Model<T>,
+  referenced: (
+    ids: Types.ObjectId[],
+    session: ClientSession,
+  ) => Promise<Types.ObjectId[]>,
+  resolveDependents?: (
+    ids: Types.ObjectId[],
+    session: ClientSession,
+  ) => Promise<void>,
+): Promise<PurgeResult> {
+  return mongoose.connection.transaction(async (session) => {
+    const deleted = await model
+      .find({ deletedAt: { $ne: null } })
+      .session(session);
+    const ids = deleted.map((doc) => doc._id as Types.ObjectId);
+    const inUse = await referenced(ids, session);
+    const purgeable = deleted.filter(
+      (doc) => !inUse.some((id) => id.equals(doc._id as Types.ObjectId)),
+    );
+
+    const purgedIds = purgeable.map((doc) => doc._id as Types.ObjectId);
+    if (resolveDependents && purgedIds.length) {
+      await resolveDependents(purgedIds, session);
+    }
+    for (const doc of purgeable) await doc.deleteOne({ session });
+
+    return {
+      purged: purgeable.length,
+      kept: deleted.length - purgeable.length,
+    };
+  });
+}
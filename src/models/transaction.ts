@@ -1,16 +1,27 @@
-import { Document, model, Schema, Types } from "mongoose";
+import { ClientSession, Document, model, Schema, Types } from "mongoose";
+import { InsufficientStockError } from "../errors.js";
 import { GoodDocument } from "./good.js";
 import { HunterDocument } from "./hunter.js";
 import { MerchantDocument } from "./merchant.js";
+import { AppliedPricingRule } from "./pricing.js";
 import { GoodModel } from "./good.js";
+import { adjustInventory } from "./inventory.js";
+import { checkReorderLevel } from "./alert.js";
+import { auditPlugin } from "./audit.js";
+import { versioningPlugin } from "./versioning.js";
 
 /**
  * Tipo que representa los posibles tipos de transacción en el sistema.
- * - 'purchase': Cuando el comerciante compra bienes
- * - 'sale': Cuando el comerciante vende bienes
+ * - 'purchase': Un comprador adquiere bienes (por defecto, del stock de la posada)
+ * - 'sale': Un mercader vende bienes de su inventario (por defecto, a la posada)
  */
 export type TransactionType = "purchase" | "sale";
 
+/**
+ * Modelos que pueden actuar como parte (comprador o vendedor) de una transacción.
+ */
+export type PartyModel = "Hunter" | "Merchant";
+
 /**
  * Interfaz que representa un ítem dentro de una transacción.
  * Contiene información sobre el bien transaccionado y los detalles de la operación.
@@ -22,6 +33,13 @@ export interface TransactionItem {
   quantity: number;
   /** Precio unitario registrado al momento de la transacción (no puede ser negativo) */
   priceAtTransaction: number;
+  /**
+   * Precio unitario antes de aplicar las reglas de precio (ausente en las
+   * transacciones anteriores a las reglas)
+   */
+  basePrice?: number;
+  /** Reglas de precio aplicadas, en orden (ver `applyPricingRules`) */
+  appliedRules: AppliedPricingRule[];
 }
 
 /**
@@ -33,14 +51,26 @@ export interface TransactionDocument extends Document {
   type: TransactionType;
   /** Fecha en que se realizó la transacción (se establece automáticamente al crear) */
   date: Date;
-  /** Cliente asociado a la transacción (puede ser Cazador o Comerciante) */
-  client: Types.ObjectId | HunterDocument | MerchantDocument;
-  /** Modelo del cliente (determina si es Hunter o Merchant para la referencia) */
-  clientModel: "Hunter" | "Merchant";
+  /**
+   * Parte que compra los bienes (obligatoria en las compras).
+   * Si no existe, la posada actúa como compradora.
+   */
+  buyer?: Types.ObjectId | HunterDocument | MerchantDocument | null;
+  /** Modelo del comprador (determina si es Hunter o Merchant para la referencia) */
+  buyerModel?: PartyModel;
+  /**
+   * Parte que vende los bienes (obligatoria en las ventas).
+   * Si no existe, la posada actúa como vendedora.
+   */
+  seller?: Types.ObjectId | HunterDocument | MerchantDocument | null;
+  /** Modelo del vendedor (determina si es Hunter o Merchant para la referencia) */
+  sellerModel?: PartyModel;
   /** Lista de ítems incluidos en la transacción (debe contener al menos uno) */
   items: TransactionItem[];
   /** Monto total calculado de la transacción (no puede ser negativo) */
   totalAmount: number;
+  /** Versión del documento, que aumenta con cada cambio (ver `versioningPlugin`) */
+  version: number;
 }
 
 /**
@@ -63,6 +93,18 @@ const transactionItemSchema = new Schema<TransactionItem>({
     required: [true, "El precio es obligatorio"],
     min: [0, "El precio no puede ser negativo"],
   },
+  basePrice: {
+    type: Number,
+    min: [0, "El precio base no puede ser negativo"],
+  },
+  appliedRules: [
+    {
+      _id: false,
+      rule: { type: Schema.Types.ObjectId, ref: "PricingRule", required: true },
+      name: { type: String, required: true },
+      adjustment: { type: Number, required: true },
+    },
+  ],
 });
 
 /**
@@ -84,17 +126,52 @@ const transactionSchema = new Schema<TransactionDocument>(
       required: [true, "La fecha es obligatoria"],
       default: Date.now,
     },
-    client: {
+    buyer: {
       type: Schema.Types.ObjectId,
-      required: [true, "El cliente es obligatorio"],
-      refPath: "clientModel",
+      required: [
+        function (this: TransactionDocument) {
+          return this.type === "purchase";
+        },
+        "El comprador es obligatorio en las compras",
+      ],
+      refPath: "buyerModel",
+      default: null,
     },
-    clientModel: {
+    buyerModel: {
       type: String,
-      required: [true, "El modelo de cliente es obligatorio"],
+      required: [
+        function (this: TransactionDocument) {
+          return this.buyer != null;
+        },
+        "El modelo del comprador es obligatorio",
+      ],
       enum: {
         values: ["Hunter", "Merchant"] as const,
-        message: "{VALUE} no es un modelo de cliente válido",
+        message: "{VALUE} no es un modelo de comprador válido",
+      },
+    },
+    seller: {
+      type: Schema.Types.ObjectId,
+      required: [
+        function (this: TransactionDocument) {
+          return this.type === "sale";
+        },
+        "El vendedor es obligatorio en las ventas",
+      ],
+      refPath: "sellerModel",
+      default: null,
+    },
+    sellerModel: {
+      type: String,
+      required: [
+        function (this: TransactionDocument) {
+          return this.seller != null;
+        },
+        "El modelo del vendedor es obligatorio",
+      ],
+      enum: {
+        values: ["Hunter", "Merchant"] as const,
+        message: "{VALUE} no es un modelo de vendedor válido",
       },
     },
     items: {
@@ -113,23 +190,105 @@ const transactionSchema = new Schema<TransactionDocument>(
   },
   {
     timestamps: true,
-    versionKey: false,
   },
 );
 
-transactionSchema.pre("save", async function (next) {
-  if (!this.isNew) return next();
+/**
+ * Movimiento de unidades de un bien para una de las partes de la transacción.
+ *
+ * @remarks
+ * Los mercaderes usan su inventario, la posada (parte ausente) su stock y los
+ * cazadores no llevan registro de lo que poseen. Tampoco se registran las
+ * unidades de una parte purgada (sin identificador pero con modelo, ver
+ * `INTEGRITY_POLICIES`). Si el stock de la posada baja de su nivel de
+ * reposición se registra una alerta (ver `checkReorderLevel`).
+ *
+ * @param party - Identificador de la parte, o `null` si es la posada
+ * @param partyModel - Modelo de la parte
+ * @param good - Bien movido
+ * @param delta - Unidades a sumar (negativo para retirar)
+ * @param transaction - Identificador de la transacción, si se conoce
+ * @param session - Sesión de MongoDB en la que se ejecuta la operación
+ * @throws InsufficientStockError - Si no hay unidades suficientes
+ * @throws ConflictError - `INVENTORY_FULL` si se supera la capacidad
+ */
+async function moveUnits(
+  party: TransactionDocument["buyer"],
+  partyModel: PartyModel | undefined,
+  good: GoodDocument,
+  delta: number,
+  transaction: Types.ObjectId | null,
+  session: ClientSession | null,
+) {
+  if (party == null) {
+    if (partyModel) return;
+    if (good.stock + delta < 0) {
+      throw new InsufficientStockError(`Stock insuficiente para: ${good.name}`);
+    }
+    const previousStock = good.stock;
+    good.stock += delta;
+    await good.save({ session });
+    await checkReorderLevel(good, previousStock, transaction, session);
+  } else if (partyModel === "Merchant") {
+    await adjustInventory(party as Types.ObjectId, good, delta, session);
+  }
+}
 
-  for (const item of this.items) {
-    const good = await GoodModel.findById(item.good);
+/**
+ * Traslada los bienes de una transacción del vendedor al comprador.
+ *
+ * @remarks
+ * Las unidades salen del inventario del vendedor (o del stock de la posada)
+ * y entran en el del comprador. Con `direction = -1` el traslado se revierte.
+ *
+ * @param transaction - Partes e ítems de la transacción (y su identificador,
+ *   si ya lo tiene)
+ * @param direction - `1` para aplicar el traslado, `-1` para revertirlo
+ * @param session - Sesión de MongoDB en la que se ejecuta la operación
+ * @throws InsufficientStockError - Si no hay unidades suficientes
+ * @throws ConflictError - `INVENTORY_FULL` si se supera la capacidad
+ */
+export async function moveGoods(
+  transaction: Pick<
+    TransactionDocument,
+    "buyer" | "buyerModel" | "seller" | "sellerModel" | "items"
+  > & { _id?: unknown },
+  direction: 1 | -1,
+  session: ClientSession | null = null,
+) {
+  const { buyer, buyerModel, seller, sellerModel } = transaction;
+  const id = (transaction._id as Types.ObjectId | undefined) ?? null;
+  for (const item of transaction.items) {
+    const good = await GoodModel.findById(item.good).session(session);
     if (!good) continue;
 
-    good.stock += this.type === "purchase" ? -item.quantity : item.quantity;
-    await good.save();
+    const quantity = direction * item.quantity;
+    await moveUnits(seller, sellerModel, good, -quantity, id, session);
+    await moveUnits(buyer, buyerModel, good, quantity, id, session);
   }
-  next();
+}
+
+/**
+ * Al crear una transacción se trasladan los bienes implicados dentro de la
+ * misma sesión de MongoDB que guarda el documento, de modo que ambos cambios
+ * se confirman o se descartan a la vez.
+ */
+transactionSchema.pre("save", async function () {
+  if (!this.isNew) return;
+  await moveGoods(this, 1, this.$session());
 });
 
+/**
+ * Historial de cambios de los documentos (ver `auditPlugin`).
+ */
+transactionSchema.plugin(auditPlugin("transaction"));
+
+/**
+ * Versión de los documentos para las cabeceras `ETag` e `If-Match` (ver
+ * `versioningPlugin`).
+ */
+transactionSchema.plugin(versioningPlugin);
+
 /**
  * Modelo de Mongoose para la colección de Transacciones.
  * Proporciona métodos para interactuar con la colección 'transactions' en MongoDB.
@@ -0,0 +1,138 @@
+import { Request } from "express";
+import { FilterQuery, Model, Query, Schema, UpdateQuery } from "mongoose";
+import { NotFoundError, PreconditionFailedError } from "../errors.js";
+
+/**
+ * Campo con la versión de los documentos.
+ */
+export const VERSION_KEY = "version";
+
+/**
+ * Documento versionado (los anteriores al versionado no tienen el campo).
+ */
+export interface Versioned {
+  /** Versión del documento */
+  version?: number | null;
+}
+
+/**
+ * Plugin de Mongoose que versiona los documentos de un esquema.
+ *
+ * @remarks
+ * Añade el campo `version` (0 al crear el documento) y lo incrementa en
+ * cada modificación: al guardar con `save` (con control de concurrencia
+ * optimista, ver `optimisticConcurrency`) y en las consultas `updateOne`,
+ * `updateMany` y `findOneAndUpdate`. La versión identifica el estado del
+ * documento en las cabeceras `ETag` e `If-Match` (ver `etag` e `ifMatch`).
+ *
+ * @param schema - Esquema de Mongoose
+ */
+export function versioningPlugin(schema: Schema) {
+  schema.set("versionKey", VERSION_KEY);
+  schema.set("optimisticConcurrency", true);
+
+  schema.pre("save", function () {
+    if (this.isNew) this.set(VERSION_KEY, 0);
+  });
+
+  schema.pre(
+    ["updateOne", "updateMany", "findOneAndUpdate"],
+    { document: false, query: true },
+    function (this: Query<unknown, unknown>) {
+      const update = this.getUpdate() as UpdateQuery<unknown> | null;
+      if (!update || Array.isArray(update)) return;
+      delete update[VERSION_KEY];
+      delete update.$set?.[VERSION_KEY];
+      delete update.$setOnInsert?.[VERSION_KEY];
+      update.$inc = { ...update.$inc, [VERSION_KEY]: 1 };
+      this.setUpdate(update);
+    },
+  );
+}
+
+/**
+ * Etiqueta `ETag` de un documento versionado.
+ *
+ * @param doc - Documento
+ * @returns Etiqueta fuerte con la versión (p. ej. `"3"`)
+ */
+export const etag = (doc: Versioned) => `"${doc.version ?? 0}"`;
+
+/**
+ * Versiones admitidas por la cabecera `If-Match` de la petición.
+ *
+ * @remarks
+ * Las etiquetas débiles (`W/"..."`) y las que no son de una versión nunca
+ * coinciden (comparación fuerte, RFC 9110).
+ *
+ * @param req - Express Request
+ * @returns Versiones de las etiquetas, o `null` si no hay condición (sin
+ *   cabecera o con `*`)
+ */
+export function ifMatch(req: Pick<Request, "get">): number[] | null {
+  const header = req.get("If-Match");
+  if (header === undefined || header.trim() === "*") return null;
+  return header
+    .split(",")
+    .map((tag) => /^"(\d+)"$/.exec(tag.trim())?.[1])
+    .filter((version) => version !== undefined)
+    .map(Number);
+}
+
+/**
+ * Filtro de las versiones admitidas por `If-Match`.
+ *
+ * @remarks
+ * Los documentos anteriores al versionado no tienen el campo y se tratan
+ * como la versión 0.
+ *
+ * @param versions - Versiones admitidas (ver `ifMatch`)
+ * @returns Filtro a añadir a la consulta
+ */
+export function versionFilter(versions: number[] | null) {
+  if (!versions) return {};
+  return {
+    [VERSION_KEY]: {
+      $in: versions.includes(0) ? [...versions, null] : versions,
+    },
+  };
+}
+
+/**
+ * Comprueba que un documento cumple la condición `If-Match`.
+ *
+ * @param doc - Documento
+ * @param versions - Versiones admitidas (ver `ifMatch`)
+ * @throws PreconditionFailedError - Si su versión no es ninguna de ellas
+ */
+export function assertVersion(doc: Versioned, versions: number[] | null) {
+  if (versions && !versions.includes(doc.version ?? 0)) {
+    throw new PreconditionFailedError(
+      "El documento ha cambiado desde que se obtuvo (If-Match)",
+    );
+  }
+}
+
+/**
+ * Error de una operación condicional que no ha encontrado el documento.
+ *
+ * @param model - Modelo del documento
+ * @param filter - Filtro del documento, sin la condición de versión
+ * @param versions - Versiones admitidas (ver `ifMatch`)
+ * @param message - Mensaje si el documento no existe
+ * @returns Error a lanzar: `PreconditionFailedError` si el documento existe
+ *   (su versión no coincide) o `NotFoundError` si no
+ */
+export async function missingError<T>(
+  model: Model<T>,
+  filter: FilterQuery<T>,
+  versions: number[] | null,
+  message: string,
+) {
+  if (versions && (await model.exists(filter))) {
+    return new PreconditionFailedError(
+      "El documento ha cambiado desde que se obtuvo (If-Match)",
+    );
+  }
+  return new NotFoundError(message);
+}
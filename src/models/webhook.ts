@@ -0,0 +1,145 @@
+import { randomBytes } from "node:crypto";
+import { Document, model, Schema, Types } from "mongoose";
+import validator from "validator";
+import { APP_EVENTS, AppEvent } from "../utils/events.js";
+
+/**
+ * Interfaz que representa una suscripción a webhooks.
+ */
+export interface WebhookDocument extends Document {
+  /** URL (http o https) que recibe las notificaciones */
+  url: string;
+  /** Eventos a los que está suscrita (ver `APP_EVENTS`) */
+  events: AppEvent[];
+  /**
+   * Secreto con el que se firman las notificaciones. Solo se devuelve al
+   * crear la suscripción.
+   */
+  secret: string;
+  /** Si es `false` no se envían notificaciones */
+  active: boolean;
+  /** Descripción opcional de la suscripción */
+  description: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Esquema de Mongoose de las suscripciones a webhooks.
+ */
+const webhookSchema = new Schema<WebhookDocument>(
+  {
+    url: {
+      type: String,
+      required: [true, "La URL es obligatoria"],
+      trim: true,
+      validate: {
+        validator: (v: string) =>
+          validator.isURL(v, {
+            protocols: ["http", "https"],
+            require_protocol: true,
+            require_tld: false,
+          }),
+        message: (props) => `La URL "${props.value}" no es válida`,
+      },
+    },
+    events: {
+      type: [{ type: String, enum: APP_EVENTS }],
+      validate: {
+        validator: (v: string[]) => v.length > 0,
+        message: "Debe suscribirse al menos a un evento",
+      },
+    },
+    secret: {
+      type: String,
+      minlength: [16, "El secreto debe tener al menos 16 caracteres"],
+      default: () => randomBytes(32).toString("hex"),
+      select: false,
+    },
+    active: { type: Boolean, default: true },
+    description: { type: String, trim: true, default: "" },
+  },
+  { timestamps: true, versionKey: false },
+);
+
+/**
+ * Modelo de Mongoose para la colección de suscripciones a webhooks.
+ */
+export const WebhookModel = model<WebhookDocument>("Webhook", webhookSchema);
+
+/** Estados de una notificación */
+export const DELIVERY_STATUSES = ["pending", "delivered", "failed"] as const;
+
+/**
+ * Estado de una notificación: pendiente (de enviar o de reintentar),
+ * entregada o fallida tras agotar los intentos.
+ */
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number];
+
+/**
+ * Intento de envío de una notificación.
+ */
+export interface DeliveryAttempt {
+  /** Momento del intento */
+  at: Date;
+  /** Código de estado HTTP recibido (`null` si no hubo respuesta) */
+  statusCode: number | null;
+  /** Motivo del fallo (`null` si se entregó) */
+  error: string | null;
+  /** Duración del intento en milisegundos */
+  duration: number;
+}
+
+/**
+ * Interfaz que representa una notificación de un webhook.
+ */
+export interface WebhookDeliveryDocument extends Document {
+  /** Suscripción que recibe la notificación */
+  webhook: Types.ObjectId;
+  /** Evento notificado */
+  event: AppEvent;
+  /** Cuerpo JSON enviado: `{ id, event, createdAt, data }` */
+  payload: Record<string, unknown>;
+  /** Estado de la notificación */
+  status: DeliveryStatus;
+  /** Intentos de envío, del más antiguo al más reciente */
+  attempts: DeliveryAttempt[];
+  /** Momento del próximo intento (`null` si ya no hay más) */
+  nextAttemptAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Esquema de Mongoose de las notificaciones de los webhooks.
+ */
+const webhookDeliverySchema = new Schema<WebhookDeliveryDocument>(
+  {
+    webhook: { type: Schema.Types.ObjectId, ref: "Webhook", required: true },
+    event: { type: String, enum: APP_EVENTS, required: true },
+    payload: { type: Schema.Types.Mixed, required: true },
+    status: { type: String, enum: DELIVERY_STATUSES, default: "pending" },
+    attempts: [
+      {
+        _id: false,
+        at: { type: Date, required: true },
+        statusCode: { type: Number, default: null },
+        error: { type: String, default: null },
+        duration: { type: Number, required: true },
+      },
+    ],
+    nextAttemptAt: { type: Date, default: null },
+  },
+  { timestamps: true, versionKey: false },
+);
+
+webhookDeliverySchema.index({ webhook: 1, createdAt: -1 });
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+
+/**
+ * Modelo de Mongoose para la colección de notificaciones de los webhooks.
+ */
+export const WebhookDeliveryModel = model<WebhookDeliveryDocument>(
+  "WebhookDelivery",
+  webhookDeliverySchema,
+);
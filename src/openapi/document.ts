@@ -0,0 +1,1472 @@
+import { Schema } from "mongoose";
+import { ERROR_CODES } from "../errors.js";
+import { IDEMPOTENCY_KEY_MAX_LENGTH } from "../middleware/idempotency.js";
+import { ROLES } from "../utils/tokens.js";
+import { EXPORT_FORMATS, IMPORT_LIMIT } from "../utils/bulk.js";
+import { GoodModel } from "../models/good.js";
+import { HunterModel } from "../models/hunter.js";
+import { MerchantModel } from "../models/merchant.js";
+import { TransactionModel } from "../models/transaction.js";
+import { InventoryModel } from "../models/inventory.js";
+import { AUDIT_ENTITIES, AuditEntryModel } from "../models/audit.js";
+import { WebhookDeliveryModel, WebhookModel } from "../models/webhook.js";
+import { PricingRuleModel } from "../models/pricing.js";
+import { goodImportOptions, goodListOptions } from "../routers/goods.js";
+import { hunterImportOptions, hunterListOptions } from "../routers/hunters.js";
+import {
+  merchantImportOptions,
+  merchantListOptions,
+} from "../routers/merchants.js";
+import { transactionListOptions } from "../routers/transactions.js";
+import { auditListOptions } from "../routers/audit.js";
+import {
+  deliveryListOptions,
+  webhookListOptions,
+} from "../routers/webhooks.js";
+import { pricingRuleListOptions } from "../routers/pricing.js";
+import { REPORT_DIMENSIONS, REPORT_INTERVALS } from "../utils/reports.js";
+import {
+  DEFAULT_LIMIT,
+  MAX_LIMIT,
+  PaginationOptions,
+} from "../utils/pagination.js";
+import {
+  goodBody,
+  goodUpdateBody,
+  graphqlBody,
+  hunterBody,
+  hunterUpdateBody,
+  merchantBody,
+  merchantUpdateBody,
+  restockBody,
+  tokenBody,
+  transactionBody,
+  webhookBody,
+  webhookUpdateBody,
+  pricingRuleBody,
+  pricingRuleUpdateBody,
+} from "./requests.js";
+import {
+  JsonSchema,
+  OBJECT_ID_PATTERN,
+  schemaToJsonSchema,
+} from "./schemas.js";
+
+/**
+ * Operación de OpenAPI (subconjunto usado por la API).
+ */
+interface Operation {
+  tags: string[];
+  summary: string;
+  parameters?: JsonSchema[];
+  requestBody?: JsonSchema;
+  responses: Record<string, JsonSchema>;
+}
+
+/**
+ * Rutas del documento: ruta de OpenAPI → método HTTP → operación.
+ */
+type Paths = Record<string, Record<string, Operation>>;
+
+/**
+ * Referencia a un esquema de `components.schemas`.
+ *
+ * @param name - Nombre del esquema
+ * @returns Objeto `$ref`
+ */
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+/**
+ * Cuerpo JSON de una petición.
+ *
+ * @param schema - Esquema del cuerpo
+ * @returns Objeto `requestBody`
+ */
+const body = (schema: JsonSchema) => ({
+  required: true,
+  content: { "application/json": { schema } },
+});
+
+/**
+ * Respuesta con cuerpo JSON.
+ *
+ * @param description - Descripción de la respuesta
+ * @param schema - Esquema del cuerpo
+ * @returns Objeto `response`
+ */
+const reply = (description: string, schema: JsonSchema) => ({
+  description,
+  content: { "application/json": { schema } },
+});
+
+/**
+ * Respuesta de error (`application/problem+json`, RFC 7807).
+ *
+ * @param description - Descripción de la respuesta
+ * @returns Objeto `response`
+ */
+const problem = (description: string) => ({
+  description,
+  content: { "application/problem+json": { schema: ref("Problem") } },
+});
+
+/** Respuesta 403: el rol del token no permite la operación */
+const forbidden = problem("El rol del token no permite la operación");
+
+/**
+ * Añade a todas las operaciones la respuesta 401 de las rutas protegidas
+ * con token de acceso (ver `authenticate`).
+ *
+ * @param paths - Rutas del documento
+ * @returns Rutas con la respuesta 401
+ */
+function authenticated(paths: Paths): Paths {
+  return Object.fromEntries(
+    Object.entries(paths).map(([path, operations]) => [
+      path,
+      Object.fromEntries(
+        Object.entries(operations).map(([method, operation]) => [
+          method,
+          {
+            ...operation,
+            responses: {
+              ...operation.responses,
+              401: problem("Falta el token de acceso o no es válido"),
+            },
+          },
+        ]),
+      ),
+    ]),
+  );
+}
+
+/**
+ * Añade a las operaciones `POST` la cabecera `Idempotency-Key` y sus
+ * respuestas de error (ver `idempotency`).
+ *
+ * @param paths - Rutas del documento
+ * @returns Rutas con la cabecera en las operaciones `POST`
+ */
+function idempotent(paths: Paths): Paths {
+  return Object.fromEntries(
+    Object.entries(paths).map(([path, operations]) => [
+      path,
+      Object.fromEntries(
+        Object.entries(operations).map(([method, operation]) => [
+          method,
+          method !== "post"
+            ? operation
+            : {
+                ...operation,
+                parameters: [
+                  ...(operation.parameters ?? []),
+                  {
+                    name: "Idempotency-Key",
+                    in: "header",
+                    description:
+                      "Clave única del cliente: los reintentos con la misma clave reciben la respuesta original",
+                    schema: {
+                      type: "string",
+                      minLength: 1,
+                      maxLength: IDEMPOTENCY_KEY_MAX_LENGTH,
+                    },
+                  },
+                ],
+                responses: {
+                  ...operation.responses,
+                  409:
+                    operation.responses[409] ??
+                    problem("La petición con esa clave aún se está procesando"),
+                  422: problem("La clave ya se usó con una petición distinta"),
+                },
+              },
+        ]),
+      ),
+    ]),
+  );
+}
+
+/**
+ * Parámetro de la query string.
+ *
+ * @param name - Nombre del parámetro
+ * @param description - Descripción
+ * @param schema - Esquema del valor
+ * @param required - Si es obligatorio
+ * @returns Objeto `parameter`
+ */
+const query = (
+  name: string,
+  description: string,
+  schema: JsonSchema = { type: "string" },
+  required = false,
+) => ({ name, in: "query", description, required, schema });
+
+/** Parámetro de ruta con el identificador del documento */
+const idParam = {
+  name: "id",
+  in: "path",
+  required: true,
+  description: "Identificador (ObjectId) del documento",
+  schema: { type: "string", pattern: OBJECT_ID_PATTERN },
+};
+
+/** Parámetro `name` de las rutas que actúan sobre un documento por nombre */
+const nameParam = query("name", "Nombre exacto del documento", undefined, true);
+
+/** Parámetro `force` de los borrados (ver `enforceIntegrity`) */
+const forceParam = query(
+  "force",
+  "Permite eliminar un documento referenciado por relaciones `nullify`; las referencias se anulan al purgarlo",
+  { type: "boolean", default: false },
+);
+
+/** Parámetro `includeDeleted` de las consultas de bienes, cazadores y mercaderes */
+const includeDeletedParam = query(
+  "includeDeleted",
+  "Incluye los documentos eliminados (solo administradores)",
+  { type: "boolean", default: false },
+);
+
+/** Cabecera `If-Match` de las modificaciones (ver `ifMatch`) */
+const ifMatchParam = {
+  name: "If-Match",
+  in: "header",
+  description:
+    "ETag de la versión esperada: si el documento ha cambiado se responde 412",
+  schema: { type: "string" },
+};
+
+/** Cabecera `If-None-Match` de las consultas por id */
+const ifNoneMatchParam = {
+  name: "If-None-Match",
+  in: "header",
+  description:
+    "ETag de la versión que ya tiene el cliente: si no ha cambiado se responde 304",
+  schema: { type: "string" },
+};
+
+/** Respuesta 304 de las consultas con `If-None-Match` */
+const notModified = { description: "El documento no ha cambiado" };
+
+/** Respuesta 412 de las modificaciones con `If-Match` */
+const preconditionFailed = problem(
+  "El documento ha cambiado (la versión no coincide con If-Match)",
+);
+
+/**
+ * Añade la cabecera `ETag` (versión del documento) a una respuesta.
+ *
+ * @param response - Objeto `response`
+ * @returns Respuesta con la cabecera
+ */
+const versioned = (response: JsonSchema) => ({
+  ...response,
+  headers: {
+    ETag: { description: "Versión del documento", schema: { type: "string" } },
+  },
+});
+
+/**
+ * Parámetros de paginación, orden, filtros y búsqueda de un listado,
+ * derivados de sus `PaginationOptions` y del esquema del modelo.
+ *
+ * @param schema - Esquema de Mongoose del listado
+ * @param options - Opciones de paginación de la ruta
+ * @returns Lista de parámetros
+ */
+function listParameters(schema: Schema, options: PaginationOptions) {
+  const fields = schemaToJsonSchema(schema).properties as Record<
+    string,
+    JsonSchema
+  >;
+  return [
+    query("page", "Número de página", { type: "integer", minimum: 1 }),
+    query("limit", "Tamaño de página", {
+      type: "integer",
+      minimum: 1,
+      maximum: MAX_LIMIT,
+      default: DEFAULT_LIMIT,
+    }),
+    query(
+      "sort",
+      `Campos separados por comas, con \`-\` para orden descendente: ${options.sortable.join(", ")}`,
+    ),
+    ...(options.searchable
+      ? [query("q", "Búsqueda de texto, ordenada por relevancia")]
+      : []),
+    ...(options.filterable ?? []).map((field) =>
+      query(
+        field,
+        "Filtro por igualdad; admite también `campo[op]=valor` (ver `parseFilters`)",
+        fields[field],
+      ),
+    ),
+  ];
+}
+
+/**
+ * Rutas CRUD comunes a bienes, cazadores y mercaderes.
+ *
+ * @param base - Ruta base (p. ej. `/goods`)
+ * @param tag - Etiqueta de las operaciones
+ * @param schema - Nombre del esquema del documento
+ * @param model - Esquema de Mongoose del recurso
+ * @param options - Opciones del listado
+ * @param upsertKey - Campo que identifica los documentos al importar
+ * @returns Rutas del recurso
+ */
+function crudPaths(
+  base: string,
+  tag: string,
+  schema: string,
+  model: Schema,
+  options: PaginationOptions,
+  upsertKey: string,
+): Paths {
+  const document = reply(`Documento ${schema}`, ref(schema));
+  const notFound = problem(`${schema} no encontrado`);
+  const referenced = problem(
+    "Referenciado por transacciones (`REFERENCED`, con la lista en `transactions`)",
+  );
+  return {
+    [base]: {
+      post: {
+        tags: [tag],
+        summary: `Crea un documento ${schema}`,
+        requestBody: body(ref(`${schema}Input`)),
+        responses: {
+          201: reply(`${schema} creado`, ref(schema)),
+          400: problem("Error de validación"),
+          403: forbidden,
+        },
+      },
+      get: {
+        tags: [tag],
+        summary: `Lista paginada de ${tag}`,
+        parameters: [...listParameters(model, options), includeDeletedParam],
+        responses: {
+          200: reply("Página de resultados", page(schema)),
+          400: problem("Paginación, orden, filtros o búsqueda no válidos"),
+          403: problem("Solo los administradores ven los eliminados"),
+          500: problem("Error del servidor"),
+        },
+      },
+      patch: {
+        tags: [tag],
+        summary: `Actualiza un documento ${schema} por nombre`,
+        parameters: [nameParam, ifMatchParam],
+        requestBody: body(ref(`${schema}Update`)),
+        responses: {
+          200: versioned(document),
+          400: problem("Falta el nombre o hay campos no permitidos"),
+          403: forbidden,
+          404: notFound,
+          412: preconditionFailed,
+        },
+      },
+      delete: {
+        tags: [tag],
+        summary: `Elimina (borrado lógico) un documento ${schema} por nombre`,
+        parameters: [nameParam, forceParam, ifMatchParam],
+        responses: {
+          200: document,
+          400: problem("Falta el parámetro name"),
+          403: forbidden,
+          404: notFound,
+          409: referenced,
+          412: preconditionFailed,
+        },
+      },
+    },
+    [`${base}/export`]: {
+      get: {
+        tags: [tag],
+        summary: `Exporta todos los documentos ${schema} en JSON o CSV`,
+        parameters: [
+          query("format", "Formato de la exportación", {
+            type: "string",
+            enum: [...EXPORT_FORMATS],
+            default: "json",
+          }),
+          includeDeletedParam,
+        ],
+        responses: {
+          200: {
+            description: "Colección completa",
+            content: {
+              "application/json": {
+                schema: { type: "array", items: ref(schema) },
+              },
+              "text/csv": { schema: { type: "string" } },
+            },
+          },
+          400: problem("Formato no válido"),
+          403: problem("Solo los administradores exportan los eliminados"),
+        },
+      },
+    },
+    [`${base}/import`]: {
+      post: {
+        tags: [tag],
+        summary: `Importa documentos ${schema} desde un array JSON o un CSV`,
+        parameters: [
+          query(
+            "upsert",
+            `Actualiza los documentos que ya existen (por ${upsertKey})`,
+            { type: "boolean", default: false },
+          ),
+          query("atomic", "Importa todas las filas o ninguna", {
+            type: "boolean",
+            default: false,
+          }),
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { type: "array", items: ref(`${schema}Input`) },
+            },
+            "text/csv": { schema: { type: "string" } },
+          },
+        },
+        responses: {
+          200: reply("Resultado de la importación", ref("ImportReport")),
+          400: problem("Cuerpo no válido o filas no válidas con atomic=true"),
+          403: forbidden,
+          413: problem(`El cuerpo supera ${IMPORT_LIMIT}`),
+        },
+      },
+    },
+    [`${base}/{id}`]: {
+      get: {
+        tags: [tag],
+        summary: `Obtiene un documento ${schema} por id`,
+        parameters: [idParam, includeDeletedParam, ifNoneMatchParam],
+        responses: {
+          200: versioned(document),
+          304: notModified,
+          400: problem("Identificador no válido"),
+          403: problem("Solo los administradores ven los eliminados"),
+          404: notFound,
+          500: problem("Error del servidor"),
+        },
+      },
+      patch: {
+        tags: [tag],
+        summary: `Actualiza un documento ${schema} por id`,
+        parameters: [idParam, ifMatchParam],
+        requestBody: body(ref(`${schema}Update`)),
+        responses: {
+          200: versioned(document),
+          400: problem(
+            "Identificador no válido, body vacío o campos no permitidos",
+          ),
+          403: forbidden,
+          404: notFound,
+          412: preconditionFailed,
+        },
+      },
+      delete: {
+        tags: [tag],
+        summary: `Elimina (borrado lógico) un documento ${schema} por id`,
+        parameters: [idParam, forceParam, ifMatchParam],
+        responses: {
+          200: document,
+          400: problem("Identificador no válido"),
+          403: forbidden,
+          404: notFound,
+          409: referenced,
+          412: preconditionFailed,
+        },
+      },
+    },
+    [`${base}/{id}/restore`]: {
+      post: {
+        tags: [tag],
+        summary: `Restaura un documento ${schema} eliminado`,
+        parameters: [idParam],
+        responses: {
+          200: document,
+          400: problem("Identificador no válido"),
+          403: forbidden,
+          404: notFound,
+          409: problem(`El documento ${schema} no está eliminado`),
+        },
+      },
+    },
+    [`${base}/purge`]: {
+      post: {
+        tags: [tag],
+        summary: `Elimina definitivamente los documentos ${schema} eliminados y aplica las políticas de integridad de sus transacciones`,
+        responses: {
+          200: reply("Documentos purgados y conservados", {
+            type: "object",
+            properties: {
+              purged: { type: "integer" },
+              kept: { type: "integer" },
+            },
+            required: ["purged", "kept"],
+          }),
+          403: forbidden,
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Esquema de una página de resultados (`Page<T>`).
+ *
+ * @param schema - Nombre del esquema de los documentos
+ * @returns Esquema de la página
+ */
+function page(schema: string): JsonSchema {
+  return {
+    type: "object",
+    properties: {
+      data: { type: "array", items: ref(schema) },
+      total: { type: "integer" },
+      page: { type: "integer" },
+      pages: { type: "integer" },
+      limit: { type: "integer" },
+    },
+    required: ["data", "total", "page", "pages", "limit"],
+  };
+}
+
+/** Grupo de resultados de `GET /search` */
+const searchGroup = (schema: string): JsonSchema => ({
+  type: "object",
+  properties: {
+    total: { type: "integer" },
+    results: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          type: { type: "string", enum: ["goods", "hunters", "merchants"] },
+          score: { type: "number" },
+          document: ref(schema),
+        },
+      },
+    },
+  },
+});
+
+/** Rutas de transacciones */
+const transactionPaths: Paths = {
+  "/transactions": {
+    post: {
+      tags: ["transactions"],
+      summary: "Registra una compra o venta de forma atómica",
+      requestBody: body(ref("TransactionRequest")),
+      responses: {
+        201: reply("Transacción creada", ref("Transaction")),
+        400: problem("Datos no válidos, stock o monedas insuficientes"),
+        403: problem("Un mercader o cazador que no es el comprador"),
+        404: problem("Comprador, vendedor o bien no encontrado"),
+        409: problem("El inventario del comprador no admite más unidades"),
+        500: problem("Error del servidor"),
+      },
+    },
+  },
+  "/transactions/client": {
+    get: {
+      tags: ["transactions"],
+      summary: "Transacciones de un cliente (como comprador o vendedor)",
+      parameters: [
+        query("clientName", "Nombre del cazador o mercader", undefined, true),
+        ...listParameters(TransactionModel.schema, transactionListOptions),
+      ],
+      responses: {
+        200: reply("Página de transacciones", page("Transaction")),
+        400: problem("Falta clientName o paginación no válida"),
+        403: problem("El cliente no es el usuario del token"),
+        404: problem("Cliente no encontrado"),
+        500: problem("Error del servidor"),
+      },
+    },
+  },
+  "/transactions/date-range": {
+    get: {
+      tags: ["transactions"],
+      summary: "Transacciones en un rango de fechas",
+      parameters: [
+        query("startDate", "Fecha de inicio", { type: "string" }, true),
+        query("endDate", "Fecha de fin", { type: "string" }, true),
+        query("type", "Tipo de transacción", {
+          type: "string",
+          enum: ["purchase", "sale"],
+        }),
+        ...listParameters(TransactionModel.schema, transactionListOptions),
+      ],
+      responses: {
+        200: reply("Página de transacciones", page("Transaction")),
+        400: problem("Fechas no válidas o paginación no válida"),
+        500: problem("Error del servidor"),
+      },
+    },
+  },
+  "/transactions/stream": {
+    get: {
+      tags: ["transactions"],
+      summary: "Flujo en tiempo real de transacciones (Server-Sent Events)",
+      parameters: [
+        query("type", "Tipo de transacción", {
+          type: "string",
+          enum: ["purchase", "sale"],
+        }),
+        query("clientName", "Nombre del comprador o vendedor"),
+        query("goodName", "Nombre de un bien de la transacción"),
+        {
+          name: "Last-Event-ID",
+          in: "header",
+          description: "Último evento recibido; se reenvían los posteriores",
+          required: false,
+          schema: { type: "string", pattern: "^\\d+$" },
+        },
+      ],
+      responses: {
+        200: {
+          description:
+            "Eventos `transaction.created`, `transaction.updated` y `transaction.deleted` con la transacción en `data`",
+          content: { "text/event-stream": { schema: { type: "string" } } },
+        },
+        400: problem("Filtros no válidos"),
+        403: problem("El usuario filtra por otro cliente"),
+        404: problem("Cliente o bien no encontrado"),
+      },
+    },
+  },
+  "/transactions/{id}": {
+    get: {
+      tags: ["transactions"],
+      summary: "Obtiene una transacción con sus partes y bienes",
+      parameters: [idParam, ifNoneMatchParam],
+      responses: {
+        200: versioned(reply("Transacción", ref("Transaction"))),
+        304: notModified,
+        400: problem("Identificador no válido"),
+        403: problem("El usuario no participa en la transacción"),
+        404: problem("Transacción no encontrada"),
+        500: problem("Error del servidor"),
+      },
+    },
+    put: {
+      tags: ["transactions"],
+      summary: "Reemplaza una transacción revirtiendo sus efectos",
+      parameters: [idParam, ifMatchParam],
+      requestBody: body(ref("TransactionRequest")),
+      responses: {
+        200: versioned(reply("Transacción actualizada", ref("Transaction"))),
+        400: problem("Datos no válidos, stock o monedas insuficientes"),
+        403: problem("Un mercader o cazador que no es el comprador"),
+        404: problem("Transacción, parte o bien no encontrado"),
+        409: problem("El inventario del comprador no admite más unidades"),
+        412: preconditionFailed,
+        500: problem("Error del servidor"),
+      },
+    },
+    delete: {
+      tags: ["transactions"],
+      summary: "Elimina una transacción revirtiendo sus efectos",
+      parameters: [idParam, ifMatchParam],
+      responses: {
+        200: reply("Transacción eliminada", {
+          type: "object",
+          properties: { message: { type: "string" } },
+        }),
+        400: problem("El vendedor no tiene monedas para devolver el importe"),
+        403: forbidden,
+        404: problem("Transacción no encontrada"),
+        412: preconditionFailed,
+        500: problem("Error del servidor"),
+      },
+    },
+  },
+};
+
+/** Rutas de inventario de los mercaderes */
+const inventoryPaths: Paths = {
+  "/merchants/{id}/inventory": {
+    get: {
+      tags: ["merchants"],
+      summary: "Inventario de un mercader",
+      parameters: [idParam],
+      responses: {
+        200: reply("Capacidad, unidades usadas y líneas", {
+          type: "object",
+          properties: {
+            inventorySize: { type: "number" },
+            used: { type: "number" },
+            lines: { type: "array", items: ref("InventoryLine") },
+          },
+        }),
+        400: problem("Identificador no válido"),
+        404: problem("Mercader no encontrado"),
+        500: problem("Error del servidor"),
+      },
+    },
+    post: {
+      tags: ["merchants"],
+      summary: "Repone o retira unidades del inventario de un mercader",
+      parameters: [idParam],
+      requestBody: body(ref("RestockRequest")),
+      responses: {
+        201: reply("Línea de inventario actualizada", ref("InventoryLine")),
+        400: problem("Datos no válidos o unidades insuficientes"),
+        403: forbidden,
+        404: problem("Mercader o bien no encontrado"),
+        409: problem("Se supera el inventorySize del mercader"),
+        500: problem("Error del servidor"),
+      },
+    },
+  },
+};
+
+/** Ruta de búsqueda de texto */
+const searchPaths: Paths = {
+  "/search": {
+    get: {
+      tags: ["search"],
+      summary: "Búsqueda de texto en bienes, cazadores y mercaderes",
+      parameters: [
+        query("q", "Términos de búsqueda", undefined, true),
+        query("types", "Colecciones separadas por comas"),
+        query("limit", "Resultados por colección", {
+          type: "integer",
+          minimum: 1,
+          maximum: MAX_LIMIT,
+          default: 10,
+        }),
+      ],
+      responses: {
+        200: reply("Resultados agrupados por colección", {
+          type: "object",
+          properties: {
+            q: { type: "string" },
+            goods: searchGroup("Good"),
+            hunters: searchGroup("Hunter"),
+            merchants: searchGroup("Merchant"),
+          },
+        }),
+        400: problem("Falta q o parámetros no válidos"),
+        500: problem("Error del servidor"),
+      },
+    },
+  },
+};
+
+/** Rutas de emisión y consulta de tokens */
+const authPaths: Paths = {
+  "/auth/tokens": {
+    post: {
+      tags: ["auth"],
+      summary: "Emite un token de acceso (solo administradores)",
+      requestBody: body(ref("TokenRequest")),
+      responses: {
+        201: reply("Token emitido", {
+          type: "object",
+          properties: {
+            token: { type: "string" },
+            claims: ref("TokenClaims"),
+          },
+          required: ["token", "claims"],
+        }),
+        400: problem("Datos no válidos o falta party"),
+        403: forbidden,
+        404: problem("Mercader o cazador no encontrado"),
+      },
+    },
+  },
+  "/auth/me": {
+    get: {
+      tags: ["auth"],
+      summary: "Datos del token de acceso de la petición",
+      responses: { 200: reply("Datos del token", ref("TokenClaims")) },
+    },
+  },
+};
+
+/** Ruta del historial de cambios */
+const auditPaths: Paths = {
+  "/audit": {
+    get: {
+      tags: ["audit"],
+      summary: "Historial de cambios (solo administradores)",
+      parameters: [
+        query("entity", "Tipo de documento", {
+          type: "string",
+          enum: [...AUDIT_ENTITIES],
+        }),
+        query("id", "Identificador del documento", {
+          type: "string",
+          pattern: OBJECT_ID_PATTERN,
+        }),
+        query("action", "Operación", {
+          type: "string",
+          enum: ["create", "update", "delete"],
+        }),
+        query("actor", "Usuario que hizo el cambio"),
+        query("from", "Fecha mínima", { type: "string", format: "date-time" }),
+        query("to", "Fecha máxima", { type: "string", format: "date-time" }),
+        ...listParameters(AuditEntryModel.schema, auditListOptions),
+      ],
+      responses: {
+        200: reply("Página del historial", page("AuditEntry")),
+        400: problem("Parámetros no válidos"),
+        403: forbidden,
+      },
+    },
+  },
+};
+
+/** Rutas de las suscripciones a webhooks */
+const webhookPaths: Paths = {
+  "/webhooks": {
+    post: {
+      tags: ["webhooks"],
+      summary: "Crea una suscripción (solo administradores)",
+      requestBody: body(ref("WebhookInput")),
+      responses: {
+        201: reply("Suscripción creada, con su secreto", ref("Webhook")),
+        400: problem("URL, eventos o secreto no válidos"),
+        403: forbidden,
+      },
+    },
+    get: {
+      tags: ["webhooks"],
+      summary: "Lista las suscripciones (solo administradores)",
+      parameters: listParameters(WebhookModel.schema, webhookListOptions),
+      responses: {
+        200: reply("Página de suscripciones", page("Webhook")),
+        400: problem("Parámetros no válidos"),
+        403: forbidden,
+      },
+    },
+  },
+  "/webhooks/{id}": {
+    get: {
+      tags: ["webhooks"],
+      summary: "Obtiene una suscripción",
+      parameters: [idParam],
+      responses: {
+        200: reply("Suscripción, sin secreto", ref("Webhook")),
+        403: forbidden,
+        404: problem("Webhook no encontrado"),
+      },
+    },
+    patch: {
+      tags: ["webhooks"],
+      summary: "Modifica una suscripción",
+      parameters: [idParam],
+      requestBody: body(ref("WebhookUpdate")),
+      responses: {
+        200: reply("Suscripción actualizada", ref("Webhook")),
+        400: problem("Campos no válidos o body vacío"),
+        403: forbidden,
+        404: problem("Webhook no encontrado"),
+      },
+    },
+    delete: {
+      tags: ["webhooks"],
+      summary: "Elimina una suscripción y su registro de notificaciones",
+      parameters: [idParam],
+      responses: {
+        200: reply("Suscripción eliminada", ref("Webhook")),
+        403: forbidden,
+        404: problem("Webhook no encontrado"),
+      },
+    },
+  },
+  "/webhooks/{id}/deliveries": {
+    get: {
+      tags: ["webhooks"],
+      summary: "Registro de notificaciones de una suscripción",
+      parameters: [
+        idParam,
+        ...listParameters(WebhookDeliveryModel.schema, deliveryListOptions),
+      ],
+      responses: {
+        200: reply("Página de notificaciones", page("WebhookDelivery")),
+        400: problem("Parámetros no válidos"),
+        403: forbidden,
+        404: problem("Webhook no encontrado"),
+      },
+    },
+  },
+};
+
+/** Rutas de las reglas de precio */
+const pricingRulePaths: Paths = {
+  "/pricing-rules": {
+    post: {
+      tags: ["pricing"],
+      summary: "Crea una regla de precio (solo administradores)",
+      requestBody: body(ref("PricingRuleInput")),
+      responses: {
+        201: reply("Regla creada", ref("PricingRule")),
+        400: problem("Campos no válidos"),
+        403: forbidden,
+        409: problem("Ya existe una regla con ese nombre"),
+      },
+    },
+    get: {
+      tags: ["pricing"],
+      summary: "Lista las reglas de precio, por defecto en orden de aplicación",
+      parameters: listParameters(
+        PricingRuleModel.schema,
+        pricingRuleListOptions,
+      ),
+      responses: {
+        200: reply("Página de reglas", page("PricingRule")),
+        400: problem("Parámetros no válidos"),
+      },
+    },
+  },
+  "/pricing-rules/{id}": {
+    get: {
+      tags: ["pricing"],
+      summary: "Obtiene una regla de precio",
+      parameters: [idParam],
+      responses: {
+        200: reply("Regla", ref("PricingRule")),
+        404: problem("Regla de precio no encontrada"),
+      },
+    },
+    patch: {
+      tags: ["pricing"],
+      summary: "Modifica una regla de precio (solo administradores)",
+      parameters: [idParam],
+      requestBody: body(ref("PricingRuleUpdate")),
+      responses: {
+        200: reply("Regla actualizada", ref("PricingRule")),
+        400: problem("Campos no válidos o body vacío"),
+        403: forbidden,
+        404: problem("Regla de precio no encontrada"),
+        409: problem("Ya existe una regla con ese nombre"),
+      },
+    },
+    delete: {
+      tags: ["pricing"],
+      summary: "Elimina una regla de precio (solo administradores)",
+      parameters: [idParam],
+      responses: {
+        200: reply("Regla eliminada", ref("PricingRule")),
+        403: forbidden,
+        404: problem("Regla de precio no encontrada"),
+      },
+    },
+  },
+};
+
+/** Ruta del endpoint GraphQL */
+const graphqlPaths: Paths = {
+  "/graphql": {
+    post: {
+      tags: ["graphql"],
+      summary: "Ejecuta una consulta o mutación GraphQL",
+      requestBody: body(graphqlBody),
+      responses: {
+        200: reply("Resultado de la operación", ref("GraphQLResult")),
+        400: {
+          description: "Cuerpo u operación no válidos",
+          content: {
+            "application/json": { schema: ref("GraphQLResult") },
+            "application/problem+json": { schema: ref("Problem") },
+          },
+        },
+      },
+    },
+  },
+};
+
+/** Parámetros comunes de los informes de ventas */
+const reportParameters = [
+  query(
+    "startDate",
+    "Fecha de inicio",
+    { type: "string", format: "date-time" },
+    true,
+  ),
+  query(
+    "endDate",
+    "Fecha de fin",
+    { type: "string", format: "date-time" },
+    true,
+  ),
+  query("format", "Formato de la respuesta", {
+    type: "string",
+    enum: [...EXPORT_FORMATS],
+    default: "json",
+  }),
+];
+
+/** Parámetro `limit` de los rankings */
+const rankingLimitParam = query("limit", "Número de filas", {
+  type: "integer",
+  minimum: 1,
+  maximum: MAX_LIMIT,
+  default: 10,
+});
+
+/**
+ * Respuesta 200 de un informe, en JSON o CSV.
+ *
+ * @param description - Descripción de la respuesta
+ * @param schema - Nombre del esquema de cada fila
+ * @returns Objeto `response`
+ */
+const report = (description: string, schema: string) => ({
+  description,
+  content: {
+    "application/json": { schema: { type: "array", items: ref(schema) } },
+    "text/csv": { schema: { type: "string" } },
+  },
+});
+
+/** Rutas de control del stock de los bienes */
+const stockPaths: Paths = {
+  "/goods/low-stock": {
+    get: {
+      tags: ["goods"],
+      summary: "Bienes con el stock por debajo de su nivel de reposición",
+      parameters: [
+        ...listParameters(GoodModel.schema, goodListOptions),
+        includeDeletedParam,
+      ],
+      responses: {
+        200: reply("Página de bienes con stock bajo", page("LowStockGood")),
+        400: problem("Parámetros no válidos"),
+        403: problem("Solo los administradores consultan los eliminados"),
+        500: problem("Error del servidor"),
+      },
+    },
+  },
+  "/goods/{id}/stock-history": {
+    get: {
+      tags: ["goods"],
+      summary: "Evolución del stock de la posada de un bien",
+      parameters: [
+        idParam,
+        query("from", "Fecha mínima", { type: "string", format: "date-time" }),
+        query("to", "Fecha máxima", { type: "string", format: "date-time" }),
+        includeDeletedParam,
+      ],
+      responses: {
+        200: reply("Evolución del stock", ref("StockHistory")),
+        400: problem("Identificador o fechas no válidos"),
+        403: forbidden,
+        404: problem("Bien no encontrado"),
+        500: problem("Error del servidor"),
+      },
+    },
+  },
+};
+
+/**
+ * Esquema de una fila de la valoración del inventario.
+ *
+ * @param properties - Propiedades además de `stock`, `value` y `weight`
+ * @returns Esquema de la fila
+ */
+const valuation = (properties: Record<string, JsonSchema>): JsonSchema => ({
+  type: "object",
+  properties: {
+    ...properties,
+    stock: { type: "integer" },
+    value: { type: "number" },
+    weight: { type: "number" },
+  },
+  required: [...Object.keys(properties), "stock", "value", "weight"],
+});
+
+/** Rutas de los informes de ventas y de inventario */
+const reportPaths: Paths = {
+  "/reports/sales/{by}": {
+    get: {
+      tags: ["reports"],
+      summary: "Ventas por bien, mercader, cazador o material y periodo",
+      parameters: [
+        {
+          name: "by",
+          in: "path",
+          required: true,
+          description: "Dimensión del informe",
+          schema: { type: "string", enum: [...REPORT_DIMENSIONS] },
+        },
+        ...reportParameters,
+        query("interval", "Agrupación temporal", {
+          type: "string",
+          enum: [...REPORT_INTERVALS],
+          default: "month",
+        }),
+      ],
+      responses: {
+        200: report("Filas del informe", "SalesRow"),
+        400: problem("Parámetros no válidos"),
+        403: forbidden,
+        500: problem("Error del servidor"),
+      },
+    },
+  },
+  "/reports/inventory": {
+    get: {
+      tags: ["reports"],
+      summary: "Valor y peso del stock de la posada por material y por bien",
+      responses: {
+        200: reply("Valoración del inventario", ref("InventoryReport")),
+        403: forbidden,
+        500: problem("Error del servidor"),
+      },
+    },
+  },
+  "/reports/treasury": {
+    get: {
+      tags: ["reports"],
+      summary: "Monedas de la posada, de los cazadores y de los mercaderes",
+      responses: {
+        200: reply("Monedas en circulación", ref("TreasuryReport")),
+        403: forbidden,
+        500: problem("Error del servidor"),
+      },
+    },
+  },
+  "/reports/top-goods": {
+    get: {
+      tags: ["reports"],
+      summary: "Bienes más vendidos por unidades",
+      parameters: [...reportParameters, rankingLimitParam],
+      responses: {
+        200: report("Ranking de bienes", "TopGoodRow"),
+        400: problem("Parámetros no válidos"),
+        403: forbidden,
+        500: problem("Error del servidor"),
+      },
+    },
+  },
+  "/reports/top-spenders": {
+    get: {
+      tags: ["reports"],
+      summary: "Clientes que más gastan como compradores",
+      parameters: [...reportParameters, rankingLimitParam],
+      responses: {
+        200: report("Ranking de clientes", "TopSpenderRow"),
+        400: problem("Parámetros no válidos"),
+        403: forbidden,
+        500: problem("Error del servidor"),
+      },
+    },
+  },
+};
+
+/**
+ * Documento OpenAPI 3.1 de la API.
+ *
+ * @remarks
+ * Los esquemas de los documentos se generan a partir de los esquemas de
+ * Mongoose (tipos, enumerados, `min`/`max` y campos obligatorios) y los
+ * parámetros de los listados a partir de sus `PaginationOptions`, de modo que
+ * el contrato no se desincroniza de las validaciones. Se sirve en
+ * `GET /openapi.json` y se visualiza en `/api-docs`. Todas las rutas salvo
+ * las de documentación exigen un token de acceso (`bearerAuth`).
+ */
+export const openApiDocument = {
+  openapi: "3.1.0",
+  info: {
+    title: "API de The Witcher",
+    version: "1.0.0",
+    description:
+      "API REST de la posada: bienes, cazadores, mercaderes y transacciones.",
+  },
+  tags: [
+    { name: "goods", description: "Bienes de la posada" },
+    { name: "hunters", description: "Cazadores (clientes)" },
+    { name: "merchants", description: "Mercaderes y su inventario" },
+    { name: "transactions", description: "Compras y ventas" },
+    { name: "search", description: "Búsqueda de texto" },
+    { name: "auth", description: "Tokens de acceso" },
+    { name: "audit", description: "Historial de cambios" },
+    { name: "reports", description: "Informes de ventas e inventario" },
+    { name: "webhooks", description: "Notificaciones de eventos" },
+    { name: "pricing", description: "Reglas de precio de las transacciones" },
+    { name: "graphql", description: "Consultas y mutaciones GraphQL" },
+  ],
+  security: [{ bearerAuth: [] }],
+  paths: authenticated(
+    idempotent({
+      ...crudPaths(
+        "/goods",
+        "goods",
+        "Good",
+        GoodModel.schema,
+        goodListOptions,
+        goodImportOptions.key,
+      ),
+      ...crudPaths(
+        "/hunters",
+        "hunters",
+        "Hunter",
+        HunterModel.schema,
+        hunterListOptions,
+        hunterImportOptions.key,
+      ),
+      ...crudPaths(
+        "/merchants",
+        "merchants",
+        "Merchant",
+        MerchantModel.schema,
+        merchantListOptions,
+        merchantImportOptions.key,
+      ),
+      ...inventoryPaths,
+      ...transactionPaths,
+      ...searchPaths,
+      ...authPaths,
+      ...auditPaths,
+      ...stockPaths,
+      ...reportPaths,
+      ...webhookPaths,
+      ...pricingRulePaths,
+      ...graphqlPaths,
+    }),
+  ),
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+    },
+    schemas: {
+      Good: schemaToJsonSchema(GoodModel.schema),
+      GoodInput: goodBody,
+      GoodUpdate: goodUpdateBody,
+      Hunter: schemaToJsonSchema(HunterModel.schema),
+      HunterInput: hunterBody,
+      HunterUpdate: hunterUpdateBody,
+      Merchant: schemaToJsonSchema(MerchantModel.schema),
+      MerchantInput: merchantBody,
+      MerchantUpdate: merchantUpdateBody,
+      Transaction: schemaToJsonSchema(TransactionModel.schema),
+      TransactionRequest: transactionBody,
+      InventoryLine: schemaToJsonSchema(InventoryModel.schema),
+      RestockRequest: restockBody,
+      AuditEntry: schemaToJsonSchema(AuditEntryModel.schema),
+      TokenRequest: tokenBody,
+      Webhook: schemaToJsonSchema(WebhookModel.schema),
+      WebhookInput: webhookBody,
+      WebhookUpdate: webhookUpdateBody,
+      WebhookDelivery: schemaToJsonSchema(WebhookDeliveryModel.schema),
+      PricingRule: schemaToJsonSchema(PricingRuleModel.schema),
+      PricingRuleInput: pricingRuleBody,
+      PricingRuleUpdate: pricingRuleUpdateBody,
+      GraphQLResult: {
+        type: "object",
+        properties: {
+          data: { type: ["object", "null"] },
+          errors: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                message: { type: "string" },
+                path: { type: "array", items: { type: ["string", "integer"] } },
+                extensions: {
+                  type: "object",
+                  properties: {
+                    code: { type: "string" },
+                    status: { type: "integer" },
+                    errors: { type: "array", items: { type: "object" } },
+                  },
+                },
+              },
+              required: ["message"],
+            },
+          },
+        },
+      },
+      ImportReport: {
+        type: "object",
+        properties: {
+          total: { type: "integer" },
+          inserted: { type: "integer" },
+          updated: { type: "integer" },
+          failed: { type: "integer" },
+          errors: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                location: { type: "string", enum: ["body"] },
+                field: { type: "string" },
+                message: { type: "string" },
+              },
+              required: ["location", "field", "message"],
+            },
+          },
+        },
+        required: ["total", "inserted", "updated", "failed", "errors"],
+      },
+      SalesRow: {
+        type: "object",
+        properties: {
+          period: { type: "string" },
+          key: { type: "string" },
+          name: { type: ["string", "null"] },
+          revenue: { type: "number" },
+          units: { type: "integer" },
+          transactions: { type: "integer" },
+        },
+        required: ["period", "key", "name", "revenue", "units", "transactions"],
+      },
+      TopGoodRow: {
+        type: "object",
+        properties: {
+          key: { type: "string", pattern: OBJECT_ID_PATTERN },
+          name: { type: ["string", "null"] },
+          material: { type: ["string", "null"] },
+          units: { type: "integer" },
+          revenue: { type: "number" },
+        },
+        required: ["key", "name", "material", "units", "revenue"],
+      },
+      TopSpenderRow: {
+        type: "object",
+        properties: {
+          key: { type: "string", pattern: OBJECT_ID_PATTERN },
+          name: { type: ["string", "null"] },
+          model: { type: "string", enum: ["Hunter", "Merchant"] },
+          spent: { type: "number" },
+          transactions: { type: "integer" },
+        },
+        required: ["key", "name", "model", "spent", "transactions"],
+      },
+      RestockSuggestion: {
+        type: "object",
+        description: "Cuerpo de `POST /transactions` para reponer el bien",
+        properties: {
+          type: { type: "string", enum: ["sale"] },
+          sellerName: { type: "string" },
+          items: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                goodName: { type: "string" },
+                quantity: { type: "integer", minimum: 1 },
+              },
+              required: ["goodName", "quantity"],
+            },
+          },
+        },
+        required: ["type", "items"],
+      },
+      LowStockGood: {
+        allOf: [
+          ref("Good"),
+          {
+            type: "object",
+            properties: { suggestion: ref("RestockSuggestion") },
+            required: ["suggestion"],
+          },
+        ],
+      },
+      InventoryReport: {
+        type: "object",
+        properties: {
+          total: valuation({ goods: { type: "integer" } }),
+          materials: {
+            type: "array",
+            items: valuation({
+              material: { type: "string" },
+              goods: { type: "integer" },
+            }),
+          },
+          goods: {
+            type: "array",
+            items: valuation({
+              key: { type: "string", pattern: OBJECT_ID_PATTERN },
+              id: { type: "integer" },
+              name: { type: "string" },
+              material: { type: "string" },
+            }),
+          },
+        },
+        required: ["total", "materials", "goods"],
+      },
+      TreasuryReport: {
+        type: "object",
+        properties: {
+          inn: { type: "number" },
+          hunters: { type: "number" },
+          merchants: { type: "number" },
+          total: { type: "number" },
+        },
+        required: ["inn", "hunters", "merchants", "total"],
+      },
+      StockHistory: {
+        type: "object",
+        properties: {
+          good: { type: "string", pattern: OBJECT_ID_PATTERN },
+          name: { type: "string" },
+          stock: { type: "integer" },
+          opening: { type: "integer" },
+          closing: { type: "integer" },
+          movements: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                date: { type: "string", format: "date-time" },
+                transaction: { type: "string", pattern: OBJECT_ID_PATTERN },
+                type: { type: "string", enum: ["purchase", "sale"] },
+                quantity: { type: "integer" },
+                balance: { type: "integer" },
+              },
+              required: ["date", "transaction", "type", "quantity", "balance"],
+            },
+          },
+        },
+        required: ["good", "name", "stock", "opening", "closing", "movements"],
+      },
+      TokenClaims: {
+        type: "object",
+        properties: {
+          sub: { type: "string" },
+          role: { type: "string", enum: [...ROLES] },
+          party: { type: "string", pattern: OBJECT_ID_PATTERN },
+          iat: { type: "integer" },
+          exp: { type: "integer" },
+        },
+        required: ["sub", "role", "iat"],
+      },
+      Problem: {
+        type: "object",
+        properties: {
+          type: { type: "string" },
+          title: { type: "string" },
+          status: { type: "integer" },
+          detail: { type: "string" },
+          code: { type: "string", enum: [...ERROR_CODES] },
+          instance: { type: "string" },
+          transactions: {
+            type: "array",
+            items: { type: "string", pattern: OBJECT_ID_PATTERN },
+          },
+          errors: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                location: { type: "string", enum: ["body", "params", "query"] },
+                field: { type: "string" },
+                message: { type: "string" },
+              },
+              required: ["location", "field", "message"],
+            },
+          },
+        },
+        required: ["type", "title", "status", "detail", "code", "instance"],
+      },
+    },
+  },
+};
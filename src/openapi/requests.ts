@@ -0,0 +1,461 @@
+import { GoodModel } from "../models/good.js";
+import { HunterModel } from "../models/hunter.js";
+import { MerchantModel } from "../models/merchant.js";
+import { WebhookModel } from "../models/webhook.js";
+import { PricingRuleModel } from "../models/pricing.js";
+import { RequestSchema } from "../middleware/validate.js";
+import { ROLES } from "../utils/tokens.js";
+import { AUDIT_ENTITIES } from "../models/audit.js";
+import { EXPORT_FORMATS } from "../utils/bulk.js";
+import { MAX_LIMIT } from "../utils/pagination.js";
+import { REPORT_DIMENSIONS, REPORT_INTERVALS } from "../utils/reports.js";
+import { APP_EVENTS } from "../utils/events.js";
+import {
+  JsonSchema,
+  OBJECT_ID_PATTERN,
+  schemaToJsonSchema,
+} from "./schemas.js";
+
+/** Identificador de MongoDB */
+const objectId: JsonSchema = { type: "string", pattern: OBJECT_ID_PATTERN };
+
+/** Entero positivo (en la query string llega como texto) */
+const positiveInteger: JsonSchema = { type: "integer", minimum: 1 };
+
+/** Texto de búsqueda, con algún carácter que no sea un espacio */
+const searchText: JsonSchema = { type: "string", pattern: "\\S" };
+
+/** Parámetros de las rutas `/:id` */
+export const idParams: JsonSchema = {
+  type: "object",
+  properties: { id: objectId },
+  required: ["id"],
+};
+
+/** Query string de las rutas que actúan sobre un documento por nombre */
+export const nameQuery: JsonSchema = {
+  type: "object",
+  properties: { name: { type: "string", minLength: 1 } },
+  required: ["name"],
+};
+
+/** Indicador `force` de los borrados (ver `enforceIntegrity`) */
+const force: JsonSchema = { type: "boolean" };
+
+/** Query string de los borrados por id */
+export const forceQuery: JsonSchema = {
+  type: "object",
+  properties: { force },
+};
+
+/** Query string de los borrados por nombre */
+const deleteByNameQuery: JsonSchema = {
+  type: "object",
+  properties: { name: { type: "string", minLength: 1 }, force },
+  required: ["name"],
+};
+
+/** Query string de las importaciones (ver `importDocuments`) */
+export const importQuery: JsonSchema = {
+  type: "object",
+  properties: { upsert: { type: "boolean" }, atomic: { type: "boolean" } },
+};
+
+/** Query string de las exportaciones (ver `exportCollection`) */
+export const exportQuery: JsonSchema = {
+  type: "object",
+  properties: {
+    format: { type: "string", enum: [...EXPORT_FORMATS] },
+    includeDeleted: { type: "boolean" },
+  },
+};
+
+/**
+ * Query string de los listados. Los filtros los valida `parseFilters`
+ * contra los campos permitidos de cada ruta.
+ */
+export const listQuery: JsonSchema = {
+  type: "object",
+  properties: {
+    page: positiveInteger,
+    limit: positiveInteger,
+    sort: { type: "string" },
+    q: searchText,
+    includeDeleted: { type: "boolean" },
+  },
+};
+
+/** Query string de las rutas que pueden devolver documentos eliminados */
+export const deletedQuery: JsonSchema = {
+  type: "object",
+  properties: { includeDeleted: { type: "boolean" } },
+};
+
+/** Campos modificables de los bienes */
+export const goodUpdates = [
+  "name",
+  "description",
+  "material",
+  "weight",
+  "value",
+  "reorderLevel",
+  "reorderQuantity",
+];
+
+/** Campos modificables de los cazadores */
+export const hunterUpdates = [
+  "name",
+  "type",
+  "experience",
+  "preferredWeapon",
+  "coins",
+  "isActive",
+  "email",
+  "monsterSpecialty",
+];
+
+/** Campos modificables de los mercaderes */
+export const merchantUpdates = [
+  "name",
+  "location",
+  "specialty",
+  "isTraveling",
+  "inventorySize",
+  "reputation",
+  "coins",
+  "contact",
+];
+
+/**
+ * Campos que un cazador puede modificar de su propio documento. El tipo, la
+ * experiencia y las monedas (de los que dependen los precios y los pagos)
+ * solo los modifican los administradores.
+ */
+export const hunterOwnerUpdates = [
+  "name",
+  "preferredWeapon",
+  "isActive",
+  "email",
+  "monsterSpecialty",
+];
+
+/**
+ * Campos que un mercader puede modificar de su propio documento. La
+ * capacidad del inventario, la reputación y las monedas solo los modifican
+ * los administradores.
+ */
+export const merchantOwnerUpdates = [
+  "name",
+  "location",
+  "specialty",
+  "isTraveling",
+  "contact",
+];
+
+/**
+ * Cuerpo de actualización: solo los campos modificables y al menos uno.
+ *
+ * @param fields - Campos modificables
+ * @param schema - Esquema del recurso sin restricciones
+ * @returns Esquema del cuerpo
+ */
+const updateBody = (
+  fields: string[],
+  schema: Parameters<typeof schemaToJsonSchema>[0],
+): JsonSchema => ({
+  ...schemaToJsonSchema(schema, { partial: true, fields }),
+  minProperties: 1,
+});
+
+/** Cuerpo de creación de bienes */
+export const goodBody = schemaToJsonSchema(GoodModel.schema, { input: true });
+/** Cuerpo de actualización de bienes */
+export const goodUpdateBody = updateBody(goodUpdates, GoodModel.schema);
+/** Cuerpo de creación de cazadores */
+export const hunterBody = schemaToJsonSchema(HunterModel.schema, {
+  input: true,
+});
+/** Cuerpo de actualización de cazadores */
+export const hunterUpdateBody = updateBody(hunterUpdates, HunterModel.schema);
+/** Cuerpo de creación de mercaderes */
+export const merchantBody = schemaToJsonSchema(MerchantModel.schema, {
+  input: true,
+});
+/** Cuerpo de actualización de mercaderes */
+export const merchantUpdateBody = updateBody(
+  merchantUpdates,
+  MerchantModel.schema,
+);
+
+/**
+ * Esquemas de las rutas CRUD comunes a bienes, cazadores y mercaderes.
+ *
+ * @remarks
+ * Los usa el middleware `validate` para rechazar las peticiones mal formadas
+ * antes de acceder a la base de datos; el documento OpenAPI describe los
+ * cuerpos con los mismos esquemas.
+ *
+ * @param body - Cuerpo de creación
+ * @param update - Cuerpo de actualización
+ * @returns Esquema de cada ruta
+ */
+export const crudRequests = (body: JsonSchema, update: JsonSchema) => ({
+  create: { body } as RequestSchema,
+  list: { query: listQuery } as RequestSchema,
+  get: { params: idParams, query: deletedQuery } as RequestSchema,
+  updateByName: { query: nameQuery, body: update } as RequestSchema,
+  updateById: { params: idParams, body: update } as RequestSchema,
+  deleteByName: { query: deleteByNameQuery } as RequestSchema,
+  deleteById: { params: idParams, query: forceQuery } as RequestSchema,
+  restore: { params: idParams } as RequestSchema,
+  import: { query: importQuery } as RequestSchema,
+  export: { query: exportQuery } as RequestSchema,
+});
+
+/** Cuerpo de reposición del inventario de un mercader */
+export const restockBody: JsonSchema = {
+  type: "object",
+  properties: {
+    goodName: { type: "string", minLength: 1 },
+    goodId: objectId,
+    quantity: positiveInteger,
+    price: { type: "number", minimum: 0 },
+  },
+  required: ["quantity"],
+  anyOf: [{ required: ["goodName"] }, { required: ["goodId"] }],
+};
+
+/** Cuerpo de creación y actualización de transacciones */
+export const transactionBody: JsonSchema = {
+  type: "object",
+  properties: {
+    type: { type: "string", enum: ["purchase", "sale"] },
+    clientName: {
+      type: "string",
+      description:
+        "Compatibilidad: comprador en las compras y vendedor en las ventas",
+    },
+    buyerName: { type: "string" },
+    buyerId: objectId,
+    sellerName: { type: "string" },
+    sellerId: objectId,
+    items: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: {
+          goodName: { type: "string", minLength: 1 },
+          quantity: positiveInteger,
+        },
+        required: ["goodName", "quantity"],
+      },
+    },
+  },
+  required: ["type", "items"],
+};
+
+/** Query string de `GET /transactions/client` */
+export const clientQuery: JsonSchema = {
+  type: "object",
+  properties: {
+    ...(listQuery.properties as object),
+    clientName: { type: "string", minLength: 1 },
+  },
+  required: ["clientName"],
+};
+
+/** Query string de `GET /transactions/date-range` */
+export const dateRangeQuery: JsonSchema = {
+  type: "object",
+  properties: {
+    ...(listQuery.properties as object),
+    startDate: { type: "string", format: "date-time" },
+    endDate: { type: "string", format: "date-time" },
+    type: { type: "string", enum: ["purchase", "sale"] },
+  },
+  required: ["startDate", "endDate"],
+};
+
+/** Query string de `GET /transactions/stream` */
+export const streamQuery: JsonSchema = {
+  type: "object",
+  properties: {
+    type: { type: "string", enum: ["purchase", "sale"] },
+    clientName: { type: "string", minLength: 1 },
+    goodName: { type: "string", minLength: 1 },
+  },
+  additionalProperties: false,
+};
+
+/** Intervalo de fechas de los informes */
+const reportRange = {
+  startDate: { type: "string", format: "date-time" },
+  endDate: { type: "string", format: "date-time" },
+  format: { type: "string", enum: [...EXPORT_FORMATS] },
+};
+
+/** Parámetros de `GET /reports/sales/:by` */
+export const salesParams: JsonSchema = {
+  type: "object",
+  properties: { by: { type: "string", enum: [...REPORT_DIMENSIONS] } },
+  required: ["by"],
+};
+
+/** Query string de `GET /reports/sales/:by` */
+export const salesQuery: JsonSchema = {
+  type: "object",
+  properties: {
+    ...reportRange,
+    interval: { type: "string", enum: [...REPORT_INTERVALS] },
+  },
+  required: ["startDate", "endDate"],
+};
+
+/** Query string de los rankings de `/reports` */
+export const rankingQuery: JsonSchema = {
+  type: "object",
+  properties: {
+    ...reportRange,
+    limit: { ...positiveInteger, maximum: MAX_LIMIT },
+  },
+  required: ["startDate", "endDate"],
+};
+
+/** Query string de `GET /goods/:id/stock-history` */
+export const stockHistoryQuery: JsonSchema = {
+  type: "object",
+  properties: {
+    from: { type: "string", format: "date-time" },
+    to: { type: "string", format: "date-time" },
+    includeDeleted: { type: "boolean" },
+  },
+};
+
+/** Query string de `GET /search` */
+export const searchQuery: JsonSchema = {
+  type: "object",
+  properties: {
+    q: searchText,
+    types: { type: "string" },
+    limit: positiveInteger,
+  },
+  required: ["q"],
+};
+
+/** Cuerpo de `POST /auth/tokens` */
+export const tokenBody: JsonSchema = {
+  type: "object",
+  properties: {
+    sub: { type: "string", minLength: 1, description: "Usuario" },
+    role: { type: "string", enum: [...ROLES] },
+    party: {
+      ...objectId,
+      description: "Mercader o cazador del usuario (roles merchant y hunter)",
+    },
+    expiresIn: {
+      type: "integer",
+      minimum: 0,
+      description: "Segundos de validez (0 para que no caduque)",
+    },
+  },
+  required: ["sub", "role"],
+  additionalProperties: false,
+};
+
+/** Query string de `GET /audit` */
+export const auditQuery: JsonSchema = {
+  type: "object",
+  properties: {
+    page: positiveInteger,
+    limit: positiveInteger,
+    sort: { type: "string" },
+    entity: { type: "string", enum: [...AUDIT_ENTITIES] },
+    id: objectId,
+    action: { type: "string", enum: ["create", "update", "delete"] },
+    actor: { type: "string", minLength: 1 },
+    from: { type: "string", format: "date-time" },
+    to: { type: "string", format: "date-time" },
+  },
+  additionalProperties: false,
+};
+
+/** Campos modificables de las suscripciones a webhooks */
+export const webhookUpdates = [
+  "url",
+  "events",
+  "secret",
+  "active",
+  "description",
+];
+
+/** Eventos de una suscripción: al menos uno de `APP_EVENTS` */
+const webhookEvents: JsonSchema = {
+  type: "array",
+  items: { type: "string", enum: [...APP_EVENTS] },
+  minItems: 1,
+};
+
+/** Campos de los cuerpos de creación y actualización de webhooks */
+const webhookFields: JsonSchema = {
+  type: "object",
+  properties: {
+    ...(schemaToJsonSchema(WebhookModel.schema, { fields: webhookUpdates })
+      .properties as Record<string, JsonSchema>),
+    events: webhookEvents,
+  },
+  additionalProperties: false,
+};
+
+/** Cuerpo de creación de webhooks */
+export const webhookBody: JsonSchema = {
+  ...webhookFields,
+  required: ["url", "events"],
+};
+
+/** Cuerpo de actualización de webhooks */
+export const webhookUpdateBody: JsonSchema = {
+  ...webhookFields,
+  minProperties: 1,
+};
+
+/** Campos modificables de las reglas de precio */
+export const pricingRuleUpdates = [
+  "name",
+  "description",
+  "party",
+  "partyModel",
+  "transactionType",
+  "hunterTypes",
+  "minExperience",
+  "maxExperience",
+  "minReputation",
+  "maxReputation",
+  "adjustment",
+  "priority",
+  "active",
+];
+
+/** Cuerpo de creación de reglas de precio */
+export const pricingRuleBody = schemaToJsonSchema(PricingRuleModel.schema, {
+  input: true,
+  fields: pricingRuleUpdates,
+});
+
+/** Cuerpo de actualización de reglas de precio */
+export const pricingRuleUpdateBody = updateBody(
+  pricingRuleUpdates,
+  PricingRuleModel.schema,
+);
+
+/** Cuerpo de `POST /graphql` */
+export const graphqlBody: JsonSchema = {
+  type: "object",
+  properties: {
+    query: { type: "string", minLength: 1, description: "Documento GraphQL" },
+    variables: { type: ["object", "null"] },
+    operationName: { type: ["string", "null"] },
+  },
+  required: ["query"],
+  additionalProperties: false,
+};
@@ -0,0 +1,171 @@
+import { Schema, SchemaType } from "mongoose";
+import { enumValues } from "../utils/filters.js";
+
+/**
+ * Esquema JSON (dialecto de OpenAPI 3.1) de un campo o documento.
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/** Patrón de los identificadores de MongoDB (`ObjectId`) */
+export const OBJECT_ID_PATTERN = "^[0-9a-fA-F]{24}$";
+
+/** Campos que genera el servidor y no se envían en las peticiones */
+export const READ_ONLY = [
+  "_id",
+  "createdAt",
+  "updatedAt",
+  "deletedAt",
+  "version",
+];
+
+/**
+ * Lee el valor de una opción de validación de Mongoose, que puede indicarse
+ * directamente o como `[valor, mensaje]`.
+ *
+ * @param option - Opción del esquema
+ * @returns Valor de la opción
+ */
+function optionValue(option: unknown): unknown {
+  return Array.isArray(option) ? option[0] : option;
+}
+
+/**
+ * Indica si un campo debe enviarse siempre. Los campos obligatorios según
+ * una condición (función) o con valor por defecto no se marcan como
+ * `required`.
+ *
+ * @param path - Definición del campo
+ * @returns `true` si el campo es obligatorio incondicionalmente
+ */
+function isRequired(path: SchemaType): boolean {
+  return (
+    optionValue(path.options.required) === true &&
+    path.options.default === undefined
+  );
+}
+
+/**
+ * Convierte un campo de Mongoose en su esquema JSON, con enumerados,
+ * límites y valores por defecto.
+ *
+ * @param path - Definición del campo
+ * @returns Esquema JSON del campo
+ */
+function fieldToJsonSchema(path: SchemaType): JsonSchema {
+  const options = path.options as Record<string, unknown>;
+  const json: JsonSchema = {};
+
+  switch (path.instance) {
+    case "String": {
+      json.type = "string";
+      const values = enumValues(path);
+      if (values.length) json.enum = values;
+      const minLength = optionValue(options.minlength);
+      const maxLength = optionValue(options.maxlength);
+      if (typeof minLength === "number") json.minLength = minLength;
+      if (typeof maxLength === "number") json.maxLength = maxLength;
+      break;
+    }
+    case "Number": {
+      json.type = "number";
+      const min = optionValue(options.min);
+      const max = optionValue(options.max);
+      if (typeof min === "number") json.minimum = min;
+      if (typeof max === "number") json.maximum = max;
+      break;
+    }
+    case "Boolean":
+      json.type = "boolean";
+      break;
+    case "Date":
+      json.type = "string";
+      json.format = "date-time";
+      break;
+    case "ObjectId":
+      json.type = "string";
+      json.pattern = OBJECT_ID_PATTERN;
+      if (typeof options.ref === "string") {
+        json.description = `Referencia a ${options.ref}`;
+      } else if (typeof options.refPath === "string") {
+        json.description = `Referencia al modelo indicado en ${options.refPath}`;
+      }
+      break;
+    case "Array": {
+      json.type = "array";
+      const array = path as Schema.Types.Array & { schema?: Schema };
+      if (array.schema) {
+        json.items = schemaToJsonSchema(array.schema);
+      } else if (array.caster) {
+        json.items = fieldToJsonSchema(array.caster);
+      }
+      break;
+    }
+    case "Embedded":
+      Object.assign(
+        json,
+        schemaToJsonSchema((path as SchemaType & { schema: Schema }).schema),
+      );
+      break;
+    default:
+      // `Mixed` admite cualquier valor
+      break;
+  }
+
+  if (options.default === null) {
+    if (json.type) json.type = [json.type, "null"];
+    if (Array.isArray(json.enum)) json.enum = [...json.enum, null];
+    json.default = null;
+  } else if (
+    options.default !== undefined &&
+    typeof options.default !== "function"
+  ) {
+    json.default = options.default;
+  }
+  return json;
+}
+
+/**
+ * Convierte un esquema de Mongoose en un esquema JSON para OpenAPI.
+ *
+ * @remarks
+ * Se incluyen los tipos, enumerados, `min`/`max`, `minlength`/`maxlength`,
+ * valores por defecto y campos obligatorios. `_id` y las marcas de tiempo se
+ * marcan como `readOnly`.
+ *
+ * @param schema - Esquema de Mongoose
+ * @param options - Opciones de conversión:
+ *   - `input`: omite los campos de solo lectura (cuerpos de creación)
+ *   - `partial`: además, omite los obligatorios (cuerpos de actualización)
+ *   - `fields`: solo admite estos campos (`additionalProperties: false`)
+ * @returns Esquema JSON del documento
+ *
+ * @example
+ * ```typescript
+ * schemaToJsonSchema(GoodModel.schema);
+ * schemaToJsonSchema(GoodModel.schema, { partial: true, fields: ["value"] });
+ * ```
+ */
+export function schemaToJsonSchema(
+  schema: Schema,
+  options: { input?: boolean; partial?: boolean; fields?: string[] } = {},
+): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  schema.eachPath((name, path) => {
+    const readOnly = READ_ONLY.includes(name);
+    if ((options.input || options.partial) && readOnly) return;
+    if (options.fields && !options.fields.includes(name)) return;
+    properties[name] = readOnly
+      ? { ...fieldToJsonSchema(path), readOnly: true }
+      : fieldToJsonSchema(path);
+    if (!options.partial && isRequired(path)) required.push(name);
+  });
+
+  return {
+    type: "object",
+    properties,
+    ...(required.length ? { required } : {}),
+    ...(options.fields ? { additionalProperties: false } : {}),
+  };
+}
@@ -0,0 +1,110 @@
+import express, { Request, Response } from "express";
+import { FilterQuery } from "mongoose";
+import {
+  AuditAction,
+  AuditEntity,
+  AuditEntryDocument,
+  AuditEntryModel,
+} from "../models/audit.js";
+import { PaginationOptions, paginate, sendPage } from "../utils/pagination.js";
+import { authorize } from "../middleware/auth.js";
+import { validate } from "../middleware/validate.js";
+import { auditQuery } from "../openapi/requests.js";
+
+/**
+ * Router de consulta del historial de cambios
+ *
+ * @remarks
+ * Las entradas las genera `auditPlugin` en cada creación, modificación y
+ * borrado de bienes, cazadores, mercaderes, transacciones e inventario,
+ * incluidos los cambios de stock y monedas que provoca una transacción.
+ */
+export const auditRouter = express.Router();
+
+/**
+ * Opciones de paginación y orden del historial.
+ */
+export const auditListOptions: PaginationOptions = {
+  sortable: ["timestamp"],
+  defaultSort: "-timestamp",
+};
+
+/**
+ * Query string de la consulta del historial
+ */
+interface AuditRequest {
+  page?: string;
+  limit?: string;
+  sort?: string;
+  /** Tipo de documento */
+  entity?: AuditEntity;
+  /** Identificador del documento */
+  id?: string;
+  /** Operación */
+  action?: AuditAction;
+  /** Usuario que hizo el cambio */
+  actor?: string;
+  /** Fecha mínima (ISO) */
+  from?: string;
+  /** Fecha máxima (ISO) */
+  to?: string;
+}
+
+/**
+ * Consulta el historial de cambios.
+ *
+ * @remarks
+ * Ruta: `GET /audit`
+ * - Respuesta 200: Página de `AuditEntryDocument` (`Page<AuditEntryDocument>`),
+ *   de la más reciente a la más antigua.
+ * - Respuesta 400: Parámetros no válidos.
+ * - Respuesta 403: Solo administradores.
+ *
+ * Query string (todos opcionales):
+ * - `entity`: `good`, `hunter`, `merchant`, `transaction` o `inventory`
+ * - `id`: identificador del documento
+ * - `action`: `create`, `update` o `delete`
+ * - `actor`: usuario (`sub` del token) que hizo el cambio
+ * - `from` y `to`: intervalo de fechas (ISO)
+ * - `page`, `limit` y `sort` (ver `paginate`)
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns Page<AuditEntryDocument> - Entradas del historial.
+ *
+ * @example
+ * ```http
+ * GET /audit?entity=good&id=507f1f77bcf86cd799439011&from=2025-01-01T00:00:00Z
+ * ```
+ */
+auditRouter.get(
+  "/",
+  authorize("admin"),
+  validate({ query: auditQuery }),
+  async (
+    req: Request<Record<string, unknown>, object, object, AuditRequest>,
+    res: Response,
+  ) => {
+    const { entity, id, action, actor, from, to } = req.query;
+
+    const filter: FilterQuery<AuditEntryDocument> = {};
+    if (entity) filter.entity = entity;
+    if (id) filter.entityId = id;
+    if (action) filter.action = action;
+    if (actor) filter["actor.sub"] = actor;
+    if (from || to) {
+      filter.timestamp = {
+        ...(from ? { $gte: new Date(from) } : {}),
+        ...(to ? { $lte: new Date(to) } : {}),
+      };
+    }
+
+    const page = await paginate(
+      AuditEntryModel,
+      filter,
+      req.query,
+      auditListOptions,
+    );
+    sendPage(req, res, page);
+  },
+);
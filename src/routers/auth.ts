@@ -0,0 +1,111 @@
+import express, { Request, Response } from "express";
+import { NotFoundError, ValidationError } from "../errors.js";
+import { HunterModel } from "../models/hunter.js";
+import { MerchantModel } from "../models/merchant.js";
+import { NOT_DELETED } from "../models/softDelete.js";
+import { authorize } from "../middleware/auth.js";
+import { validate } from "../middleware/validate.js";
+import { tokenBody } from "../openapi/requests.js";
+import {
+  DEFAULT_TOKEN_TTL,
+  Role,
+  signToken,
+  verifyToken,
+} from "../utils/tokens.js";
+
+/**
+ * Router de emisión y consulta de tokens de acceso
+ *
+ * @remarks
+ * Los tokens se firman con el secreto local `AUTH_SECRET`, por lo que se
+ * verifican sin consultar ningún proveedor de identidad externo. El primer
+ * token de administrador se emite con `npm run token`.
+ */
+export const authRouter = express.Router();
+
+/**
+ * Estructura de la petición de emisión de un token
+ */
+interface TokenRequest {
+  /** Usuario al que se emite el token */
+  sub: string;
+  /** Rol del usuario */
+  role: Role;
+  /** Mercader o cazador del usuario */
+  party?: string;
+  /** Segundos de validez */
+  expiresIn?: number;
+}
+
+/**
+ * Emite un token de acceso para un usuario.
+ *
+ * @remarks
+ * Ruta: `POST /auth/tokens`
+ * - Respuesta 201: `{ token, claims }`.
+ * - Respuesta 400: Datos no válidos o falta `party` en los roles `merchant` y `hunter`.
+ * - Respuesta 403: Solo administradores.
+ * - Respuesta 404: El mercader o cazador indicado en `party` no existe.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns Token emitido y sus datos.
+ *
+ * @example
+ * ```json
+ * {
+ *   "sub": "zoltan",
+ *   "role": "merchant",
+ *   "party": "507f1f77bcf86cd799439011"
+ * }
+ * ```
+ */
+authRouter.post(
+  "/tokens",
+  authorize("admin"),
+  validate({ body: tokenBody }),
+  async (req: Request<object, object, TokenRequest>, res: Response) => {
+    const { sub, role, party, expiresIn = DEFAULT_TOKEN_TTL } = req.body;
+
+    const owned = role === "merchant" || role === "hunter";
+    if (owned) {
+      if (!party) {
+        throw ValidationError.field(
+          "body",
+          "party",
+          `El rol ${role} requiere el documento del usuario`,
+        );
+      }
+      const exists =
+        role === "merchant"
+          ? await MerchantModel.exists({ _id: party, ...NOT_DELETED })
+          : await HunterModel.exists({ _id: party, ...NOT_DELETED });
+      if (!exists) {
+        throw new NotFoundError(
+          `${role === "merchant" ? "Mercader" : "Cazador"} no encontrado`,
+        );
+      }
+    }
+
+    const token = signToken(
+      { sub, role, ...(owned ? { party } : {}) },
+      expiresIn,
+    );
+    res.status(201).json({ token, claims: verifyToken(token) });
+  },
+);
+
+/**
+ * Devuelve los datos del token de acceso de la petición.
+ *
+ * @remarks
+ * Ruta: `GET /auth/me`
+ * - Respuesta 200: Datos del token (`TokenClaims`).
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns Datos del token.
+ */
+authRouter.get("/me", (req: Request, res: Response) => {
+  res.json(req.auth);
+});
@@ -1,6 +1,11 @@
 import express from "express";
+import { ApiError } from "../errors.js";
 export const defaultRouter = express.Router();
 
-defaultRouter.all("/{*splat}", (_, res) => {
-  res.status(501).send();
+defaultRouter.all("/{*splat}", (req) => {
+  throw new ApiError(
+    501,
+    "NOT_IMPLEMENTED",
+    `Ruta no implementada: ${req.method} ${req.path}`,
+  );
 });
@@ -0,0 +1,24 @@
+import express from "express";
+import swaggerUi from "swagger-ui-express";
+import { openApiDocument } from "../openapi/document.js";
+
+/**
+ * Router de la documentación de la API
+ *
+ * @remarks
+ * - `GET /openapi.json`: documento OpenAPI 3.1 (ver `openApiDocument`).
+ * - `GET /api-docs`: visor interactivo (Swagger UI) del documento.
+ */
+export const docsRouter = express.Router();
+
+docsRouter.get("/openapi.json", (_req, res) => {
+  res.json(openApiDocument);
+});
+
+docsRouter.use(
+  "/api-docs",
+  swaggerUi.serve,
+  swaggerUi.setup(openApiDocument, {
+    customSiteTitle: openApiDocument.info.title,
+  }),
+);
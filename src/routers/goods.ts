@@ -1,5 +1,46 @@
 import express, { Request, Response } from "express";
+import { Types } from "mongoose";
+import { ConflictError, NotFoundError } from "../errors.js";
 import { GoodModel, GoodDocument } from "../models/good.js";
+import { InventoryModel } from "../models/inventory.js";
+import {
+  integrityGuard,
+  resolveReferences,
+  restrictedReferences,
+} from "../models/integrity.js";
+import { restockSuggestion } from "../models/alert.js";
+import {
+  NOT_DELETED,
+  purgeDeleted,
+  softDelete,
+  visibleFilter,
+} from "../models/softDelete.js";
+import {
+  etag,
+  ifMatch,
+  missingError,
+  versionFilter,
+} from "../models/versioning.js";
+import { PaginationOptions, paginate, sendPage } from "../utils/pagination.js";
+import {
+  exportCollection,
+  ExportFormat,
+  importDocuments,
+  importMode,
+  ImportOptions,
+} from "../utils/bulk.js";
+import { stockHistory } from "../utils/reports.js";
+import { appEvents } from "../utils/events.js";
+import { validate } from "../middleware/validate.js";
+import { authorize } from "../middleware/auth.js";
+import {
+  crudRequests,
+  goodBody,
+  goodUpdateBody,
+  goodUpdates,
+  idParams,
+  stockHistoryQuery,
+} from "../openapi/requests.js";
 
 /**
  * Router para manejar las operaciones CRUD de Bienes (Goods)
@@ -10,6 +51,39 @@ import { GoodModel, GoodDocument } from "../models/good.js";
  */
 export const goodsRouter = express.Router();
 
+/**
+ * Esquemas de las peticiones de cada ruta (ver `validate`).
+ */
+const goodRequests = crudRequests(goodBody, goodUpdateBody);
+
+/**
+ * Opciones de paginación, orden, filtrado y búsqueda del listado de bienes.
+ */
+export const goodListOptions: PaginationOptions = {
+  sortable: [
+    "id",
+    "name",
+    "material",
+    "weight",
+    "value",
+    "stock",
+    "reorderLevel",
+    "createdAt",
+  ],
+  filterable: [
+    "id",
+    "name",
+    "description",
+    "material",
+    "weight",
+    "value",
+    "stock",
+    "reorderLevel",
+    "createdAt",
+  ],
+  searchable: true,
+};
+
 /**
  * Crea un nuevo bien en el sistema.
  *
@@ -17,6 +91,7 @@ export const goodsRouter = express.Router();
  * Ruta: `POST /goods`
  * - Respuesta 201: Bien creado exitosamente.
  * - Respuesta 400: Error en la validación de datos.
+ * - Respuesta 403: Solo administradores.
  *
  * El cuerpo de la petición (`req.body`) debe contener un objeto parcial de `GoodDocument`,
  * donde todas sus propiedades son opcionales.
@@ -36,66 +111,222 @@ export const goodsRouter = express.Router();
  * }
  * ```
  */
-goodsRouter.post("/", (req: Request, res: Response) => {
-  const good = new GoodModel(req.body as Partial<GoodDocument>);
-  good
-    .save()
-    .then((saved) => res.status(201).json(saved))
-    .catch((err) => res.status(400).json(err));
-});
+goodsRouter.post(
+  "/",
+  authorize("admin"),
+  validate(goodRequests.create),
+  async (req: Request, res: Response) => {
+    const good = new GoodModel(req.body as Partial<GoodDocument>);
+    await good.save();
+    appEvents.emit("good.created", good);
+    res.status(201).json(good);
+  },
+);
 
 /**
  * Obtiene una lista de bienes con filtros opcionales.
  *
  * @remarks
  * Ruta: `GET /goods`
- * - Respuesta 200: Devuelve array de `GoodDocument[]`.
- * - Respuesta 404: No se encontraron bienes.
+ * - Respuesta 200: Devuelve una página (`Page<GoodDocument>`), vacía si no hay resultados.
+ * - Respuesta 400: Parámetros de paginación, orden o filtrado no válidos.
  * - Respuesta 500: Error del servidor.
  *
- * Los filtros se pasan por query string:
- * - `name` (opcional)
- * - `description` (opcional)
+ * Admite paginación y orden con `page`, `limit` y `sort` (ver `paginate`).
+ *
+ * Los filtros se pasan por query string (ver `parseFilters`) sobre los campos
+ * `id`, `name`, `description`, `material`, `weight`, `value`, `stock`,
+ * `reorderLevel` y `createdAt`:
+ * - `campo=valor` para igualdad (listas con comas en números y `material`)
+ * - `campo[op]=valor` con `op` en `eq`, `ne`, `gt`, `gte`, `lt`, `lte`, `in`, `nin`
+ *
+ * `q` busca por texto en `name` y `description`, sin distinguir mayúsculas,
+ * ordenando por relevancia salvo que se indique `sort`.
+ *
+ * Los bienes eliminados se omiten salvo que un administrador indique
+ * `includeDeleted=true`.
+ *
+ * Cualquier otro parámetro se rechaza con 400.
  *
  * @param req - Express Request
  * @param res - Express Response
- * @returns GoodDocument[] - Lista de bienes encontrados.
+ * @returns Page<GoodDocument> - Página de bienes encontrados.
  *
  * @example
  * ```http
  * GET /goods?name=Espada
  * GET /goods?description=afilada
+ * GET /goods?q=espada
+ * GET /goods?sort=-value,name&page=2&limit=10
+ * GET /goods?value[gte]=100&value[lte]=500&material=acero,aluminio&stock[gt]=0&weight[lt]=5
  * ```
  */
-goodsRouter.get("/", (req: Request, res: Response) => {
-  const { name, description } = req.query;
-  const filter: { [key: string]: string } = {};
-  if (name) filter.name = name.toString();
-  if (description) filter.description = description.toString();
+goodsRouter.get(
+  "/",
+  validate(goodRequests.list),
+  async (req: Request, res: Response) => {
+    const page = await paginate(
+      GoodModel,
+      visibleFilter(req),
+      req.query,
+      goodListOptions,
+    );
+    sendPage(req, res, page);
+  },
+);
 
-  GoodModel.find(filter)
-    .exec()
-    .then((goods) => {
-      if (goods.length !== 0) {
-        res.json(goods);
-      } else {
-        res.status(404).send({ message: "No se encontraron bienes" });
-      }
-    })
-    .catch(() => {
-      res.status(500).send({ message: "Error al recuperar bienes" });
-    });
-});
+/**
+ * Lista los bienes cuyo stock está por debajo de su nivel de reposición.
+ *
+ * @remarks
+ * Ruta: `GET /goods/low-stock`
+ * - Respuesta 200: Página de `GoodDocument` (`Page<GoodDocument>`), cada uno
+ *   con la transacción sugerida para reponerlo en `suggestion`
+ *   (`RestockSuggestion`).
+ * - Respuesta 400: Parámetros de paginación, orden o filtros no válidos.
+ * - Respuesta 403: Solo los administradores consultan los eliminados.
+ * - Respuesta 500: Error del servidor.
+ *
+ * Un bien tiene stock bajo si tiene `reorderLevel` y su `stock` es inferior.
+ * Admite la misma paginación, orden y filtros que `GET /goods`.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns Page<GoodDocument> - Bienes con stock bajo.
+ *
+ * @example
+ * ```http
+ * GET /goods/low-stock?material=acero&sort=stock
+ * ```
+ */
+goodsRouter.get(
+  "/low-stock",
+  validate(goodRequests.list),
+  async (req: Request, res: Response) => {
+    const page = await paginate(
+      GoodModel,
+      {
+        ...visibleFilter(req),
+        reorderLevel: { $gt: 0 },
+        $expr: { $lt: ["$stock", "$reorderLevel"] },
+      },
+      req.query,
+      goodListOptions,
+    );
+    const data = [];
+    for (const good of page.data) {
+      data.push({
+        ...good.toJSON(),
+        suggestion: await restockSuggestion(good),
+      });
+    }
+    sendPage(req, res, { ...page, data });
+  },
+);
+
+/**
+ * Opciones de importación de bienes: en modo `upsert` se identifican por
+ * `id`.
+ */
+export const goodImportOptions: ImportOptions = {
+  key: "id",
+  body: goodBody,
+  updatable: goodUpdates,
+};
+
+/**
+ * Exporta todos los bienes en JSON o CSV.
+ *
+ * @remarks
+ * Ruta: `GET /goods/export`
+ * - Respuesta 200: Array JSON o CSV con cabecera, según `format` (por defecto `json`).
+ * - Respuesta 400: Formato no válido.
+ * - Respuesta 403: Solo los administradores exportan los eliminados.
+ *
+ * La respuesta se escribe a medida que se leen los documentos (ver
+ * `exportCollection`). Los bienes eliminados solo se incluyen si un
+ * administrador indica `includeDeleted=true`.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ *
+ * @example
+ * ```http
+ * GET /goods/export?format=csv
+ * ```
+ */
+goodsRouter.get(
+  "/export",
+  validate(goodRequests.export),
+  async (req: Request, res: Response) => {
+    const format = (req.query.format ?? "json") as ExportFormat;
+    await exportCollection(res, GoodModel, visibleFilter(req), format, "goods");
+  },
+);
+
+/**
+ * Importa bienes desde un array JSON o un CSV.
+ *
+ * @remarks
+ * Ruta: `POST /goods/import`
+ * - Respuesta 200: Resultado de la importación (`ImportReport`), con los errores de cada fila.
+ * - Respuesta 400: Cuerpo no válido o, con `atomic=true`, alguna fila no válida.
+ * - Respuesta 403: Solo administradores.
+ *
+ * Cada fila se valida como el cuerpo de `POST /goods` (ver `importDocuments`).
+ *
+ * Query string:
+ * - `upsert=true`: actualiza los bienes que ya existen (por `id`)
+ * - `atomic=true`: importa todas las filas o ninguna
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns ImportReport - Filas creadas, actualizadas y rechazadas.
+ *
+ * @example
+ * ```json
+ * [
+ *   { "id": 1, "name": "Espada de plata", "material": "acero", "weight": 2.5, "value": 250 },
+ *   { "id": 2, "name": "Daga", "material": "acero", "weight": 1, "value": 80 }
+ * ]
+ * ```
+ *
+ * ```csv
+ * id,name,material,weight,value
+ * 1,Espada de plata,acero,2.5,250
+ * ```
+ */
+goodsRouter.post(
+  "/import",
+  authorize("admin"),
+  validate(goodRequests.import),
+  async (req: Request, res: Response) => {
+    res.json(
+      await importDocuments(
+        GoodModel,
+        req.body,
+        goodImportOptions,
+        importMode(req),
+      ),
+    );
+  },
+);
 
 /**
  * Obtiene un bien específico por su ID.
  *
  * @remarks
  * Ruta: `GET /goods/:id`
- * - Respuesta 200: Devuelve un `GoodDocument`.
+ * - Respuesta 200: Devuelve un `GoodDocument`, con su versión en la
+ *   cabecera `ETag`.
+ * - Respuesta 304: La versión coincide con la cabecera `If-None-Match`.
+ * - Respuesta 400: Identificador no válido.
  * - Respuesta 404: Bien no encontrado.
  * - Respuesta 500: Error del servidor.
  *
+ * Los bienes eliminados solo se devuelven a los administradores con
+ * `?includeDeleted=true`.
+ *
  * @param req - Express Request
  * @param res - Express Response
  * @returns GoodDocument - Bien encontrado.
@@ -105,20 +336,69 @@ goodsRouter.get("/", (req: Request, res: Response) => {
  * GET /goods/507f1f77bcf86cd799439011
  * ```
  */
-goodsRouter.get("/:id", (req: Request, res: Response) => {
-  GoodModel.findById(req.params.id)
-    .exec()
-    .then((good) => {
-      if (!good) {
-        res.status(404).send({ message: "Bien no encontrado" });
-      } else {
-        res.json(good);
-      }
-    })
-    .catch(() => {
-      res.status(500).send({ message: "Error al recuperar el bien" });
+goodsRouter.get(
+  "/:id",
+  validate(goodRequests.get),
+  async (req: Request, res: Response) => {
+    const good = await GoodModel.findOne({
+      _id: req.params.id,
+      ...visibleFilter(req),
     });
-});
+    if (!good) throw new NotFoundError("Bien no encontrado");
+    res.set("ETag", etag(good)).json(good);
+  },
+);
+
+/**
+ * Obtiene la evolución del stock de la posada de un bien.
+ *
+ * @remarks
+ * Ruta: `GET /goods/:id/stock-history`
+ * - Respuesta 200: `StockHistory` con el stock actual, el stock al inicio
+ *   (`opening`) y al final (`closing`) del intervalo y los movimientos de
+ *   cada transacción con el saldo resultante (`balance`).
+ * - Respuesta 400: Identificador o fechas no válidos.
+ * - Respuesta 403: Solo administradores y usuarios de solo lectura.
+ * - Respuesta 404: Bien no encontrado.
+ * - Respuesta 500: Error del servidor.
+ *
+ * El historial se reconstruye a partir de las transacciones en las que la
+ * posada compra o vende el bien (ver `stockHistory`), de modo que `closing`
+ * se puede comparar con un recuento físico a esa fecha.
+ *
+ * Query string (todos opcionales):
+ * - `from` y `to`: intervalo de fechas (ISO)
+ * - `includeDeleted`: incluye los bienes eliminados (solo administradores)
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns StockHistory - Evolución del stock del bien.
+ *
+ * @example
+ * ```http
+ * GET /goods/507f1f77bcf86cd799439011/stock-history?from=2025-05-01T00:00:00Z&to=2025-05-31T23:59:59Z
+ * ```
+ */
+goodsRouter.get(
+  "/:id/stock-history",
+  authorize("admin", "read-only"),
+  validate({ params: idParams, query: stockHistoryQuery }),
+  async (req: Request, res: Response) => {
+    const good = await GoodModel.findOne({
+      _id: req.params.id,
+      ...visibleFilter(req),
+    });
+    if (!good) throw new NotFoundError("Bien no encontrado");
+
+    const { from, to } = req.query;
+    res.json(
+      await stockHistory(good, {
+        startDate: from ? new Date(String(from)) : undefined,
+        endDate: to ? new Date(String(to)) : undefined,
+      }),
+    );
+  },
+);
 
 /**
  * Actualiza un bien buscándolo por nombre (query string).
@@ -127,7 +407,9 @@ goodsRouter.get("/:id", (req: Request, res: Response) => {
  * Ruta: `PATCH /goods`
  * - Respuesta 200: Devuelve el bien actualizado (`GoodDocument`).
  * - Respuesta 400: Falta parámetro o campos no permitidos.
+ * - Respuesta 403: Solo administradores.
  * - Respuesta 404: Bien no encontrado.
+ * - Respuesta 412: La versión no coincide con la cabecera `If-Match`.
  *
  * Query string:
  * - `name` (requerido): nombre del bien a modificar
@@ -149,47 +431,33 @@ goodsRouter.get("/:id", (req: Request, res: Response) => {
  * }
  * ```
  */
-goodsRouter.patch("/", (req: Request, res: Response) => {
-  if (!req.query.name) {
-    res
-      .status(400)
-      .send({ error: "Se debe proporcionar un name en la query string" });
-    return;
-  }
-  if (!req.body || Object.keys(req.body).length === 0) {
-    res
-      .status(400)
-      .send({ error: "Debe proporcionar los campos a modificar en el body" });
-    return;
-  }
-
-  const allowedUpdates = ["name", "description", "material", "weight", "value"];
-  const actualUpdates = Object.keys(req.body);
-  const isValidUpdate = actualUpdates.every((update) =>
-    allowedUpdates.includes(update),
-  );
-
-  if (!isValidUpdate) {
-    res.status(400).send({ error: "Actualización no permitida" });
-    return;
-  }
-
-  GoodModel.findOneAndUpdate({ name: req.query.name.toString() }, req.body, {
-    new: true,
-    runValidators: true,
-  })
-    .exec()
-    .then((good) => {
-      if (!good) {
-        res.status(404).send();
-      } else {
-        res.send(good);
-      }
-    })
-    .catch((err) => {
-      res.status(400).send(err);
-    });
-});
+goodsRouter.patch(
+  "/",
+  authorize("admin"),
+  validate(goodRequests.updateByName),
+  async (req: Request, res: Response) => {
+    const filter = { name: String(req.query.name), ...NOT_DELETED };
+    const versions = ifMatch(req);
+    const good = await GoodModel.findOneAndUpdate(
+      { ...filter, ...versionFilter(versions) },
+      req.body,
+      {
+        new: true,
+        runValidators: true,
+      },
+    );
+    if (!good) {
+      throw await missingError(
+        GoodModel,
+        filter,
+        versions,
+        "Bien no encontrado",
+      );
+    }
+    appEvents.emit("good.updated", good);
+    res.set("ETag", etag(good)).send(good);
+  },
+);
 
 /**
  * Actualiza un bien por su ID.
@@ -197,8 +465,10 @@ goodsRouter.patch("/", (req: Request, res: Response) => {
  * @remarks
  * Ruta: `PATCH /goods/:id`
  * - Respuesta 200: Devuelve el bien actualizado (`GoodDocument`).
- * - Respuesta 400: Campos no permitidos o body vacío.
+ * - Respuesta 400: Identificador no válido, campos no permitidos o body vacío.
+ * - Respuesta 403: Solo administradores.
  * - Respuesta 404: Bien no encontrado.
+ * - Respuesta 412: La versión no coincide con la cabecera `If-Match`.
  *
  * @param req - Express Request
  * @param res - Express Response
@@ -215,41 +485,33 @@ goodsRouter.patch("/", (req: Request, res: Response) => {
  * }
  * ```
  */
-goodsRouter.patch("/:id", (req: Request, res: Response) => {
-  if (!req.body || Object.keys(req.body).length === 0) {
-    res
-      .status(400)
-      .send({ error: "Debe proporcionar los campos a modificar en el body" });
-    return;
-  }
-
-  const allowedUpdates = ["name", "description", "material", "weight", "value"];
-  const actualUpdates = Object.keys(req.body);
-  const isValidUpdate = actualUpdates.every((update) =>
-    allowedUpdates.includes(update),
-  );
-
-  if (!isValidUpdate) {
-    res.status(400).send({ error: "Actualización no permitida" });
-    return;
-  }
-
-  GoodModel.findByIdAndUpdate(req.params.id, req.body, {
-    new: true,
-    runValidators: true,
-  })
-    .exec()
-    .then((good) => {
-      if (!good) {
-        res.status(404).send();
-      } else {
-        res.send(good);
-      }
-    })
-    .catch((err) => {
-      res.status(400).send(err);
-    });
-});
+goodsRouter.patch(
+  "/:id",
+  authorize("admin"),
+  validate(goodRequests.updateById),
+  async (req: Request, res: Response) => {
+    const filter = { _id: req.params.id, ...NOT_DELETED };
+    const versions = ifMatch(req);
+    const good = await GoodModel.findOneAndUpdate(
+      { ...filter, ...versionFilter(versions) },
+      req.body,
+      {
+        new: true,
+        runValidators: true,
+      },
+    );
+    if (!good) {
+      throw await missingError(
+        GoodModel,
+        filter,
+        versions,
+        "Bien no encontrado",
+      );
+    }
+    appEvents.emit("good.updated", good);
+    res.set("ETag", etag(good)).send(good);
+  },
+);
 
 /**
  * Elimina un bien buscándolo por nombre (query string).
@@ -258,7 +520,18 @@ goodsRouter.patch("/:id", (req: Request, res: Response) => {
  * Ruta: `DELETE /goods`
  * - Respuesta 200: Devuelve el bien eliminado (`GoodDocument`).
  * - Respuesta 400: Falta parámetro `name`.
+ * - Respuesta 403: Solo administradores.
  * - Respuesta 404: Bien no encontrado.
+ * - Respuesta 409: El bien está referenciado por transacciones (`REFERENCED`).
+ * - Respuesta 412: La versión no coincide con la cabecera `If-Match`.
+ *
+ * El borrado es lógico: se fija `deletedAt` y el bien deja de aparecer en
+ * las consultas. Se restaura con `POST /goods/:id/restore` y se elimina
+ * definitivamente con `POST /goods/purge`.
+ *
+ * No se puede eliminar un bien que aparece en alguna transacción (ver
+ * `INTEGRITY_POLICIES`): se responde 409 con las transacciones que lo
+ * impiden, incluso con `force=true`.
  *
  * @param req - Express Request
  * @param res - Express Response
@@ -269,27 +542,30 @@ goodsRouter.patch("/:id", (req: Request, res: Response) => {
  * DELETE /goods?name=Espada
  * ```
  */
-goodsRouter.delete("/", (req: Request, res: Response) => {
-  if (!req.query.name) {
-    res
-      .status(400)
-      .send({ error: "Se debe proporcionar un name en la query string" });
-    return;
-  }
-
-  GoodModel.findOneAndDelete({ name: req.query.name.toString() })
-    .exec()
-    .then((good) => {
-      if (!good) {
-        res.status(404).send();
-      } else {
-        res.send(good);
-      }
-    })
-    .catch(() => {
-      res.status(400).send();
-    });
-});
+goodsRouter.delete(
+  "/",
+  authorize("admin"),
+  validate(goodRequests.deleteByName),
+  async (req: Request, res: Response) => {
+    const filter = { name: String(req.query.name) };
+    const versions = ifMatch(req);
+    const good = await softDelete(
+      GoodModel,
+      { ...filter, ...versionFilter(versions) },
+      integrityGuard("good", req),
+    );
+    if (!good) {
+      throw await missingError(
+        GoodModel,
+        { ...filter, ...NOT_DELETED },
+        versions,
+        "Bien no encontrado",
+      );
+    }
+    appEvents.emit("good.deleted", good);
+    res.send(good);
+  },
+);
 
 /**
  * Elimina un bien por su ID.
@@ -297,8 +573,19 @@ goodsRouter.delete("/", (req: Request, res: Response) => {
  * @remarks
  * Ruta: `DELETE /goods/:id`
  * - Respuesta 200: Devuelve el bien eliminado (`GoodDocument`).
- * - Respuesta 400: Error en la solicitud.
+ * - Respuesta 400: Identificador no válido.
+ * - Respuesta 403: Solo administradores.
  * - Respuesta 404: Bien no encontrado.
+ * - Respuesta 409: El bien está referenciado por transacciones (`REFERENCED`).
+ * - Respuesta 412: La versión no coincide con la cabecera `If-Match`.
+ *
+ * El borrado es lógico: se fija `deletedAt` y el bien deja de aparecer en
+ * las consultas. Se restaura con `POST /goods/:id/restore` y se elimina
+ * definitivamente con `POST /goods/purge`.
+ *
+ * No se puede eliminar un bien que aparece en alguna transacción (ver
+ * `INTEGRITY_POLICIES`): se responde 409 con las transacciones que lo
+ * impiden, incluso con `force=true`.
  *
  * @param req - Express Request
  * @param res - Express Response
@@ -309,17 +596,102 @@ goodsRouter.delete("/", (req: Request, res: Response) => {
  * DELETE /goods/507f1f77bcf86cd799439011
  * ```
  */
-goodsRouter.delete("/:id", (req: Request, res: Response) => {
-  GoodModel.findByIdAndDelete(req.params.id)
-    .exec()
-    .then((good) => {
-      if (!good) {
-        res.status(404).send();
-      } else {
-        res.send(good);
-      }
-    })
-    .catch(() => {
-      res.status(400).send();
-    });
-});
+goodsRouter.delete(
+  "/:id",
+  authorize("admin"),
+  validate(goodRequests.deleteById),
+  async (req: Request, res: Response) => {
+    const filter = { _id: req.params.id };
+    const versions = ifMatch(req);
+    const good = await softDelete(
+      GoodModel,
+      { ...filter, ...versionFilter(versions) },
+      integrityGuard("good", req),
+    );
+    if (!good) {
+      throw await missingError(
+        GoodModel,
+        { ...filter, ...NOT_DELETED },
+        versions,
+        "Bien no encontrado",
+      );
+    }
+    appEvents.emit("good.deleted", good);
+    res.send(good);
+  },
+);
+
+/**
+ * Restaura un bien eliminado.
+ *
+ * @remarks
+ * Ruta: `POST /goods/:id/restore`
+ * - Respuesta 200: Devuelve el bien restaurado (`GoodDocument`).
+ * - Respuesta 400: Identificador no válido.
+ * - Respuesta 403: Solo administradores.
+ * - Respuesta 404: Bien no encontrado.
+ * - Respuesta 409: El bien no está eliminado.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns GoodDocument - Bien restaurado.
+ *
+ * @example
+ * ```http
+ * POST /goods/507f1f77bcf86cd799439011/restore
+ * ```
+ */
+goodsRouter.post(
+  "/:id/restore",
+  authorize("admin"),
+  validate(goodRequests.restore),
+  async (req: Request<{ id: string }>, res: Response) => {
+    const doc = await GoodModel.findById(req.params.id);
+    if (!doc) throw new NotFoundError("Bien no encontrado");
+    if (!doc.deletedAt) throw new ConflictError("El bien no está eliminado");
+    doc.deletedAt = null;
+    const restored = await doc.save();
+    appEvents.emit("good.restored", restored);
+    res.send(restored);
+  },
+);
+
+/**
+ * Elimina definitivamente los bienes eliminados que no se usan.
+ *
+ * @remarks
+ * Ruta: `POST /goods/purge`
+ * - Respuesta 200: `{ purged, kept }` (`PurgeResult`).
+ * - Respuesta 403: Solo administradores.
+ *
+ * Se conservan los bienes referenciados por alguna transacción (política
+ * `restrict` de `INTEGRITY_POLICIES`) o línea de inventario.
+ *
+ * @param _req - Express Request
+ * @param res - Express Response
+ * @returns PurgeResult - Número de bienes purgados y conservados.
+ *
+ * @example
+ * ```http
+ * POST /goods/purge
+ * ```
+ */
+goodsRouter.post(
+  "/purge",
+  authorize("admin"),
+  async (_req: Request, res: Response) => {
+    res.json(
+      await purgeDeleted(
+        GoodModel,
+        async (ids, session) => {
+          const sold = await restrictedReferences("good", ids, session);
+          const stocked = await InventoryModel.distinct("good", {
+            good: { $in: ids },
+          }).session(session);
+          return [...sold, ...stocked] as Types.ObjectId[];
+        },
+        (ids, session) => resolveReferences("good", ids, session),
+      ),
+    );
+  },
+);
@@ -0,0 +1,116 @@
+import express, { Request, Response } from "express";
+import { ExecutionResult, graphql, GraphQLError } from "graphql";
+import { createLoaders } from "../graphql/loaders.js";
+import { schema } from "../graphql/schema.js";
+import { problem, reportError } from "../middleware/errors.js";
+import { validate } from "../middleware/validate.js";
+import { graphqlBody } from "../openapi/requests.js";
+
+/**
+ * Router del endpoint GraphQL
+ *
+ * @remarks
+ * Expone bienes, cazadores, mercaderes y transacciones con sus relaciones
+ * (ver `typeDefs`). Las mutaciones de transacciones aplican las mismas
+ * reglas que `transactionsRouter` (stock, monedas, precios y permisos).
+ */
+export const graphqlRouter = express.Router();
+
+/**
+ * Cuerpo de una petición GraphQL
+ */
+interface GraphQLRequest {
+  /** Documento con la operación */
+  query: string;
+  /** Valores de las variables de la operación */
+  variables?: Record<string, unknown> | null;
+  /** Operación a ejecutar si el documento contiene varias */
+  operationName?: string | null;
+}
+
+/**
+ * Da formato a un error de GraphQL.
+ *
+ * @remarks
+ * Los errores lanzados por los resolvers se traducen como en el manejador de
+ * errores de la API: `extensions` incluye el código estable (`code`), el
+ * código HTTP equivalente (`status`) y, en su caso, los errores de cada
+ * campo. Los errores de sintaxis o de validación de la operación se
+ * devuelven con el código `GRAPHQL_VALIDATION_FAILED`.
+ *
+ * @param err - Error de GraphQL
+ * @param instance - Ruta de la petición
+ * @returns Error en JSON
+ */
+function formatError(err: GraphQLError, instance: string) {
+  // Los errores de las variables envuelven al lanzado por el escalar
+  let original = err.originalError;
+  while (original instanceof GraphQLError) original = original.originalError;
+  if (!original) {
+    return {
+      ...err.toJSON(),
+      extensions: { code: "GRAPHQL_VALIDATION_FAILED", status: 400 },
+    };
+  }
+  const error = reportError(original);
+  const { detail, code, status, errors } = problem(error, instance);
+  return {
+    ...err.toJSON(),
+    message: detail,
+    extensions: { code, status, ...(errors ? { errors } : {}) },
+  };
+}
+
+/**
+ * Ejecuta una operación GraphQL.
+ *
+ * @remarks
+ * Ruta: `POST /graphql`
+ * - Respuesta 200: Resultado (`data` y, si algún campo falló, `errors`).
+ * - Respuesta 400: Cuerpo no válido, o la operación no se pudo ejecutar
+ *   (sintaxis, campos o variables no válidos).
+ *
+ * Cada petición usa sus propios cargadores (ver `createLoaders`), por lo que
+ * los documentos relacionados se obtienen con una consulta por colección.
+ * Los mercaderes y cazadores solo ven las transacciones en las que
+ * participan, y las mutaciones exigen los mismos roles que las rutas REST.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns ExecutionResult  Resultado de la operación.
+ *
+ * @example
+ * ```json
+ * {
+ *   "query": "{ hunter(name: \"Geralt\") { coins transactions { totalAmount items { good { name } } } } }"
+ * }
+ * ```
+ */
+graphqlRouter.post(
+  "/",
+  validate({ body: graphqlBody }),
+  async (
+    req: Request<Record<string, unknown>, object, GraphQLRequest>,
+    res: Response,
+  ) => {
+    const { query, variables, operationName } = req.body;
+    const result: ExecutionResult = await graphql({
+      schema,
+      source: query,
+      variableValues: variables,
+      operationName,
+      contextValue: { auth: req.auth, loaders: createLoaders() },
+    });
+
+    res.status(result.data === undefined ? 400 : 200).json({
+      ...result,
+      ...(result.errors
+        ? {
+            errors: result.errors.map((err) =>
+              formatError(err, req.originalUrl),
+            ),
+          }
+        : {}),
+    });
+  },
+);
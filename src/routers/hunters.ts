@@ -1,5 +1,41 @@
 import express, { Request, Response } from "express";
+import { ConflictError, NotFoundError } from "../errors.js";
 import { HunterModel, HunterDocument } from "../models/hunter.js";
+import {
+  integrityGuard,
+  resolveReferences,
+  restrictedReferences,
+} from "../models/integrity.js";
+import {
+  NOT_DELETED,
+  purgeDeleted,
+  softDelete,
+  visibleFilter,
+} from "../models/softDelete.js";
+import {
+  etag,
+  ifMatch,
+  missingError,
+  versionFilter,
+} from "../models/versioning.js";
+import { PaginationOptions, paginate, sendPage } from "../utils/pagination.js";
+import {
+  exportCollection,
+  ExportFormat,
+  importDocuments,
+  importMode,
+  ImportOptions,
+} from "../utils/bulk.js";
+import { appEvents } from "../utils/events.js";
+import { validate } from "../middleware/validate.js";
+import { authorize, authorizeOwner } from "../middleware/auth.js";
+import {
+  crudRequests,
+  hunterBody,
+  hunterOwnerUpdates,
+  hunterUpdateBody,
+  hunterUpdates,
+} from "../openapi/requests.js";
 
 /**
  * Router para manejar las operaciones CRUD de Cazadores (Hunters)
@@ -10,6 +46,29 @@ import { HunterModel, HunterDocument } from "../models/hunter.js";
  * adecuadas para cada operación.
  */
 export const huntersRouter = express.Router();
+
+/**
+ * Esquemas de las peticiones de cada ruta (ver `validate`).
+ */
+const hunterRequests = crudRequests(hunterBody, hunterUpdateBody);
+
+/**
+ * Opciones de paginación, orden, filtrado y búsqueda del listado de cazadores.
+ */
+export const hunterListOptions: PaginationOptions = {
+  sortable: ["name", "type", "experience", "coins", "createdAt"],
+  filterable: [
+    "name",
+    "type",
+    "experience",
+    "preferredWeapon",
+    "coins",
+    "isActive",
+    "monsterSpecialty",
+    "createdAt",
+  ],
+  searchable: true,
+};
 /**
  * Crea un nuevo cazador en el sistema.
  *
@@ -17,6 +76,7 @@ export const huntersRouter = express.Router();
  * Ruta: `POST /hunters`
  * - Respuesta 201: Cazador creado exitosamente.
  * - Respuesta 400: Error en la validación de datos.
+ * - Respuesta 403: Solo administradores.
  *
  * El cuerpo de la petición (`req.body`) debe contener un objeto parcial de `HunterDocument`,
  * donde todas sus propiedades son opcionales.
@@ -36,66 +96,176 @@ export const huntersRouter = express.Router();
  * }
  * ```
  */
-huntersRouter.post("/", (req: Request, res: Response) => {
-  const hunter = new HunterModel(req.body as Partial<HunterDocument>);
-  hunter
-    .save()
-    .then((saved) => res.status(201).json(saved))
-    .catch((err) => res.status(400).json(err));
-});
+huntersRouter.post(
+  "/",
+  authorize("admin"),
+  validate(hunterRequests.create),
+  async (req: Request, res: Response) => {
+    const hunter = new HunterModel(req.body as Partial<HunterDocument>);
+    await hunter.save();
+    appEvents.emit("hunter.created", hunter);
+    res.status(201).json(hunter);
+  },
+);
 
 /**
  * Obtiene una lista de cazadores con filtros opcionales.
  *
  * @remarks
  * Ruta: `GET /hunters`
- * - Respuesta 200: Devuelve array de `HunterDocument[]`.
- * - Respuesta 404: No se encontraron cazadores.
+ * - Respuesta 200: Devuelve una página (`Page<HunterDocument>`), vacía si no hay resultados.
+ * - Respuesta 400: Parámetros de paginación, orden o filtrado no válidos.
  * - Respuesta 500: Error del servidor.
  *
- * Filtros por query string:
- * - `name` (opcional)
- * - `type` (opcional)
+ * Admite paginación y orden con `page`, `limit` y `sort` (ver `paginate`).
+ *
+ * Filtros por query string (ver `parseFilters`):
+ * - `name`, `type`, `preferredWeapon` (igualdad; `type` admite listas)
+ * - `experience` y `coins` (rangos con `gt`, `gte`, `lt`, `lte`)
+ * - `isActive` (`true` o `false`)
+ * - `monsterSpecialty` (`[any]` alguna de las especialidades, `[all]` todas)
+ * - `q`: búsqueda de texto en `name`, `preferredWeapon` y `monsterSpecialty`,
+ *   ordenada por relevancia salvo que se indique `sort`
+ *
+ * Los cazadores eliminados se omiten salvo que un administrador indique
+ * `includeDeleted=true`.
  *
  * @param req -  Express Request
  * @param res - Express Response
- * @returns HunterDocument[]  Lista de cazadores encontrados.
+ * @returns Page<HunterDocument>  Página de cazadores encontrados.
  *
  * @example
  * ```http
  * GET /hunters?name=Geralt
  * GET /hunters?type=brujo
+ * GET /hunters?type=brujo&sort=-experience,name&page=1&limit=5
+ * GET /hunters?experience[gte]=50&coins[lt]=1000&isActive=true
+ * GET /hunters?monsterSpecialty[all]=vampiros,espectros
+ * GET /hunters?q=ballesta
  * ```
  */
-huntersRouter.get("/", (req: Request, res: Response) => {
-  const { name, type } = req.query;
-  const filter: Record<string, string> = {};
-  if (name) filter.name = name.toString();
-  if (type) filter.type = type.toString();
+huntersRouter.get(
+  "/",
+  validate(hunterRequests.list),
+  async (req: Request, res: Response) => {
+    const page = await paginate(
+      HunterModel,
+      visibleFilter(req),
+      req.query,
+      hunterListOptions,
+    );
+    sendPage(req, res, page);
+  },
+);
 
-  HunterModel.find(filter)
-    .exec()
-    .then((hunters) => {
-      if (hunters.length !== 0) {
-        res.json(hunters);
-      } else {
-        res.status(404).send({ message: "No se encontraron cazadores" });
-      }
-    })
-    .catch(() => {
-      res.status(500).send({ message: "Error al recuperar cazadores" });
-    });
-});
+/**
+ * Opciones de importación de cazadores: en modo `upsert` se identifican por
+ * `name`.
+ */
+export const hunterImportOptions: ImportOptions = {
+  key: "name",
+  body: hunterBody,
+  updatable: hunterUpdates,
+};
+
+/**
+ * Exporta todos los cazadores en JSON o CSV.
+ *
+ * @remarks
+ * Ruta: `GET /hunters/export`
+ * - Respuesta 200: Array JSON o CSV con cabecera, según `format` (por defecto `json`).
+ * - Respuesta 400: Formato no válido.
+ * - Respuesta 403: Solo los administradores exportan los eliminados.
+ *
+ * La respuesta se escribe a medida que se leen los documentos (ver
+ * `exportCollection`). Los cazadores eliminados solo se incluyen si un
+ * administrador indica `includeDeleted=true`.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ *
+ * @example
+ * ```http
+ * GET /hunters/export?format=csv
+ * ```
+ */
+huntersRouter.get(
+  "/export",
+  validate(hunterRequests.export),
+  async (req: Request, res: Response) => {
+    const format = (req.query.format ?? "json") as ExportFormat;
+    await exportCollection(
+      res,
+      HunterModel,
+      visibleFilter(req),
+      format,
+      "hunters",
+    );
+  },
+);
+
+/**
+ * Importa cazadores desde un array JSON o un CSV.
+ *
+ * @remarks
+ * Ruta: `POST /hunters/import`
+ * - Respuesta 200: Resultado de la importación (`ImportReport`), con los errores de cada fila.
+ * - Respuesta 400: Cuerpo no válido o, con `atomic=true`, alguna fila no válida.
+ * - Respuesta 403: Solo administradores.
+ *
+ * Cada fila se valida como el cuerpo de `POST /hunters` (ver `importDocuments`).
+ *
+ * Query string:
+ * - `upsert=true`: actualiza los cazadores que ya existen (por `name`)
+ * - `atomic=true`: importa todas las filas o ninguna
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns ImportReport - Filas creadas, actualizadas y rechazadas.
+ *
+ * @example
+ * ```json
+ * [
+ *   { "name": "Geralt", "type": "brujo", "experience": 95, "email": "geralt@rivia.com" }
+ * ]
+ * ```
+ *
+ * ```csv
+ * name,type,experience,email,monsterSpecialty
+ * Geralt,brujo,95,geralt@rivia.com,vampiros;espectros
+ * ```
+ */
+huntersRouter.post(
+  "/import",
+  authorize("admin"),
+  validate(hunterRequests.import),
+  async (req: Request, res: Response) => {
+    res.json(
+      await importDocuments(
+        HunterModel,
+        req.body,
+        hunterImportOptions,
+        importMode(req),
+      ),
+    );
+  },
+);
 
 /**
  * Obtiene un cazador específico por su ID.
  *
  * @remarks
  * Ruta: `GET /hunters/:id`
- * - Respuesta 200: Devuelve un `HunterDocument`.
+ * - Respuesta 200: Devuelve un `HunterDocument`, con su versión en la
+ *   cabecera `ETag`.
+ * - Respuesta 304: La versión coincide con la cabecera `If-None-Match`.
+ * - Respuesta 400: Identificador no válido.
  * - Respuesta 404: Cazador no encontrado.
  * - Respuesta 500: Error del servidor.
  *
+ * Los cazadores eliminados solo se devuelven a los administradores con
+ * `?includeDeleted=true`.
+ *
  * @param req - Express Request
  * @param res - Express Response
  * @returns HunterDocument  Cazador encontrado.
@@ -105,20 +275,18 @@ huntersRouter.get("/", (req: Request, res: Response) => {
  * GET /hunters/507f1f77bcf86cd799439011
  * ```
  */
-huntersRouter.get("/:id", (req: Request, res: Response) => {
-  HunterModel.findById(req.params.id)
-    .exec()
-    .then((hunter) => {
-      if (!hunter) {
-        res.status(404).send({ message: "Cazador no encontrado" });
-      } else {
-        res.json(hunter);
-      }
-    })
-    .catch(() => {
-      res.status(500).send({ message: "Error al recuperar el cazador" });
+huntersRouter.get(
+  "/:id",
+  validate(hunterRequests.get),
+  async (req: Request, res: Response) => {
+    const hunter = await HunterModel.findOne({
+      _id: req.params.id,
+      ...visibleFilter(req),
     });
-});
+    if (!hunter) throw new NotFoundError("Cazador no encontrado");
+    res.set("ETag", etag(hunter)).json(hunter);
+  },
+);
 
 /**
  * Actualiza un cazador buscándolo por nombre (query string).
@@ -127,7 +295,10 @@ huntersRouter.get("/:id", (req: Request, res: Response) => {
  * Ruta: `PATCH /hunters`
  * - Respuesta 200: Devuelve el cazador actualizado (`HunterDocument`).
  * - Respuesta 400: Falta parámetro o campos no permitidos.
+ * - Respuesta 403: Solo administradores o el propio cazador, que no puede
+ *   modificar `type`, `experience` ni `coins`.
  * - Respuesta 404: Cazador no encontrado.
+ * - Respuesta 412: La versión no coincide con la cabecera `If-Match`.
  *
  * Query string:
  * - `name` (requerido): nombre del cazador a modificar
@@ -149,56 +320,37 @@ huntersRouter.get("/:id", (req: Request, res: Response) => {
  * }
  * ```
  */
-huntersRouter.patch("/", (req: Request, res: Response) => {
-  if (!req.query.name) {
-    res
-      .status(400)
-      .send({ error: "Se debe proporcionar un name en la query string" });
-    return;
-  }
-  if (!req.body || Object.keys(req.body).length === 0) {
-    res
-      .status(400)
-      .send({ error: "Debe proporcionar los campos a modificar en el body" });
-    return;
-  }
-
-  const allowedUpdates = [
-    "name",
-    "type",
-    "experience",
-    "preferredWeapon",
-    "coins",
-    "isActive",
-    "email",
-    "monsterSpecialty",
-  ];
-  const actualUpdates = Object.keys(req.body);
-  const isValidUpdate = actualUpdates.every((update) =>
-    allowedUpdates.includes(update),
-  );
-
-  if (!isValidUpdate) {
-    res.status(400).send({ error: "Actualización no permitida" });
-    return;
-  }
-
-  HunterModel.findOneAndUpdate({ name: req.query.name.toString() }, req.body, {
-    new: true,
-    runValidators: true,
-  })
-    .exec()
-    .then((hunter) => {
-      if (!hunter) {
-        res.status(404).send();
-      } else {
-        res.send(hunter);
-      }
-    })
-    .catch((err) => {
-      res.status(400).send(err);
-    });
-});
+huntersRouter.patch(
+  "/",
+  validate(hunterRequests.updateByName),
+  authorizeOwner(
+    "hunter",
+    (filter) => HunterModel.exists(filter),
+    hunterOwnerUpdates,
+  ),
+  async (req: Request, res: Response) => {
+    const filter = { _id: req.target, ...NOT_DELETED };
+    const versions = ifMatch(req);
+    const hunter = await HunterModel.findOneAndUpdate(
+      { ...filter, ...versionFilter(versions) },
+      req.body,
+      {
+        new: true,
+        runValidators: true,
+      },
+    );
+    if (!hunter) {
+      throw await missingError(
+        HunterModel,
+        filter,
+        versions,
+        "Cazador no encontrado",
+      );
+    }
+    appEvents.emit("hunter.updated", hunter);
+    res.set("ETag", etag(hunter)).send(hunter);
+  },
+);
 
 /**
  * Actualiza un cazador por su ID.
@@ -206,8 +358,11 @@ huntersRouter.patch("/", (req: Request, res: Response) => {
  * @remarks
  * Ruta: `PATCH /hunters/:id`
  * - Respuesta 200: Devuelve el cazador actualizado (`HunterDocument`).
- * - Respuesta 400: Campos no permitidos o body vacío.
+ * - Respuesta 400: Identificador no válido, campos no permitidos o body vacío.
+ * - Respuesta 403: Solo administradores o el propio cazador, que no puede
+ *   modificar `type`, `experience` ni `coins`.
  * - Respuesta 404: Cazador no encontrado.
+ * - Respuesta 412: La versión no coincide con la cabecera `If-Match`.
  *
  * @param req - Express Request
  * @param res - Express Response
@@ -224,50 +379,37 @@ huntersRouter.patch("/", (req: Request, res: Response) => {
  * }
  * ```
  */
-huntersRouter.patch("/:id", (req: Request, res: Response) => {
-  if (!req.body || Object.keys(req.body).length === 0) {
-    res
-      .status(400)
-      .send({ error: "Debe proporcionar los campos a modificar en el body" });
-    return;
-  }
-
-  const allowedUpdates = [
-    "name",
-    "type",
-    "experience",
-    "preferredWeapon",
-    "coins",
-    "isActive",
-    "email",
-    "monsterSpecialty",
-  ];
-  const actualUpdates = Object.keys(req.body);
-  const isValidUpdate = actualUpdates.every((update) =>
-    allowedUpdates.includes(update),
-  );
-
-  if (!isValidUpdate) {
-    res.status(400).send({ error: "Actualización no permitida" });
-    return;
-  }
-
-  HunterModel.findByIdAndUpdate(req.params.id, req.body, {
-    new: true,
-    runValidators: true,
-  })
-    .exec()
-    .then((hunter) => {
-      if (!hunter) {
-        res.status(404).send();
-      } else {
-        res.send(hunter);
-      }
-    })
-    .catch((err) => {
-      res.status(400).send(err);
-    });
-});
+huntersRouter.patch(
+  "/:id",
+  validate(hunterRequests.updateById),
+  authorizeOwner(
+    "hunter",
+    (filter) => HunterModel.exists(filter),
+    hunterOwnerUpdates,
+  ),
+  async (req: Request, res: Response) => {
+    const filter = { _id: req.params.id, ...NOT_DELETED };
+    const versions = ifMatch(req);
+    const hunter = await HunterModel.findOneAndUpdate(
+      { ...filter, ...versionFilter(versions) },
+      req.body,
+      {
+        new: true,
+        runValidators: true,
+      },
+    );
+    if (!hunter) {
+      throw await missingError(
+        HunterModel,
+        filter,
+        versions,
+        "Cazador no encontrado",
+      );
+    }
+    appEvents.emit("hunter.updated", hunter);
+    res.set("ETag", etag(hunter)).send(hunter);
+  },
+);
 
 /**
  * Elimina un cazador buscándolo por nombre (query string).
@@ -276,7 +418,19 @@ huntersRouter.patch("/:id", (req: Request, res: Response) => {
  * Ruta: `DELETE /hunters`
  * - Respuesta 200: Devuelve el cazador eliminado (`HunterDocument`).
  * - Respuesta 400: Falta parámetro `name`.
+ * - Respuesta 403: Solo administradores.
  * - Respuesta 404: Cazador no encontrado.
+ * - Respuesta 409: El cazador está referenciado por transacciones (`REFERENCED`).
+ * - Respuesta 412: La versión no coincide con la cabecera `If-Match`.
+ *
+ * El borrado es lógico: se fija `deletedAt` y el cazador deja de aparecer en
+ * las consultas. Se restaura con `POST /hunters/:id/restore` y se elimina
+ * definitivamente con `POST /hunters/purge`.
+ *
+ * Si el cazador aparece en alguna transacción se responde 409 con las
+ * transacciones que lo impiden; con `force=true` se elimina igualmente y las
+ * transacciones conservan la referencia hasta que se purga, cuando se aplica
+ * la política de `INTEGRITY_POLICIES` (por defecto, se anula la referencia).
  *
  * @param req - Express Request
  * @param res - Express Response
@@ -287,27 +441,30 @@ huntersRouter.patch("/:id", (req: Request, res: Response) => {
  * DELETE /hunters?name=Geralt
  * ```
  */
-huntersRouter.delete("/", (req: Request, res: Response) => {
-  if (!req.query.name) {
-    res
-      .status(400)
-      .send({ error: "Se debe proporcionar un name en la query string" });
-    return;
-  }
-
-  HunterModel.findOneAndDelete({ name: req.query.name.toString() })
-    .exec()
-    .then((hunter) => {
-      if (!hunter) {
-        res.status(404).send();
-      } else {
-        res.send(hunter);
-      }
-    })
-    .catch(() => {
-      res.status(400).send();
-    });
-});
+huntersRouter.delete(
+  "/",
+  authorize("admin"),
+  validate(hunterRequests.deleteByName),
+  async (req: Request, res: Response) => {
+    const filter = { name: String(req.query.name) };
+    const versions = ifMatch(req);
+    const hunter = await softDelete(
+      HunterModel,
+      { ...filter, ...versionFilter(versions) },
+      integrityGuard("hunter", req),
+    );
+    if (!hunter) {
+      throw await missingError(
+        HunterModel,
+        { ...filter, ...NOT_DELETED },
+        versions,
+        "Cazador no encontrado",
+      );
+    }
+    appEvents.emit("hunter.deleted", hunter);
+    res.send(hunter);
+  },
+);
 
 /**
  * Elimina un cazador por su ID.
@@ -315,8 +472,20 @@ huntersRouter.delete("/", (req: Request, res: Response) => {
  * @remarks
  * Ruta: `DELETE /hunters/:id`
  * - Respuesta 200: Devuelve el cazador eliminado (`HunterDocument`).
- * - Respuesta 400: Error en la solicitud.
+ * - Respuesta 400: Identificador no válido.
+ * - Respuesta 403: Solo administradores.
  * - Respuesta 404: Cazador no encontrado.
+ * - Respuesta 409: El cazador está referenciado por transacciones (`REFERENCED`).
+ * - Respuesta 412: La versión no coincide con la cabecera `If-Match`.
+ *
+ * El borrado es lógico: se fija `deletedAt` y el cazador deja de aparecer en
+ * las consultas. Se restaura con `POST /hunters/:id/restore` y se elimina
+ * definitivamente con `POST /hunters/purge`.
+ *
+ * Si el cazador aparece en alguna transacción se responde 409 con las
+ * transacciones que lo impiden; con `force=true` se elimina igualmente y las
+ * transacciones conservan la referencia hasta que se purga, cuando se aplica
+ * la política de `INTEGRITY_POLICIES` (por defecto, se anula la referencia).
  *
  * @param req - Express Request
  * @param res - Express Response
@@ -327,17 +496,96 @@ huntersRouter.delete("/", (req: Request, res: Response) => {
  * DELETE /hunters/507f1f77bcf86cd799439011
  * ```
  */
-huntersRouter.delete("/:id", (req: Request, res: Response) => {
-  HunterModel.findByIdAndDelete(req.params.id)
-    .exec()
-    .then((hunter) => {
-      if (!hunter) {
-        res.status(404).send();
-      } else {
-        res.send(hunter);
-      }
-    })
-    .catch(() => {
-      res.status(400).send();
-    });
-});
+huntersRouter.delete(
+  "/:id",
+  authorize("admin"),
+  validate(hunterRequests.deleteById),
+  async (req: Request, res: Response) => {
+    const filter = { _id: req.params.id };
+    const versions = ifMatch(req);
+    const hunter = await softDelete(
+      HunterModel,
+      { ...filter, ...versionFilter(versions) },
+      integrityGuard("hunter", req),
+    );
+    if (!hunter) {
+      throw await missingError(
+        HunterModel,
+        { ...filter, ...NOT_DELETED },
+        versions,
+        "Cazador no encontrado",
+      );
+    }
+    appEvents.emit("hunter.deleted", hunter);
+    res.send(hunter);
+  },
+);
+
+/**
+ * Restaura un cazador eliminado.
+ *
+ * @remarks
+ * Ruta: `POST /hunters/:id/restore`
+ * - Respuesta 200: Devuelve el cazador restaurado (`HunterDocument`).
+ * - Respuesta 400: Identificador no válido.
+ * - Respuesta 403: Solo administradores.
+ * - Respuesta 404: Cazador no encontrado.
+ * - Respuesta 409: El cazador no está eliminado.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns HunterDocument - Cazador restaurado.
+ *
+ * @example
+ * ```http
+ * POST /hunters/507f1f77bcf86cd799439011/restore
+ * ```
+ */
+huntersRouter.post(
+  "/:id/restore",
+  authorize("admin"),
+  validate(hunterRequests.restore),
+  async (req: Request<{ id: string }>, res: Response) => {
+    const doc = await HunterModel.findById(req.params.id);
+    if (!doc) throw new NotFoundError("Cazador no encontrado");
+    if (!doc.deletedAt) throw new ConflictError("El cazador no está eliminado");
+    doc.deletedAt = null;
+    const restored = await doc.save();
+    appEvents.emit("hunter.restored", restored);
+    res.send(restored);
+  },
+);
+
+/**
+ * Elimina definitivamente los cazadores eliminados y resuelve sus transacciones.
+ *
+ * @remarks
+ * Ruta: `POST /hunters/purge`
+ * - Respuesta 200: `{ purged, kept }` (`PurgeResult`).
+ * - Respuesta 403: Solo administradores.
+ *
+ * En las transacciones que los referencian se aplica la política de
+ * `INTEGRITY_POLICIES` (por defecto, se anula el comprador).
+ *
+ * @param _req - Express Request
+ * @param res - Express Response
+ * @returns PurgeResult - Número de cazadores purgados y conservados.
+ *
+ * @example
+ * ```http
+ * POST /hunters/purge
+ * ```
+ */
+huntersRouter.post(
+  "/purge",
+  authorize("admin"),
+  async (_req: Request, res: Response) => {
+    res.json(
+      await purgeDeleted(
+        HunterModel,
+        (ids, session) => restrictedReferences("hunter", ids, session),
+        (ids, session) => resolveReferences("hunter", ids, session),
+      ),
+    );
+  },
+);
@@ -1,5 +1,64 @@
 import express, { Request, Response } from "express";
+import mongoose, { Types } from "mongoose";
+import { ConflictError, NotFoundError } from "../errors.js";
+import { GoodModel } from "../models/good.js";
+import {
+  adjustInventory,
+  InventoryModel,
+  inventoryUsage,
+} from "../models/inventory.js";
 import { MerchantModel, MerchantDocument } from "../models/merchant.js";
+import {
+  integrityGuard,
+  resolveReferences,
+  restrictedReferences,
+} from "../models/integrity.js";
+import {
+  NOT_DELETED,
+  purgeDeleted,
+  softDelete,
+  visibleFilter,
+} from "../models/softDelete.js";
+import {
+  etag,
+  ifMatch,
+  missingError,
+  versionFilter,
+} from "../models/versioning.js";
+import { PaginationOptions, paginate, sendPage } from "../utils/pagination.js";
+import {
+  exportCollection,
+  ExportFormat,
+  importDocuments,
+  importMode,
+  ImportOptions,
+} from "../utils/bulk.js";
+import { appEvents } from "../utils/events.js";
+import { validate } from "../middleware/validate.js";
+import { authorize, authorizeOwner } from "../middleware/auth.js";
+import {
+  crudRequests,
+  idParams,
+  merchantBody,
+  merchantOwnerUpdates,
+  merchantUpdateBody,
+  merchantUpdates,
+  restockBody,
+} from "../openapi/requests.js";
+
+/**
+ * Estructura para reponer el inventario de un mercader
+ */
+interface RestockRequest {
+  /** Nombre del bien a reponer */
+  goodName?: string;
+  /** Identificador del bien a reponer */
+  goodId?: string;
+  /** Unidades a añadir (entero positivo) */
+  quantity: number;
+  /** Precio propio del mercader para el bien (opcional) */
+  price?: number;
+}
 
 /**
  * Router para manejar las operaciones CRUD de Mercaderes
@@ -11,6 +70,37 @@ import { MerchantModel, MerchantDocument } from "../models/merchant.js";
  */
 export const merchantsRouter = express.Router();
 
+/**
+ * Esquemas de las peticiones de cada ruta (ver `validate`).
+ */
+const merchantRequests = crudRequests(merchantBody, merchantUpdateBody);
+
+/**
+ * Opciones de paginación, orden, filtrado y búsqueda del listado de mercaderes.
+ */
+export const merchantListOptions: PaginationOptions = {
+  sortable: [
+    "name",
+    "location",
+    "specialty",
+    "inventorySize",
+    "reputation",
+    "coins",
+    "createdAt",
+  ],
+  filterable: [
+    "name",
+    "location",
+    "specialty",
+    "isTraveling",
+    "inventorySize",
+    "reputation",
+    "coins",
+    "createdAt",
+  ],
+  searchable: true,
+};
+
 /**
  * Crea un nuevo mercader en el sistema.
  *
@@ -18,6 +108,7 @@ export const merchantsRouter = express.Router();
  * Ruta: `POST /merchants`
  * - Respuesta 201: Mercader creado exitosamente.
  * - Respuesta 400: Error en la validación de datos.
+ * - Respuesta 403: Solo administradores.
  *
  * El cuerpo de la petición (`req.body`) debe contener un objeto parcial de `MerchantDocument`,
  * donde todas sus propiedades son opcionales.
@@ -37,66 +128,174 @@ export const merchantsRouter = express.Router();
  * }
  * ```
  */
-merchantsRouter.post("/", (req: Request, res: Response) => {
-  const merchant = new MerchantModel(req.body as Partial<MerchantDocument>);
-  merchant
-    .save()
-    .then((saved) => res.status(201).json(saved))
-    .catch((err) => res.status(400).json(err));
-});
+merchantsRouter.post(
+  "/",
+  authorize("admin"),
+  validate(merchantRequests.create),
+  async (req: Request, res: Response) => {
+    const merchant = new MerchantModel(req.body as Partial<MerchantDocument>);
+    await merchant.save();
+    appEvents.emit("merchant.created", merchant);
+    res.status(201).json(merchant);
+  },
+);
 
 /**
  * Obtiene una lista de mercaderes con filtros opcionales.
  *
  * @remarks
  * Ruta: `GET /merchants`
- * - Respuesta 200: Devuelve array de `MerchantDocument[]`.
- * - Respuesta 404: No se encontraron mercaderes.
+ * - Respuesta 200: Devuelve una página (`Page<MerchantDocument>`), vacía si no hay resultados.
+ * - Respuesta 400: Parámetros de paginación, orden o filtrado no válidos.
  * - Respuesta 500: Error del servidor.
  *
- * Filtros por query string:
- * - `name` (opcional)
- * - `specialty` (opcional)
+ * Admite paginación y orden con `page`, `limit` y `sort` (ver `paginate`).
+ *
+ * Filtros por query string (ver `parseFilters`):
+ * - `name`, `location`, `specialty` (igualdad; `specialty` admite listas)
+ * - `reputation`, `inventorySize` y `coins` (rangos con `gt`, `gte`, `lt`, `lte`)
+ * - `isTraveling` (`true` o `false`)
+ * - `q`: búsqueda de texto en `name` y `location`, ordenada por relevancia
+ *   salvo que se indique `sort`
+ *
+ * Los mercaderes eliminados se omiten salvo que un administrador indique
+ * `includeDeleted=true`.
  *
  * @param req - Express Request
  * @param res - Express Response
- * @returns MerchantDocument[]  Lista de mercaderes encontrados.
+ * @returns Page<MerchantDocument>  Página de mercaderes encontrados.
  *
  * @example
  * ```http
  * GET /merchants?name=Zoltan
  * GET /merchants?specialty=armero
+ * GET /merchants?sort=-reputation&limit=10
+ * GET /merchants?location=Novigrado&reputation[gte]=7&isTraveling=false
+ * GET /merchants?q=novigrado
  * ```
  */
-merchantsRouter.get("/", (req: Request, res: Response) => {
-  const { name, specialty } = req.query;
-  const filter: Record<string, string> = {};
-  if (name) filter.name = name.toString();
-  if (specialty) filter.specialty = specialty.toString();
+merchantsRouter.get(
+  "/",
+  validate(merchantRequests.list),
+  async (req: Request, res: Response) => {
+    const page = await paginate(
+      MerchantModel,
+      visibleFilter(req),
+      req.query,
+      merchantListOptions,
+    );
+    sendPage(req, res, page);
+  },
+);
 
-  MerchantModel.find(filter)
-    .exec()
-    .then((merchants) => {
-      if (merchants.length !== 0) {
-        res.json(merchants);
-      } else {
-        res.status(404).send({ message: "No se encontraron mercaderes" });
-      }
-    })
-    .catch(() => {
-      res.status(500).send({ message: "Error al recuperar mercaderes" });
-    });
-});
+/**
+ * Opciones de importación de mercaderes: en modo `upsert` se identifican por
+ * `name`.
+ */
+export const merchantImportOptions: ImportOptions = {
+  key: "name",
+  body: merchantBody,
+  updatable: merchantUpdates,
+};
+
+/**
+ * Exporta todos los mercaderes en JSON o CSV.
+ *
+ * @remarks
+ * Ruta: `GET /merchants/export`
+ * - Respuesta 200: Array JSON o CSV con cabecera, según `format` (por defecto `json`).
+ * - Respuesta 400: Formato no válido.
+ * - Respuesta 403: Solo los administradores exportan los eliminados.
+ *
+ * La respuesta se escribe a medida que se leen los documentos (ver
+ * `exportCollection`). Los mercaderes eliminados solo se incluyen si un
+ * administrador indica `includeDeleted=true`.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ *
+ * @example
+ * ```http
+ * GET /merchants/export?format=csv
+ * ```
+ */
+merchantsRouter.get(
+  "/export",
+  validate(merchantRequests.export),
+  async (req: Request, res: Response) => {
+    const format = (req.query.format ?? "json") as ExportFormat;
+    await exportCollection(
+      res,
+      MerchantModel,
+      visibleFilter(req),
+      format,
+      "merchants",
+    );
+  },
+);
+
+/**
+ * Importa mercaderes desde un array JSON o un CSV.
+ *
+ * @remarks
+ * Ruta: `POST /merchants/import`
+ * - Respuesta 200: Resultado de la importación (`ImportReport`), con los errores de cada fila.
+ * - Respuesta 400: Cuerpo no válido o, con `atomic=true`, alguna fila no válida.
+ * - Respuesta 403: Solo administradores.
+ *
+ * Cada fila se valida como el cuerpo de `POST /merchants` (ver `importDocuments`).
+ *
+ * Query string:
+ * - `upsert=true`: actualiza los mercaderes que ya existen (por `name`)
+ * - `atomic=true`: importa todas las filas o ninguna
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns ImportReport - Filas creadas, actualizadas y rechazadas.
+ *
+ * @example
+ * ```json
+ * [
+ *   { "name": "Zoltan", "location": "Novigrado", "specialty": "armero", "inventorySize": 50 }
+ * ]
+ * ```
+ *
+ * ```csv
+ * name,location,specialty,inventorySize
+ * Zoltan,Novigrado,armero,50
+ * ```
+ */
+merchantsRouter.post(
+  "/import",
+  authorize("admin"),
+  validate(merchantRequests.import),
+  async (req: Request, res: Response) => {
+    res.json(
+      await importDocuments(
+        MerchantModel,
+        req.body,
+        merchantImportOptions,
+        importMode(req),
+      ),
+    );
+  },
+);
 
 /**
  * Obtiene un mercader específico por su ID.
  *
  * @remarks
  * Ruta: `GET /merchants/:id`
- * - Respuesta 200: Devuelve un `MerchantDocument`.
+ * - Respuesta 200: Devuelve un `MerchantDocument`, con su versión en la
+ *   cabecera `ETag`.
+ * - Respuesta 304: La versión coincide con la cabecera `If-None-Match`.
+ * - Respuesta 400: Identificador no válido.
  * - Respuesta 404: Mercader no encontrado.
  * - Respuesta 500: Error del servidor.
  *
+ * Los mercaderes eliminados solo se devuelven a los administradores con
+ * `?includeDeleted=true`.
+ *
  * @param req - Express Request
  * @param res - Express Response
  * @returns MerchantDocument  Mercader encontrado.
@@ -106,20 +305,128 @@ merchantsRouter.get("/", (req: Request, res: Response) => {
  * GET /merchants/507f1f77bcf86cd799439011
  * ```
  */
-merchantsRouter.get("/:id", (req: Request, res: Response) => {
-  MerchantModel.findById(req.params.id)
-    .exec()
-    .then((merchant) => {
-      if (!merchant) {
-        res.status(404).send({ message: "Mercader no encontrado" });
-      } else {
-        res.json(merchant);
-      }
-    })
-    .catch(() => {
-      res.status(500).send({ message: "Error al recuperar el mercader" });
+merchantsRouter.get(
+  "/:id",
+  validate(merchantRequests.get),
+  async (req: Request, res: Response) => {
+    const merchant = await MerchantModel.findOne({
+      _id: req.params.id,
+      ...visibleFilter(req),
+    });
+    if (!merchant) throw new NotFoundError("Mercader no encontrado");
+    res.set("ETag", etag(merchant)).json(merchant);
+  },
+);
+
+/**
+ * Obtiene el inventario de un mercader.
+ *
+ * @remarks
+ * Ruta: `GET /merchants/:id/inventory`
+ * - Respuesta 200: Devuelve la capacidad (`inventorySize`), las unidades
+ *   ocupadas (`used`) y las líneas del inventario con el bien poblado.
+ * - Respuesta 400: Identificador no válido.
+ * - Respuesta 404: Mercader no encontrado.
+ * - Respuesta 500: Error del servidor.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns Inventario del mercader.
+ *
+ * @example
+ * ```http
+ * GET /merchants/507f1f77bcf86cd799439011/inventory
+ * ```
+ */
+merchantsRouter.get(
+  "/:id/inventory",
+  validate({ params: idParams }),
+  async (req: Request<{ id: string }>, res: Response) => {
+    const merchant = await MerchantModel.findOne({
+      _id: req.params.id,
+      ...NOT_DELETED,
+    });
+    if (!merchant) throw new NotFoundError("Mercader no encontrado");
+
+    const merchantId = merchant._id as Types.ObjectId;
+    const lines = await InventoryModel.find({
+      merchant: merchantId,
+    }).populate("good");
+    res.json({
+      inventorySize: merchant.inventorySize,
+      used: await inventoryUsage(merchantId),
+      lines,
+    });
+  },
+);
+
+/**
+ * Repone unidades de un bien en el inventario de un mercader.
+ *
+ * @remarks
+ * Ruta: `POST /merchants/:id/inventory`
+ * - Respuesta 201: Devuelve la línea de inventario actualizada.
+ * - Respuesta 400: Datos de entrada no válidos.
+ * - Respuesta 403: Solo administradores.
+ * - Respuesta 404: Mercader o bien no encontrado.
+ * - Respuesta 409: La reposición supera el `inventorySize` del mercader.
+ * - Respuesta 500: Error del servidor.
+ *
+ * El cuerpo de la petición (`req.body`) debe ajustarse a la interfaz `RestockRequest`.
+ * Si se indica `price`, pasa a ser el precio del mercader para ese bien.
+ *
+ * Las unidades no se cobran, así que solo los administradores pueden
+ * reponer (p. ej. para cargar el inventario inicial). Los mercaderes
+ * consiguen unidades comprándolas con `POST /transactions`.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns InventoryDocument - Línea de inventario actualizada.
+ *
+ * @example
+ * ```json
+ * {
+ *   "goodName": "Espada de plata",
+ *   "quantity": 5,
+ *   "price": 275
+ * }
+ * ```
+ */
+merchantsRouter.post(
+  "/:id/inventory",
+  authorize("admin"),
+  validate({ params: idParams, body: restockBody }),
+  async (
+    req: Request<{ id: string }, object, RestockRequest>,
+    res: Response,
+  ) => {
+    const { goodName, goodId, quantity, price } = req.body;
+
+    const line = await mongoose.connection.transaction(async (session) => {
+      const merchant = await MerchantModel.findOne({
+        _id: req.params.id,
+        ...NOT_DELETED,
+      }).session(session);
+      if (!merchant) throw new NotFoundError("Mercader no encontrado");
+
+      const good = await GoodModel.findOne({
+        ...(goodId ? { _id: goodId } : { name: goodName }),
+        ...NOT_DELETED,
+      }).session(session);
+      if (!good) throw new NotFoundError("Bien no encontrado");
+
+      return adjustInventory(
+        merchant._id as Types.ObjectId,
+        good,
+        quantity,
+        session,
+        price,
+      );
     });
-});
+    if (line) appEvents.emit("inventory.updated", line);
+    res.status(201).send(line);
+  },
+);
 
 /**
  * Actualiza un mercader buscándolo por nombre (query string).
@@ -128,7 +435,10 @@ merchantsRouter.get("/:id", (req: Request, res: Response) => {
  * Ruta: `PATCH /merchants`
  * - Respuesta 200: Devuelve el mercader actualizado (`MerchantDocument`).
  * - Respuesta 400: Falta parámetro o campos no permitidos.
+ * - Respuesta 403: Solo administradores o el propio mercader, que no puede
+ *   modificar `inventorySize`, `reputation` ni `coins`.
  * - Respuesta 404: Mercader no encontrado.
+ * - Respuesta 412: La versión no coincide con la cabecera `If-Match`.
  *
  * Query string:
  * - `name` (requerido): nombre del mercader a modificar
@@ -150,59 +460,37 @@ merchantsRouter.get("/:id", (req: Request, res: Response) => {
  * }
  * ```
  */
-merchantsRouter.patch("/", (req: Request, res: Response) => {
-  if (!req.query.name) {
-    res
-      .status(400)
-      .send({ error: "Se debe proporcionar un name en la query string" });
-    return;
-  }
-  if (!req.body || Object.keys(req.body).length === 0) {
-    res
-      .status(400)
-      .send({ error: "Debe proporcionar los campos a modificar en el body" });
-    return;
-  }
-
-  const allowedUpdates = [
-    "name",
-    "location",
-    "specialty",
-    "isTraveling",
-    "inventorySize",
-    "reputation",
-    "contact",
-  ];
-  const actualUpdates = Object.keys(req.body);
-  const isValidUpdate = actualUpdates.every((update) =>
-    allowedUpdates.includes(update),
-  );
-
-  if (!isValidUpdate) {
-    res.status(400).send({ error: "Actualización no permitida" });
-    return;
-  }
-
-  MerchantModel.findOneAndUpdate(
-    { name: req.query.name.toString() },
-    req.body,
-    {
-      new: true,
-      runValidators: true,
-    },
-  )
-    .exec()
-    .then((merchant) => {
-      if (!merchant) {
-        res.status(404).send();
-      } else {
-        res.send(merchant);
-      }
-    })
-    .catch((err) => {
-      res.status(400).send(err);
-    });
-});
+merchantsRouter.patch(
+  "/",
+  validate(merchantRequests.updateByName),
+  authorizeOwner(
+    "merchant",
+    (filter) => MerchantModel.exists(filter),
+    merchantOwnerUpdates,
+  ),
+  async (req: Request, res: Response) => {
+    const filter = { _id: req.target, ...NOT_DELETED };
+    const versions = ifMatch(req);
+    const merchant = await MerchantModel.findOneAndUpdate(
+      { ...filter, ...versionFilter(versions) },
+      req.body,
+      {
+        new: true,
+        runValidators: true,
+      },
+    );
+    if (!merchant) {
+      throw await missingError(
+        MerchantModel,
+        filter,
+        versions,
+        "Mercader no encontrado",
+      );
+    }
+    appEvents.emit("merchant.updated", merchant);
+    res.set("ETag", etag(merchant)).send(merchant);
+  },
+);
 
 /**
  * Actualiza un mercader por su ID.
@@ -210,8 +498,11 @@ merchantsRouter.patch("/", (req: Request, res: Response) => {
  * @remarks
  * Ruta: `PATCH /merchants/:id`
  * - Respuesta 200: Devuelve el mercader actualizado (`MerchantDocument`).
- * - Respuesta 400: Campos no permitidos o body vacío.
+ * - Respuesta 400: Identificador no válido, campos no permitidos o body vacío.
+ * - Respuesta 403: Solo administradores o el propio mercader, que no puede
+ *   modificar `inventorySize`, `reputation` ni `coins`.
  * - Respuesta 404: Mercader no encontrado.
+ * - Respuesta 412: La versión no coincide con la cabecera `If-Match`.
  *
  * @param req - Express Request
  * @param res - Express Response
@@ -228,49 +519,37 @@ merchantsRouter.patch("/", (req: Request, res: Response) => {
  * }
  * ```
  */
-merchantsRouter.patch("/:id", (req: Request, res: Response) => {
-  if (!req.body || Object.keys(req.body).length === 0) {
-    res
-      .status(400)
-      .send({ error: "Debe proporcionar los campos a modificar en el body" });
-    return;
-  }
-
-  const allowedUpdates = [
-    "name",
-    "location",
-    "specialty",
-    "isTraveling",
-    "inventorySize",
-    "reputation",
-    "contact",
-  ];
-  const actualUpdates = Object.keys(req.body);
-  const isValidUpdate = actualUpdates.every((update) =>
-    allowedUpdates.includes(update),
-  );
-
-  if (!isValidUpdate) {
-    res.status(400).send({ error: "Actualización no permitida" });
-    return;
-  }
-
-  MerchantModel.findByIdAndUpdate(req.params.id, req.body, {
-    new: true,
-    runValidators: true,
-  })
-    .exec()
-    .then((merchant) => {
-      if (!merchant) {
-        res.status(404).send();
-      } else {
-        res.send(merchant);
-      }
-    })
-    .catch((err) => {
-      res.status(400).send(err);
-    });
-});
+merchantsRouter.patch(
+  "/:id",
+  validate(merchantRequests.updateById),
+  authorizeOwner(
+    "merchant",
+    (filter) => MerchantModel.exists(filter),
+    merchantOwnerUpdates,
+  ),
+  async (req: Request, res: Response) => {
+    const filter = { _id: req.params.id, ...NOT_DELETED };
+    const versions = ifMatch(req);
+    const merchant = await MerchantModel.findOneAndUpdate(
+      { ...filter, ...versionFilter(versions) },
+      req.body,
+      {
+        new: true,
+        runValidators: true,
+      },
+    );
+    if (!merchant) {
+      throw await missingError(
+        MerchantModel,
+        filter,
+        versions,
+        "Mercader no encontrado",
+      );
+    }
+    appEvents.emit("merchant.updated", merchant);
+    res.set("ETag", etag(merchant)).send(merchant);
+  },
+);
 
 /**
  * Elimina un mercader buscándolo por nombre (query string).
@@ -279,7 +558,19 @@ merchantsRouter.patch("/:id", (req: Request, res: Response) => {
  * Ruta: `DELETE /merchants`
  * - Respuesta 200: Devuelve el mercader eliminado (`MerchantDocument`).
  * - Respuesta 400: Falta parámetro `name`.
+ * - Respuesta 403: Solo administradores.
  * - Respuesta 404: Mercader no encontrado.
+ * - Respuesta 409: El mercader está referenciado por transacciones (`REFERENCED`).
+ * - Respuesta 412: La versión no coincide con la cabecera `If-Match`.
+ *
+ * El borrado es lógico: se fija `deletedAt` y el mercader deja de aparecer en
+ * las consultas. Se restaura con `POST /merchants/:id/restore` y se elimina
+ * definitivamente con `POST /merchants/purge`.
+ *
+ * Si el mercader aparece en alguna transacción se responde 409 con las
+ * transacciones que lo impiden; con `force=true` se elimina igualmente y las
+ * transacciones conservan la referencia hasta que se purga, cuando se aplica
+ * la política de `INTEGRITY_POLICIES` (por defecto, se anula la referencia).
  *
  * @param req - Express Request
  * @param res - Express Response
@@ -290,27 +581,30 @@ merchantsRouter.patch("/:id", (req: Request, res: Response) => {
  * DELETE /merchants?name=Zoltan
  * ```
  */
-merchantsRouter.delete("/", (req: Request, res: Response) => {
-  if (!req.query.name) {
-    res
-      .status(400)
-      .send({ error: "Se debe proporcionar un name en la query string" });
-    return;
-  }
-
-  MerchantModel.findOneAndDelete({ name: req.query.name.toString() })
-    .exec()
-    .then((merchant) => {
-      if (!merchant) {
-        res.status(404).send();
-      } else {
-        res.send(merchant);
-      }
-    })
-    .catch(() => {
-      res.status(400).send();
-    });
-});
+merchantsRouter.delete(
+  "/",
+  authorize("admin"),
+  validate(merchantRequests.deleteByName),
+  async (req: Request, res: Response) => {
+    const filter = { name: String(req.query.name) };
+    const versions = ifMatch(req);
+    const merchant = await softDelete(
+      MerchantModel,
+      { ...filter, ...versionFilter(versions) },
+      integrityGuard("merchant", req),
+    );
+    if (!merchant) {
+      throw await missingError(
+        MerchantModel,
+        { ...filter, ...NOT_DELETED },
+        versions,
+        "Mercader no encontrado",
+      );
+    }
+    appEvents.emit("merchant.deleted", merchant);
+    res.send(merchant);
+  },
+);
 
 /**
  * Elimina un mercader por su ID.
@@ -318,8 +612,20 @@ merchantsRouter.delete("/", (req: Request, res: Response) => {
  * @remarks
  * Ruta: `DELETE /merchants/:id`
  * - Respuesta 200: Devuelve el mercader eliminado (`MerchantDocument`).
- * - Respuesta 400: Error en la solicitud.
+ * - Respuesta 400: Identificador no válido.
+ * - Respuesta 403: Solo administradores.
  * - Respuesta 404: Mercader no encontrado.
+ * - Respuesta 409: El mercader está referenciado por transacciones (`REFERENCED`).
+ * - Respuesta 412: La versión no coincide con la cabecera `If-Match`.
+ *
+ * El borrado es lógico: se fija `deletedAt` y el mercader deja de aparecer en
+ * las consultas. Se restaura con `POST /merchants/:id/restore` y se elimina
+ * definitivamente con `POST /merchants/purge`.
+ *
+ * Si el mercader aparece en alguna transacción se responde 409 con las
+ * transacciones que lo impiden; con `force=true` se elimina igualmente y las
+ * transacciones conservan la referencia hasta que se purga, cuando se aplica
+ * la política de `INTEGRITY_POLICIES` (por defecto, se anula la referencia).
  *
  * @param req - Express Request
  * @param res - Express Response
@@ -330,17 +636,104 @@ merchantsRouter.delete("/", (req: Request, res: Response) => {
  * DELETE /merchants/507f1f77bcf86cd799439011
  * ```
  */
-merchantsRouter.delete("/:id", (req: Request, res: Response) => {
-  MerchantModel.findByIdAndDelete(req.params.id)
-    .exec()
-    .then((merchant) => {
-      if (!merchant) {
-        res.status(404).send();
-      } else {
-        res.send(merchant);
-      }
-    })
-    .catch(() => {
-      res.status(400).send();
-    });
-});
+merchantsRouter.delete(
+  "/:id",
+  authorize("admin"),
+  validate(merchantRequests.deleteById),
+  async (req: Request, res: Response) => {
+    const filter = { _id: req.params.id };
+    const versions = ifMatch(req);
+    const merchant = await softDelete(
+      MerchantModel,
+      { ...filter, ...versionFilter(versions) },
+      integrityGuard("merchant", req),
+    );
+    if (!merchant) {
+      throw await missingError(
+        MerchantModel,
+        { ...filter, ...NOT_DELETED },
+        versions,
+        "Mercader no encontrado",
+      );
+    }
+    appEvents.emit("merchant.deleted", merchant);
+    res.send(merchant);
+  },
+);
+
+/**
+ * Restaura un mercader eliminado.
+ *
+ * @remarks
+ * Ruta: `POST /merchants/:id/restore`
+ * - Respuesta 200: Devuelve el mercader restaurado (`MerchantDocument`).
+ * - Respuesta 400: Identificador no válido.
+ * - Respuesta 403: Solo administradores.
+ * - Respuesta 404: Mercader no encontrado.
+ * - Respuesta 409: El mercader no está eliminado.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns MerchantDocument - Mercader restaurado.
+ *
+ * @example
+ * ```http
+ * POST /merchants/507f1f77bcf86cd799439011/restore
+ * ```
+ */
+merchantsRouter.post(
+  "/:id/restore",
+  authorize("admin"),
+  validate(merchantRequests.restore),
+  async (req: Request<{ id: string }>, res: Response) => {
+    const doc = await MerchantModel.findById(req.params.id);
+    if (!doc) throw new NotFoundError("Mercader no encontrado");
+    if (!doc.deletedAt)
+      throw new ConflictError("El mercader no está eliminado");
+    doc.deletedAt = null;
+    const restored = await doc.save();
+    appEvents.emit("merchant.restored", restored);
+    res.send(restored);
+  },
+);
+
+/**
+ * Elimina definitivamente los mercaderes eliminados y resuelve sus transacciones.
+ *
+ * @remarks
+ * Ruta: `POST /merchants/purge`
+ * - Respuesta 200: `{ purged, kept }` (`PurgeResult`).
+ * - Respuesta 403: Solo administradores.
+ *
+ * En las transacciones que los referencian se aplica la política de
+ * `INTEGRITY_POLICIES` (por defecto, se anulan el comprador o el vendedor);
+ * sus líneas de inventario se eliminan con ellos.
+ *
+ * @param _req - Express Request
+ * @param res - Express Response
+ * @returns PurgeResult - Número de mercaderes purgados y conservados.
+ *
+ * @example
+ * ```http
+ * POST /merchants/purge
+ * ```
+ */
+merchantsRouter.post(
+  "/purge",
+  authorize("admin"),
+  async (_req: Request, res: Response) => {
+    res.json(
+      await purgeDeleted(
+        MerchantModel,
+        (ids, session) => restrictedReferences("merchant", ids, session),
+        async (ids, session) => {
+          await resolveReferences("merchant", ids, session);
+          const lines = await InventoryModel.find({
+            merchant: { $in: ids },
+          }).session(session);
+          for (const line of lines) await line.deleteOne({ session });
+        },
+      ),
+    );
+  },
+);
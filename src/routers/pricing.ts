@@ -0,0 +1,205 @@
+import express, { Request, Response } from "express";
+import { NotFoundError } from "../errors.js";
+import { PricingRuleModel } from "../models/pricing.js";
+import { authorize } from "../middleware/auth.js";
+import { validate } from "../middleware/validate.js";
+import {
+  idParams,
+  listQuery,
+  pricingRuleBody,
+  pricingRuleUpdateBody,
+} from "../openapi/requests.js";
+import { PaginationOptions, paginate, sendPage } from "../utils/pagination.js";
+
+/**
+ * Router de reglas de precio
+ *
+ * @remarks
+ * Las reglas activas ajustan en un porcentaje el precio de los ítems de las
+ * transacciones según el comprador o el vendedor (ver `applyPricingRules`).
+ * Cualquier usuario autenticado puede consultarlas; solo los administradores
+ * las gestionan. Los cambios afectan a las transacciones que se creen o
+ * modifiquen después: las existentes conservan su precio y las reglas que
+ * se les aplicaron.
+ */
+export const pricingRulesRouter = express.Router();
+
+/**
+ * Opciones de paginación, orden y filtrado del listado de reglas de precio.
+ */
+export const pricingRuleListOptions: PaginationOptions = {
+  sortable: ["name", "priority", "adjustment", "createdAt"],
+  defaultSort: "priority,name",
+  filterable: ["party", "partyModel", "transactionType", "active"],
+};
+
+/**
+ * Crea una regla de precio.
+ *
+ * @remarks
+ * Ruta: `POST /pricing-rules`
+ * - Respuesta 201: Regla creada (`PricingRule`).
+ * - Respuesta 400: Campos no válidos.
+ * - Respuesta 403: Solo administradores.
+ * - Respuesta 409: Ya existe una regla con ese nombre.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns PricingRuleDocument - Regla creada.
+ *
+ * @example
+ * ```json
+ * {
+ *   "name": "Brujos veteranos",
+ *   "party": "buyer",
+ *   "hunterTypes": ["brujo"],
+ *   "minExperience": 80,
+ *   "adjustment": -10
+ * }
+ * ```
+ */
+pricingRulesRouter.post(
+  "/",
+  authorize("admin"),
+  validate({ body: pricingRuleBody }),
+  async (req: Request, res: Response) => {
+    const rule = await new PricingRuleModel(req.body).save();
+    res.status(201).json(rule);
+  },
+);
+
+/**
+ * Obtiene las reglas de precio.
+ *
+ * @remarks
+ * Ruta: `GET /pricing-rules`
+ * - Respuesta 200: Página de reglas (`Page<PricingRule>`), por defecto en
+ *   orden de aplicación.
+ * - Respuesta 400: Parámetros de paginación, orden o filtrado no válidos.
+ *
+ * Admite `page`, `limit` y `sort` (ver `paginate`) y los filtros `party`,
+ * `partyModel`, `transactionType` y `active`.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns Page<PricingRuleDocument> - Reglas encontradas.
+ *
+ * @example
+ * ```http
+ * GET /pricing-rules?party=seller&active=true
+ * ```
+ */
+pricingRulesRouter.get(
+  "/",
+  validate({ query: listQuery }),
+  async (req: Request, res: Response) => {
+    const page = await paginate(
+      PricingRuleModel,
+      {},
+      req.query,
+      pricingRuleListOptions,
+    );
+    sendPage(req, res, page);
+  },
+);
+
+/**
+ * Obtiene una regla de precio por su ID.
+ *
+ * @remarks
+ * Ruta: `GET /pricing-rules/:id`
+ * - Respuesta 200: Regla encontrada (`PricingRule`).
+ * - Respuesta 400: Identificador no válido.
+ * - Respuesta 404: Regla no encontrada.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns PricingRuleDocument - Regla encontrada.
+ *
+ * @example
+ * ```http
+ * GET /pricing-rules/507f1f77bcf86cd799439011
+ * ```
+ */
+pricingRulesRouter.get(
+  "/:id",
+  validate({ params: idParams }),
+  async (req: Request, res: Response) => {
+    const rule = await PricingRuleModel.findById(req.params.id);
+    if (!rule) throw new NotFoundError("Regla de precio no encontrada");
+    res.json(rule);
+  },
+);
+
+/**
+ * Actualiza una regla de precio.
+ *
+ * @remarks
+ * Ruta: `PATCH /pricing-rules/:id`
+ * - Respuesta 200: Regla actualizada (`PricingRule`).
+ * - Respuesta 400: Identificador o campos no válidos, o body vacío.
+ * - Respuesta 403: Solo administradores.
+ * - Respuesta 404: Regla no encontrada.
+ * - Respuesta 409: Ya existe una regla con ese nombre.
+ *
+ * Con `active: false` la regla deja de aplicarse. Las condiciones se
+ * eliminan enviándolas a `null` (o `[]` en `hunterTypes`).
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns PricingRuleDocument - Regla actualizada.
+ *
+ * @example
+ * ```http
+ * PATCH /pricing-rules/507f1f77bcf86cd799439011
+ * Content-Type: application/json
+ *
+ * { "adjustment": 15, "minReputation": null }
+ * ```
+ */
+pricingRulesRouter.patch(
+  "/:id",
+  authorize("admin"),
+  validate({ params: idParams, body: pricingRuleUpdateBody }),
+  async (req: Request, res: Response) => {
+    const rule = await PricingRuleModel.findByIdAndUpdate(
+      req.params.id,
+      req.body,
+      { new: true, runValidators: true },
+    );
+    if (!rule) throw new NotFoundError("Regla de precio no encontrada");
+    res.json(rule);
+  },
+);
+
+/**
+ * Elimina una regla de precio.
+ *
+ * @remarks
+ * Ruta: `DELETE /pricing-rules/:id`
+ * - Respuesta 200: Regla eliminada (`PricingRule`).
+ * - Respuesta 400: Identificador no válido.
+ * - Respuesta 403: Solo administradores.
+ * - Respuesta 404: Regla no encontrada.
+ *
+ * Las transacciones a las que se aplicó conservan su nombre y porcentaje.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns PricingRuleDocument - Regla eliminada.
+ *
+ * @example
+ * ```http
+ * DELETE /pricing-rules/507f1f77bcf86cd799439011
+ * ```
+ */
+pricingRulesRouter.delete(
+  "/:id",
+  authorize("admin"),
+  validate({ params: idParams }),
+  async (req: Request, res: Response) => {
+    const rule = await PricingRuleModel.findByIdAndDelete(req.params.id);
+    if (!rule) throw new NotFoundError("Regla de precio no encontrada");
+    res.json(rule);
+  },
+);
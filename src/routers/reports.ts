@@ -0,0 +1,288 @@
+import express, { Request, Response } from "express";
+import { authorize } from "../middleware/auth.js";
+import { validate } from "../middleware/validate.js";
+import { rankingQuery, salesParams, salesQuery } from "../openapi/requests.js";
+import { ExportFormat } from "../utils/bulk.js";
+import { csvLine } from "../utils/csv.js";
+import { positiveInteger } from "../utils/pagination.js";
+import {
+  inventoryReport,
+  ReportDimension,
+  ReportInterval,
+  ReportRange,
+  salesReport,
+  topGoods,
+  topSpenders,
+  treasuryReport,
+} from "../utils/reports.js";
+
+/**
+ * Router de informes de ventas
+ *
+ * @remarks
+ * Los informes de ventas se calculan con pipelines de agregación sobre las
+ * transacciones cuya fecha está en el intervalo `startDate`–`endDate`, a
+ * partir del precio registrado en cada ítem; la valoración del inventario,
+ * sobre el stock actual de los bienes, y el de monedas, sobre los saldos
+ * actuales. Solo los pueden consultar los administradores y los usuarios de
+ * solo lectura.
+ */
+export const reportsRouter = express.Router();
+
+/** Filas de los rankings si no se indica `limit` */
+const DEFAULT_RANKING_LIMIT = 10;
+
+/**
+ * Intervalo de fechas de la query string (ya validada) de un informe.
+ *
+ * @param req - Express Request
+ * @returns Intervalo de fechas
+ */
+const reportRange = (req: Request): ReportRange => ({
+  startDate: new Date(String(req.query.startDate)),
+  endDate: new Date(String(req.query.endDate)),
+});
+
+/**
+ * Formato de la respuesta de un informe (por defecto `json`).
+ *
+ * @param req - Express Request
+ * @returns Formato de la respuesta
+ */
+const reportFormat = (req: Request) =>
+  (req.query.format as ExportFormat | undefined) ?? "json";
+
+/**
+ * Envía las filas de un informe en JSON o CSV.
+ *
+ * @param res - Express Response
+ * @param rows - Filas del informe
+ * @param columns - Columnas del CSV, en orden
+ * @param format - Formato de la respuesta
+ * @param name - Nombre del fichero CSV descargado, sin extensión
+ */
+function sendReport<T extends object>(
+  res: Response,
+  rows: T[],
+  columns: Array<keyof T & string>,
+  format: ExportFormat,
+  name: string,
+) {
+  if (format !== "csv") {
+    res.json(rows);
+    return;
+  }
+  res.attachment(`${name}.csv`);
+  res.type("text/csv; charset=utf-8");
+  res.send(
+    [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+      .map(csvLine)
+      .join(""),
+  );
+}
+
+/**
+ * Obtiene las ventas por bien, mercader, cazador o material.
+ *
+ * @remarks
+ * Ruta: `GET /reports/sales/:by`
+ * - Respuesta 200: Array de `SalesRow` (`period`, `key`, `name`, `revenue`,
+ *   `units` y `transactions`), ordenado por periodo y por importe
+ *   descendente, o el mismo informe en CSV.
+ * - Respuesta 400: Dimensión, fechas, intervalo o formato no válidos.
+ * - Respuesta 403: Solo administradores y usuarios de solo lectura.
+ * - Respuesta 500: Error del servidor.
+ *
+ * `by` es `goods`, `merchants` (ventas de cada mercader como vendedor),
+ * `hunters` (compras de cada cazador) o `materials`. El importe de cada fila
+ * es la suma de `priceAtTransaction × quantity` de sus ítems.
+ *
+ * Query string:
+ * - `startDate` y `endDate` (ISO, requeridos)
+ * - `interval`: `day`, `week` (semana ISO, p. ej. `2025-W20`) o `month`
+ *   (por defecto)
+ * - `format`: `json` (por defecto) o `csv`
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns SalesRow[] - Filas del informe.
+ *
+ * @example
+ * ```http
+ * GET /reports/sales/materials?startDate=2025-01-01&endDate=2025-12-31&interval=week
+ * ```
+ */
+reportsRouter.get(
+  "/sales/:by",
+  authorize("admin", "read-only"),
+  validate({ params: salesParams, query: salesQuery }),
+  async (req: Request, res: Response) => {
+    const by = req.params.by as ReportDimension;
+    const rows = await salesReport(
+      by,
+      (req.query.interval as ReportInterval | undefined) ?? "month",
+      reportRange(req),
+    );
+    sendReport(
+      res,
+      rows,
+      ["period", "key", "name", "revenue", "units", "transactions"],
+      reportFormat(req),
+      `sales-${by}`,
+    );
+  },
+);
+
+/**
+ * Obtiene los bienes más vendidos.
+ *
+ * @remarks
+ * Ruta: `GET /reports/top-goods`
+ * - Respuesta 200: Array de `TopGoodRow` (`key`, `name`, `material`, `units`
+ *   y `revenue`), de más a menos unidades vendidas, o el mismo ranking en
+ *   CSV.
+ * - Respuesta 400: Fechas, límite o formato no válidos.
+ * - Respuesta 403: Solo administradores y usuarios de solo lectura.
+ * - Respuesta 500: Error del servidor.
+ *
+ * Query string:
+ * - `startDate` y `endDate` (ISO, requeridos)
+ * - `limit`: número de bienes (por defecto 10, máximo `MAX_LIMIT`)
+ * - `format`: `json` (por defecto) o `csv`
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns TopGoodRow[] - Bienes más vendidos.
+ *
+ * @example
+ * ```http
+ * GET /reports/top-goods?startDate=2025-01-01&endDate=2025-12-31&limit=5
+ * ```
+ */
+reportsRouter.get(
+  "/top-goods",
+  authorize("admin", "read-only"),
+  validate({ query: rankingQuery }),
+  async (req: Request, res: Response) => {
+    const rows = await topGoods(
+      reportRange(req),
+      positiveInteger(req.query.limit, "limit", DEFAULT_RANKING_LIMIT),
+    );
+    sendReport(
+      res,
+      rows,
+      ["key", "name", "material", "units", "revenue"],
+      reportFormat(req),
+      "top-goods",
+    );
+  },
+);
+
+/**
+ * Obtiene los clientes que más gastan.
+ *
+ * @remarks
+ * Ruta: `GET /reports/top-spenders`
+ * - Respuesta 200: Array de `TopSpenderRow` (`key`, `name`, `model`, `spent`
+ *   y `transactions`), de mayor a menor gasto, o el mismo ranking en CSV.
+ * - Respuesta 400: Fechas, límite o formato no válidos.
+ * - Respuesta 403: Solo administradores y usuarios de solo lectura.
+ * - Respuesta 500: Error del servidor.
+ *
+ * Incluye a los cazadores y mercaderes que aparecen como compradores; el
+ * gasto es la suma de `totalAmount` de sus compras. Las compras de la posada
+ * y las de clientes purgados tras eliminarlos con `force=true` no se cuentan.
+ *
+ * Query string:
+ * - `startDate` y `endDate` (ISO, requeridos)
+ * - `limit`: número de clientes (por defecto 10, máximo `MAX_LIMIT`)
+ * - `format`: `json` (por defecto) o `csv`
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns TopSpenderRow[] - Clientes que más gastan.
+ *
+ * @example
+ * ```http
+ * GET /reports/top-spenders?startDate=2025-01-01&endDate=2025-12-31&format=csv
+ * ```
+ */
+reportsRouter.get(
+  "/top-spenders",
+  authorize("admin", "read-only"),
+  validate({ query: rankingQuery }),
+  async (req: Request, res: Response) => {
+    const rows = await topSpenders(
+      reportRange(req),
+      positiveInteger(req.query.limit, "limit", DEFAULT_RANKING_LIMIT),
+    );
+    sendReport(
+      res,
+      rows,
+      ["key", "name", "model", "spent", "transactions"],
+      reportFormat(req),
+      "top-spenders",
+    );
+  },
+);
+
+/**
+ * Obtiene el valor y el peso del stock de la posada.
+ *
+ * @remarks
+ * Ruta: `GET /reports/inventory`
+ * - Respuesta 200: `InventoryReport` con la valoración total (`total`), por
+ *   material (`materials`) y por bien (`goods`), de mayor a menor valor.
+ * - Respuesta 403: Solo administradores y usuarios de solo lectura.
+ * - Respuesta 500: Error del servidor.
+ *
+ * El valor de cada bien es `stock × value` y su peso `stock × weight`. No se
+ * incluyen los bienes eliminados ni el inventario de los mercaderes.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns InventoryReport - Valoración del inventario.
+ *
+ * @example
+ * ```http
+ * GET /reports/inventory
+ * ```
+ */
+reportsRouter.get(
+  "/inventory",
+  authorize("admin", "read-only"),
+  async (_req: Request, res: Response) => {
+    res.json(await inventoryReport());
+  },
+);
+
+/**
+ * Obtiene las monedas de la posada, de los cazadores y de los mercaderes.
+ *
+ * @remarks
+ * Ruta: `GET /reports/treasury`
+ * - Respuesta 200: `TreasuryReport` con la tesorería de la posada (`inn`),
+ *   la suma de los saldos de cazadores (`hunters`) y mercaderes
+ *   (`merchants`) y el total en circulación (`total`).
+ * - Respuesta 403: Solo administradores y usuarios de solo lectura.
+ * - Respuesta 500: Error del servidor.
+ *
+ * La posada cobra lo que le compran y paga lo que le venden, así que las
+ * transacciones no cambian `total`.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns TreasuryReport - Monedas en circulación.
+ *
+ * @example
+ * ```http
+ * GET /reports/treasury
+ * ```
+ */
+reportsRouter.get(
+  "/treasury",
+  authorize("admin", "read-only"),
+  async (_req: Request, res: Response) => {
+    res.json(await treasuryReport());
+  },
+);
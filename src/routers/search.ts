@@ -0,0 +1,181 @@
+import express, { Request, Response } from "express";
+import { Model } from "mongoose";
+import { ValidationError } from "../errors.js";
+import { GoodModel } from "../models/good.js";
+import { HunterModel } from "../models/hunter.js";
+import { MerchantModel } from "../models/merchant.js";
+import { NOT_DELETED } from "../models/softDelete.js";
+import { MAX_LIMIT, positiveInteger } from "../utils/pagination.js";
+import { validate } from "../middleware/validate.js";
+import { searchQuery } from "../openapi/requests.js";
+
+/**
+ * Router de búsqueda de texto sobre bienes, cazadores y mercaderes
+ *
+ * @remarks
+ * Usa los índices de texto de cada colección (en español, sin distinguir
+ * mayúsculas ni acentos): `name` y `description` en bienes; `name`,
+ * `preferredWeapon` y `monsterSpecialty` en cazadores; `name` y `location`
+ * en mercaderes.
+ */
+export const searchRouter = express.Router();
+
+/** Resultados por colección si no se indica `limit` */
+const DEFAULT_SEARCH_LIMIT = 10;
+
+/**
+ * Colecciones en las que se puede buscar
+ */
+export type SearchType = "goods" | "hunters" | "merchants";
+
+/**
+ * Modelo de cada colección de búsqueda
+ */
+const searchModels: Record<SearchType, Model<unknown>> = {
+  goods: GoodModel as Model<unknown>,
+  hunters: HunterModel as Model<unknown>,
+  merchants: MerchantModel as Model<unknown>,
+};
+
+/**
+ * Resultado individual de una búsqueda
+ */
+export interface SearchResult {
+  /** Colección a la que pertenece el documento */
+  type: SearchType;
+  /** Relevancia calculada por MongoDB (mayor es más relevante) */
+  score: number;
+  /** Documento encontrado */
+  document: Record<string, unknown>;
+}
+
+/**
+ * Resultados de una colección, ordenados por relevancia
+ */
+export interface SearchGroup {
+  /** Número total de coincidencias en la colección */
+  total: number;
+  /** Resultados más relevantes (hasta `limit`) */
+  results: SearchResult[];
+}
+
+/**
+ * Parámetros de la búsqueda
+ */
+interface SearchRequest {
+  /** Términos de búsqueda */
+  q: string;
+  /** Colecciones separadas por comas (opcional, por defecto todas) */
+  types?: string;
+  /** Resultados por colección (opcional) */
+  limit?: string;
+}
+
+/**
+ * Busca en una colección con su índice de texto.
+ *
+ * @param type - Colección en la que buscar
+ * @param q - Términos de búsqueda
+ * @param limit - Máximo de resultados
+ * @returns Grupo de resultados ordenado por relevancia
+ */
+async function searchCollection(
+  type: SearchType,
+  q: string,
+  limit: number,
+): Promise<SearchGroup> {
+  const model = searchModels[type];
+  const filter = { $text: { $search: q }, ...NOT_DELETED };
+  const [total, docs] = await Promise.all([
+    model.countDocuments(filter),
+    model
+      .find(filter, { score: { $meta: "textScore" } })
+      .sort({ score: { $meta: "textScore" }, _id: 1 })
+      .limit(limit)
+      .lean<Array<Record<string, unknown> & { score: number }>>(),
+  ]);
+  const results = docs.map(({ score, ...document }) => ({
+    type,
+    score,
+    document,
+  }));
+  return { total, results };
+}
+
+/**
+ * Lee las colecciones solicitadas en `types`.
+ *
+ * @param value - Valor de `types`
+ * @returns Colecciones en las que buscar
+ * @throws ValidationError - Si alguna colección no existe
+ */
+function parseTypes(value: unknown): SearchType[] {
+  const all = Object.keys(searchModels) as SearchType[];
+  if (value === undefined || value === "") return all;
+  if (typeof value !== "string") {
+    throw ValidationError.field(
+      "query",
+      "types",
+      "El parámetro types debe ser un texto",
+    );
+  }
+  const types = value.split(",").map((t) => t.trim());
+  for (const type of types) {
+    if (!all.includes(type as SearchType)) {
+      throw ValidationError.field(
+        "query",
+        "types",
+        `No se puede buscar en ${type}`,
+      );
+    }
+  }
+  return all.filter((type) => types.includes(type));
+}
+
+/**
+ * Busca por texto en bienes, cazadores y mercaderes.
+ *
+ * @remarks
+ * Ruta: `GET /search`
+ * - Respuesta 200: Resultados agrupados por colección (`goods`, `hunters`,
+ *   `merchants`), cada grupo con `total` y `results` ordenados por relevancia.
+ * - Respuesta 400: Falta `q` o los parámetros no son válidos.
+ * - Respuesta 500: Error del servidor.
+ *
+ * Solo se incluyen en la respuesta las colecciones solicitadas en `types`.
+ * `limit` acota los resultados de cada colección (por defecto 10, máximo
+ * `MAX_LIMIT`).
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns Resultados agrupados por colección.
+ *
+ * @example
+ * ```http
+ * GET /search?q=espada
+ * GET /search?q=novigrado&types=merchants,hunters&limit=5
+ * ```
+ */
+searchRouter.get(
+  "/",
+  validate({ query: searchQuery }),
+  async (
+    req: Request<Record<string, unknown>, object, object, SearchRequest>,
+    res: Response,
+  ) => {
+    const q = req.query.q.trim();
+    const types = parseTypes(req.query.types);
+    const limit = Math.min(
+      positiveInteger(req.query.limit, "limit", DEFAULT_SEARCH_LIMIT),
+      MAX_LIMIT,
+    );
+
+    const groups = await Promise.all(
+      types.map((type) => searchCollection(type, q, limit)),
+    );
+    res.json({
+      q,
+      ...Object.fromEntries(types.map((type, i) => [type, groups[i]])),
+    });
+  },
+);
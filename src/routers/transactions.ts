@@ -3,52 +3,81 @@ import { GoodModel } from "../models/good.js";
 import { HunterModel } from "../models/hunter.js";
 import { MerchantModel } from "../models/merchant.js";
 import { Types } from "mongoose";
+import { ForbiddenError, NotFoundError } from "../errors.js";
+import { etag, ifMatch } from "../models/versioning.js";
+import { PaginationOptions, paginate, sendPage } from "../utils/pagination.js";
 import {
-  TransactionModel,
-  TransactionType,
-  TransactionItem,
-} from "../models/transaction.js";
+  assertParticipant,
+  createTransaction,
+  CreateTransactionRequest,
+  deleteTransaction,
+  updateTransaction,
+} from "../utils/transactions.js";
+import {
+  eventsAfter,
+  sseMessage,
+  StreamEvent,
+  streamOptions,
+  StreamTransaction,
+  subscribeTransactions,
+} from "../utils/stream.js";
+import { validate } from "../middleware/validate.js";
+import { authorize, ownParty } from "../middleware/auth.js";
+import { TokenClaims } from "../utils/tokens.js";
+import {
+  clientQuery,
+  dateRangeQuery,
+  idParams,
+  streamQuery,
+  transactionBody,
+} from "../openapi/requests.js";
+import { TransactionModel, TransactionType } from "../models/transaction.js";
 
 /**
- * Estructura para la creación de nuevas transacciones
+ * Parámetros de paginación y orden de los listados de transacciones
  */
-interface CreateTransactionRequest {
-  /** Tipo de transacción (compra/venta) */
-  type: TransactionType;
-  /** Nombre del cliente asociado */
-  clientName: string;
-  /** Lista de items en la transacción */
-  items: Array<{
-    /** Nombre del bien transaccionado */
-    goodName: string;
-    /** Cantidad del bien */
-    quantity: number;
-  }>;
+interface ListRequest {
+  /** Número de página (opcional) */
+  page?: string;
+  /** Tamaño de página (opcional) */
+  limit?: string;
+  /** Campos de ordenación, p. ej. `-date,totalAmount` (opcional) */
+  sort?: string;
 }
 
 /**
  * Estructura para consulta por rango de fechas
  */
-interface DateRangeRequest {
-  /** Fecha de inicio (opcional) */
-  startDate?: string;
-  /** Fecha de fin (opcional) */
-  endDate?: string;
+interface DateRangeRequest extends ListRequest {
+  /** Fecha de inicio */
+  startDate: string;
+  /** Fecha de fin */
+  endDate: string;
   /** Tipo de transacción a filtrar (opcional) */
   type?: TransactionType;
 }
 
+/**
+ * Router para manejar las transacciones entre cazadores, mercaderes y la posada
+ *
+ * @remarks
+ * Las operaciones que modifican transacciones (creación, actualización y
+ * eliminación) se ejecutan dentro de una única transacción de MongoDB que
+ * incluye los cambios de stock, de monedas y el propio documento, por lo que
+ * cualquier error de validación o de búsqueda las revierte por completo.
+ * Los bienes salen del inventario del vendedor y entran en el del comprador;
+ * cuando una parte es la posada se usa el stock global del bien.
+ * Requiere que MongoDB se ejecute como replica set.
+ */
 export const transactionsRouter = express.Router();
 
 /**
- * Helper para manejo centralizado de errores
- * @param res - Objeto Response de Express
- * @param error - Error capturado
+ * Opciones de paginación comunes a los listados de transacciones.
  */
-const handleError = (res: Response, error: unknown) => {
-  console.error(error);
-  const message = error instanceof Error ? error.message : "Error desconocido";
-  res.status(500).json({ error: message });
+export const transactionListOptions: PaginationOptions = {
+  sortable: ["date", "type", "totalAmount"],
+  defaultSort: "date",
+  populate: ["buyer", "seller", "items.good"],
 };
 
 /**
@@ -57,11 +86,21 @@ const handleError = (res: Response, error: unknown) => {
  * @remarks
  * Ruta: `POST /transactions`
  * - Respuesta 201: Transacción creada exitosamente.
- * - Respuesta 400: Error en los datos de entrada.
- * - Respuesta 404: Cliente o bien no encontrado.
+ * - Respuesta 400: Error en los datos de entrada, stock o monedas insuficientes.
+ * - Respuesta 403: El usuario es un mercader o cazador y no es el comprador.
+ * - Respuesta 404: Comprador, vendedor o bien no encontrado.
+ * - Respuesta 409: El inventario del mercader comprador no admite más unidades,
+ *   o la petición con la misma clave de idempotencia aún se está procesando.
+ * - Respuesta 422: La clave de idempotencia ya se usó con otra petición.
  * - Respuesta 500: Error del servidor.
  *
  * El cuerpo de la petición (`req.body`) debe ajustarse a la interfaz `CreateTransactionRequest`.
+ * El comprador paga `totalAmount` y el vendedor lo recibe en sus monedas.
+ * Los precios incluyen las reglas de precio activas (ver `/pricing-rules`);
+ * cada ítem registra su `basePrice` y las reglas aplicadas en `appliedRules`.
+ *
+ * Con la cabecera `Idempotency-Key`, los reintentos de la misma petición
+ * reciben la transacción original en lugar de crear otra (ver `idempotency`).
  *
  * @param req - Express Request
  * @param res - Express Response
@@ -72,7 +111,8 @@ const handleError = (res: Response, error: unknown) => {
  * ```json
  * {
  *   "type": "purchase",
- *   "clientName": "Geralt",
+ *   "buyerName": "Geralt",
+ *   "sellerName": "Zoltan",
  *   "items": [
  *     { "goodName": "Espada de plata", "quantity": 1 },
  *     { "goodName": "Poción de salud", "quantity": 3 }
@@ -82,71 +122,13 @@ const handleError = (res: Response, error: unknown) => {
  */
 transactionsRouter.post(
   "/",
+  authorize("admin", "merchant", "hunter"),
+  validate({ body: transactionBody }),
   async (
     req: Request<Record<string, unknown>, object, CreateTransactionRequest>,
     res: Response,
   ) => {
-    try {
-      const { type, clientName, items } = req.body;
-
-      if (!type || !["purchase", "sale"].includes(type)) {
-        res.status(400).json({ error: "Tipo de transacción no válido" });
-        return;
-      }
-
-      let client;
-      if (type === "purchase") {
-        client = await HunterModel.findOne({ name: clientName });
-      } else {
-        client = await MerchantModel.findOne({ name: clientName });
-      }
-      if (!client) {
-        res.status(404).json({ error: "Cliente no encontrado" });
-        return;
-      }
-
-      const processedItems: TransactionItem[] = [];
-      let totalAmount = 0;
-
-      for (const item of items) {
-        const good = await GoodModel.findOne({ name: item.goodName });
-        if (!good) {
-          res
-            .status(404)
-            .json({ error: `Bien no encontrado: ${item.goodName}` });
-          return;
-        }
-
-        if (type === "purchase" && good.stock < item.quantity) {
-          res
-            .status(400)
-            .json({ error: `Stock insuficiente para: ${item.goodName}` });
-          return;
-        }
-
-        const itemTotal = good.value * item.quantity;
-        totalAmount += itemTotal;
-
-        processedItems.push({
-          good: good._id as Types.ObjectId,
-          quantity: item.quantity,
-          priceAtTransaction: good.value,
-        });
-      }
-
-      const transaction = new TransactionModel({
-        type,
-        client: client._id,
-        clientModel: type === "purchase" ? "Hunter" : "Merchant",
-        items: processedItems,
-        totalAmount,
-      });
-
-      const savedTransaction = await transaction.save();
-      res.status(201).json(savedTransaction);
-    } catch (error) {
-      handleError(res, error);
-    }
+    res.status(201).json(await createTransaction(req.body, req.auth));
   },
 );
 
@@ -155,56 +137,60 @@ transactionsRouter.post(
  *
  * @remarks
  * Ruta: `GET /transactions/client`
- * - Respuesta 200: Lista de `TransactionDocument[]`.
- * - Respuesta 400: Falta el parámetro `clientName`.
+ * Devuelve las transacciones en las que el cliente aparece como comprador
+ * o como vendedor.
+ *
+ * - Respuesta 200: Página de `TransactionDocument` (`Page<TransactionDocument>`).
+ * - Respuesta 400: Falta el parámetro `clientName` o paginación no válida.
+ * - Respuesta 403: Un mercader o cazador consulta las de otro cliente.
  * - Respuesta 404: Cliente no encontrado.
  * - Respuesta 500: Error del servidor.
  *
+ * Admite paginación y orden con `page`, `limit` y `sort` (ver `paginate`).
+ *
  * @param req - Express Request
  * @param res - Express Response
- * @returns TransactionDocument[]  Transacciones encontradas.
+ * @returns Page<TransactionDocument>  Transacciones encontradas.
  *
  * @example
  * ```http
  * GET /transactions/client?clientName=Zoltan
+ * GET /transactions/client?clientName=Zoltan&sort=-totalAmount&limit=5
  * ```
  */
 transactionsRouter.get(
   "/client",
+  validate({ query: clientQuery }),
   async (
     req: Request<
       Record<string, unknown>,
       object,
       object,
-      { clientName: string }
+      ListRequest & { clientName: string }
     >,
     res: Response,
   ) => {
-    try {
-      const { clientName } = req.query;
-
-      if (!clientName || typeof clientName !== "string") {
-        res.status(400).json({ error: "Se requiere el nombre del cliente" });
-        return;
-      }
-
-      const hunter = await HunterModel.findOne({ name: clientName });
-      const merchant = await MerchantModel.findOne({ name: clientName });
-      const client = hunter || merchant;
-
-      if (!client) {
-        res.status(404).json({ error: "Cliente no encontrado" });
-        return;
-      }
-
-      const transactions = await TransactionModel.find({ client: client._id })
-        .populate("client")
-        .populate("items.good");
-
-      res.json(transactions);
-    } catch (error) {
-      handleError(res, error);
+    const { clientName } = req.query;
+
+    const hunter = await HunterModel.findOne({ name: clientName });
+    const merchant = await MerchantModel.findOne({ name: clientName });
+    const ids = [hunter?._id, merchant?._id].filter((id) => id != null);
+
+    if (ids.length === 0) throw new NotFoundError("Cliente no encontrado");
+    const party = ownParty(req.auth);
+    if (party && !ids.some((id) => party.equals(id as Types.ObjectId))) {
+      throw new ForbiddenError(
+        "Solo puede acceder a sus propias transacciones",
+      );
     }
+
+    const page = await paginate(
+      TransactionModel,
+      { $or: [{ buyer: { $in: ids } }, { seller: { $in: ids } }] },
+      req.query,
+      transactionListOptions,
+    );
+    sendPage(req, res, page);
   },
 );
 
@@ -213,18 +199,22 @@ transactionsRouter.get(
  *
  * @remarks
  * Ruta: `GET /transactions/date-range`
- * - Respuesta 200: Lista de `TransactionDocument[]`.
- * - Respuesta 400: Fechas inválidas o faltantes.
+ * - Respuesta 200: Página de `TransactionDocument` (`Page<TransactionDocument>`).
+ * - Respuesta 400: Fechas inválidas o faltantes, tipo o paginación no válidos.
  * - Respuesta 500: Error del servidor.
  *
- * Query string opcional:
- * - `startDate` (ISO)
- * - `endDate` (ISO)
- * - `type` (`purchase`|`sale`)
+ * Los mercaderes y cazadores solo obtienen las transacciones en las que
+ * participan.
+ *
+ * Query string:
+ * - `startDate` (ISO, requerido)
+ * - `endDate` (ISO, requerido)
+ * - `type` (`purchase`|`sale`, opcional)
+ * - `page`, `limit` y `sort` (ver `paginate`)
  *
  * @param req - Express Request
  * @param res - Express Response
- * @returns TransactionDocument[]  Transacciones dentro del rango.
+ * @returns Page<TransactionDocument>  Transacciones dentro del rango.
  *
  * @example
  * ```http
@@ -233,40 +223,171 @@ transactionsRouter.get(
  */
 transactionsRouter.get(
   "/date-range",
+  validate({ query: dateRangeQuery }),
   async (
     req: Request<Record<string, unknown>, object, object, DateRangeRequest>,
     res: Response,
   ) => {
-    try {
-      const { startDate, endDate, type } = req.query;
-
-      if (!startDate || !endDate) {
-        res.status(400).json({ error: "Se requieren fechas de inicio y fin" });
-        return;
-      }
-
-      const filter: {
-        date?: { $gte: Date; $lte: Date };
-        type?: TransactionType;
-      } = {};
-
-      filter.date = {
-        $gte: new Date(startDate),
-        $lte: new Date(endDate),
-      };
+    const { startDate, endDate, type } = req.query;
+
+    const filter: {
+      date?: { $gte: Date; $lte: Date };
+      type?: TransactionType;
+      $or?: object[];
+    } = {};
+
+    filter.date = {
+      $gte: new Date(startDate),
+      $lte: new Date(endDate),
+    };
+
+    if (type) filter.type = type;
+
+    const party = ownParty(req.auth);
+    if (party) filter.$or = [{ buyer: party }, { seller: party }];
+
+    const page = await paginate(
+      TransactionModel,
+      filter,
+      req.query,
+      transactionListOptions,
+    );
+    sendPage(req, res, page);
+  },
+);
 
-      if (type && ["purchase", "sale"].includes(type)) {
-        filter.type = type as TransactionType;
-      }
+/**
+ * Filtros del flujo de transacciones
+ */
+interface StreamRequest {
+  /** Tipo de transacción */
+  type?: TransactionType;
+  /** Nombre del cliente (comprador o vendedor) */
+  clientName?: string;
+  /** Nombre de un bien de la transacción */
+  goodName?: string;
+}
 
-      const transactions = await TransactionModel.find(filter)
-        .populate("client")
-        .populate("items.good");
+/**
+ * Construye el filtro de los eventos de `GET /transactions/stream`.
+ *
+ * @remarks
+ * Los nombres se resuelven al abrir la conexión. Los mercaderes y cazadores
+ * solo reciben las transacciones en las que participan.
+ *
+ * @param query - Filtros de la query string
+ * @param auth - Datos del token de acceso
+ * @returns Función que indica si se envía una transacción
+ * @throws NotFoundError - Si el cliente o el bien no existen
+ * @throws ForbiddenError - Si un mercader o cazador filtra por otro cliente
+ */
+async function streamFilter(
+  { type, clientName, goodName }: StreamRequest,
+  auth: TokenClaims | undefined,
+): Promise<(transaction: StreamTransaction) => boolean> {
+  const party = ownParty(auth);
+  let clients: string[] | null = party ? [String(party)] : null;
+
+  if (clientName) {
+    const hunter = await HunterModel.findOne({ name: clientName });
+    const merchant = await MerchantModel.findOne({ name: clientName });
+    const ids = [hunter?._id, merchant?._id]
+      .filter((id) => id != null)
+      .map(String);
+    if (ids.length === 0) throw new NotFoundError("Cliente no encontrado");
+    if (clients && !ids.some((id) => clients!.includes(id))) {
+      throw new ForbiddenError(
+        "Solo puede acceder a sus propias transacciones",
+      );
+    }
+    clients ??= ids;
+  }
+
+  let good: string | null = null;
+  if (goodName) {
+    const found = await GoodModel.findOne({ name: goodName });
+    if (!found) throw new NotFoundError("Bien no encontrado");
+    good = String(found._id);
+  }
+
+  return (transaction) =>
+    (!type || transaction.type === type) &&
+    (!clients ||
+      clients.some(
+        (id) => id === transaction.buyer || id === transaction.seller,
+      )) &&
+    (!good || transaction.items.some((item) => item.good === good));
+}
 
-      res.json(transactions);
-    } catch (error) {
-      handleError(res, error);
+/**
+ * Envía en tiempo real las transacciones creadas, modificadas y eliminadas.
+ *
+ * @remarks
+ * Ruta: `GET /transactions/stream`
+ * - Respuesta 200: Flujo `text/event-stream` (Server-Sent Events). Cada
+ *   mensaje tiene un `id` creciente, el evento (`transaction.created`,
+ *   `transaction.updated` o `transaction.deleted`) y la transacción en JSON
+ *   como `data`.
+ * - Respuesta 400: Filtros no válidos.
+ * - Respuesta 403: Un mercader o cazador filtra por otro cliente.
+ * - Respuesta 404: Cliente o bien no encontrado.
+ *
+ * Query string (todos opcionales):
+ * - `type`: `purchase` o `sale`
+ * - `clientName`: comprador o vendedor
+ * - `goodName`: bien incluido en la transacción
+ *
+ * Al reconectar, el cliente envía la cabecera `Last-Event-ID` (lo hace
+ * `EventSource` automáticamente) y recibe primero los eventos recientes que
+ * se ha perdido (ver `eventsAfter`). Cada `streamOptions.heartbeat` ms se
+ * envía un comentario para que los proxies no cierren la conexión inactiva.
+ * Los mercaderes y cazadores solo reciben sus propias transacciones.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ *
+ * @example
+ * ```http
+ * GET /transactions/stream?type=sale&goodName=Espada%20de%20plata
+ * Accept: text/event-stream
+ * Last-Event-ID: 42
+ * ```
+ */
+transactionsRouter.get(
+  "/stream",
+  validate({ query: streamQuery }),
+  async (
+    req: Request<Record<string, unknown>, object, object, StreamRequest>,
+    res: Response,
+  ) => {
+    const matches = await streamFilter(req.query, req.auth);
+    const send = (entry: StreamEvent) => {
+      if (matches(entry.transaction)) res.write(sseMessage(entry));
+    };
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    res.write(": conectado\n\n");
+
+    const lastEventId = req.get("Last-Event-ID");
+    if (lastEventId && /^\d+$/.test(lastEventId)) {
+      eventsAfter(Number(lastEventId)).forEach(send);
     }
+
+    const unsubscribe = subscribeTransactions(send);
+    const heartbeat = setInterval(
+      () => res.write(": heartbeat\n\n"),
+      streamOptions.heartbeat,
+    );
+    res.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
   },
 );
 
@@ -275,7 +396,10 @@ transactionsRouter.get(
  *
  * @remarks
  * Ruta: `GET /transactions/:id`
- * - Respuesta 200: Devuelve un `TransactionDocument`.
+ * - Respuesta 200: Devuelve un `TransactionDocument`, con su versión en la
+ *   cabecera `ETag`.
+ * - Respuesta 304: La versión coincide con la cabecera `If-None-Match`.
+ * - Respuesta 403: El mercader o cazador no participa en la transacción.
  * - Respuesta 404: Transacción no encontrada.
  * - Respuesta 500: Error del servidor.
  *
@@ -290,31 +414,30 @@ transactionsRouter.get(
  */
 transactionsRouter.get(
   "/:id",
+  validate({ params: idParams }),
   async (req: Request<{ id: string }>, res: Response) => {
-    try {
-      const transaction = await TransactionModel.findById(req.params.id)
-        .populate("client")
-        .populate("items.good");
+    const transaction = await TransactionModel.findById(req.params.id)
+      .populate("buyer")
+      .populate("seller")
+      .populate("items.good");
 
-      if (!transaction) {
-        res.status(404).json({ error: "Transacción no encontrada" });
-        return;
-      }
+    if (!transaction) throw new NotFoundError("Transacción no encontrada");
+    assertParticipant(req.auth, transaction);
 
-      res.json(transaction);
-    } catch (error) {
-      handleError(res, error);
-    }
+    res.set("ETag", etag(transaction)).json(transaction);
   },
 );
 
 /**
- * Elimina una transacción por su ID y revierte el stock.
+ * Elimina una transacción por su ID y revierte el stock y las monedas.
  *
  * @remarks
  * Ruta: `DELETE /transactions/:id`
  * - Respuesta 200: `{ message: 'Transacción eliminada correctamente' }`.
+ * - Respuesta 400: El mercader no tiene monedas para devolver el importe.
+ * - Respuesta 403: Solo administradores.
  * - Respuesta 404: Transacción no encontrada.
+ * - Respuesta 412: La versión no coincide con la cabecera `If-Match`.
  * - Respuesta 500: Error del servidor.
  *
  * @param req - Express Request
@@ -328,28 +451,11 @@ transactionsRouter.get(
  */
 transactionsRouter.delete(
   "/:id",
+  authorize("admin"),
+  validate({ params: idParams }),
   async (req: Request<{ id: string }>, res: Response) => {
-    try {
-      const transaction = await TransactionModel.findById(req.params.id);
-      if (!transaction) {
-        res.status(404).json({ error: "Transacción no encontrada" });
-        return;
-      }
-
-      for (const item of transaction.items) {
-        const good = await GoodModel.findById(item.good);
-        if (good) {
-          good.stock +=
-            transaction.type === "purchase" ? item.quantity : -item.quantity;
-          await good.save();
-        }
-      }
-
-      await transaction.deleteOne();
-      res.json({ message: "Transacción eliminada correctamente" });
-    } catch (error) {
-      handleError(res, error);
-    }
+    await deleteTransaction(req.params.id, ifMatch(req));
+    res.json({ message: "Transacción eliminada correctamente" });
   },
 );
 
@@ -359,11 +465,17 @@ transactionsRouter.delete(
  * @remarks
  * Ruta: `PUT /transactions/:id`
  * - Respuesta 200: Transacción actualizada exitosamente.
- * - Respuesta 400: Error en los datos de entrada.
+ * - Respuesta 400: Error en los datos de entrada, stock o monedas insuficientes.
+ * - Respuesta 403: El usuario es un mercader o cazador y no es el comprador.
  * - Respuesta 404: Transacción no encontrada.
+ * - Respuesta 409: El inventario del mercader comprador no admite más unidades.
+ * - Respuesta 412: La versión no coincide con la cabecera `If-Match`.
  * - Respuesta 500: Error del servidor.
  *
  * El cuerpo de la petición (`req.body`) debe ajustarse a la interfaz `CreateTransactionRequest`.
+ * Se revierte el movimiento de monedas original y se liquida el nuevo importe,
+ * de modo que comprador y vendedor reciben o pagan la diferencia.
+ * Los precios se recalculan con las reglas de precio activas en ese momento.
  *
  * @param req - Express Request
  * @param res - Express Response
@@ -373,7 +485,8 @@ transactionsRouter.delete(
  * ```json
  * {
  *   "type": "sale",
- *   "clientName": "Yennefer",
+ *   "sellerName": "Zoltan",
+ *   "buyerName": "Yennefer",
  *   "items": [
  *     { "goodName": "Libro de hechizos", "quantity": 2 }
  *   ]
@@ -382,86 +495,18 @@ transactionsRouter.delete(
  */
 transactionsRouter.put(
   "/:id",
+  authorize("admin", "merchant", "hunter"),
+  validate({ params: idParams, body: transactionBody }),
   async (
     req: Request<{ id: string }, object, CreateTransactionRequest>,
     res: Response,
   ) => {
-    try {
-      const { id } = req.params;
-      const { type, clientName, items } = req.body;
-
-      if (!type || !["purchase", "sale"].includes(type)) {
-        res.status(400).json({ error: "Tipo de transacción no válido" });
-        return;
-      }
-
-      const transaction = await TransactionModel.findById(id);
-      if (!transaction) {
-        res.status(404).json({ error: "Transacción no encontrada" });
-        return;
-      }
-
-      const client =
-        type === "purchase"
-          ? await HunterModel.findOne({ name: clientName })
-          : await MerchantModel.findOne({ name: clientName });
-
-      if (!client) {
-        res.status(404).json({ error: "Cliente no encontrado" });
-        return;
-      }
-
-      const processedItems: TransactionItem[] = [];
-      let totalAmount = 0;
-
-      for (const item of transaction.items) {
-        const good = await GoodModel.findById(item.good);
-        if (good) {
-          good.stock +=
-            transaction.type === "purchase" ? item.quantity : -item.quantity;
-          await good.save();
-        }
-      }
-
-      for (const item of items) {
-        const good = await GoodModel.findOne({ name: item.goodName });
-        if (!good) {
-          res
-            .status(404)
-            .json({ error: `Bien no encontrado: ${item.goodName}` });
-          return;
-        }
-
-        if (type === "purchase" && good.stock < item.quantity) {
-          res
-            .status(400)
-            .json({ error: `Stock insuficiente para: ${item.goodName}` });
-          return;
-        }
-
-        const itemTotal = good.value * item.quantity;
-        totalAmount += itemTotal;
-
-        processedItems.push({
-          good: good._id as Types.ObjectId,
-          quantity: item.quantity,
-          priceAtTransaction: good.value,
-        });
-
-        good.stock += type === "purchase" ? -item.quantity : item.quantity;
-        await good.save();
-      }
-
-      transaction.type = type;
-      transaction.client = client._id as Types.ObjectId;
-      transaction.clientModel = type === "purchase" ? "Hunter" : "Merchant";
-      transaction.items = processedItems;
-      transaction.totalAmount = totalAmount;
-
-      const updatedTransaction = await transaction.save();
-      res.json(updatedTransaction);
-    } catch (error) {
-      handleError(res, error);
-    }
+    const transaction = await updateTransaction(
+      req.params.id,
+      req.body,
+      req.auth,
+      ifMatch(req),
+    );
+    res.set("ETag", etag(transaction)).json(transaction);
   },
 );
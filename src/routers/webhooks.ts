@@ -0,0 +1,255 @@
+import express, { Request, Response } from "express";
+import { NotFoundError } from "../errors.js";
+import { WebhookDeliveryModel, WebhookModel } from "../models/webhook.js";
+import { authorize } from "../middleware/auth.js";
+import { validate } from "../middleware/validate.js";
+import {
+  idParams,
+  listQuery,
+  webhookBody,
+  webhookUpdateBody,
+} from "../openapi/requests.js";
+import { PaginationOptions, paginate, sendPage } from "../utils/pagination.js";
+
+/**
+ * Router de suscripciones a webhooks
+ *
+ * @remarks
+ * Cada suscripción recibe por POST una notificación JSON firmada con su
+ * secreto (ver `signPayload`) cuando ocurre alguno de sus eventos; las
+ * notificaciones fallidas se reintentan con espera exponencial y quedan
+ * registradas en `GET /webhooks/:id/deliveries`. Solo las gestionan los
+ * administradores.
+ */
+export const webhooksRouter = express.Router();
+
+/**
+ * Opciones de paginación, orden y filtrado del listado de suscripciones.
+ */
+export const webhookListOptions: PaginationOptions = {
+  sortable: ["url", "createdAt"],
+  filterable: ["url", "events", "active"],
+};
+
+/**
+ * Opciones de paginación, orden y filtrado del registro de notificaciones.
+ */
+export const deliveryListOptions: PaginationOptions = {
+  sortable: ["createdAt"],
+  defaultSort: "-createdAt",
+  filterable: ["status", "event"],
+};
+
+/**
+ * Crea una suscripción a webhooks.
+ *
+ * @remarks
+ * Ruta: `POST /webhooks`
+ * - Respuesta 201: Suscripción creada (`Webhook`), con su secreto.
+ * - Respuesta 400: URL, eventos o secreto no válidos.
+ * - Respuesta 403: Solo administradores.
+ *
+ * Si no se indica `secret` se genera uno aleatorio. El secreto solo se
+ * devuelve en esta respuesta.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns WebhookDocument - Suscripción creada.
+ *
+ * @example
+ * ```json
+ * {
+ *   "url": "https://example.com/hooks/posada",
+ *   "events": ["transaction.created", "good.stock_low"]
+ * }
+ * ```
+ */
+webhooksRouter.post(
+  "/",
+  authorize("admin"),
+  validate({ body: webhookBody }),
+  async (req: Request, res: Response) => {
+    const webhook = await new WebhookModel(req.body).save();
+    res.status(201).json(webhook);
+  },
+);
+
+/**
+ * Obtiene las suscripciones a webhooks.
+ *
+ * @remarks
+ * Ruta: `GET /webhooks`
+ * - Respuesta 200: Página de suscripciones (`Page<Webhook>`), sin secretos.
+ * - Respuesta 400: Parámetros de paginación, orden o filtrado no válidos.
+ * - Respuesta 403: Solo administradores.
+ *
+ * Admite `page`, `limit` y `sort` (ver `paginate`) y los filtros `url`,
+ * `events` y `active`.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns Page<WebhookDocument> - Suscripciones encontradas.
+ *
+ * @example
+ * ```http
+ * GET /webhooks?events=good.stock_low&active=true
+ * ```
+ */
+webhooksRouter.get(
+  "/",
+  authorize("admin"),
+  validate({ query: listQuery }),
+  async (req: Request, res: Response) => {
+    const page = await paginate(
+      WebhookModel,
+      {},
+      req.query,
+      webhookListOptions,
+    );
+    sendPage(req, res, page);
+  },
+);
+
+/**
+ * Obtiene una suscripción a webhooks por su ID.
+ *
+ * @remarks
+ * Ruta: `GET /webhooks/:id`
+ * - Respuesta 200: Suscripción encontrada (`Webhook`), sin secreto.
+ * - Respuesta 400: Identificador no válido.
+ * - Respuesta 403: Solo administradores.
+ * - Respuesta 404: Suscripción no encontrada.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns WebhookDocument - Suscripción encontrada.
+ *
+ * @example
+ * ```http
+ * GET /webhooks/507f1f77bcf86cd799439011
+ * ```
+ */
+webhooksRouter.get(
+  "/:id",
+  authorize("admin"),
+  validate({ params: idParams }),
+  async (req: Request, res: Response) => {
+    const webhook = await WebhookModel.findById(req.params.id);
+    if (!webhook) throw new NotFoundError("Webhook no encontrado");
+    res.json(webhook);
+  },
+);
+
+/**
+ * Actualiza una suscripción a webhooks.
+ *
+ * @remarks
+ * Ruta: `PATCH /webhooks/:id`
+ * - Respuesta 200: Suscripción actualizada (`Webhook`), sin secreto.
+ * - Respuesta 400: Identificador o campos no válidos, o body vacío.
+ * - Respuesta 403: Solo administradores.
+ * - Respuesta 404: Suscripción no encontrada.
+ *
+ * Con `active: false` se dejan de enviar notificaciones, incluidos los
+ * reintentos pendientes.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns WebhookDocument - Suscripción actualizada.
+ *
+ * @example
+ * ```http
+ * PATCH /webhooks/507f1f77bcf86cd799439011
+ * Content-Type: application/json
+ *
+ * { "events": ["hunter.deleted"] }
+ * ```
+ */
+webhooksRouter.patch(
+  "/:id",
+  authorize("admin"),
+  validate({ params: idParams, body: webhookUpdateBody }),
+  async (req: Request, res: Response) => {
+    const webhook = await WebhookModel.findByIdAndUpdate(
+      req.params.id,
+      req.body,
+      { new: true, runValidators: true },
+    );
+    if (!webhook) throw new NotFoundError("Webhook no encontrado");
+    res.json(webhook);
+  },
+);
+
+/**
+ * Elimina una suscripción a webhooks y su registro de notificaciones.
+ *
+ * @remarks
+ * Ruta: `DELETE /webhooks/:id`
+ * - Respuesta 200: Suscripción eliminada (`Webhook`), sin secreto.
+ * - Respuesta 400: Identificador no válido.
+ * - Respuesta 403: Solo administradores.
+ * - Respuesta 404: Suscripción no encontrada.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns WebhookDocument - Suscripción eliminada.
+ *
+ * @example
+ * ```http
+ * DELETE /webhooks/507f1f77bcf86cd799439011
+ * ```
+ */
+webhooksRouter.delete(
+  "/:id",
+  authorize("admin"),
+  validate({ params: idParams }),
+  async (req: Request, res: Response) => {
+    const webhook = await WebhookModel.findByIdAndDelete(req.params.id);
+    if (!webhook) throw new NotFoundError("Webhook no encontrado");
+    await WebhookDeliveryModel.deleteMany({ webhook: webhook._id });
+    res.json(webhook);
+  },
+);
+
+/**
+ * Obtiene el registro de notificaciones de una suscripción.
+ *
+ * @remarks
+ * Ruta: `GET /webhooks/:id/deliveries`
+ * - Respuesta 200: Página de notificaciones (`Page<WebhookDelivery>`), de la
+ *   más reciente a la más antigua, con el cuerpo enviado y cada intento.
+ * - Respuesta 400: Identificador o parámetros no válidos.
+ * - Respuesta 403: Solo administradores.
+ * - Respuesta 404: Suscripción no encontrada.
+ *
+ * Query string (todos opcionales):
+ * - `status`: `pending`, `delivered` o `failed`
+ * - `event`: evento notificado
+ * - `page`, `limit` y `sort` (ver `paginate`)
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @returns Page<WebhookDeliveryDocument> - Notificaciones de la suscripción.
+ *
+ * @example
+ * ```http
+ * GET /webhooks/507f1f77bcf86cd799439011/deliveries?status=failed
+ * ```
+ */
+webhooksRouter.get(
+  "/:id/deliveries",
+  authorize("admin"),
+  validate({ params: idParams, query: listQuery }),
+  async (req: Request, res: Response) => {
+    if (!(await WebhookModel.exists({ _id: req.params.id }))) {
+      throw new NotFoundError("Webhook no encontrado");
+    }
+    const page = await paginate(
+      WebhookDeliveryModel,
+      { webhook: req.params.id },
+      req.query,
+      deliveryListOptions,
+    );
+    sendPage(req, res, page);
+  },
+);
@@ -0,0 +1,27 @@
+import { ROLES, Role, signToken } from "./utils/tokens.js";
+
+/**
+ * Emite un token de acceso desde la línea de comandos.
+ *
+ * @example
+ * ```bash
+ * npm run token -- admin geralt
+ * npm run token -- merchant zoltan 507f1f77bcf86cd799439011
+ * ```
+ */
+function main() {
+  const [role, sub, party] = process.argv.slice(2);
+  if (!ROLES.includes(role as Role) || !sub) {
+    throw new Error(
+      `Uso: npm run token -- <${ROLES.join("|")}> <usuario> [mercader o cazador]`,
+    );
+  }
+  console.log(signToken({ sub, role: role as Role, party }));
+}
+
+try {
+  main();
+} catch (err) {
+  console.error("Error emitiendo el token:", (err as Error).message);
+  process.exit(1);
+}
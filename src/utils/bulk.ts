@@ -0,0 +1,408 @@
+import { once } from "node:events";
+import express, { Request, Response } from "express";
+import mongoose, {
+  ClientSession,
+  FilterQuery,
+  HydratedDocument,
+  Model,
+} from "mongoose";
+import { FieldError, ValidationError } from "../errors.js";
+import { toApiError } from "../middleware/errors.js";
+import { validateRequest } from "../middleware/validate.js";
+import { NOT_DELETED } from "../models/softDelete.js";
+import {
+  JsonSchema,
+  READ_ONLY,
+  schemaToJsonSchema,
+} from "../openapi/schemas.js";
+import { ARRAY_SEPARATOR, csvLine, parseCsvRecords } from "./csv.js";
+
+/** Tamaño máximo del cuerpo de una importación */
+export const IMPORT_LIMIT = "5mb";
+
+/** Rutas de importación, las únicas que admiten cuerpos de `IMPORT_LIMIT` */
+export const IMPORT_PATHS = [
+  "/goods/import",
+  "/hunters/import",
+  "/merchants/import",
+];
+
+/**
+ * Middleware que lee los cuerpos `text/csv` como texto. La aplicación lo
+ * registra en `IMPORT_PATHS` después de `authenticate` y antes de
+ * `idempotency`, junto con `express.json()`, para que la huella de la
+ * petición incluya el CSV.
+ */
+export const csvBody = express.text({ type: "text/csv", limit: IMPORT_LIMIT });
+
+/**
+ * Opciones de importación de una colección.
+ */
+export interface ImportOptions {
+  /** Campo que identifica un documento existente en el modo `upsert` */
+  key: string;
+  /** Esquema de cada fila (el cuerpo de creación de la colección) */
+  body: JsonSchema;
+  /** Campos que se actualizan en los documentos existentes */
+  updatable: string[];
+}
+
+/**
+ * Modo de una importación.
+ */
+export interface ImportMode {
+  /** Actualiza los documentos que ya existen (por `key`) en lugar de fallar */
+  upsert: boolean;
+  /** Importa todas las filas o ninguna */
+  atomic: boolean;
+}
+
+/**
+ * Resultado de una importación.
+ */
+export interface ImportReport {
+  /** Filas recibidas */
+  total: number;
+  /** Documentos creados */
+  inserted: number;
+  /** Documentos existentes actualizados (modo `upsert`) */
+  updated: number;
+  /** Filas rechazadas */
+  failed: number;
+  /**
+   * Errores de las filas rechazadas; el campo empieza por la posición de la
+   * fila (`0` es la primera fila de datos), p. ej. `3.name`
+   */
+  errors: FieldError[];
+}
+
+/**
+ * Convierte una celda CSV al tipo de su campo.
+ *
+ * @param cell - Texto de la celda
+ * @param schema - Esquema del campo
+ * @returns Valor convertido, o el texto si no se puede convertir (la
+ *   validación lo rechazará)
+ */
+function fromCell(cell: string, schema: JsonSchema | undefined): unknown {
+  const types = ([] as string[]).concat((schema?.type as string) ?? []);
+  if (types.includes("array")) {
+    return cell
+      .split(ARRAY_SEPARATOR)
+      .map((item) => item.trim())
+      .filter((item) => item !== "")
+      .map((item) => fromCell(item, schema!.items as JsonSchema));
+  }
+  if (
+    (types.includes("number") || types.includes("integer")) &&
+    Number.isFinite(Number(cell))
+  ) {
+    return Number(cell);
+  }
+  if (types.includes("boolean") && (cell === "true" || cell === "false")) {
+    return cell === "true";
+  }
+  return cell;
+}
+
+/**
+ * Modo de importación indicado en la query string (`upsert` y `atomic`).
+ *
+ * @param req - Express Request
+ * @returns Modo de importación
+ */
+export const importMode = (req: Request): ImportMode => ({
+  upsert: String(req.query.upsert) === "true",
+  atomic: String(req.query.atomic) === "true",
+});
+
+/**
+ * Obtiene las filas de una importación a partir del cuerpo de la petición.
+ *
+ * @remarks
+ * Admite un array JSON de objetos o un texto CSV con cabecera. En el CSV las
+ * celdas vacías se omiten, los números y booleanos se convierten según el
+ * esquema y los arrays se separan con `;`. En ambos casos se descartan los
+ * campos que genera el servidor (`_id`, `createdAt`...), de modo que se
+ * puede volver a importar una exportación.
+ *
+ * @param body - Cuerpo de la petición
+ * @param schema - Esquema de cada fila
+ * @returns Filas a importar
+ * @throws ValidationError - Si el cuerpo no es un array JSON ni un CSV
+ */
+export function importRows(
+  body: unknown,
+  schema: JsonSchema,
+): Record<string, unknown>[] {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+  let rows: Record<string, unknown>[];
+
+  if (typeof body === "string") {
+    rows = parseCsvRecords(body).map((record) =>
+      Object.fromEntries(
+        Object.entries(record)
+          .filter(([, cell]) => cell.trim() !== "")
+          .map(([name, cell]) => [
+            name,
+            fromCell(cell.trim(), properties[name]),
+          ]),
+      ),
+    );
+  } else if (Array.isArray(body)) {
+    rows = body as Record<string, unknown>[];
+  } else {
+    throw ValidationError.field(
+      "body",
+      "",
+      "El cuerpo debe ser un array JSON o un CSV (text/csv)",
+    );
+  }
+
+  return rows.map((row) =>
+    row !== null && typeof row === "object" && !Array.isArray(row)
+      ? Object.fromEntries(
+          Object.entries(row).filter(([name]) => !READ_ONLY.includes(name)),
+        )
+      : row,
+  );
+}
+
+/**
+ * Añade la posición de la fila a la ruta de sus errores.
+ *
+ * @param index - Posición de la fila
+ * @param errors - Errores de la fila
+ * @returns Errores con la ruta completa
+ */
+const atRow = (index: number, errors: FieldError[]) =>
+  errors.map((error) => ({
+    ...error,
+    location: "body" as const,
+    field: error.field ? `${index}.${error.field}` : String(index),
+  }));
+
+/**
+ * Errores de una fila que ha fallado al guardarse.
+ *
+ * @param index - Posición de la fila
+ * @param err - Error al guardar
+ * @returns Errores de la fila
+ */
+function saveErrors(index: number, err: unknown): FieldError[] {
+  const error = toApiError(err);
+  if (error instanceof ValidationError && error.errors.length) {
+    return atRow(index, error.errors);
+  }
+  return atRow(index, [
+    { location: "body", field: "", message: error.message },
+  ]);
+}
+
+/**
+ * Crea o, en modo `upsert`, actualiza el documento de una fila.
+ *
+ * @param model - Modelo de la colección
+ * @param row - Fila validada
+ * @param options - Opciones de importación
+ * @param mode - Modo de importación
+ * @param session - Sesión de MongoDB (importaciones atómicas)
+ * @returns Si se ha creado o actualizado el documento
+ */
+async function saveRow<T>(
+  model: Model<T>,
+  row: Record<string, unknown>,
+  options: ImportOptions,
+  mode: ImportMode,
+  session: ClientSession | null,
+): Promise<"inserted" | "updated"> {
+  const existing: HydratedDocument<T> | null = mode.upsert
+    ? await model
+        .findOne({
+          [options.key]: row[options.key],
+          ...NOT_DELETED,
+        } as FilterQuery<T>)
+        .session(session)
+    : null;
+
+  if (existing) {
+    for (const field of options.updatable) {
+      if (row[field] !== undefined) existing.set(field, row[field]);
+    }
+    await existing.save({ session });
+    return "updated";
+  }
+  await new model(row).save({ session });
+  return "inserted";
+}
+
+/**
+ * Importa un conjunto de filas en una colección.
+ *
+ * @remarks
+ * Cada fila se valida contra el esquema de creación de la colección y se
+ * guarda como documento (pasando por las validaciones de Mongoose y el
+ * historial de cambios). En modo `upsert`, las filas cuyo `key` coincide con
+ * un documento existente lo actualizan, solo en los campos `updatable`.
+ *
+ * Sin `atomic`, las filas válidas se guardan y las demás se informan en
+ * `errors`. Con `atomic`, cualquier fila no válida cancela la importación
+ * completa, que se ejecuta en una transacción de MongoDB.
+ *
+ * @param model - Modelo de la colección
+ * @param body - Cuerpo de la petición (ver `importRows`)
+ * @param options - Opciones de importación de la colección
+ * @param mode - Modo de importación
+ * @returns Resultado de la importación
+ * @throws ValidationError - Si el cuerpo no es válido o, en modo `atomic`,
+ *   con los errores de las filas
+ */
+export async function importDocuments<T>(
+  model: Model<T>,
+  body: unknown,
+  options: ImportOptions,
+  mode: ImportMode,
+): Promise<ImportReport> {
+  const rows = importRows(body, options.body);
+  const report: ImportReport = {
+    total: rows.length,
+    inserted: 0,
+    updated: 0,
+    failed: 0,
+    errors: [],
+  };
+  const valid: Array<[number, Record<string, unknown>]> = [];
+  rows.forEach((row, index) => {
+    const errors = validateRequest(
+      { body: options.body },
+      { body: row, params: {}, query: {} },
+    );
+    if (errors.length) {
+      report.failed++;
+      report.errors.push(...atRow(index, errors));
+    } else {
+      valid.push([index, row]);
+    }
+  });
+
+  if (mode.atomic) {
+    if (report.failed) {
+      throw new ValidationError(
+        `Importación cancelada: ${report.failed} fila(s) no válidas`,
+        report.errors,
+      );
+    }
+    await mongoose.connection.transaction(async (session) => {
+      report.inserted = report.updated = 0;
+      for (const [index, row] of valid) {
+        try {
+          report[await saveRow(model, row, options, mode, session)]++;
+        } catch (err) {
+          throw new ValidationError(
+            "Importación cancelada: una fila no se ha podido guardar",
+            saveErrors(index, err),
+          );
+        }
+      }
+    });
+    return report;
+  }
+
+  for (const [index, row] of valid) {
+    try {
+      report[await saveRow(model, row, options, mode, null)]++;
+    } catch (err) {
+      report.failed++;
+      report.errors.push(...saveErrors(index, err));
+    }
+  }
+  return report;
+}
+
+/** Formatos de exportación */
+export const EXPORT_FORMATS = ["json", "csv"] as const;
+
+/** Formato de exportación (ver `EXPORT_FORMATS`) */
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Escribe un fragmento de la respuesta esperando si el buffer está lleno.
+ *
+ * @param res - Express Response
+ * @param chunk - Texto a escribir
+ * @returns `false` si el cliente cerró la conexión
+ */
+async function write(res: Response, chunk: string) {
+  if (res.destroyed) return false;
+  if (res.write(chunk)) return true;
+
+  const abort = new AbortController();
+  const event = await Promise.race([
+    once(res, "drain", { signal: abort.signal }).then(() => "drain"),
+    once(res, "close", { signal: abort.signal }).then(() => "close"),
+  ]);
+  abort.abort();
+  return event === "drain";
+}
+
+/**
+ * Envía los documentos de una colección en JSON o CSV sin cargarlos todos
+ * en memoria.
+ *
+ * @remarks
+ * Recorre la colección con un cursor de MongoDB y escribe cada documento a
+ * medida que llega. El CSV tiene una columna por campo del esquema (con
+ * `_id` y las fechas de creación y modificación) y usa la misma
+ * representación que admite la importación. Si el cliente cierra la
+ * conexión se deja de escribir y se cierra el cursor.
+ *
+ * @param res - Express Response
+ * @param model - Modelo de la colección
+ * @param filter - Filtro de los documentos a exportar
+ * @param format - Formato de la exportación
+ * @param name - Nombre del fichero descargado, sin extensión
+ */
+export async function exportCollection<T>(
+  res: Response,
+  model: Model<T>,
+  filter: FilterQuery<T>,
+  format: ExportFormat,
+  name: string,
+) {
+  const cursor = model
+    .find(filter)
+    .sort({ _id: 1 })
+    .lean<Record<string, unknown>[]>()
+    .cursor();
+  res.attachment(`${name}.${format}`);
+
+  try {
+    if (format === "csv") {
+      const properties = schemaToJsonSchema(model.schema).properties as Record<
+        string,
+        JsonSchema
+      >;
+      const columns = [
+        "_id",
+        ...Object.keys(properties).filter((name) => name !== "_id"),
+      ];
+      res.type("text/csv; charset=utf-8");
+      if (!(await write(res, csvLine(columns)))) return;
+      for await (const doc of cursor) {
+        const line = csvLine(columns.map((column) => doc[column]));
+        if (!(await write(res, line))) return;
+      }
+    } else {
+      res.type("application/json");
+      let separator = "[";
+      for await (const doc of cursor) {
+        if (!(await write(res, `${separator}\n${JSON.stringify(doc)}`))) return;
+        separator = ",";
+      }
+      if (!(await write(res, separator === "[" ? "[]" : "\n]"))) return;
+    }
+    res.end();
+  } finally {
+    await cursor.close();
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Separador de los valores de los campos de tipo array dentro de una celda.
+ */
+export const ARRAY_SEPARATOR = ";";
+
+/**
+ * Divide un texto CSV (RFC 4180) en filas y celdas.
+ *
+ * @remarks
+ * Admite celdas entre comillas dobles, con comas, saltos de línea y
+ * comillas escapadas (`""`), y finales de línea `\n` o `\r\n`. Se ignoran
+ * las líneas vacías.
+ *
+ * @param text - Texto CSV
+ * @returns Filas del CSV
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length) endRow();
+  return rows;
+}
+
+/**
+ * Convierte un texto CSV con cabecera en registros.
+ *
+ * @param text - Texto CSV cuya primera fila son los nombres de las columnas
+ * @returns Un registro por fila de datos, con las celdas por columna
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) return [];
+  const columns = header.map((name) => name.trim());
+  return rows.map((cells) =>
+    Object.fromEntries(columns.map((name, i) => [name, cells[i] ?? ""])),
+  );
+}
+
+/**
+ * Texto de un valor en una celda CSV.
+ *
+ * @param value - Valor de la celda
+ * @returns Texto sin escapar
+ */
+function cellText(value: unknown): string {
+  if (value == null) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(String).join(ARRAY_SEPARATOR);
+  return String(value);
+}
+
+/**
+ * Representa un valor como celda CSV.
+ *
+ * @remarks
+ * Los arrays se unen con `ARRAY_SEPARATOR`, las fechas se escriben en ISO
+ * 8601 y `null` o `undefined` como celda vacía. Las celdas con comas,
+ * comillas o saltos de línea se encierran entre comillas.
+ *
+ * @param value - Valor de la celda
+ * @returns Celda CSV
+ */
+export function csvCell(value: unknown): string {
+  const text = cellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Representa una fila como línea CSV.
+ *
+ * @param values - Valores de la fila
+ * @returns Línea CSV terminada en `\r\n`
+ */
+export const csvLine = (values: unknown[]) =>
+  `${values.map(csvCell).join(",")}\r\n`;
@@ -0,0 +1,107 @@
+import { EventEmitter } from "node:events";
+import { ClientSession, Types } from "mongoose";
+import type { StockAlertDocument } from "../models/alert.js";
+import type { GoodDocument } from "../models/good.js";
+import type { HunterDocument } from "../models/hunter.js";
+import type { InventoryDocument } from "../models/inventory.js";
+import type { MerchantDocument } from "../models/merchant.js";
+import type { TransactionDocument } from "../models/transaction.js";
+
+/**
+ * Eventos internos de la aplicación.
+ */
+export const APP_EVENTS = [
+  "transaction.created",
+  "transaction.updated",
+  "transaction.deleted",
+  "good.created",
+  "good.updated",
+  "good.deleted",
+  "good.restored",
+  "good.stock_low",
+  "hunter.created",
+  "hunter.updated",
+  "hunter.deleted",
+  "hunter.restored",
+  "merchant.created",
+  "merchant.updated",
+  "merchant.deleted",
+  "merchant.restored",
+  "inventory.updated",
+] as const;
+
+/**
+ * Evento interno de la aplicación (ver `APP_EVENTS`).
+ */
+export type AppEvent = (typeof APP_EVENTS)[number];
+
+/**
+ * Argumentos de cada evento: el documento afectado, tal y como queda tras el
+ * cambio (en el borrado de una transacción, tal y como estaba).
+ */
+export interface AppEvents {
+  "transaction.created": [transaction: TransactionDocument];
+  "transaction.updated": [transaction: TransactionDocument];
+  "transaction.deleted": [transaction: TransactionDocument];
+  "good.created": [good: GoodDocument];
+  "good.updated": [good: GoodDocument];
+  "good.deleted": [good: GoodDocument];
+  "good.restored": [good: GoodDocument];
+  /** Una compra ha dejado un bien por debajo de su nivel de reposición */
+  "good.stock_low": [alert: StockAlertDocument];
+  "hunter.created": [hunter: HunterDocument];
+  "hunter.updated": [hunter: HunterDocument];
+  "hunter.deleted": [hunter: HunterDocument];
+  "hunter.restored": [hunter: HunterDocument];
+  "merchant.created": [merchant: MerchantDocument];
+  "merchant.updated": [merchant: MerchantDocument];
+  "merchant.deleted": [merchant: MerchantDocument];
+  "merchant.restored": [merchant: MerchantDocument];
+  /** Reposición de una línea del inventario de un mercader */
+  "inventory.updated": [line: InventoryDocument];
+}
+
+/**
+ * Bus de eventos internos de la aplicación.
+ *
+ * @remarks
+ * Los eventos se emiten cuando los cambios que describen ya están
+ * confirmados en la base de datos: las rutas los emiten al terminar la
+ * operación y los cambios hechos dentro de una transacción de MongoDB usan
+ * `publishAfterCommit`. Los webhooks se suscriben a todos ellos (ver
+ * `listenWebhookEvents`).
+ */
+export const appEvents = new EventEmitter<AppEvents>();
+
+/**
+ * Emite un evento cuando se confirma el documento que lo origina.
+ *
+ * @remarks
+ * Fuera de una transacción de MongoDB el evento se emite inmediatamente. Dentro
+ * de una, se espera a que termine la sesión y solo se emite si el documento
+ * existe, es decir, si la transacción se ha confirmado (una transacción
+ * abortada o reintentada descarta el documento).
+ *
+ * @param event - Nombre del evento
+ * @param doc - Documento guardado, que se pasa como argumento del evento
+ * @param session - Sesión de MongoDB en la que se ha guardado
+ */
+export function publishAfterCommit<K extends AppEvent>(
+  event: K,
+  doc: AppEvents[K][0],
+  session: ClientSession | null,
+) {
+  const emit = () => (appEvents as EventEmitter).emit(event, doc);
+  if (!session?.inTransaction()) {
+    emit();
+    return;
+  }
+  session.once("ended", () => {
+    doc.collection
+      .countDocuments({ _id: doc._id as Types.ObjectId }, { limit: 1 })
+      .then((count) => {
+        if (count) emit();
+      })
+      .catch(() => undefined);
+  });
+}
@@ -0,0 +1,190 @@
+import { Schema, SchemaType } from "mongoose";
+import { ValidationError } from "../errors.js";
+
+/**
+ * Operadores admitidos en la query string (`campo[operador]=valor`) según el
+ * tipo del campo en el esquema de Mongoose.
+ */
+const OPERATORS: Record<string, string[]> = {
+  Number: ["eq", "ne", "gt", "gte", "lt", "lte", "in", "nin"],
+  Date: ["eq", "ne", "gt", "gte", "lt", "lte", "in", "nin"],
+  String: ["eq", "ne", "in", "nin"],
+  Boolean: ["eq", "ne"],
+  Array: ["eq", "any", "all", "nin"],
+};
+
+/** Operadores que reciben una lista de valores separados por comas */
+const LIST_OPERATORS = ["in", "nin", "any", "all"];
+
+/**
+ * Obtiene los valores permitidos de un campo con enumerado.
+ *
+ * @param path - Definición del campo en el esquema
+ * @returns Valores del enumerado, o lista vacía si el campo no tiene
+ */
+export function enumValues(path: SchemaType): string[] {
+  const option = path.options.enum as
+    | string[]
+    | { values?: string[] }
+    | undefined;
+  return (Array.isArray(option) ? option : option?.values) ?? [];
+}
+
+/**
+ * Convierte un valor de la query string al tipo del campo.
+ *
+ * @param field - Nombre del campo
+ * @param path - Definición del campo en el esquema
+ * @param raw - Valor recibido
+ * @returns Valor convertido
+ * @throws ValidationError - Si el valor no es válido para el campo
+ */
+function coerce(
+  field: string,
+  path: SchemaType,
+  raw: string,
+): string | number | boolean | Date {
+  switch (path.instance) {
+    case "Number": {
+      const value = Number(raw);
+      if (raw.trim() === "" || !Number.isFinite(value)) {
+        throw ValidationError.field(
+          "query",
+          field,
+          `El filtro ${field} debe ser numérico`,
+        );
+      }
+      return value;
+    }
+    case "Date": {
+      const value = new Date(raw);
+      if (isNaN(value.getTime())) {
+        throw ValidationError.field(
+          "query",
+          field,
+          `El filtro ${field} debe ser una fecha`,
+        );
+      }
+      return value;
+    }
+    case "Boolean": {
+      if (raw !== "true" && raw !== "false") {
+        throw ValidationError.field(
+          "query",
+          field,
+          `El filtro ${field} debe ser true o false`,
+        );
+      }
+      return raw === "true";
+    }
+    case "Array": {
+      const caster = (path as Schema.Types.Array).caster;
+      return caster ? coerce(field, caster, raw) : raw;
+    }
+    default: {
+      const values = enumValues(path);
+      if (values.length && !values.includes(raw)) {
+        throw ValidationError.field(
+          "query",
+          field,
+          `${raw} no es un valor permitido para ${field} (${values.join(", ")})`,
+        );
+      }
+      return raw;
+    }
+  }
+}
+
+/**
+ * Construye un filtro de Mongoose a partir de la query string.
+ *
+ * @remarks
+ * Gramática admitida:
+ * - `campo=valor`: igualdad. En campos numéricos o con enumerado, una lista
+ *   separada por comas (`material=acero,aluminio`) equivale a `in`.
+ * - `campo[op]=valor`: con `op` en `eq`, `ne`, `gt`, `gte`, `lt`, `lte`, `in`
+ *   o `nin` según el tipo del campo; `in` y `nin` reciben listas separadas
+ *   por comas.
+ * - En campos lista (`monsterSpecialty`), `campo[any]=a,b` exige alguno de los
+ *   valores y `campo[all]=a,b` todos ellos; `campo=a,b` equivale a `any`.
+ *
+ * Los valores se convierten y validan contra el tipo del campo en el esquema
+ * (números, fechas, booleanos `true`/`false` y enumerados).
+ *
+ * @param schema - Esquema del modelo consultado
+ * @param query - Query string de la petición
+ * @param fields - Campos por los que se permite filtrar
+ * @param reserved - Parámetros de la query string que no son filtros
+ * @returns Filtro de Mongoose
+ * @throws ValidationError - Si un campo u operador no está permitido o un valor no es válido
+ *
+ * @example
+ * ```http
+ * GET /goods?value[gte]=100&value[lte]=500&material=acero,aluminio&stock[gt]=0
+ * ```
+ */
+export function parseFilters(
+  schema: Schema,
+  query: Record<string, unknown>,
+  fields: string[],
+  reserved: string[],
+) {
+  const filter: Record<string, Record<string, unknown>> = {};
+
+  // Con el parser extendido `campo[op]=valor` llega como objeto anidado
+  const entries = Object.entries(query).flatMap(([key, value]) =>
+    value !== null && typeof value === "object" && !Array.isArray(value)
+      ? Object.entries(value).map(([op, v]) => [`${key}[${op}]`, v] as const)
+      : [[key, value] as const],
+  );
+
+  for (const [key, rawValue] of entries) {
+    if (reserved.includes(key)) continue;
+
+    const match = /^(\w+)(?:\[(\w+)\])?$/.exec(key);
+    const field = match?.[1];
+    if (!match || !field || !fields.includes(field)) {
+      throw ValidationError.field(
+        "query",
+        key,
+        `No se puede filtrar por ${key}`,
+      );
+    }
+
+    const path = schema.path(field);
+    const operators = OPERATORS[path.instance] ?? ["eq", "ne"];
+    const operator = match[2] ?? "eq";
+    if (!operators.includes(operator)) {
+      throw ValidationError.field(
+        "query",
+        key,
+        `El operador ${operator} no es válido para ${field}`,
+      );
+    }
+
+    const raw = Array.isArray(rawValue)
+      ? rawValue.map(String)
+      : [String(rawValue)];
+    const splittable =
+      LIST_OPERATORS.includes(operator) ||
+      (operator === "eq" &&
+        (path.instance === "Number" ||
+          path.instance === "Array" ||
+          enumValues(path).length > 0));
+    const values = (splittable ? raw.flatMap((v) => v.split(",")) : raw).map(
+      (v) => coerce(field, path, v),
+    );
+
+    const condition = (filter[field] ??= {});
+    const mongoOperator = operator === "any" ? "in" : operator;
+    if (LIST_OPERATORS.includes(operator)) {
+      condition[`$${mongoOperator}`] = values;
+    } else if (operator === "eq" && values.length > 1) {
+      condition.$in = values;
+    } else {
+      condition[`$${mongoOperator}`] = values[values.length - 1];
+    }
+  }
+
+  return filter;
+}
@@ -0,0 +1,226 @@
+import { Request, Response } from "express";
+import { FilterQuery, Model, SortOrder } from "mongoose";
+import { ValidationError } from "../errors.js";
+import { parseFilters } from "./filters.js";
+
+/** Tamaño de página por defecto */
+export const DEFAULT_LIMIT = 20;
+/** Tamaño de página máximo permitido por el servidor */
+export const MAX_LIMIT = 100;
+/** Parámetros de la query string reservados para la paginación y búsqueda */
+const RESERVED = ["page", "limit", "sort", "q", "includeDeleted"];
+
+/** Orden por relevancia de una búsqueda de texto */
+type SortSpec = Record<string, SortOrder | { $meta: "textScore" }>;
+
+/**
+ * Opciones de paginación de una ruta de listado.
+ */
+export interface PaginationOptions {
+  /** Campos por los que se permite ordenar con `sort` */
+  sortable: string[];
+  /** Orden por defecto, con la misma sintaxis que `sort` (por defecto `_id`) */
+  defaultSort?: string;
+  /** Rutas a poblar en los documentos devueltos */
+  populate?: string[];
+  /**
+   * Campos por los que se permite filtrar desde la query string (ver
+   * `parseFilters`). Si se indica, cualquier otro parámetro que no sea de
+   * paginación se rechaza con 400.
+   */
+  filterable?: string[];
+  /**
+   * Si el modelo tiene índice de texto, permite buscar con `q`. Sin orden
+   * explícito, los resultados se ordenan por relevancia.
+   */
+  searchable?: boolean;
+}
+
+/**
+ * Página de resultados devuelta por las rutas de listado.
+ */
+export interface Page<T> {
+  /** Documentos de la página solicitada */
+  data: T[];
+  /** Número total de documentos que cumplen el filtro */
+  total: number;
+  /** Número de página (empezando en 1) */
+  page: number;
+  /** Número total de páginas */
+  pages: number;
+  /** Tamaño de página aplicado */
+  limit: number;
+}
+
+/**
+ * Lee un entero positivo de la query string.
+ *
+ * @param value - Valor recibido
+ * @param name - Nombre del parámetro para el mensaje de error
+ * @param fallback - Valor si no se recibe
+ * @returns Entero leído
+ * @throws ValidationError - Si no es un entero positivo
+ */
+export function positiveInteger(
+  value: unknown,
+  name: string,
+  fallback: number,
+) {
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw ValidationError.field(
+      "query",
+      name,
+      `El parámetro ${name} debe ser un entero positivo`,
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Convierte la sintaxis `sort=campo,-campo` en un orden de Mongoose.
+ *
+ * @param value - Valor de `sort`
+ * @param sortable - Campos permitidos
+ * @returns Orden de Mongoose, con `_id` como desempate
+ * @throws ValidationError - Si algún campo no está permitido
+ */
+function parseSort(value: string, sortable: string[]) {
+  const sort: SortSpec = {};
+  for (const token of value.split(",").map((t) => t.trim())) {
+    if (!token) continue;
+    const field = token.replace(/^[-+]/, "");
+    if (field !== "_id" && !sortable.includes(field)) {
+      throw ValidationError.field(
+        "query",
+        "sort",
+        `No se puede ordenar por ${field}`,
+      );
+    }
+    sort[field] = token.startsWith("-") ? -1 : 1;
+  }
+  sort._id ??= 1;
+  return sort;
+}
+
+/**
+ * Lee el parámetro de búsqueda de texto `q`.
+ *
+ * @param value - Valor recibido
+ * @param options - Opciones de la ruta
+ * @returns Términos de búsqueda, o `undefined` si no se recibe
+ * @throws ValidationError - Si `q` está vacío o la ruta no admite búsqueda
+ */
+function searchTerms(value: unknown, options: PaginationOptions) {
+  if (value === undefined) return undefined;
+  if (!options.searchable) {
+    throw ValidationError.field(
+      "query",
+      "q",
+      "Este listado no admite búsqueda de texto",
+    );
+  }
+  if (typeof value !== "string" || !value.trim()) {
+    throw ValidationError.field(
+      "query",
+      "q",
+      "El parámetro q debe ser un texto no vacío",
+    );
+  }
+  return value.trim();
+}
+
+/**
+ * Ejecuta una consulta paginada y ordenada sobre un modelo.
+ *
+ * @remarks
+ * Query string admitida:
+ * - `page`: número de página (por defecto 1)
+ * - `limit`: tamaño de página (por defecto `DEFAULT_LIMIT`, máximo `MAX_LIMIT`)
+ * - `sort`: campos separados por comas, con `-` para orden descendente
+ * - Filtros sobre los campos de `options.filterable`
+ * - `q`: búsqueda de texto si `options.searchable` (orden por relevancia
+ *   salvo que se indique `sort`)
+ *
+ * @param model - Modelo sobre el que consultar
+ * @param filter - Filtro base de la consulta
+ * @param query - Query string de la petición
+ * @param options - Opciones de paginación de la ruta
+ * @returns Página de resultados
+ * @throws ValidationError - Si los parámetros de paginación, filtrado o búsqueda no son válidos
+ */
+export async function paginate<T>(
+  model: Model<T>,
+  filter: FilterQuery<T>,
+  query: { page?: unknown; limit?: unknown; sort?: unknown; q?: unknown },
+  options: PaginationOptions,
+): Promise<Page<T>> {
+  const page = positiveInteger(query.page, "page", 1);
+  const limit = Math.min(
+    positiveInteger(query.limit, "limit", DEFAULT_LIMIT),
+    MAX_LIMIT,
+  );
+  const sortParam = typeof query.sort === "string" ? query.sort : undefined;
+  const search = searchTerms(query.q, options);
+  const sort: SortSpec =
+    search && !sortParam
+      ? { score: { $meta: "textScore" }, _id: 1 }
+      : parseSort(sortParam ?? options.defaultSort ?? "_id", options.sortable);
+  const projection = search ? { score: { $meta: "textScore" } } : {};
+
+  if (options.filterable) {
+    filter = {
+      ...filter,
+      ...parseFilters(
+        model.schema,
+        query as Record<string, unknown>,
+        options.filterable,
+        RESERVED,
+      ),
+    };
+  }
+  if (search) filter = { ...filter, $text: { $search: search } };
+
+  const [total, data] = await Promise.all([
+    model.countDocuments(filter),
+    model
+      .find(filter, projection)
+      .sort(sort)
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .populate(options.populate ?? []),
+  ]);
+
+  return { data, total, page, pages: Math.ceil(total / limit), limit };
+}
+
+/**
+ * Envía una página de resultados junto con la cabecera `Link`
+ * (`first`, `prev`, `next` y `last`) para navegar entre páginas.
+ *
+ * @param req - Express Request
+ * @param res - Express Response
+ * @param page - Página a enviar
+ */
+export function sendPage<T>(
+  req: Pick<Request, "originalUrl" | "protocol" | "get">,
+  res: Response,
+  page: Page<T>,
+) {
+  const url = new URL(req.originalUrl, `${req.protocol}://${req.get("host")}`);
+  const link = (rel: string, target: number) => {
+    url.searchParams.set("page", String(target));
+    url.searchParams.set("limit", String(page.limit));
+    return `<${url.toString()}>; rel="${rel}"`;
+  };
+
+  const last = Math.max(page.pages, 1);
+  const links = [link("first", 1)];
+  if (page.page > 1) links.push(link("prev", Math.min(page.page - 1, last)));
+  if (page.page < page.pages) links.push(link("next", page.page + 1));
+  links.push(link("last", last));
+
+  res.set("Link", links.join(", "));
+  res.json(page);
+}
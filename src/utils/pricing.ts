@@ -0,0 +1,178 @@
+import { ClientSession, Types } from "mongoose";
+import { HunterModel } from "../models/hunter.js";
+import { MerchantModel } from "../models/merchant.js";
+import {
+  AppliedPricingRule,
+  PricingRuleDocument,
+  PricingRuleModel,
+} from "../models/pricing.js";
+import {
+  PartyModel,
+  TransactionDocument,
+  TransactionType,
+} from "../models/transaction.js";
+
+/**
+ * Características de una parte que pueden evaluar las reglas de precio.
+ */
+export interface PricedParty {
+  /** Modelo de la parte */
+  model: PartyModel;
+  /** Tipo de cazador */
+  type?: string;
+  /** Experiencia del cazador */
+  experience?: number;
+  /** Reputación del mercader */
+  reputation?: number;
+}
+
+/**
+ * Datos de una transacción con los que se eligen las reglas de precio.
+ */
+export interface PricingContext {
+  /** Tipo de transacción */
+  type: TransactionType;
+  /** Comprador (`null` si es la posada) */
+  buyer: PricedParty | null;
+  /** Vendedor (`null` si es la posada) */
+  seller: PricedParty | null;
+  /** Reglas activas, en orden de aplicación */
+  rules: PricingRuleDocument[];
+}
+
+/**
+ * Redondea un importe a céntimos.
+ *
+ * @param amount - Importe
+ * @returns Importe con dos decimales como máximo
+ */
+export const roundPrice = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Comprueba si un valor está dentro de un rango cuyos extremos son
+ * opcionales.
+ *
+ * @param value - Valor (`undefined` si la parte no tiene el campo)
+ * @param min - Mínimo (`null` si no hay)
+ * @param max - Máximo (`null` si no hay)
+ * @returns `true` si no hay extremos o el valor está entre ellos
+ */
+function inRange(
+  value: number | undefined,
+  min: number | null,
+  max: number | null,
+) {
+  if (min == null && max == null) return true;
+  if (value === undefined) return false;
+  return (min == null || value >= min) && (max == null || value <= max);
+}
+
+/**
+ * Comprueba si una regla de precio se aplica en una transacción.
+ *
+ * @param rule - Regla de precio
+ * @param context - Datos de la transacción
+ * @returns `true` si la parte evaluada cumple todas las condiciones
+ */
+export function ruleMatches(
+  rule: PricingRuleDocument,
+  context: Omit<PricingContext, "rules">,
+) {
+  const party = context[rule.party];
+  if (!party) return false;
+  if (rule.transactionType && rule.transactionType !== context.type) {
+    return false;
+  }
+  if (rule.partyModel && rule.partyModel !== party.model) return false;
+  if (rule.hunterTypes.length && !rule.hunterTypes.includes(party.type ?? "")) {
+    return false;
+  }
+  return (
+    inRange(party.experience, rule.minExperience, rule.maxExperience) &&
+    inRange(party.reputation, rule.minReputation, rule.maxReputation)
+  );
+}
+
+/**
+ * Aplica las reglas de precio a un precio unitario.
+ *
+ * @remarks
+ * Las reglas que se cumplen se aplican en orden y de forma acumulada: cada
+ * porcentaje se calcula sobre el precio que deja la anterior. El precio
+ * final se redondea a céntimos.
+ *
+ * @param basePrice - Precio unitario sin reglas
+ * @param context - Datos de la transacción y reglas activas
+ * @returns Precio final y reglas aplicadas
+ *
+ * @example
+ * ```typescript
+ * // Prima del 20 % y descuento del 10 %: 100 → 120 → 108
+ * applyPricingRules(100, context);
+ * ```
+ */
+export function applyPricingRules(basePrice: number, context: PricingContext) {
+  let price = basePrice;
+  const appliedRules: AppliedPricingRule[] = [];
+  for (const rule of context.rules) {
+    if (!ruleMatches(rule, context)) continue;
+    price *= 1 + rule.adjustment / 100;
+    appliedRules.push({
+      rule: rule._id as Types.ObjectId,
+      name: rule.name,
+      adjustment: rule.adjustment,
+    });
+  }
+  return { price: roundPrice(price), appliedRules };
+}
+
+/**
+ * Obtiene las características de una parte para las reglas de precio.
+ *
+ * @param id - Identificador de la parte
+ * @param model - Modelo de la parte
+ * @param session - Sesión de MongoDB en la que se ejecuta la consulta
+ * @returns Características de la parte, o `null` si es la posada o ya no
+ *   existe
+ */
+async function pricedParty(
+  id: TransactionDocument["buyer"],
+  model: PartyModel | undefined,
+  session: ClientSession,
+): Promise<PricedParty | null> {
+  if (id == null || !model) return null;
+  if (model === "Hunter") {
+    const hunter = await HunterModel.findById(id).session(session);
+    return (
+      hunter && { model, type: hunter.type, experience: hunter.experience }
+    );
+  }
+  const merchant = await MerchantModel.findById(id).session(session);
+  return merchant && { model, reputation: merchant.reputation };
+}
+
+/**
+ * Reúne los datos con los que se calculan los precios de una transacción.
+ *
+ * @param type - Tipo de transacción
+ * @param parties - Comprador y vendedor de la transacción
+ * @param session - Sesión de MongoDB en la que se ejecutan las consultas
+ * @returns Partes de la transacción y reglas activas, por prioridad y nombre
+ */
+export async function pricingContext(
+  type: TransactionType,
+  parties: Pick<
+    TransactionDocument,
+    "buyer" | "buyerModel" | "seller" | "sellerModel"
+  >,
+  session: ClientSession,
+): Promise<PricingContext> {
+  return {
+    type,
+    buyer: await pricedParty(parties.buyer, parties.buyerModel, session),
+    seller: await pricedParty(parties.seller, parties.sellerModel, session),
+    rules: await PricingRuleModel.find({ active: true })
+      .sort({ priority: 1, name: 1 })
+      .session(session),
+  };
+}
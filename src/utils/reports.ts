@@ -0,0 +1,634 @@
+import { PipelineStage, Types } from "mongoose";
+import { GoodDocument, GoodModel } from "../models/good.js";
+import { HunterModel } from "../models/hunter.js";
+import { innCoins } from "../models/inn.js";
+import { MerchantModel } from "../models/merchant.js";
+import { NOT_DELETED } from "../models/softDelete.js";
+import { TransactionModel, TransactionType } from "../models/transaction.js";
+import { roundPrice } from "./pricing.js";
+
+/** Dimensiones de los informes de ventas */
+export const REPORT_DIMENSIONS = [
+  "goods",
+  "merchants",
+  "hunters",
+  "materials",
+] as const;
+
+/** Dimensión de un informe de ventas (ver `REPORT_DIMENSIONS`) */
+export type ReportDimension = (typeof REPORT_DIMENSIONS)[number];
+
+/** Intervalos en los que se agrupan las ventas */
+export const REPORT_INTERVALS = ["day", "week", "month"] as const;
+
+/** Intervalo de un informe de ventas (ver `REPORT_INTERVALS`) */
+export type ReportInterval = (typeof REPORT_INTERVALS)[number];
+
+/**
+ * Formato de `$dateToString` del periodo de cada intervalo: `2025-05-14`,
+ * `2025-W20` (semana ISO) y `2025-05`.
+ */
+const PERIOD_FORMATS: Record<ReportInterval, string> = {
+  day: "%Y-%m-%d",
+  week: "%G-W%V",
+  month: "%Y-%m",
+};
+
+/**
+ * Intervalo de fechas de un informe.
+ */
+export interface ReportRange {
+  /** Fecha inicial (incluida) */
+  startDate: Date;
+  /** Fecha final (incluida) */
+  endDate: Date;
+}
+
+/**
+ * Fila de un informe de ventas.
+ */
+export interface SalesRow {
+  /** Periodo (día, semana o mes) */
+  period: string;
+  /** Identificador del bien, mercader o cazador, o el material */
+  key: string;
+  /** Nombre del bien, mercader o cazador, o el material */
+  name: string | null;
+  /** Importe de las ventas */
+  revenue: number;
+  /** Unidades vendidas */
+  units: number;
+  /** Número de transacciones */
+  transactions: number;
+}
+
+/**
+ * Fila del ranking de bienes más vendidos.
+ */
+export interface TopGoodRow {
+  /** Identificador del bien */
+  key: string;
+  /** Nombre del bien */
+  name: string | null;
+  /** Material del bien */
+  material: string | null;
+  /** Unidades vendidas */
+  units: number;
+  /** Importe de las ventas */
+  revenue: number;
+}
+
+/**
+ * Fila del ranking de clientes que más gastan.
+ */
+export interface TopSpenderRow {
+  /** Identificador del cliente */
+  key: string;
+  /** Nombre del cliente */
+  name: string | null;
+  /** Modelo del cliente (`Hunter` o `Merchant`) */
+  model: string;
+  /** Importe total de sus compras */
+  spent: number;
+  /** Número de compras */
+  transactions: number;
+}
+
+/** Importe de un ítem de la transacción (tras `$unwind: "$items"`) */
+const itemRevenue = {
+  $multiply: ["$items.priceAtTransaction", "$items.quantity"],
+};
+
+/**
+ * Etapa que filtra las transacciones del intervalo de fechas.
+ *
+ * @param range - Intervalo de fechas
+ * @returns Etapa `$match`
+ */
+const inRange = ({ startDate, endDate }: ReportRange): PipelineStage => ({
+  $match: { date: { $gte: startDate, $lte: endDate } },
+});
+
+/**
+ * Etapas que añaden el nombre (y opcionalmente otros campos) del documento
+ * referenciado por `key`.
+ *
+ * @param collection - Colección del documento
+ * @param fields - Campos a copiar además de `name`
+ * @returns Etapas `$lookup` y `$set`
+ */
+const withName = (
+  collection: string,
+  fields: string[] = [],
+): PipelineStage.FacetPipelineStage[] => [
+  {
+    $lookup: {
+      from: collection,
+      localField: "key",
+      foreignField: "_id",
+      as: "doc",
+    },
+  },
+  {
+    $set: Object.fromEntries(
+      ["name", ...fields].map((field) => [
+        field,
+        { $ifNull: [{ $first: `$doc.${field}` }, null] },
+      ]),
+    ),
+  },
+  { $unset: "doc" },
+];
+
+/**
+ * Etapas específicas de cada dimensión: el filtro de las transacciones, la
+ * clave de agrupación y cómo obtener el nombre de cada clave.
+ */
+const DIMENSIONS: Record<
+  ReportDimension,
+  {
+    match?: object;
+    key: string;
+    before?: PipelineStage[];
+    name: () => PipelineStage[];
+  }
+> = {
+  goods: {
+    key: "$items.good",
+    name: () => withName(GoodModel.collection.name),
+  },
+  materials: {
+    key: "$good.material",
+    before: [
+      {
+        $lookup: {
+          from: GoodModel.collection.name,
+          localField: "items.good",
+          foreignField: "_id",
+          as: "good",
+        },
+      },
+      { $unwind: "$good" },
+    ],
+    name: () => [{ $set: { name: "$key" } }],
+  },
+  merchants: {
+    match: { sellerModel: "Merchant", seller: { $ne: null } },
+    key: "$seller",
+    name: () => withName(MerchantModel.collection.name),
+  },
+  hunters: {
+    match: { buyerModel: "Hunter", buyer: { $ne: null } },
+    key: "$buyer",
+    name: () => withName(HunterModel.collection.name),
+  },
+};
+
+/**
+ * Ventas (importe, unidades y transacciones) por bien, mercader, cazador o
+ * material, agrupadas por día, semana o mes.
+ *
+ * @remarks
+ * Los mercaderes se agrupan por lo que venden y los cazadores por lo que
+ * compran. Las filas se ordenan por periodo y, dentro de cada periodo, por
+ * importe descendente.
+ *
+ * @param by - Dimensión del informe
+ * @param interval - Intervalo de agrupación
+ * @param range - Intervalo de fechas
+ * @returns Filas del informe
+ */
+export async function salesReport(
+  by: ReportDimension,
+  interval: ReportInterval,
+  range: ReportRange,
+): Promise<SalesRow[]> {
+  const dimension = DIMENSIONS[by];
+  return TransactionModel.aggregate<SalesRow>([
+    inRange(range),
+    ...(dimension.match ? [{ $match: dimension.match }] : []),
+    { $unwind: "$items" },
+    ...(dimension.before ?? []),
+    {
+      $group: {
+        _id: {
+          period: {
+            $dateToString: { date: "$date", format: PERIOD_FORMATS[interval] },
+          },
+          key: dimension.key,
+        },
+        revenue: { $sum: itemRevenue },
+        units: { $sum: "$items.quantity" },
+        transactions: { $addToSet: "$_id" },
+      },
+    },
+    {
+      $project: {
+        _id: 0,
+        period: "$_id.period",
+        key: "$_id.key",
+        revenue: 1,
+        units: 1,
+        transactions: { $size: "$transactions" },
+      },
+    },
+    ...dimension.name(),
+    { $set: { key: { $toString: "$key" } } },
+    { $sort: { period: 1, revenue: -1, key: 1 } },
+    {
+      $project: {
+        period: 1,
+        key: 1,
+        name: 1,
+        revenue: 1,
+        units: 1,
+        transactions: 1,
+      },
+    },
+  ]);
+}
+
+/**
+ * Bienes más vendidos por unidades (y, a igualdad, por importe).
+ *
+ * @param range - Intervalo de fechas
+ * @param limit - Número de bienes
+ * @returns Filas del ranking
+ */
+export async function topGoods(
+  range: ReportRange,
+  limit: number,
+): Promise<TopGoodRow[]> {
+  return TransactionModel.aggregate<TopGoodRow>([
+    inRange(range),
+    { $unwind: "$items" },
+    {
+      $group: {
+        _id: "$items.good",
+        units: { $sum: "$items.quantity" },
+        revenue: { $sum: itemRevenue },
+      },
+    },
+    { $sort: { units: -1, revenue: -1, _id: 1 } },
+    { $limit: limit },
+    { $project: { _id: 0, key: "$_id", units: 1, revenue: 1 } },
+    ...withName(GoodModel.collection.name, ["material"]),
+    { $set: { key: { $toString: "$key" } } },
+    { $project: { key: 1, name: 1, material: 1, units: 1, revenue: 1 } },
+  ]);
+}
+
+/**
+ * Clientes (cazadores o mercaderes) que más gastan como compradores.
+ *
+ * @param range - Intervalo de fechas
+ * @param limit - Número de clientes
+ * @returns Filas del ranking
+ */
+export async function topSpenders(
+  range: ReportRange,
+  limit: number,
+): Promise<TopSpenderRow[]> {
+  const named = (
+    collection: string,
+    model: string,
+  ): PipelineStage.FacetPipelineStage[] => [
+    { $match: { model } },
+    ...withName(collection),
+  ];
+  return TransactionModel.aggregate<TopSpenderRow>([
+    inRange(range),
+    { $match: { buyer: { $ne: null } } },
+    {
+      $group: {
+        _id: { key: "$buyer", model: "$buyerModel" },
+        spent: { $sum: "$totalAmount" },
+        transactions: { $sum: 1 },
+      },
+    },
+    { $sort: { spent: -1, "_id.key": 1 } },
+    { $limit: limit },
+    {
+      $project: {
+        _id: 0,
+        key: "$_id.key",
+        model: "$_id.model",
+        spent: 1,
+        transactions: 1,
+      },
+    },
+    {
+      $facet: {
+        hunters: named(HunterModel.collection.name, "Hunter"),
+        merchants: named(MerchantModel.collection.name, "Merchant"),
+      },
+    },
+    { $project: { rows: { $concatArrays: ["$hunters", "$merchants"] } } },
+    { $unwind: "$rows" },
+    { $replaceRoot: { newRoot: "$rows" } },
+    { $sort: { spent: -1, key: 1 } },
+    { $set: { key: { $toString: "$key" } } },
+    {
+      $project: { key: 1, name: 1, model: 1, spent: 1, transactions: 1 },
+    },
+  ]);
+}
+
+/**
+ * Valoración del stock de la posada (de un bien, un material o el total).
+ */
+export interface StockValuation {
+  /** Unidades en stock */
+  stock: number;
+  /** Valor del stock (`stock × value`) */
+  value: number;
+  /** Peso del stock (`stock × weight`) */
+  weight: number;
+}
+
+/**
+ * Valoración del stock de un bien.
+ */
+export interface GoodValuation extends StockValuation {
+  /** Identificador (ObjectId) del bien */
+  key: string;
+  /** Identificador numérico del bien */
+  id: number;
+  /** Nombre del bien */
+  name: string;
+  /** Material del bien */
+  material: string;
+}
+
+/**
+ * Valoración del stock de los bienes de un material.
+ */
+export interface MaterialValuation extends StockValuation {
+  /** Material */
+  material: string;
+  /** Número de bienes del material */
+  goods: number;
+}
+
+/**
+ * Valoración del inventario de la posada.
+ */
+export interface InventoryReport {
+  /** Valoración total */
+  total: StockValuation & { goods: number };
+  /** Valoración por material, de mayor a menor valor */
+  materials: MaterialValuation[];
+  /** Valoración por bien, de mayor a menor valor */
+  goods: GoodValuation[];
+}
+
+/** Acumuladores de `$group` de una valoración */
+const valuationTotals = {
+  stock: { $sum: "$stock" },
+  value: { $sum: "$stockValue" },
+  weight: { $sum: "$stockWeight" },
+};
+
+/**
+ * Valor y peso del stock de la posada por bien, por material y en total.
+ *
+ * @remarks
+ * Solo se valoran los bienes no eliminados, con su `value` y `weight`
+ * actuales. No incluye el inventario de los mercaderes.
+ *
+ * @returns Valoración del inventario
+ */
+export async function inventoryReport(): Promise<InventoryReport> {
+  const [report] = await GoodModel.aggregate<
+    Omit<InventoryReport, "total"> & { total: InventoryReport["total"][] }
+  >([
+    { $match: NOT_DELETED },
+    {
+      $set: {
+        stockValue: { $multiply: ["$stock", "$value"] },
+        stockWeight: { $multiply: ["$stock", "$weight"] },
+      },
+    },
+    {
+      $facet: {
+        total: [
+          { $group: { _id: null, goods: { $sum: 1 }, ...valuationTotals } },
+          { $project: { _id: 0 } },
+        ],
+        materials: [
+          {
+            $group: {
+              _id: "$material",
+              goods: { $sum: 1 },
+              ...valuationTotals,
+            },
+          },
+          { $sort: { value: -1, _id: 1 } },
+          {
+            $project: {
+              _id: 0,
+              material: "$_id",
+              goods: 1,
+              stock: 1,
+              value: 1,
+              weight: 1,
+            },
+          },
+        ],
+        goods: [
+          { $sort: { stockValue: -1, id: 1 } },
+          {
+            $project: {
+              _id: 0,
+              key: { $toString: "$_id" },
+              id: 1,
+              name: 1,
+              material: 1,
+              stock: 1,
+              value: "$stockValue",
+              weight: "$stockWeight",
+            },
+          },
+        ],
+      },
+    },
+  ]);
+  return {
+    total: report.total[0] ?? { goods: 0, stock: 0, value: 0, weight: 0 },
+    materials: report.materials,
+    goods: report.goods,
+  };
+}
+
+/**
+ * Monedas de la economía: la tesorería de la posada y los saldos de los
+ * cazadores y mercaderes.
+ */
+export interface TreasuryReport {
+  /** Tesorería de la posada (puede ser negativa) */
+  inn: number;
+  /** Suma de las monedas de los cazadores */
+  hunters: number;
+  /** Suma de las monedas de los mercaderes */
+  merchants: number;
+  /** Total de monedas en circulación */
+  total: number;
+}
+
+/** Pipeline que suma las monedas de los cazadores o de los mercaderes */
+const coinsTotal = [{ $group: { _id: null, coins: { $sum: "$coins" } } }];
+
+/**
+ * Monedas de la posada, de los cazadores y de los mercaderes.
+ *
+ * @remarks
+ * Las transacciones solo trasladan monedas entre sus partes (ver
+ * `adjustInnCoins`), así que `total` solo cambia al crear, modificar o
+ * purgar cazadores y mercaderes. Incluye los eliminados, que conservan su
+ * saldo hasta la purga.
+ *
+ * @returns Monedas en circulación
+ */
+export async function treasuryReport(): Promise<TreasuryReport> {
+  const inn = await innCoins();
+  const [hunters] = await HunterModel.aggregate<{ coins: number }>(coinsTotal);
+  const [merchants] = await MerchantModel.aggregate<{ coins: number }>(
+    coinsTotal,
+  );
+  const report = {
+    inn,
+    hunters: hunters?.coins ?? 0,
+    merchants: merchants?.coins ?? 0,
+  };
+  return {
+    ...report,
+    total: roundPrice(report.inn + report.hunters + report.merchants),
+  };
+}
+
+/**
+ * Movimiento del stock de la posada provocado por una transacción.
+ */
+export interface StockMovement {
+  /** Fecha de la transacción */
+  date: Date;
+  /** Identificador de la transacción */
+  transaction: string;
+  /** Tipo de la transacción */
+  type: TransactionType;
+  /** Unidades que entran (positivo) o salen (negativo) del stock */
+  quantity: number;
+  /** Stock tras el movimiento */
+  balance: number;
+}
+
+/**
+ * Evolución del stock de un bien.
+ */
+export interface StockHistory {
+  /** Identificador (ObjectId) del bien */
+  good: string;
+  /** Nombre del bien */
+  name: string;
+  /** Stock actual */
+  stock: number;
+  /** Stock al inicio del intervalo */
+  opening: number;
+  /** Stock al final del intervalo */
+  closing: number;
+  /** Movimientos del intervalo, del más antiguo al más reciente */
+  movements: StockMovement[];
+}
+
+/** Expresión que indica si la posada es el vendedor de la transacción */
+const innSells = {
+  $and: [
+    { $eq: [{ $ifNull: ["$seller", null] }, null] },
+    { $eq: [{ $ifNull: ["$sellerModel", null] }, null] },
+  ],
+};
+
+/**
+ * Reconstruye la evolución del stock de la posada de un bien a partir de las
+ * transacciones.
+ *
+ * @remarks
+ * Solo cuentan las transacciones en las que la posada es una de las partes:
+ * las compras a la posada retiran unidades y las ventas a la posada las
+ * añaden. Los saldos se calculan hacia atrás desde el stock actual, por lo
+ * que los cambios de stock ajenos a las transacciones (altas o
+ * modificaciones directas del bien) quedan reflejados en el stock anterior
+ * a la primera transacción.
+ *
+ * @param good - Bien
+ * @param range - Intervalo de fechas (opcional en ambos extremos)
+ * @returns Evolución del stock del bien
+ */
+export async function stockHistory(
+  good: GoodDocument,
+  range: Partial<ReportRange>,
+): Promise<StockHistory> {
+  const goodId = good._id as Types.ObjectId;
+  const rows = await TransactionModel.aggregate<
+    Omit<StockMovement, "balance" | "transaction"> & { _id: Types.ObjectId }
+  >([
+    {
+      $match: {
+        "items.good": goodId,
+        $or: [
+          { seller: null, sellerModel: null },
+          { buyer: null, buyerModel: null },
+        ],
+      },
+    },
+    { $sort: { date: 1, _id: 1 } },
+    {
+      $project: {
+        date: 1,
+        type: 1,
+        quantity: {
+          $multiply: [
+            { $cond: [innSells, -1, 1] },
+            {
+              $sum: {
+                $map: {
+                  input: {
+                    $filter: {
+                      input: "$items",
+                      cond: { $eq: ["$$this.good", goodId] },
+                    },
+                  },
+                  in: "$$this.quantity",
+                },
+              },
+            },
+          ],
+        },
+      },
+    },
+  ]);
+
+  let balance = good.stock - rows.reduce((sum, row) => sum + row.quantity, 0);
+  let opening = balance;
+  let closing = balance;
+  const movements: StockMovement[] = [];
+  for (const { _id, date, type, quantity } of rows) {
+    balance += quantity;
+    if (range.endDate && date > range.endDate) break;
+    closing = balance;
+    if (range.startDate && date < range.startDate) {
+      opening = balance;
+      continue;
+    }
+    movements.push({ date, transaction: String(_id), type, quantity, balance });
+  }
+
+  return {
+    good: String(goodId),
+    name: good.name,
+    stock: good.stock,
+    opening,
+    closing,
+    movements,
+  };
+}
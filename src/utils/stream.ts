@@ -0,0 +1,112 @@
+import { EventEmitter } from "node:events";
+import { appEvents } from "./events.js";
+
+/**
+ * Eventos de transacciones que se envían por `GET /transactions/stream`.
+ */
+export const TRANSACTION_EVENTS = [
+  "transaction.created",
+  "transaction.updated",
+  "transaction.deleted",
+] as const;
+
+/**
+ * Evento de transacción (ver `TRANSACTION_EVENTS`).
+ */
+export type TransactionEvent = (typeof TRANSACTION_EVENTS)[number];
+
+/**
+ * Evento del flujo de transacciones.
+ */
+export interface StreamEvent {
+  /** Identificador del evento, creciente dentro de cada proceso */
+  id: number;
+  /** Tipo de evento */
+  event: TransactionEvent;
+  /** Transacción en JSON, tal y como queda tras el cambio */
+  transaction: StreamTransaction;
+}
+
+/**
+ * Transacción en JSON, con las partes y los bienes como identificadores.
+ */
+export interface StreamTransaction extends Record<string, unknown> {
+  type: "purchase" | "sale";
+  buyer: string | null;
+  seller: string | null;
+  items: Array<{ good: string | null; quantity: number }>;
+}
+
+/**
+ * Configuración del flujo de transacciones.
+ *
+ * @remarks
+ * Es modificable para poder ajustarla en las pruebas.
+ */
+export const streamOptions = {
+  /** Intervalo de los comentarios que mantienen viva la conexión (ms) */
+  heartbeat: 15000,
+  /** Eventos recientes que se conservan para reanudar con `Last-Event-ID` */
+  replay: 500,
+};
+
+/** Eventos recientes, del más antiguo al más reciente */
+const recent: StreamEvent[] = [];
+/** Identificador del último evento */
+let lastId = 0;
+/** Emisor de los eventos del flujo a las conexiones abiertas */
+const feed = new EventEmitter<{ event: [StreamEvent] }>();
+// Cada conexión abierta añade un oyente
+feed.setMaxListeners(0);
+
+for (const event of TRANSACTION_EVENTS) {
+  appEvents.on(event, (transaction) => {
+    const entry: StreamEvent = {
+      id: ++lastId,
+      event,
+      transaction: JSON.parse(JSON.stringify(transaction)),
+    };
+    recent.push(entry);
+    if (recent.length > streamOptions.replay) recent.shift();
+    feed.emit("event", entry);
+  });
+}
+
+/**
+ * Eventos recientes posteriores a uno dado.
+ *
+ * @remarks
+ * Si el identificador es posterior al último evento (el cliente se conectó a
+ * un proceso anterior del servidor) se devuelven todos los eventos
+ * recientes. Los eventos más antiguos que `streamOptions.replay` ya no se
+ * pueden recuperar.
+ *
+ * @param id - Identificador del último evento recibido (`Last-Event-ID`)
+ * @returns Eventos posteriores, del más antiguo al más reciente
+ */
+export function eventsAfter(id: number): StreamEvent[] {
+  if (id > lastId) return [...recent];
+  return recent.filter((entry) => entry.id > id);
+}
+
+/**
+ * Recibe los nuevos eventos del flujo de transacciones.
+ *
+ * @param listener - Función que recibe cada evento
+ * @returns Función que cancela la suscripción
+ */
+export function subscribeTransactions(listener: (event: StreamEvent) => void) {
+  feed.on("event", listener);
+  return () => {
+    feed.off("event", listener);
+  };
+}
+
+/**
+ * Da formato de Server-Sent Events a un evento del flujo.
+ *
+ * @param entry - Evento
+ * @returns Mensaje con `id`, `event` y `data` (la transacción en JSON)
+ */
+export const sseMessage = (entry: StreamEvent) =>
+  `id: ${entry.id}\nevent: ${entry.event}\ndata: ${JSON.stringify(entry.transaction)}\n\n`;
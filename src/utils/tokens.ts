@@ -0,0 +1,136 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { UnauthorizedError } from "../errors.js";
+
+/**
+ * Roles de los usuarios de la API.
+ *
+ * @remarks
+ * - `admin`: acceso completo.
+ * - `merchant`: lectura y gestión de su propio mercader, inventario y transacciones.
+ * - `hunter`: lectura y gestión de su propio cazador y transacciones.
+ * - `read-only`: solo lectura.
+ */
+export const ROLES = ["admin", "merchant", "hunter", "read-only"] as const;
+
+/**
+ * Rol de un usuario de la API (ver `ROLES`).
+ */
+export type Role = (typeof ROLES)[number];
+
+/**
+ * Datos firmados en un token de acceso.
+ */
+export interface TokenClaims {
+  /** Usuario al que se emitió el token */
+  sub: string;
+  /** Rol del usuario */
+  role: Role;
+  /** Mercader o cazador del usuario (roles `merchant` y `hunter`) */
+  party?: string;
+  /** Fecha de emisión (segundos desde epoch) */
+  iat: number;
+  /** Fecha de caducidad (segundos desde epoch) */
+  exp?: number;
+}
+
+/** Validez por defecto de los tokens: 24 horas */
+export const DEFAULT_TOKEN_TTL = 24 * 60 * 60;
+
+/** Cabecera fija de los tokens (JWT firmado con HMAC-SHA256) */
+const HEADER = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+
+/**
+ * Codifica un texto en base64url.
+ *
+ * @param value - Texto o bytes a codificar
+ * @returns Texto en base64url
+ */
+function base64url(value: string | Buffer) {
+  return Buffer.from(value).toString("base64url");
+}
+
+/**
+ * Secreto con el que se firman y verifican los tokens (`AUTH_SECRET`).
+ *
+ * @returns Secreto configurado
+ * @throws Error - Si no está configurado
+ */
+export function authSecret() {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) throw new Error("La variable AUTH_SECRET no está definida");
+  return secret;
+}
+
+/**
+ * Firma una cabecera y una carga útil.
+ *
+ * @param content - `cabecera.carga` en base64url
+ * @param secret - Secreto de firma
+ * @returns Firma en base64url
+ */
+function sign(content: string, secret: string) {
+  return createHmac("sha256", secret).update(content).digest("base64url");
+}
+
+/**
+ * Emite un token de acceso firmado (JWT HS256).
+ *
+ * @param claims - Usuario, rol y parte asociada
+ * @param ttl - Segundos de validez (`0` para que no caduque)
+ * @param secret - Secreto de firma (por defecto, `AUTH_SECRET`)
+ * @returns Token en formato compacto
+ *
+ * @example
+ * ```typescript
+ * const token = signToken({ sub: "zoltan", role: "merchant", party: merchantId });
+ * ```
+ */
+export function signToken(
+  claims: Omit<TokenClaims, "iat" | "exp">,
+  ttl = DEFAULT_TOKEN_TTL,
+  secret = authSecret(),
+) {
+  const iat = Math.floor(Date.now() / 1000);
+  const payload = base64url(
+    JSON.stringify({ ...claims, iat, ...(ttl > 0 ? { exp: iat + ttl } : {}) }),
+  );
+  return `${HEADER}.${payload}.${sign(`${HEADER}.${payload}`, secret)}`;
+}
+
+/**
+ * Verifica la firma y la caducidad de un token de acceso.
+ *
+ * @param token - Token en formato compacto
+ * @param secret - Secreto de firma (por defecto, `AUTH_SECRET`)
+ * @returns Datos del token
+ * @throws UnauthorizedError - Si el token no es válido o ha caducado
+ */
+export function verifyToken(token: string, secret = authSecret()) {
+  const [header, payload, signature, ...rest] = token.split(".");
+  if (header !== HEADER || !payload || !signature || rest.length) {
+    throw new UnauthorizedError("El token de acceso no es válido");
+  }
+
+  const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+  const received = Buffer.from(signature);
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    throw new UnauthorizedError("El token de acceso no es válido");
+  }
+
+  let claims: TokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+  } catch {
+    throw new UnauthorizedError("El token de acceso no es válido");
+  }
+  if (typeof claims.sub !== "string" || !ROLES.includes(claims.role)) {
+    throw new UnauthorizedError("El token de acceso no es válido");
+  }
+  if (claims.exp !== undefined && claims.exp * 1000 <= Date.now()) {
+    throw new UnauthorizedError("El token de acceso ha caducado");
+  }
+  return claims;
+}
@@ -0,0 +1,510 @@
+import mongoose, { ClientSession, Types } from "mongoose";
+import {
+  ConflictError,
+  ForbiddenError,
+  InsufficientFundsError,
+  NotFoundError,
+  ValidationError,
+} from "../errors.js";
+import { GoodModel } from "../models/good.js";
+import { HunterModel } from "../models/hunter.js";
+import { adjustInnCoins } from "../models/inn.js";
+import { InventoryModel } from "../models/inventory.js";
+import { MerchantModel } from "../models/merchant.js";
+import { NOT_DELETED } from "../models/softDelete.js";
+import {
+  moveGoods,
+  PartyModel,
+  TransactionDocument,
+  TransactionItem,
+  TransactionModel,
+  TransactionType,
+} from "../models/transaction.js";
+import { assertVersion } from "../models/versioning.js";
+import { ownParty } from "../middleware/auth.js";
+import { appEvents } from "./events.js";
+import { applyPricingRules, pricingContext, roundPrice } from "./pricing.js";
+import { TokenClaims } from "./tokens.js";
+
+/**
+ * Estructura para la creación de nuevas transacciones
+ *
+ * @remarks
+ * Cada parte puede indicarse por nombre o por identificador. `clientName` se
+ * mantiene por compatibilidad: designa al comprador en las compras y al
+ * vendedor en las ventas. La parte que se omita es la propia posada.
+ */
+export interface CreateTransactionRequest {
+  /** Tipo de transacción (compra/venta) */
+  type: TransactionType;
+  /** Nombre del cliente asociado (compatibilidad) */
+  clientName?: string;
+  /** Nombre del comprador (cazador o mercader) */
+  buyerName?: string;
+  /** Identificador del comprador (cazador o mercader) */
+  buyerId?: string;
+  /** Nombre del mercader vendedor */
+  sellerName?: string;
+  /** Identificador del mercader vendedor */
+  sellerId?: string;
+  /** Lista de items en la transacción */
+  items: Array<{
+    /** Nombre del bien transaccionado */
+    goodName: string;
+    /** Cantidad del bien */
+    quantity: number;
+  }>;
+}
+
+/**
+ * Partes de una transacción: comprador y vendedor junto con sus modelos.
+ */
+type Parties = Pick<
+  TransactionDocument,
+  "buyer" | "buyerModel" | "seller" | "sellerModel"
+>;
+
+/**
+ * Comprueba que un mercader o cazador participa en una transacción.
+ *
+ * @remarks
+ * Los administradores y los usuarios de solo lectura acceden a todas.
+ *
+ * @param auth - Datos del token de acceso
+ * @param parties - Comprador y vendedor (identificadores o documentos poblados)
+ * @throws ForbiddenError - Si el usuario no es comprador ni vendedor
+ */
+export const assertParticipant = (
+  auth: TokenClaims | undefined,
+  parties: Pick<Parties, "buyer" | "seller">,
+) => {
+  const party = ownParty(auth);
+  if (!party) return;
+  const ids = [parties.buyer, parties.seller].map((p) =>
+    p && "_id" in p ? p._id : p,
+  );
+  if (!ids.some((id) => id && party.equals(id as Types.ObjectId))) {
+    throw new ForbiddenError("Solo puede acceder a sus propias transacciones");
+  }
+};
+
+/**
+ * Comprueba que un mercader o cazador es quien paga la transacción.
+ *
+ * @remarks
+ * Al crear o modificar una transacción se cobra al comprador, así que los
+ * mercaderes y cazadores solo pueden hacerlo cuando son ellos quienes
+ * compran. Las transacciones que paga otra parte (otro cliente o la
+ * posada) quedan para los administradores.
+ *
+ * @param auth - Datos del token de acceso
+ * @param parties - Comprador de la transacción
+ * @throws ForbiddenError - Si el usuario no es el comprador
+ */
+const assertPayer = (
+  auth: TokenClaims | undefined,
+  parties: Pick<Parties, "buyer">,
+) => {
+  const party = ownParty(auth);
+  if (!party) return;
+  if (!parties.buyer || !party.equals(parties.buyer as Types.ObjectId)) {
+    throw new ForbiddenError(
+      "Solo un administrador puede registrar transacciones que paga otra parte",
+    );
+  }
+};
+
+/**
+ * Modifica el saldo de monedas de un cazador o mercader.
+ *
+ * @remarks
+ * Los descuentos solo se aplican si la parte dispone del saldo. Si la parte
+ * ya no existe (se purgó) no hay saldo que ajustar; si está eliminada, su
+ * saldo no se puede modificar hasta que se restaure.
+ *
+ * @param model - Modelo de la parte
+ * @param id - Identificador de la parte
+ * @param delta - Monedas a sumar (negativo para descontar)
+ * @param session - Sesión de MongoDB en la que se ejecuta la operación
+ * @throws InsufficientFundsError - Si la parte no tiene monedas suficientes
+ * @throws ConflictError - Si la parte está eliminada
+ */
+const adjustCoins = async (
+  model: PartyModel,
+  id: unknown,
+  delta: number,
+  session: ClientSession,
+) => {
+  const filter = {
+    _id: id,
+    ...NOT_DELETED,
+    ...(delta < 0 ? { coins: { $gte: -delta } } : {}),
+  };
+  const update = { $inc: { coins: delta } };
+
+  const result =
+    model === "Hunter"
+      ? await HunterModel.updateOne(filter, update, { session })
+      : await MerchantModel.updateOne(filter, update, { session });
+  if (result.matchedCount === 1) return;
+
+  const party =
+    model === "Hunter"
+      ? await HunterModel.findById(id).session(session)
+      : await MerchantModel.findById(id).session(session);
+  if (!party) return;
+  if (party.deletedAt) {
+    throw new ConflictError(
+      `${model === "Hunter" ? "El cazador" : "El mercader"} ${party.name} está eliminado`,
+    );
+  }
+  throw new InsufficientFundsError("Monedas insuficientes");
+};
+
+/**
+ * Modifica el saldo de una parte de la transacción: la tesorería si es la
+ * posada (sin modelo) o el de un cazador o mercader. Las partes purgadas
+ * (sin identificador pero con modelo) no tienen saldo.
+ *
+ * @param model - Modelo de la parte
+ * @param id - Identificador de la parte
+ * @param delta - Monedas a sumar (negativo para descontar)
+ * @param session - Sesión de MongoDB en la que se ejecuta la operación
+ * @throws InsufficientFundsError - Si la parte no tiene monedas suficientes
+ * @throws ConflictError - Si la parte está eliminada
+ */
+const adjustPartyCoins = async (
+  model: PartyModel | undefined,
+  id: TransactionDocument["buyer"],
+  delta: number,
+  session: ClientSession,
+) => {
+  if (!model) {
+    await adjustInnCoins(delta, session);
+  } else if (id != null) {
+    await adjustCoins(model, id, delta, session);
+  }
+};
+
+/**
+ * Liquida el importe de una transacción entre sus partes.
+ *
+ * @remarks
+ * El comprador paga el importe y el vendedor lo cobra. Cuando una de las
+ * partes es la posada se mueve su tesorería (ver `adjustInnCoins`): cobra
+ * las compras (`purchase`) y paga las ventas (`sale`), de modo que las
+ * transacciones no crean ni destruyen monedas. Un importe negativo revierte
+ * el movimiento (reembolso al comprador y recargo al vendedor).
+ *
+ * @param parties - Comprador y vendedor de la transacción
+ * @param amount - Importe a liquidar
+ * @param session - Sesión de MongoDB en la que se ejecuta la operación
+ * @throws InsufficientFundsError - Si alguna parte no tiene monedas suficientes
+ */
+const settleCoins = async (
+  parties: Parties,
+  amount: number,
+  session: ClientSession,
+) => {
+  await adjustPartyCoins(parties.buyerModel, parties.buyer, -amount, session);
+  await adjustPartyCoins(parties.sellerModel, parties.seller, amount, session);
+};
+
+/**
+ * Busca una parte de la transacción por identificador o por nombre.
+ *
+ * @param ref - Identificador y/o nombre de la parte
+ * @param models - Modelos en los que buscar, por orden de preferencia
+ * @param label - Nombre de la parte para los mensajes de error
+ * @param session - Sesión de MongoDB en la que se ejecuta la operación
+ * @returns Documento y modelo de la parte, o `null` si no se indicó
+ * @throws NotFoundError - Si no existe
+ */
+const findParty = async (
+  ref: { id?: string; name?: string },
+  models: PartyModel[],
+  label: string,
+  session: ClientSession,
+) => {
+  if (!ref.id && !ref.name) return null;
+
+  const filter = {
+    ...(ref.id ? { _id: ref.id } : { name: ref.name }),
+    ...NOT_DELETED,
+  };
+  for (const model of models) {
+    const doc =
+      model === "Hunter"
+        ? await HunterModel.findOne(filter).session(session)
+        : await MerchantModel.findOne(filter).session(session);
+    if (doc) return { id: doc._id as Types.ObjectId, model };
+  }
+  throw new NotFoundError(`${label} no encontrado`);
+};
+
+/**
+ * Resuelve el comprador y el vendedor indicados en una petición.
+ *
+ * @remarks
+ * Los compradores pueden ser cazadores o mercaderes; los vendedores solo
+ * mercaderes. Las compras exigen comprador y las ventas vendedor.
+ *
+ * @param body - Cuerpo de la petición
+ * @param session - Sesión de MongoDB en la que se ejecuta la operación
+ * @returns Partes de la transacción
+ * @throws ValidationError - Si falta una parte obligatoria o ambas coinciden
+ * @throws NotFoundError - Si alguna parte no existe
+ */
+const resolveParties = async (
+  body: CreateTransactionRequest,
+  session: ClientSession,
+): Promise<Parties> => {
+  const buyer = await findParty(
+    {
+      id: body.buyerId,
+      name:
+        body.buyerName ??
+        (body.type === "purchase" ? body.clientName : undefined),
+    },
+    ["Hunter", "Merchant"],
+    "Comprador",
+    session,
+  );
+  const seller = await findParty(
+    {
+      id: body.sellerId,
+      name:
+        body.sellerName ?? (body.type === "sale" ? body.clientName : undefined),
+    },
+    ["Merchant"],
+    "Vendedor",
+    session,
+  );
+
+  if (body.type === "purchase" && !buyer) {
+    throw ValidationError.field(
+      "body",
+      "buyerName",
+      "Se requiere el comprador",
+    );
+  }
+  if (body.type === "sale" && !seller) {
+    throw ValidationError.field(
+      "body",
+      "sellerName",
+      "Se requiere el vendedor",
+    );
+  }
+  if (buyer && seller && buyer.id.equals(seller.id)) {
+    throw new ValidationError("El comprador y el vendedor deben ser distintos");
+  }
+
+  return {
+    buyer: buyer?.id ?? null,
+    buyerModel: buyer?.model,
+    seller: seller?.id ?? null,
+    sellerModel: seller?.model,
+  };
+};
+
+/**
+ * Resuelve los ítems de una petición a bienes existentes y calcula el total.
+ *
+ * @remarks
+ * El precio base es el propio del vendedor si es un mercader con precio
+ * para el bien, y en otro caso el valor del bien. Sobre él se aplican las
+ * reglas de precio activas (ver `applyPricingRules`), que quedan registradas
+ * en cada ítem junto con el precio base.
+ *
+ * @param type - Tipo de transacción
+ * @param parties - Comprador y vendedor de la transacción
+ * @param items - Ítems de la petición
+ * @param session - Sesión de MongoDB en la que se ejecuta la operación
+ * @returns Ítems procesados y monto total de la transacción
+ * @throws NotFoundError - Si un bien no existe
+ */
+const buildItems = async (
+  type: TransactionType,
+  parties: Parties,
+  items: CreateTransactionRequest["items"],
+  session: ClientSession,
+) => {
+  const pricing = await pricingContext(type, parties, session);
+  const processedItems: TransactionItem[] = [];
+  let totalAmount = 0;
+
+  for (const item of items) {
+    const good = await GoodModel.findOne({
+      name: item.goodName,
+      ...NOT_DELETED,
+    }).session(session);
+    if (!good) {
+      throw new NotFoundError(`Bien no encontrado: ${item.goodName}`);
+    }
+
+    const line =
+      parties.sellerModel === "Merchant"
+        ? await InventoryModel.findOne({
+            merchant: parties.seller,
+            good: good._id,
+          }).session(session)
+        : null;
+    const basePrice = line?.price ?? good.value;
+    const { price, appliedRules } = applyPricingRules(basePrice, pricing);
+
+    totalAmount += price * item.quantity;
+    processedItems.push({
+      good: good._id as Types.ObjectId,
+      quantity: item.quantity,
+      priceAtTransaction: price,
+      basePrice,
+      appliedRules,
+    });
+  }
+
+  return { processedItems, totalAmount: roundPrice(totalAmount) };
+};
+
+/**
+ * Crea una transacción con sus movimientos de stock y de monedas.
+ *
+ * @remarks
+ * Todo se ejecuta en una única transacción de MongoDB: las partes y los
+ * bienes se resuelven por nombre o identificador, los precios se calculan
+ * con `buildItems`, el comprador paga al vendedor y, al guardarse, los
+ * bienes pasan del vendedor al comprador (ver `moveGoods`). Al confirmarse
+ * se emite `transaction.created`. La usan `POST /transactions` y la
+ * mutación `createTransaction` de GraphQL.
+ *
+ * @param body - Datos de la transacción (ya validados con `transactionBody`)
+ * @param auth - Datos del token de acceso
+ * @returns Transacción creada
+ * @throws ForbiddenError - Si un mercader o cazador no es el comprador
+ * @throws NotFoundError - Si alguna parte o bien no existe
+ * @throws InsufficientFundsError - Si el comprador no tiene monedas suficientes
+ */
+export async function createTransaction(
+  body: CreateTransactionRequest,
+  auth: TokenClaims | undefined,
+): Promise<TransactionDocument> {
+  const saved = await mongoose.connection.transaction(async (session) => {
+    const parties = await resolveParties(body, session);
+    assertPayer(auth, parties);
+    const { processedItems, totalAmount } = await buildItems(
+      body.type,
+      parties,
+      body.items,
+      session,
+    );
+    await settleCoins(parties, totalAmount, session);
+
+    const transaction = new TransactionModel({
+      type: body.type,
+      ...parties,
+      items: processedItems,
+      totalAmount,
+    });
+    return transaction.save({ session });
+  });
+
+  appEvents.emit("transaction.created", saved);
+  return saved;
+}
+
+/**
+ * Sustituye las partes y los ítems de una transacción.
+ *
+ * @remarks
+ * Revierte los movimientos de stock y de monedas de la transacción original
+ * y aplica los de la nueva, todo en una única transacción de MongoDB. Al
+ * confirmarse se emite `transaction.updated`. La usan `PUT /transactions/:id`
+ * y la mutación `updateTransaction` de GraphQL.
+ *
+ * @param id - Identificador de la transacción
+ * @param body - Nuevos datos (ya validados con `transactionBody`)
+ * @param auth - Datos del token de acceso
+ * @param versions - Versiones admitidas por `If-Match` (ver `ifMatch`)
+ * @returns Transacción actualizada
+ * @throws NotFoundError - Si la transacción, alguna parte o algún bien no existe
+ * @throws PreconditionFailedError - Si su versión no es ninguna de `versions`
+ * @throws ForbiddenError - Si un mercader o cazador no es el comprador de la
+ *   transacción original o de la nueva
+ */
+export async function updateTransaction(
+  id: string,
+  body: CreateTransactionRequest,
+  auth: TokenClaims | undefined,
+  versions: number[] | null = null,
+): Promise<TransactionDocument> {
+  const updated = await mongoose.connection.transaction(async (session) => {
+    const transaction = await TransactionModel.findById(id).session(session);
+    if (!transaction) {
+      throw new NotFoundError("Transacción no encontrada");
+    }
+    assertVersion(transaction, versions);
+
+    assertPayer(auth, transaction);
+
+    const parties = await resolveParties(body, session);
+    assertPayer(auth, parties);
+
+    await settleCoins(transaction, -transaction.totalAmount, session);
+    await moveGoods(transaction, -1, session);
+
+    const { processedItems, totalAmount } = await buildItems(
+      body.type,
+      parties,
+      body.items,
+      session,
+    );
+    await moveGoods(
+      { _id: transaction._id, ...parties, items: processedItems },
+      1,
+      session,
+    );
+    await settleCoins(parties, totalAmount, session);
+
+    transaction.set({ type: body.type, ...parties });
+    transaction.items = processedItems;
+    transaction.totalAmount = totalAmount;
+    return transaction.save({ session });
+  });
+
+  appEvents.emit("transaction.updated", updated);
+  return updated;
+}
+
+/**
+ * Elimina una transacción y revierte sus movimientos de stock y de monedas.
+ *
+ * @remarks
+ * Al confirmarse se emite `transaction.deleted`. La usan
+ * `DELETE /transactions/:id` y la mutación `deleteTransaction` de GraphQL.
+ *
+ * @param id - Identificador de la transacción
+ * @param versions - Versiones admitidas por `If-Match` (ver `ifMatch`)
+ * @returns Transacción eliminada
+ * @throws NotFoundError - Si la transacción no existe
+ * @throws PreconditionFailedError - Si su versión no es ninguna de `versions`
+ * @throws InsufficientFundsError - Si el vendedor no puede devolver el importe
+ */
+export async function deleteTransaction(
+  id: string,
+  versions: number[] | null = null,
+): Promise<TransactionDocument> {
+  const deleted = await mongoose.connection.transaction(async (session) => {
+    const transaction = await TransactionModel.findById(id).session(session);
+    if (!transaction) {
+      throw new NotFoundError("Transacción no encontrada");
+    }
+    assertVersion(transaction, versions);
+
+    await settleCoins(transaction, -transaction.totalAmount, session);
+    await moveGoods(transaction, -1, session);
+    await transaction.deleteOne({ session });
+    return transaction;
+  });
+
+  appEvents.emit("transaction.deleted", deleted);
+  return deleted;
+}
@@ -0,0 +1,235 @@
+import { createHmac } from "node:crypto";
+import { Document, Types } from "mongoose";
+import {
+  DeliveryAttempt,
+  WebhookDeliveryDocument,
+  WebhookDeliveryModel,
+  WebhookDocument,
+  WebhookModel,
+} from "../models/webhook.js";
+import { APP_EVENTS, AppEvent, appEvents } from "./events.js";
+
+/**
+ * Configuración de los envíos de los webhooks.
+ *
+ * @remarks
+ * Es modificable para poder ajustarla en las pruebas.
+ */
+export const webhookOptions = {
+  /** Número máximo de intentos de cada notificación */
+  maxAttempts: 5,
+  /** Espera antes del primer reintento (ms); se duplica en cada reintento */
+  retryDelay: 1000,
+  /** Tiempo máximo de espera de la respuesta del receptor (ms) */
+  timeout: 5000,
+};
+
+/**
+ * Firma el cuerpo de una notificación.
+ *
+ * @remarks
+ * La firma es el HMAC-SHA256 en hexadecimal de `<timestamp>.<cuerpo>` con el
+ * secreto de la suscripción, precedido de `sha256=`. Se envía en la cabecera
+ * `X-Webhook-Signature` y el instante en `X-Webhook-Timestamp`, de modo que
+ * el receptor puede comprobar la autenticidad y descartar reenvíos antiguos.
+ *
+ * @param secret - Secreto de la suscripción
+ * @param timestamp - Instante del envío (segundos desde la época Unix)
+ * @param body - Cuerpo JSON tal y como se envía
+ * @returns Firma de la notificación
+ *
+ * @example
+ * ```typescript
+ * signPayload("secreto", "1735689600", '{"event":"good.created"}');
+ * // "sha256=..."
+ * ```
+ */
+export function signPayload(secret: string, timestamp: string, body: string) {
+  const hmac = createHmac("sha256", secret).update(`${timestamp}.${body}`);
+  return `sha256=${hmac.digest("hex")}`;
+}
+
+/**
+ * Espera antes de un reintento: `retryDelay` tras el primer intento fallido
+ * y el doble tras cada uno de los siguientes.
+ *
+ * @param attempts - Intentos hechos hasta el momento
+ * @returns Espera en milisegundos
+ */
+export const retryDelay = (attempts: number) =>
+  webhookOptions.retryDelay * 2 ** (attempts - 1);
+
+/**
+ * Programa un intento de envío de una notificación.
+ *
+ * @param id - Identificador de la notificación
+ * @param delay - Espera en milisegundos
+ */
+function schedule(id: Types.ObjectId, delay: number) {
+  setTimeout(() => {
+    attemptDelivery(id).catch((err) =>
+      console.error("Error enviando el webhook:", err),
+    );
+  }, delay).unref();
+}
+
+/**
+ * Envía una notificación a la URL de su suscripción.
+ *
+ * @param webhook - Suscripción, con su secreto
+ * @param delivery - Notificación
+ * @returns Resultado del intento; solo una respuesta 2xx es una entrega
+ */
+async function send(
+  webhook: WebhookDocument,
+  delivery: WebhookDeliveryDocument,
+): Promise<DeliveryAttempt> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const at = new Date();
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Id": String(delivery._id),
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": timestamp,
+        "X-Webhook-Signature": signPayload(webhook.secret, timestamp, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(webhookOptions.timeout),
+    });
+    await response.body?.cancel();
+    return {
+      at,
+      statusCode: response.status,
+      error: response.ok ? null : `Respuesta HTTP ${response.status}`,
+      duration: Date.now() - at.getTime(),
+    };
+  } catch (err) {
+    return {
+      at,
+      statusCode: null,
+      error: (err as Error).message,
+      duration: Date.now() - at.getTime(),
+    };
+  }
+}
+
+/**
+ * Hace un intento de envío de una notificación pendiente y registra su
+ * resultado.
+ *
+ * @remarks
+ * Si el intento falla y quedan intentos (ver `webhookOptions.maxAttempts`),
+ * se programa el siguiente con espera exponencial (ver `retryDelay`); si no,
+ * la notificación queda como `failed`. Las notificaciones de suscripciones
+ * desactivadas o eliminadas se descartan como `failed` sin enviarse.
+ *
+ * @param id - Identificador de la notificación
+ * @returns Notificación actualizada, o `null` si no existe
+ */
+export async function attemptDelivery(
+  id: Types.ObjectId,
+): Promise<WebhookDeliveryDocument | null> {
+  const delivery = await WebhookDeliveryModel.findById(id);
+  if (!delivery || delivery.status !== "pending") return delivery;
+
+  const webhook = await WebhookModel.findById(delivery.webhook).select(
+    "+secret",
+  );
+  if (!webhook?.active) {
+    delivery.status = "failed";
+    delivery.nextAttemptAt = null;
+    return delivery.save();
+  }
+
+  const attempt = await send(webhook, delivery);
+  delivery.attempts.push(attempt);
+  if (!attempt.error) {
+    delivery.status = "delivered";
+    delivery.nextAttemptAt = null;
+  } else if (delivery.attempts.length >= webhookOptions.maxAttempts) {
+    delivery.status = "failed";
+    delivery.nextAttemptAt = null;
+  } else {
+    const delay = retryDelay(delivery.attempts.length);
+    delivery.nextAttemptAt = new Date(Date.now() + delay);
+    schedule(delivery._id as Types.ObjectId, delay);
+  }
+  return delivery.save();
+}
+
+/**
+ * Crea y envía una notificación para cada suscripción activa a un evento.
+ *
+ * @remarks
+ * El cuerpo de la notificación es `{ id, event, createdAt, data }`, donde
+ * `id` es el identificador de la notificación (también en la cabecera
+ * `X-Webhook-Id`, para que el receptor descarte los duplicados) y `data` el
+ * documento del evento en JSON.
+ *
+ * @param event - Evento
+ * @param doc - Documento del evento
+ * @returns Notificaciones creadas
+ */
+export async function dispatchEvent(
+  event: AppEvent,
+  doc: Document,
+): Promise<WebhookDeliveryDocument[]> {
+  const webhooks = await WebhookModel.find({ active: true, events: event });
+  if (!webhooks.length) return [];
+
+  const createdAt = new Date();
+  const data: unknown = JSON.parse(JSON.stringify(doc));
+  const deliveries = await WebhookDeliveryModel.create(
+    webhooks.map((webhook) => {
+      const _id = new Types.ObjectId();
+      return {
+        _id,
+        webhook: webhook._id,
+        event,
+        payload: { id: String(_id), event, createdAt, data },
+        nextAttemptAt: createdAt,
+      };
+    }),
+  );
+  for (const delivery of deliveries) {
+    schedule(delivery._id as Types.ObjectId, 0);
+  }
+  return deliveries;
+}
+
+/** Indica si ya se han registrado los oyentes (ver `listenWebhookEvents`) */
+let listening = false;
+
+/**
+ * Envía los eventos de la aplicación a los webhooks suscritos.
+ *
+ * @remarks
+ * Registra un oyente de cada evento de `appEvents` y reprograma las
+ * notificaciones que quedaron pendientes al detenerse el servidor. Solo
+ * tiene efecto la primera vez que se llama.
+ *
+ * @returns Promesa que se resuelve al reprogramar las notificaciones pendientes
+ */
+export async function listenWebhookEvents() {
+  if (listening) return;
+  listening = true;
+
+  for (const event of APP_EVENTS) {
+    appEvents.on(event, (doc: Document) => {
+      dispatchEvent(event, doc).catch((err) =>
+        console.error("Error creando las notificaciones del webhook:", err),
+      );
+    });
+  }
+
+  const pending = await WebhookDeliveryModel.find({ status: "pending" });
+  for (const delivery of pending) {
+    const delay = (delivery.nextAttemptAt?.getTime() ?? 0) - Date.now();
+    schedule(delivery._id as Types.ObjectId, Math.max(delay, 0));
+  }
+}
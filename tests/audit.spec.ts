@@ -0,0 +1,126 @@
+import { describe, beforeAll, beforeEach, test, expect } from "vitest";
+import request from "supertest";
+import { setupApp } from "../src/app.js";
+import { signToken } from "../src/utils/tokens.js";
+import { AuditEntryModel } from "../src/models/audit.js";
+import { GoodModel } from "../src/models/good.js";
+import { HunterModel } from "../src/models/hunter.js";
+import { MerchantModel } from "../src/models/merchant.js";
+import { TransactionModel } from "../src/models/transaction.js";
+import type { Express } from "express";
+
+let app: Express;
+/** Cliente autenticado como administrador */
+let api: ReturnType<typeof request.agent>;
+
+beforeAll(async () => {
+  app = await setupApp();
+  api = request.agent(app).auth(signToken({ sub: "vesemir", role: "admin" }), { type: "bearer" });
+});
+
+beforeEach(async () => {
+  await Promise.all([
+    GoodModel.deleteMany({}),
+    HunterModel.deleteMany({}),
+    MerchantModel.deleteMany({}),
+    TransactionModel.deleteMany({}),
+  ]);
+  await AuditEntryModel.deleteMany({});
+});
+
+const sword = { id: 601, name: "Espada de plata", material: "acero", weight: 2.5, value: 250, stock: 5 };
+
+describe("Historial de cambios en /audit", () => {
+  test("registra la creación, modificación y borrado lógico de un bien", async () => {
+    const created = await api.post("/goods").send(sword).expect(201);
+    const id = created.body._id;
+    await api.patch(`/goods/${id}`).send({ value: 300 }).expect(200);
+    await api.delete(`/goods/${id}`).expect(200);
+
+    const res = await api.get("/audit").query({ entity: "good", id, sort: "timestamp" }).expect(200);
+    expect(res.body.total).toBe(3);
+    const [create, update, remove] = res.body.data;
+    expect(create).toMatchObject({ action: "create", before: null, actor: { sub: "vesemir", role: "admin" }, method: "POST", route: "/goods" });
+    expect(update).toMatchObject({ action: "update", changes: ["value"], route: `/goods/${id}` });
+    expect(update.before.value).toBe(250);
+    expect(update.after.value).toBe(300);
+    expect(remove).toMatchObject({ action: "update", changes: ["deletedAt"] });
+    expect(remove.before.deletedAt).toBeNull();
+  });
+
+  test("registra los cambios de stock y monedas de una transacción", async () => {
+    const good = await GoodModel.create(sword);
+    const hunter = await HunterModel.create({ name: "Geralt", type: "brujo", experience: 95, coins: 1000, email: "geralt@rivia.com", monsterSpecialty: ["vampiros"] });
+    await AuditEntryModel.deleteMany({});
+
+    await api
+      .post("/transactions")
+      .send({ type: "purchase", buyerName: "Geralt", items: [{ goodName: "Espada de plata", quantity: 2 }] })
+      .expect(201);
+
+    const goods = await api.get("/audit").query({ entity: "good", id: String(good._id) }).expect(200);
+    expect(goods.body.data).toHaveLength(1);
+    expect(goods.body.data[0]).toMatchObject({ action: "update", changes: ["stock"], route: "/transactions" });
+    expect(goods.body.data[0].after.stock).toBe(3);
+
+    const hunters = await api.get("/audit").query({ entity: "hunter", id: String(hunter._id) }).expect(200);
+    expect(hunters.body.data[0]).toMatchObject({ changes: ["coins"] });
+    expect(hunters.body.data[0].after.coins).toBe(500);
+
+    const transactions = await api.get("/audit").query({ entity: "transaction", action: "create" }).expect(200);
+    expect(transactions.body.total).toBe(1);
+  });
+
+  test("no registra nada si la transacción se aborta", async () => {
+    await GoodModel.create(sword);
+    await HunterModel.create({ name: "Geralt", type: "brujo", experience: 95, coins: 10, email: "geralt@rivia.com", monsterSpecialty: ["vampiros"] });
+    await AuditEntryModel.deleteMany({});
+
+    await api
+      .post("/transactions")
+      .send({ type: "purchase", buyerName: "Geralt", items: [{ goodName: "Espada de plata", quantity: 1 }] })
+      .expect(400);
+
+    expect(await AuditEntryModel.countDocuments()).toBe(0);
+  });
+
+  test("registra una entrada por documento en updateMany y deleteMany", async () => {
+    await HunterModel.create([
+      { name: "Geralt", type: "brujo", experience: 95, coins: 1000, email: "geralt@rivia.com", monsterSpecialty: ["vampiros"] },
+      { name: "Ciri", type: "brujo", experience: 60, coins: 1000, email: "ciri@cintra.com", monsterSpecialty: ["espectros"] },
+    ]);
+    await AuditEntryModel.deleteMany({});
+
+    await HunterModel.updateMany({}, { isActive: false });
+    await HunterModel.deleteMany({ name: "Ciri" });
+
+    const updates = await AuditEntryModel.find({ entity: "hunter", action: "update" }).lean();
+    expect(updates).toHaveLength(2);
+    expect(updates.map((entry) => entry.changes)).toEqual([["isActive"], ["isActive"]]);
+    const deletes = await AuditEntryModel.find({ entity: "hunter", action: "delete" }).lean();
+    expect(deletes).toHaveLength(1);
+    expect(deletes[0]).toMatchObject({ actor: null, after: null, before: { name: "Ciri", isActive: false } });
+  });
+
+  test("filtra por intervalo de fechas y usuario", async () => {
+    await api.post("/goods").send(sword).expect(201);
+
+    const past = await api.get("/audit").query({ to: "2000-01-01T00:00:00Z" }).expect(200);
+    expect(past.body.total).toBe(0);
+    const recent = await api.get("/audit").query({ from: "2000-01-01T00:00:00Z", actor: "vesemir" }).expect(200);
+    expect(recent.body.total).toBe(1);
+    const other = await api.get("/audit").query({ actor: "lambert" }).expect(200);
+    expect(other.body.total).toBe(0);
+  });
+
+  test("GET /audit → 400 si la entidad no existe", async () => {
+    await api.get("/audit").query({ entity: "dragon" }).expect(400);
+  });
+
+  test("GET /audit → 403 para usuarios que no son administradores", async () => {
+    await request(app)
+      .get("/audit")
+      .set("Authorization", `Bearer ${signToken({ sub: "ro", role: "read-only" })}`)
+      .expect(403);
+  });
+});
@@ -0,0 +1,307 @@
+import { describe, beforeAll, beforeEach, afterEach, test, expect, vi } from "vitest";
+import request from "supertest";
+import { setupApp } from "../src/app.js";
+import { signToken, verifyToken, Role } from "../src/utils/tokens.js";
+import { GoodModel } from "../src/models/good.js";
+import { HunterModel, HunterDocument } from "../src/models/hunter.js";
+import { MerchantModel, MerchantDocument } from "../src/models/merchant.js";
+import { TransactionModel } from "../src/models/transaction.js";
+import { InventoryModel } from "../src/models/inventory.js";
+import type { Express } from "express";
+
+let app: Express;
+let geralt: HunterDocument;
+let ciri: HunterDocument;
+let zoltan: MerchantDocument;
+let hattori: MerchantDocument;
+
+/**
+ * Cabecera `Authorization` de un usuario con el rol y la parte indicados.
+ */
+const bearer = (role: Role, party?: { _id: unknown }) =>
+  `Bearer ${signToken({ sub: role, role, party: party ? String(party._id) : undefined })}`;
+
+beforeAll(async () => {
+  app = await setupApp();
+});
+
+beforeEach(async () => {
+  await Promise.all([
+    GoodModel.deleteMany({}),
+    HunterModel.deleteMany({}),
+    MerchantModel.deleteMany({}),
+    TransactionModel.deleteMany({}),
+    InventoryModel.deleteMany({}),
+  ]);
+  await GoodModel.create({ id: 501, name: "Espada de plata", material: "acero", weight: 2.5, value: 250, stock: 10 });
+  [geralt, ciri] = await HunterModel.create([
+    { name: "Geralt", type: "brujo", experience: 95, coins: 1000, monsterSpecialty: ["vampiros"], email: "geralt@rivia.com" },
+    { name: "Ciri", type: "brujo", experience: 60, coins: 1000, monsterSpecialty: ["espectros"], email: "ciri@cintra.com" },
+  ]);
+  [zoltan, hattori] = await MerchantModel.create([
+    { name: "Zoltan", location: "Novigrado", specialty: "armero", inventorySize: 50, reputation: 8, contact: "zoltan@dwarves.com" },
+    { name: "Hattori", location: "Novigrado", specialty: "herrero", inventorySize: 50, reputation: 7, contact: "hattori@ex.com" },
+  ]);
+});
+
+describe("Autenticación con token de acceso", () => {
+  test("GET /goods sin token → 401 UNAUTHENTICATED", async () => {
+    const res = await request(app).get("/goods").expect(401);
+    expect(res.headers["www-authenticate"]).toMatch(/^Bearer/);
+    expect(res.body.code).toBe("UNAUTHENTICATED");
+  });
+
+  test("GET /goods con token firmado con otro secreto → 401", async () => {
+    const token = signToken({ sub: "intruso", role: "admin" }, 60, "otro-secreto");
+    await request(app).get("/goods").set("Authorization", `Bearer ${token}`).expect(401);
+  });
+
+  test("POST /goods/import sin token → 401 antes de leer el cuerpo", async () => {
+    const res = await request(app).post("/goods/import").set("Content-Type", "application/json").send("{ no es JSON").expect(401);
+    expect(res.body.code).toBe("UNAUTHENTICATED");
+  });
+
+  test("GET /openapi.json no exige token", async () => {
+    await request(app).get("/openapi.json").expect(200);
+  });
+
+  test("GET /auth/me → 200 con los datos del token", async () => {
+    const res = await request(app).get("/auth/me").set("Authorization", bearer("merchant", zoltan)).expect(200);
+    expect(res.body).toMatchObject({ sub: "merchant", role: "merchant", party: String(zoltan._id) });
+  });
+});
+
+describe("Caducidad de los tokens", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("verifyToken rechaza un token caducado", () => {
+    const token = signToken({ sub: "geralt", role: "read-only" }, 60);
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.now() + 61_000);
+    expect(() => verifyToken(token)).toThrow(/caducado/);
+  });
+
+  test("verifyToken acepta un token sin caducidad", () => {
+    const token = signToken({ sub: "geralt", role: "read-only" }, 0);
+    expect(verifyToken(token)).not.toHaveProperty("exp");
+  });
+});
+
+describe("POST /auth/tokens", () => {
+  test("un administrador emite un token de mercader que después es válido", async () => {
+    const res = await request(app)
+      .post("/auth/tokens")
+      .set("Authorization", bearer("admin"))
+      .send({ sub: "zoltan", role: "merchant", party: String(zoltan._id) })
+      .expect(201);
+    expect(res.body.claims).toMatchObject({ sub: "zoltan", role: "merchant", party: String(zoltan._id) });
+    await request(app).get("/auth/me").set("Authorization", `Bearer ${res.body.token}`).expect(200);
+  });
+
+  test("→ 404 si el mercader no existe", async () => {
+    await request(app)
+      .post("/auth/tokens")
+      .set("Authorization", bearer("admin"))
+      .send({ sub: "nadie", role: "merchant", party: "507f1f77bcf86cd799439011" })
+      .expect(404);
+  });
+
+  test("→ 403 si no es administrador", async () => {
+    const res = await request(app)
+      .post("/auth/tokens")
+      .set("Authorization", bearer("merchant", zoltan))
+      .send({ sub: "zoltan", role: "admin" })
+      .expect(403);
+    expect(res.body.code).toBe("FORBIDDEN");
+  });
+});
+
+describe("Autorización por rol", () => {
+  test("read-only puede listar pero no crear bienes", async () => {
+    await request(app).get("/goods").set("Authorization", bearer("read-only")).expect(200);
+    await request(app)
+      .post("/goods")
+      .set("Authorization", bearer("read-only"))
+      .send({ id: 502, name: "Daga", material: "acero", weight: 1, value: 80 })
+      .expect(403);
+    expect(await GoodModel.countDocuments()).toBe(1);
+  });
+
+  test("un cazador no puede eliminar cazadores", async () => {
+    await request(app).delete("/hunters").query({ name: "Geralt" }).set("Authorization", bearer("hunter", geralt)).expect(403);
+    expect(await HunterModel.exists({ name: "Geralt" })).not.toBeNull();
+  });
+
+  test("un mercader no puede eliminar transacciones", async () => {
+    await request(app)
+      .delete("/transactions/507f1f77bcf86cd799439011")
+      .set("Authorization", bearer("merchant", zoltan))
+      .expect(403);
+  });
+});
+
+describe("Reglas de propiedad", () => {
+  test("un mercader modifica su propio documento por id", async () => {
+    const res = await request(app)
+      .patch(`/merchants/${zoltan._id}`)
+      .set("Authorization", bearer("merchant", zoltan))
+      .send({ location: "Oxenfurt" })
+      .expect(200);
+    expect(res.body.location).toBe("Oxenfurt");
+  });
+
+  test("un mercader no puede modificar a otro mercader", async () => {
+    await request(app)
+      .patch("/merchants")
+      .query({ name: "Hattori" })
+      .set("Authorization", bearer("merchant", zoltan))
+      .send({ location: "Oxenfurt" })
+      .expect(403);
+    expect((await MerchantModel.findById(hattori._id))!.location).toBe("Novigrado");
+  });
+
+  test("solo los administradores reponen inventario sin pagarlo", async () => {
+    await request(app)
+      .post(`/merchants/${zoltan._id}/inventory`)
+      .set("Authorization", bearer("merchant", zoltan))
+      .send({ goodName: "Espada de plata", quantity: 2 })
+      .expect(403);
+    await request(app)
+      .post(`/merchants/${hattori._id}/inventory`)
+      .set("Authorization", bearer("merchant", zoltan))
+      .send({ goodName: "Espada de plata", quantity: 2 })
+      .expect(403);
+    expect(await InventoryModel.countDocuments()).toBe(0);
+
+    await request(app)
+      .post(`/merchants/${zoltan._id}/inventory`)
+      .set("Authorization", bearer("admin"))
+      .send({ goodName: "Espada de plata", quantity: 2 })
+      .expect(201);
+  });
+
+  test("un cazador modifica su documento por nombre pero no el de otro", async () => {
+    await request(app)
+      .patch("/hunters")
+      .query({ name: "Geralt" })
+      .set("Authorization", bearer("hunter", geralt))
+      .send({ preferredWeapon: "Espada de plata" })
+      .expect(200);
+    await request(app)
+      .patch(`/hunters/${ciri._id}`)
+      .set("Authorization", bearer("hunter", geralt))
+      .send({ preferredWeapon: "Espada de acero" })
+      .expect(403);
+  });
+
+  test("un cazador eliminado no modifica por nombre al cazador vivo que se llama igual", async () => {
+    await HunterModel.updateOne({ _id: geralt._id }, { name: "Ciri", deletedAt: new Date() });
+    await request(app)
+      .patch("/hunters")
+      .query({ name: "Ciri" })
+      .set("Authorization", bearer("hunter", geralt))
+      .send({ preferredWeapon: "Espada de acero" })
+      .expect(403);
+    expect((await HunterModel.findById(ciri._id))!.preferredWeapon).toBe("");
+  });
+
+  test("un cazador no puede modificar sus monedas, experiencia ni tipo", async () => {
+    for (const body of [{ coins: 99999 }, { experience: 100 }, { type: "noble" }, { email: "geralt@kaer-morhen.com", coins: 5000 }]) {
+      const res = await request(app).patch(`/hunters/${geralt._id}`).set("Authorization", bearer("hunter", geralt)).send(body).expect(403);
+      expect(res.body.code).toBe("FORBIDDEN");
+    }
+    const stored = (await HunterModel.findById(geralt._id))!;
+    expect(stored).toMatchObject({ coins: 1000, experience: 95, type: "brujo", email: "geralt@rivia.com" });
+
+    await request(app).patch(`/hunters/${geralt._id}`).set("Authorization", bearer("admin")).send({ coins: 5000 }).expect(200);
+  });
+
+  test("un mercader no puede modificar sus monedas, reputación ni capacidad", async () => {
+    for (const body of [{ coins: 99999 }, { reputation: 10 }, { inventorySize: 1000 }]) {
+      await request(app).patch("/merchants").query({ name: "Zoltan" }).set("Authorization", bearer("merchant", zoltan)).send(body).expect(403);
+    }
+    const stored = (await MerchantModel.findById(zoltan._id))!;
+    expect(stored).toMatchObject({ coins: 0, reputation: 8, inventorySize: 50 });
+  });
+
+  test("un cazador compra para sí mismo pero no en nombre de otro", async () => {
+    await request(app)
+      .post("/transactions")
+      .set("Authorization", bearer("hunter", geralt))
+      .send({ type: "purchase", buyerName: "Geralt", items: [{ goodName: "Espada de plata", quantity: 1 }] })
+      .expect(201);
+    const res = await request(app)
+      .post("/transactions")
+      .set("Authorization", bearer("hunter", geralt))
+      .send({ type: "purchase", buyerName: "Ciri", items: [{ goodName: "Espada de plata", quantity: 1 }] })
+      .expect(403);
+    expect(res.body.code).toBe("FORBIDDEN");
+    expect(await TransactionModel.countDocuments()).toBe(1);
+    expect((await HunterModel.findById(ciri._id))!.coins).toBe(1000);
+  });
+
+  test("un mercader no puede cobrar a un cazador", async () => {
+    await request(app)
+      .post(`/merchants/${zoltan._id}/inventory`)
+      .set("Authorization", bearer("admin"))
+      .send({ goodName: "Espada de plata", quantity: 2 })
+      .expect(201);
+    const charge = { type: "purchase", buyerName: "Geralt", sellerName: "Zoltan", items: [{ goodName: "Espada de plata", quantity: 1 }] };
+    const res = await request(app).post("/transactions").set("Authorization", bearer("merchant", zoltan)).send(charge).expect(403);
+    expect(res.body.code).toBe("FORBIDDEN");
+    expect(await TransactionModel.countDocuments()).toBe(0);
+
+    const created = await request(app).post("/transactions").set("Authorization", bearer("hunter", geralt)).send(charge).expect(201);
+    const { coins } = (await HunterModel.findById(geralt._id))!;
+    await request(app)
+      .put(`/transactions/${created.body._id}`)
+      .set("Authorization", bearer("merchant", zoltan))
+      .send({ ...charge, buyerName: "Ciri" })
+      .expect(403);
+    expect((await HunterModel.findById(geralt._id))!.coins).toBe(coins);
+    expect((await HunterModel.findById(ciri._id))!.coins).toBe(1000);
+  });
+
+  test("un cazador solo ve sus propias transacciones", async () => {
+    const admin = bearer("admin");
+    const own = await request(app)
+      .post("/transactions")
+      .set("Authorization", admin)
+      .send({ type: "purchase", buyerName: "Geralt", items: [{ goodName: "Espada de plata", quantity: 1 }] })
+      .expect(201);
+    const other = await request(app)
+      .post("/transactions")
+      .set("Authorization", admin)
+      .send({ type: "purchase", buyerName: "Ciri", items: [{ goodName: "Espada de plata", quantity: 1 }] })
+      .expect(201);
+
+    const token = bearer("hunter", geralt);
+    await request(app).get(`/transactions/${own.body._id}`).set("Authorization", token).expect(200);
+    await request(app).get(`/transactions/${other.body._id}`).set("Authorization", token).expect(403);
+    await request(app).get("/transactions/client").query({ clientName: "Ciri" }).set("Authorization", token).expect(403);
+
+    const res = await request(app)
+      .get("/transactions/date-range")
+      .query({ startDate: "2000-01-01T00:00:00Z", endDate: "2100-01-01T00:00:00Z" })
+      .set("Authorization", token)
+      .expect(200);
+    expect(res.body.total).toBe(1);
+    expect(res.body.data[0]._id).toBe(own.body._id);
+  });
+
+  test("read-only ve las transacciones de cualquier cliente", async () => {
+    await request(app)
+      .post("/transactions")
+      .set("Authorization", bearer("admin"))
+      .send({ type: "purchase", buyerName: "Ciri", items: [{ goodName: "Espada de plata", quantity: 1 }] })
+      .expect(201);
+    const res = await request(app)
+      .get("/transactions/client")
+      .query({ clientName: "Ciri" })
+      .set("Authorization", bearer("read-only"))
+      .expect(200);
+    expect(res.body.total).toBe(1);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, beforeAll, beforeEach, test, expect } from "vitest";
+import request from "supertest";
+import { setupApp } from "../src/app.js";
+import { signToken } from "../src/utils/tokens.js";
+import { GoodModel } from "../src/models/good.js";
+import { HunterModel } from "../src/models/hunter.js";
+import { MerchantModel } from "../src/models/merchant.js";
+import type { Express } from "express";
+
+let app: Express;
+/** Cliente autenticado como administrador */
+let api: ReturnType<typeof request.agent>;
+
+beforeAll(async () => {
+  app = await setupApp();
+  api = request.agent(app).auth(signToken({ sub: "admin", role: "admin" }), { type: "bearer" });
+});
+
+beforeEach(async () => {
+  await Promise.all([GoodModel.deleteMany({}), HunterModel.deleteMany({}), MerchantModel.deleteMany({})]);
+});
+
+const goodsCsv = [
+  "id,name,material,weight,value,description",
+  '901,Espada de plata,acero,2.5,250,"Forjada en Mahakam, con runas"',
+  "902,Daga de madera,madera,1,15,",
+].join("\n");
+
+describe("POST /<colección>/import", () => {
+  test("importa un array JSON e informa de las filas no válidas", async () => {
+    const res = await api
+      .post("/goods/import")
+      .send([
+        { id: 901, name: "Espada de plata", material: "acero", weight: 2.5, value: 250 },
+        { id: 902, name: "Daga", material: "oro", weight: 1, value: 80 },
+        { id: 903, name: "Escudo de roble", material: "madera", weight: 5, value: 60 },
+      ])
+      .expect(200);
+    expect(res.body).toMatchObject({ total: 3, inserted: 2, updated: 0, failed: 1 });
+    expect(res.body.errors).toEqual([expect.objectContaining({ location: "body", field: "1.material" })]);
+    expect(await GoodModel.countDocuments()).toBe(2);
+  });
+
+  test("importa un CSV convirtiendo cada celda al tipo de su campo", async () => {
+    const res = await api.post("/goods/import").set("Content-Type", "text/csv").send(goodsCsv).expect(200);
+    expect(res.body).toMatchObject({ total: 2, inserted: 2, failed: 0 });
+    const sword = await GoodModel.findOne({ id: 901 });
+    expect(sword!.weight).toBe(2.5);
+    expect(sword!.description).toBe("Forjada en Mahakam, con runas");
+  });
+
+  test("separa con ; los valores de los campos de tipo array", async () => {
+    await api
+      .post("/hunters/import")
+      .set("Content-Type", "text/csv")
+      .send("name,type,experience,email,monsterSpecialty\nGeralt,brujo,95,geralt@rivia.com,vampiros;espectros\n")
+      .expect(200);
+    expect((await HunterModel.findOne({ name: "Geralt" }))!.monsterSpecialty).toEqual(["vampiros", "espectros"]);
+  });
+
+  test("informa de los id repetidos sin upsert", async () => {
+    await GoodModel.create({ id: 901, name: "Espada de plata", material: "acero", weight: 2.5, value: 250 });
+    const res = await api.post("/goods/import").set("Content-Type", "text/csv").send(goodsCsv).expect(200);
+    expect(res.body).toMatchObject({ inserted: 1, failed: 1 });
+    expect(res.body.errors).toEqual([expect.objectContaining({ field: "0" })]);
+  });
+
+  test("upsert=true actualiza los mercaderes existentes por nombre", async () => {
+    await MerchantModel.create({ name: "Zoltan", location: "Novigrado", specialty: "armero", inventorySize: 50, reputation: 8, contact: "zoltan@dwarves.com" });
+    const res = await api
+      .post("/merchants/import")
+      .query({ upsert: true })
+      .send([
+        { name: "Zoltan", location: "Oxenfurt", specialty: "armero", inventorySize: 60, reputation: 8, contact: "zoltan@dwarves.com" },
+        { name: "Hattori", location: "Novigrado", specialty: "herrero", inventorySize: 20, reputation: 7, contact: "hattori@ex.com" },
+      ])
+      .expect(200);
+    expect(res.body).toMatchObject({ inserted: 1, updated: 1, failed: 0 });
+    expect(await MerchantModel.countDocuments()).toBe(2);
+    expect((await MerchantModel.findOne({ name: "Zoltan" }))!.location).toBe("Oxenfurt");
+  });
+
+  test("atomic=true no importa nada si alguna fila no es válida", async () => {
+    const res = await api
+      .post("/goods/import")
+      .query({ atomic: true })
+      .send([
+        { id: 901, name: "Espada de plata", material: "acero", weight: 2.5, value: 250 },
+        { id: 902, name: "Daga", material: "acero", weight: -1, value: 80 },
+      ])
+      .expect(400);
+    expect(res.body.errors[0].field).toBe("1.weight");
+    expect(await GoodModel.countDocuments()).toBe(0);
+  });
+
+  test("atomic=true deshace las filas guardadas si otra falla en la base de datos", async () => {
+    await GoodModel.create({ id: 902, name: "Daga de acero", material: "acero", weight: 1, value: 80 });
+    await api
+      .post("/goods/import")
+      .query({ atomic: true })
+      .send([
+        { id: 901, name: "Espada de plata", material: "acero", weight: 2.5, value: 250 },
+        { id: 902, name: "Daga de acero", material: "acero", weight: 1, value: 80 },
+      ])
+      .expect(400);
+    expect(await GoodModel.exists({ id: 901 })).toBeNull();
+  });
+
+  test("admite importaciones mayores que el límite del resto de rutas", async () => {
+    const rows = Array.from({ length: 500 }, (_, i) => ({ id: 10000 + i, name: `Runa ${i}`, material: "madera", weight: 1, value: 10, description: "r".repeat(200) }));
+    expect(JSON.stringify(rows).length).toBeGreaterThan(100_000);
+    const res = await api.post("/goods/import").send(rows).expect(200);
+    expect(res.body).toMatchObject({ total: 500, inserted: 500, failed: 0 });
+  });
+
+  test("→ 400 si el cuerpo no es un array ni un CSV", async () => {
+    await api.post("/goods/import").send({ id: 901 }).expect(400);
+  });
+
+  test("→ 403 para usuarios que no son administradores", async () => {
+    await request(app)
+      .post("/goods/import")
+      .set("Authorization", `Bearer ${signToken({ sub: "ro", role: "read-only" })}`)
+      .send([])
+      .expect(403);
+  });
+});
+
+describe("GET /<colección>/export", () => {
+  test("exporta en JSON por defecto", async () => {
+    await api.post("/goods/import").set("Content-Type", "text/csv").send(goodsCsv).expect(200);
+    const res = await api.get("/goods/export").expect(200);
+    expect(res.headers["content-type"]).toMatch(/application\/json/);
+    expect(res.headers["content-disposition"]).toMatch(/goods\.json/);
+    expect(res.body.map((good: { id: number }) => good.id)).toEqual([901, 902]);
+  });
+
+  test("exporta en CSV y la exportación se puede volver a importar", async () => {
+    await api.post("/goods/import").set("Content-Type", "text/csv").send(goodsCsv).expect(200);
+    const res = await api.get("/goods/export").query({ format: "csv" }).buffer(true).parse((response, callback) => {
+      let text = "";
+      response.on("data", (chunk: Buffer) => (text += chunk));
+      response.on("end", () => callback(null, text));
+    }).expect(200);
+    expect(res.headers["content-type"]).toMatch(/text\/csv/);
+    expect(res.body.split("\r\n")[0]).toMatch(/^_id,id,name,description/);
+
+    await GoodModel.deleteMany({});
+    const again = await api.post("/goods/import").set("Content-Type", "text/csv").send(res.body).expect(200);
+    expect(again.body).toMatchObject({ inserted: 2, failed: 0 });
+  });
+
+  test("exporta una colección vacía como []", async () => {
+    const res = await api.get("/hunters/export").expect(200);
+    expect(res.body).toEqual([]);
+  });
+
+  test("→ 400 si el formato no es válido", async () => {
+    await api.get("/merchants/export").query({ format: "xml" }).expect(400);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, beforeAll, beforeEach, test, expect } from "vitest";
+import request from "supertest";
+import { setupApp } from "../src/app.js";
+import { signToken } from "../src/utils/tokens.js";
+import { GoodModel } from "../src/models/good.js";
+import { HunterModel } from "../src/models/hunter.js";
+import type { Express } from "express";
+
+let app: Express;
+/** Cliente autenticado como administrador */
+let api: ReturnType<typeof request.agent>;
+
+beforeAll(async () => {
+  app = await setupApp();
+  api = request.agent(app).auth(signToken({ sub: "admin", role: "admin" }), { type: "bearer" });
+});
+
+beforeEach(async () => {
+  await Promise.all([GoodModel.deleteMany({}), HunterModel.deleteMany({})]);
+  await GoodModel.create({ id: 401, name: "Espada de plata", description: "Forjada para monstruos", material: "acero", weight: 3, value: 500, stock: 1 });
+  await HunterModel.create({ name: "Geralt", email: "geralt@kaermorhen.com", type: "brujo", experience: 100, preferredWeapon: "Espada de acero", monsterSpecialty: ["vampiros"] });
+});
+
+describe("Respuestas de error application/problem+json", () => {
+  test("GET /goods/:id → 404 con código NOT_FOUND", async () => {
+    const res = await api
+      .get("/goods/507f1f77bcf86cd799439011")
+      .expect("Content-Type", /application\/problem\+json/)
+      .expect(404);
+    expect(res.body).toEqual({
+      type: "about:blank",
+      title: "Not Found",
+      status: 404,
+      detail: "Bien no encontrado",
+      code: "NOT_FOUND",
+      instance: "/goods/507f1f77bcf86cd799439011",
+    });
+  });
+
+  test("POST /goods → 400 VALIDATION_FAILED con los campos erróneos", async () => {
+    const res = await api
+      .post("/goods")
+      .send({ id: 402, name: "Daga", material: "acero", value: 80 })
+      .expect("Content-Type", /application\/problem\+json/)
+      .expect(400);
+    expect(res.body.code).toBe("VALIDATION_FAILED");
+    expect(res.body.status).toBe(400);
+    expect(res.body.errors).toContainEqual({ location: "body", field: "weight", message: "El campo es obligatorio" });
+  });
+
+  test("POST /hunters → 400 VALIDATION_FAILED si el email no es válido", async () => {
+    const res = await api
+      .post("/hunters")
+      .send({ name: "Ciri", email: "no-es-un-email", type: "brujo", experience: 10, preferredWeapon: "Espada" })
+      .expect(400);
+    expect(res.body.code).toBe("VALIDATION_FAILED");
+    expect(res.body.errors.map((e: { field: string }) => e.field)).toContain("email");
+  });
+
+  test("POST /goods → 400 MALFORMED_BODY si el cuerpo no es JSON válido", async () => {
+    const res = await api
+      .post("/goods")
+      .set("Content-Type", "application/json")
+      .send('{"name": ')
+      .expect("Content-Type", /application\/problem\+json/)
+      .expect(400);
+    expect(res.body.code).toBe("MALFORMED_BODY");
+  });
+
+  test("POST /goods → 413 PAYLOAD_TOO_LARGE si el cuerpo supera el límite", async () => {
+    const res = await api
+      .post("/goods")
+      .send({ id: 1, name: "Espada", material: "acero", weight: 1, value: 1, description: "x".repeat(200_000) })
+      .expect("Content-Type", /application\/problem\+json/)
+      .expect(413);
+    expect(res.body.code).toBe("PAYLOAD_TOO_LARGE");
+  });
+
+  test("POST /goods → 409 CONFLICT si el identificador ya existe", async () => {
+    const res = await api
+      .post("/goods")
+      .send({ id: 401, name: "Otra espada", description: "Repetida", material: "acero", weight: 3, value: 100 })
+      .expect(409);
+    expect(res.body.code).toBe("CONFLICT");
+  });
+
+  test("POST /transactions → 400 INSUFFICIENT_STOCK si la posada no tiene unidades", async () => {
+    const res = await api
+      .post("/transactions")
+      .send({ type: "purchase", buyerName: "Geralt", items: [{ goodName: "Espada de plata", quantity: 2 }] })
+      .expect(400);
+    expect(res.body.code).toBe("INSUFFICIENT_STOCK");
+    expect(res.body.detail).toMatch(/Espada de plata/);
+  });
+
+  test("GET /goods?sort=color → 400 con el campo sort", async () => {
+    const res = await api.get("/goods").query({ sort: "color" }).expect(400);
+    expect(res.body.errors).toEqual([{ location: "query", field: "sort", message: "No se puede ordenar por color" }]);
+  });
+
+  test("Ruta desconocida → 501 NOT_IMPLEMENTED", async () => {
+    const res = await api
+      .get("/dragones")
+      .expect("Content-Type", /application\/problem\+json/)
+      .expect(501);
+    expect(res.body.code).toBe("NOT_IMPLEMENTED");
+  });
+});
@@ -2,6 +2,7 @@ import { describe, beforeAll, beforeEach, test, expect } from "vitest";
 import request from "supertest";
 import mongoose from "mongoose";
 import { setupApp } from "../src/app.js";
+import { signToken } from "../src/utils/tokens.js";
 import { GoodModel } from "../src/models/good.js";
 import { HunterModel } from "../src/models/hunter.js";
 import { MerchantModel } from "../src/models/merchant.js";
@@ -9,9 +10,20 @@ import { TransactionModel } from "../src/models/transaction.js";
 import type { Express } from "express";
 
 let app: Express;
+/** Cliente autenticado como administrador */
+let api: ReturnType<typeof request.agent>;
+
+/** Campos señalados en una respuesta 400 de validación */
+const invalidFields = (res: request.Response) =>
+  res.body.errors.map((e: { field: string }) => e.field);
+
+/** Mensajes de una respuesta 400 de validación */
+const errorMessages = (res: request.Response) =>
+  res.body.errors.map((e: { message: string }) => e.message).join("\n");
 
 beforeAll(async () => {
   app = await setupApp();
+  api = request.agent(app).auth(signToken({ sub: "admin", role: "admin" }), { type: "bearer" });
 });
 
 beforeEach(async () => {
@@ -34,7 +46,7 @@ describe("CRUD completo de /goods", () => {
       value: 10,
     };
     const before = await GoodModel.countDocuments();
-    const res = await request(app).post("/goods").send(good).expect(201);
+    const res = await api.post("/goods").send(good).expect(201);
     expect(res.body).toMatchObject(good);
     expect(res.body).toHaveProperty("_id");
     const after = await GoodModel.countDocuments();
@@ -47,8 +59,8 @@ describe("CRUD completo de /goods", () => {
   test("POST /goods → 400 si falta campo required y no crea documento", async () => {
     const bad = { name: "Bueno", material: "acero", weight: 2, value: 20 };
     const before = await GoodModel.countDocuments();
-    const res = await request(app).post("/goods").send(bad).expect(400);
-    expect(res.body).toHaveProperty("errors.id");
+    const res = await api.post("/goods").send(bad).expect(400);
+    expect(invalidFields(res)).toContain("id");
     const after = await GoodModel.countDocuments();
     expect(after).toBe(before);
   });
@@ -62,14 +74,16 @@ describe("CRUD completo de /goods", () => {
       value: 5,
     };
     const before = await GoodModel.countDocuments();
-    const res = await request(app).post("/goods").send(bad).expect(400);
-    expect(res.body.message).toMatch(/no es un material permitido/);
+    const res = await api.post("/goods").send(bad).expect(400);
+    expect(invalidFields(res)).toContain("material");
+    expect(errorMessages(res)).toMatch(/Debe ser uno de: madera/);
     const after = await GoodModel.countDocuments();
     expect(after).toBe(before);
   });
 
-  test("GET /goods → 404 si no hay ninguno", async () => {
-    await request(app).get("/goods").expect(404);
+  test("GET /goods → 200 y página vacía si no hay ninguno", async () => {
+    const res = await api.get("/goods").expect(200);
+    expect(res.body).toMatchObject({ data: [], total: 0, page: 1, pages: 0 });
   });
 
   test("GET /goods → 200 y lista todos con campos correctos", async () => {
@@ -77,9 +91,9 @@ describe("CRUD completo de /goods", () => {
       { id: 3, name: "BienA", material: "plástico", weight: 3, value: 30 },
       { id: 4, name: "BienB", material: "vidrio", weight: 4, value: 40 },
     ]);
-    const res = await request(app).get("/goods").expect(200);
-    expect(res.body).toHaveLength(2);
-    const returned = res.body;
+    const res = await api.get("/goods").expect(200);
+    expect(res.body.data).toHaveLength(2);
+    const returned = res.body.data;
     const returnedIds = returned.map((g: any) => g.id);
     expect(returnedIds).toEqual(expect.arrayContaining([3, 4]));
     docs.forEach((doc) => {
@@ -103,11 +117,11 @@ describe("CRUD completo de /goods", () => {
       weight: 5,
       value: 50,
     });
-    const res = await request(app)
+    const res = await api
       .get("/goods")
       .query({ name: "FiltroX" })
       .expect(200);
-    expect(res.body[0].name).toBe("FiltroX");
+    expect(res.body.data[0].name).toBe("FiltroX");
   });
 
   test("GET /goods?description=DescX → 200 y filtra por description", async () => {
@@ -119,11 +133,11 @@ describe("CRUD completo de /goods", () => {
       weight: 6,
       value: 60,
     });
-    const res = await request(app)
+    const res = await api
       .get("/goods")
       .query({ description: "DescX" })
       .expect(200);
-    expect(res.body[0].description).toBe("DescX");
+    expect(res.body.data[0].description).toBe("DescX");
   });
 
   test("GET /goods/:id → 200 si existe", async () => {
@@ -134,17 +148,20 @@ describe("CRUD completo de /goods", () => {
       weight: 7,
       value: 70,
     });
-    const res = await request(app).get(`/goods/${doc._id}`).expect(200);
+    const res = await api.get(`/goods/${doc._id}`).expect(200);
     expect(res.body.name).toBe("GoodSeven");
   });
 
   test("GET /goods/:id → 404 si no existe", async () => {
     const fake = new mongoose.Types.ObjectId().toString();
-    await request(app).get(`/goods/${fake}`).expect(404);
+    await api.get(`/goods/${fake}`).expect(404);
   });
 
-  test("GET /goods/:id → 500 si id mal formado", async () => {
-    await request(app).get("/goods/1234").expect(500);
+  test("GET /goods/:id → 400 si id mal formado", async () => {
+    const res = await api.get("/goods/1234").expect(400);
+    expect(res.body.errors).toEqual([
+      { location: "params", field: "id", message: "No es un identificador válido" },
+    ]);
   });
 
   test("PATCH /goods?name=OldName → 200 modifica por name y persiste en DB", async () => {
@@ -155,7 +172,7 @@ describe("CRUD completo de /goods", () => {
       weight: 8,
       value: 80,
     });
-    const res = await request(app)
+    const res = await api
       .patch("/goods")
       .query({ name: "OldName" })
       .send({ value: 88 })
@@ -167,11 +184,11 @@ describe("CRUD completo de /goods", () => {
   });
 
   test("PATCH /goods?name=… → 400 sin name", async () => {
-    await request(app).patch("/goods").send({ value: 10 }).expect(400);
+    await api.patch("/goods").send({ value: 10 }).expect(400);
   });
 
   test("PATCH /goods?name=… → 400 sin body", async () => {
-    await request(app).patch("/goods").query({ name: "X" }).expect(400);
+    await api.patch("/goods").query({ name: "X" }).expect(400);
   });
 
   test("PATCH /goods?name=ValidName → 400 campo no permitido", async () => {
@@ -182,7 +199,7 @@ describe("CRUD completo de /goods", () => {
       weight: 9,
       value: 90,
     });
-    await request(app)
+    await api
       .patch("/goods")
       .query({ name: "ValidName" })
       .send({ color: "rojo" })
@@ -190,7 +207,7 @@ describe("CRUD completo de /goods", () => {
   });
 
   test("PATCH /goods?name=NonExist → 404 si no existe", async () => {
-    await request(app)
+    await api
       .patch("/goods")
       .query({ name: "NonExist" })
       .send({ value: 100 })
@@ -205,7 +222,7 @@ describe("CRUD completo de /goods", () => {
       weight: 10,
       value: 100,
     });
-    const res = await request(app)
+    const res = await api
       .patch(`/goods/${doc._id}`)
       .send({ name: "TenName2" })
       .expect(200);
@@ -223,7 +240,7 @@ describe("CRUD completo de /goods", () => {
       weight: 11,
       value: 110,
     });
-    await request(app).patch(`/goods/${doc._id}`).expect(400);
+    await api.patch(`/goods/${doc._id}`).expect(400);
   });
 
   test("PATCH /goods/:id → 400 campo no permitido", async () => {
@@ -234,7 +251,7 @@ describe("CRUD completo de /goods", () => {
       weight: 12,
       value: 120,
     });
-    await request(app)
+    await api
       .patch(`/goods/${doc._id}`)
       .send({ foo: "bar" })
       .expect(400);
@@ -242,7 +259,7 @@ describe("CRUD completo de /goods", () => {
 
   test("PATCH /goods/:id → 404 si no existe", async () => {
     const fake = new mongoose.Types.ObjectId().toString();
-    await request(app).patch(`/goods/${fake}`).send({ value: 123 }).expect(404);
+    await api.patch(`/goods/${fake}`).send({ value: 123 }).expect(404);
   });
 
   test("DELETE /goods?name=ValidName → 200 elimina por name", async () => {
@@ -253,19 +270,19 @@ describe("CRUD completo de /goods", () => {
       weight: 13,
       value: 130,
     });
-    await request(app)
+    await api
       .delete("/goods")
       .query({ name: "ValidName" })
       .expect(200);
-    expect(await GoodModel.findOne({ name: "ValidName" })).toBeNull();
+    expect((await GoodModel.findOne({ name: "ValidName" }))!.deletedAt).toBeInstanceOf(Date);
   });
 
   test("DELETE /goods?name=… → 400 sin name", async () => {
-    await request(app).delete("/goods").expect(400);
+    await api.delete("/goods").expect(400);
   });
 
   test("DELETE /goods?name=… → 404 si no existe", async () => {
-    await request(app).delete("/goods").query({ name: "NopeName" }).expect(404);
+    await api.delete("/goods").query({ name: "NopeName" }).expect(404);
   });
 
   test("DELETE /goods/:id → 200 elimina por id", async () => {
@@ -276,12 +293,148 @@ describe("CRUD completo de /goods", () => {
       weight: 14,
       value: 140,
     });
-    await request(app).delete(`/goods/${doc._id}`).expect(200);
-    expect(await GoodModel.findById(doc._id)).toBeNull();
+    await api.delete(`/goods/${doc._id}`).expect(200);
+    expect((await GoodModel.findById(doc._id))!.deletedAt).toBeInstanceOf(Date);
   });
 
   test("DELETE /goods/:id → 404 si no existe", async () => {
     const fake = new mongoose.Types.ObjectId().toString();
-    await request(app).delete(`/goods/${fake}`).expect(404);
+    await api.delete(`/goods/${fake}`).expect(404);
+  });
+});
+
+describe("Paginación y orden de /goods", () => {
+  beforeEach(async () => {
+    await GoodModel.create(
+      Array.from({ length: 5 }, (_, i) => ({
+        id: 100 + i,
+        name: `Pagina ${i}`,
+        material: "madera",
+        weight: 1,
+        value: (i * 7) % 5,
+      })),
+    );
+  });
+
+  test("GET /goods?page=2&limit=2 → devuelve la página pedida con totales", async () => {
+    const res = await api
+      .get("/goods")
+      .query({ page: 2, limit: 2, sort: "id" })
+      .expect(200);
+    expect(res.body).toMatchObject({ total: 5, page: 2, pages: 3, limit: 2 });
+    expect(res.body.data.map((g: any) => g.id)).toEqual([102, 103]);
+  });
+
+  test("GET /goods → cabecera Link con first, prev, next y last", async () => {
+    const res = await api
+      .get("/goods")
+      .query({ page: 2, limit: 2 })
+      .expect(200);
+    const link = res.headers.link;
+    expect(link).toMatch(/page=1&limit=2>; rel="first"/);
+    expect(link).toMatch(/page=1&limit=2>; rel="prev"/);
+    expect(link).toMatch(/page=3&limit=2>; rel="next"/);
+    expect(link).toMatch(/page=3&limit=2>; rel="last"/);
+  });
+
+  test("GET /goods?sort=-value,name → ordena por varios campos", async () => {
+    const res = await api
+      .get("/goods")
+      .query({ sort: "-value,name" })
+      .expect(200);
+    const values = res.body.data.map((g: any) => g.value);
+    expect(values).toEqual([...values].sort((a, b) => b - a));
+  });
+
+  test("GET /goods?limit=1000 → aplica el límite máximo del servidor", async () => {
+    const res = await api
+      .get("/goods")
+      .query({ limit: 1000 })
+      .expect(200);
+    expect(res.body.limit).toBe(100);
+  });
+
+  test("GET /goods?sort=color → 400 si el campo no es ordenable", async () => {
+    await api.get("/goods").query({ sort: "color" }).expect(400);
+  });
+
+  test("GET /goods?page=0 → 400 si la página no es un entero positivo", async () => {
+    await api.get("/goods").query({ page: 0 }).expect(400);
+  });
+});
+
+describe("Filtros de /goods", () => {
+  beforeEach(async () => {
+    await GoodModel.create([
+      { id: 201, name: "Hacha", material: "acero", weight: 6, value: 300, stock: 2 },
+      { id: 202, name: "Daga", material: "aluminio", weight: 1, value: 150, stock: 0 },
+      { id: 203, name: "Lanza", material: "madera", weight: 3, value: 200, stock: 5 },
+      { id: 204, name: "Espada", material: "aluminio", weight: 4, value: 450, stock: 1 },
+      { id: 205, name: "Mandoble", material: "acero", weight: 9, value: 900, stock: 3 },
+    ]);
+  });
+
+  const ids = (res: request.Response) =>
+    res.body.data.map((g: any) => g.id).sort();
+
+  test("GET /goods?value[gte]&value[lte] → filtra por rango", async () => {
+    const res = await api
+      .get("/goods")
+      .query({ "value[gte]": 150, "value[lte]": 300 })
+      .expect(200);
+    expect(ids(res)).toEqual([201, 202, 203]);
+  });
+
+  test("GET /goods?material=acero,aluminio → filtra por varios valores", async () => {
+    const res = await api
+      .get("/goods")
+      .query({ material: "acero,aluminio" })
+      .expect(200);
+    expect(ids(res)).toEqual([201, 202, 204, 205]);
+  });
+
+  test("GET /goods con filtros combinados", async () => {
+    const res = await api
+      .get("/goods")
+      .query({
+        "value[gte]": 100,
+        "value[lte]": 500,
+        material: "acero,aluminio",
+        "stock[gt]": 0,
+        "weight[lt]": 5,
+      })
+      .expect(200);
+    expect(ids(res)).toEqual([204]);
+  });
+
+  test("GET /goods?material[nin]=acero → excluye valores", async () => {
+    const res = await api
+      .get("/goods")
+      .query({ "material[nin]": "acero" })
+      .expect(200);
+    expect(ids(res)).toEqual([202, 203, 204]);
+  });
+
+  test("GET /goods?color=rojo → 400 si el campo no es filtrable", async () => {
+    const res = await api
+      .get("/goods")
+      .query({ color: "rojo" })
+      .expect(400);
+    expect(res.body.detail).toMatch(/color/);
+  });
+
+  test("GET /goods?value[gte]=mucho → 400 si el valor no es numérico", async () => {
+    await api
+      .get("/goods")
+      .query({ "value[gte]": "mucho" })
+      .expect(400);
+  });
+
+  test("GET /goods?material=oro → 400 si el valor no está en el enumerado", async () => {
+    await api.get("/goods").query({ material: "oro" }).expect(400);
+  });
+
+  test("GET /goods?name[gt]=A → 400 si el operador no aplica al tipo", async () => {
+    await api.get("/goods").query({ "name[gt]": "A" }).expect(400);
   });
 });
@@ -0,0 +1,174 @@
+import { describe, beforeAll, beforeEach, afterEach, test, expect, vi } from "vitest";
+import request from "supertest";
+import { setupApp } from "../src/app.js";
+import { signToken } from "../src/utils/tokens.js";
+import { GoodModel } from "../src/models/good.js";
+import { HunterModel, HunterDocument } from "../src/models/hunter.js";
+import { MerchantModel } from "../src/models/merchant.js";
+import { InventoryModel } from "../src/models/inventory.js";
+import { TransactionModel } from "../src/models/transaction.js";
+import type { Express } from "express";
+
+let app: Express;
+/** Cliente autenticado como administrador */
+let api: ReturnType<typeof request.agent>;
+let geralt: HunterDocument;
+
+/** Ejecuta una operación GraphQL con el cliente indicado */
+const gql = (query: string, variables?: Record<string, unknown>, client = api) => client.post("/graphql").send({ query, variables });
+
+/** Compra de un cazador a la posada */
+const purchase = (buyerName: string, goodName: string, quantity = 1) => api.post("/transactions").send({ type: "purchase", buyerName, items: [{ goodName, quantity }] }).expect(201);
+
+const CREATE = `mutation($input: TransactionInput!) { createTransaction(input: $input) { _id type totalAmount client { ... on Hunter { name coins } } items { quantity priceAtTransaction good { name stock } } } }`;
+
+beforeAll(async () => {
+  app = await setupApp();
+  api = request.agent(app).auth(signToken({ sub: "admin", role: "admin" }), { type: "bearer" });
+});
+
+beforeEach(async () => {
+  await Promise.all([GoodModel.deleteMany({}), HunterModel.deleteMany({}), MerchantModel.deleteMany({}), InventoryModel.deleteMany({}), TransactionModel.deleteMany({})]);
+  await GoodModel.create([
+    { id: 1001, name: "Espada de plata", material: "acero", weight: 2.5, value: 100, stock: 10 },
+    { id: 1002, name: "Daga de madera", material: "madera", weight: 1, value: 10, stock: 10 },
+    { id: 1003, name: "Poción de salud", material: "vidrio", weight: 0.2, value: 5, stock: 1 },
+  ]);
+  geralt = await HunterModel.create({ name: "Geralt", type: "brujo", experience: 95, coins: 1000, email: "geralt@rivia.com", monsterSpecialty: ["vampiros"] });
+  await HunterModel.create({ name: "Yennefer", type: "noble", experience: 90, coins: 1000, email: "yennefer@vengerberg.com", monsterSpecialty: ["djinns"] });
+  await MerchantModel.create({ name: "Zoltan", location: "Novigrado", specialty: "armero", inventorySize: 50, reputation: 8, coins: 1000, contact: "zoltan@dwarves.com" });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("POST /graphql", () => {
+  test("obtiene un cazador con sus transacciones y bienes en una sola consulta", async () => {
+    await purchase("Geralt", "Espada de plata");
+    await purchase("Geralt", "Daga de madera", 2);
+    await purchase("Yennefer", "Daga de madera");
+
+    const res = await gql(`{ hunter(name: "Geralt") { name coins transactions { type date totalAmount client { ... on Hunter { name } } items { quantity good { name material } } } } }`).expect(200);
+    expect(res.body.errors).toBeUndefined();
+    const hunter = res.body.data.hunter;
+    expect(hunter).toMatchObject({ name: "Geralt", coins: 880 });
+    expect(hunter.transactions).toHaveLength(2);
+    expect(hunter.transactions[0]).toMatchObject({ type: "purchase", totalAmount: 20, client: { name: "Geralt" }, items: [{ quantity: 2, good: { name: "Daga de madera", material: "madera" } }] });
+    expect(new Date(hunter.transactions[0].date).toISOString()).toBe(hunter.transactions[0].date);
+  });
+
+  test("agrupa las búsquedas de documentos relacionados (sin N+1)", async () => {
+    await purchase("Geralt", "Espada de plata");
+    await purchase("Geralt", "Daga de madera");
+    await purchase("Yennefer", "Poción de salud");
+
+    const find = vi.spyOn(GoodModel, "find");
+    const res = await gql(`{ transactions { data { buyer { ... on Hunter { name } } items { good { name } } } } }`).expect(200);
+    expect(res.body.data.transactions.data).toHaveLength(3);
+    expect(find).toHaveBeenCalledTimes(1);
+  });
+
+  test("pagina las transacciones de cada cliente en una sola consulta", async () => {
+    await purchase("Geralt", "Espada de plata");
+    await purchase("Geralt", "Daga de madera");
+    await purchase("Geralt", "Daga de madera", 3);
+    await purchase("Yennefer", "Poción de salud");
+
+    const aggregate = vi.spyOn(TransactionModel, "aggregate");
+    const res = await gql(`{ hunters(sort: "name") { data { name transactions(limit: 1, offset: 1) { totalAmount } } } }`).expect(200);
+    expect(res.body.data.hunters.data).toEqual([
+      { name: "Geralt", transactions: [{ totalAmount: 10 }] },
+      { name: "Yennefer", transactions: [] },
+    ]);
+    expect(aggregate).toHaveBeenCalledTimes(1);
+
+    const invalid = await gql(`{ hunter(name: "Geralt") { transactions(offset: -1) { _id } } }`).expect(200);
+    expect(invalid.body.errors[0].extensions).toMatchObject({ code: "VALIDATION_FAILED", status: 400 });
+  });
+
+  test("filtra, ordena y pagina los listados", async () => {
+    const res = await gql(`{ goods(filter: [{ field: "value", op: "gte", value: "10" }], sort: "-value", limit: 1) { total pages limit data { name value } } }`).expect(200);
+    expect(res.body.data.goods).toEqual({ total: 2, pages: 2, limit: 1, data: [{ name: "Espada de plata", value: 100 }] });
+
+    const hunters = await gql(`{ hunters(filter: [{ field: "name", value: "Yennefer" }]) { total data { name } } }`).expect(200);
+    expect(hunters.body.data.hunters).toEqual({ total: 1, data: [{ name: "Yennefer" }] });
+
+    await purchase("Geralt", "Espada de plata");
+    await purchase("Yennefer", "Daga de madera");
+    const tx = await gql(`{ transactions(clientName: "Yennefer") { total data { totalAmount } } }`).expect(200);
+    expect(tx.body.data.transactions).toEqual({ total: 1, data: [{ totalAmount: 10 }] });
+  });
+
+  test("→ 400 si un filtro no está permitido", async () => {
+    const res = await gql(`{ goods(filter: [{ field: "secret", value: "x" }]) { total } }`);
+    expect(res.body.data).toBeNull();
+    expect(res.body.errors[0].extensions).toMatchObject({ code: "VALIDATION_FAILED", status: 400 });
+  });
+
+  test("createTransaction aplica las reglas de stock, monedas y precios", async () => {
+    const res = await gql(CREATE, { input: { type: "purchase", buyerName: "Geralt", items: [{ goodName: "Espada de plata", quantity: 2 }] } }).expect(200);
+    expect(res.body.errors).toBeUndefined();
+    expect(res.body.data.createTransaction).toMatchObject({ type: "purchase", totalAmount: 200, client: { name: "Geralt", coins: 800 }, items: [{ quantity: 2, priceAtTransaction: 100, good: { name: "Espada de plata", stock: 8 } }] });
+    expect(await TransactionModel.countDocuments()).toBe(1);
+  });
+
+  test("createTransaction devuelve los mismos errores que la API REST", async () => {
+    const stock = await gql(CREATE, { input: { type: "purchase", buyerName: "Geralt", items: [{ goodName: "Poción de salud", quantity: 5 }] } }).expect(200);
+    expect(stock.body.data).toBeNull();
+    expect(stock.body.errors[0]).toMatchObject({ path: ["createTransaction"], extensions: { code: "INSUFFICIENT_STOCK", status: 400 } });
+
+    const missing = await gql(CREATE, { input: { type: "purchase", buyerName: "Ciri", items: [{ goodName: "Espada de plata", quantity: 1 }] } });
+    expect(missing.body.errors[0].extensions).toMatchObject({ code: "NOT_FOUND", status: 404 });
+
+    const invalid = await gql(CREATE, { input: { type: "purchase", buyerName: "Geralt", items: [] } });
+    expect(invalid.body.errors[0].extensions).toMatchObject({ code: "VALIDATION_FAILED", errors: [{ field: "items" }] });
+
+    expect(await TransactionModel.countDocuments()).toBe(0);
+    expect((await HunterModel.findById(geralt._id))!.coins).toBe(1000);
+  });
+
+  test("updateTransaction y deleteTransaction revierten los movimientos", async () => {
+    const tx = await purchase("Geralt", "Espada de plata");
+    const updated = await gql(`mutation($id: ID!, $input: TransactionInput!) { updateTransaction(id: $id, input: $input) { totalAmount } }`, { id: tx.body._id, input: { type: "purchase", buyerName: "Geralt", items: [{ goodName: "Daga de madera", quantity: 3 }] } }).expect(200);
+    expect(updated.body.data.updateTransaction.totalAmount).toBe(30);
+    expect((await GoodModel.findOne({ name: "Espada de plata" }))!.stock).toBe(10);
+
+    await gql(`mutation($id: ID!) { deleteTransaction(id: $id) { _id } }`, { id: tx.body._id }).expect(200);
+    expect(await TransactionModel.countDocuments()).toBe(0);
+    expect((await HunterModel.findById(geralt._id))!.coins).toBe(1000);
+  });
+
+  test("los cazadores solo ven y crean sus propias transacciones", async () => {
+    await purchase("Geralt", "Espada de plata");
+    const yennefer = await HunterModel.findOne({ name: "Yennefer" });
+    const own = await purchase("Yennefer", "Daga de madera");
+    const hunter = request.agent(app).auth(signToken({ sub: "yennefer", role: "hunter", party: String(yennefer!._id) }), { type: "bearer" });
+
+    const list = await gql(`{ transactions { total data { _id } } }`, undefined, hunter).expect(200);
+    expect(list.body.data.transactions).toEqual({ total: 1, data: [{ _id: own.body._id }] });
+
+    const geraltTx = await gql(`{ hunter(name: "Geralt") { transactions { _id } } }`, undefined, hunter).expect(200);
+    expect(geraltTx.body.data.hunter.transactions).toEqual([]);
+
+    const other = await gql(CREATE, { input: { type: "purchase", buyerName: "Geralt", items: [{ goodName: "Daga de madera", quantity: 1 }] } }, hunter);
+    expect(other.body.errors[0].extensions).toMatchObject({ code: "FORBIDDEN", status: 403 });
+
+    const removed = await gql(`mutation($id: ID!) { deleteTransaction(id: $id) { _id } }`, { id: own.body._id }, hunter);
+    expect(removed.body.errors[0].extensions).toMatchObject({ code: "FORBIDDEN", status: 403 });
+  });
+
+  test("los usuarios de solo lectura no pueden ejecutar mutaciones", async () => {
+    const reader = request.agent(app).auth(signToken({ sub: "lector", role: "read-only" }), { type: "bearer" });
+    const res = await gql(CREATE, { input: { type: "purchase", buyerName: "Geralt", items: [{ goodName: "Daga de madera", quantity: 1 }] } }, reader).expect(200);
+    expect(res.body.errors[0].extensions.code).toBe("FORBIDDEN");
+    expect(await TransactionModel.countDocuments()).toBe(0);
+  });
+
+  test("→ 400 si la operación no es válida", async () => {
+    const res = await gql(`{ goods { nope } }`).expect(400);
+    expect(res.body.errors[0].extensions.code).toBe("GRAPHQL_VALIDATION_FAILED");
+    await api.post("/graphql").send({}).expect(400);
+    await request(app).post("/graphql").send({ query: "{ goods { total } }" }).expect(401);
+  });
+});
@@ -9,6 +9,7 @@ import {
 import request from "supertest";
 import mongoose from "mongoose";
 import { setupApp } from "../src/app.js";
+import { signToken } from "../src/utils/tokens.js";
 import { HunterModel } from "../src/models/hunter.js";
 import { GoodModel } from "../src/models/good.js";
 import { MerchantModel } from "../src/models/merchant.js";
@@ -16,9 +17,20 @@ import { TransactionModel } from "../src/models/transaction.js";
 import type { Express } from "express";
 
 let app: Express;
+/** Cliente autenticado como administrador */
+let api: ReturnType<typeof request.agent>;
+
+/** Campos señalados en una respuesta 400 de validación */
+const invalidFields = (res: request.Response) =>
+  res.body.errors.map((e: { field: string }) => e.field);
+
+/** Mensajes de una respuesta 400 de validación */
+const errorMessages = (res: request.Response) =>
+  res.body.errors.map((e: { message: string }) => e.message).join("\n");
 
 beforeAll(async () => {
   app = await setupApp();
+  api = request.agent(app).auth(signToken({ sub: "admin", role: "admin" }), { type: "bearer" });
 });
 
 beforeEach(async () => {
@@ -43,7 +55,7 @@ describe("CRUD completo de /hunters", () => {
       monsterSpecialty: ["estriges"],
     };
     const before = await HunterModel.countDocuments();
-    const res = await request(app).post("/hunters").send(hunter).expect(201);
+    const res = await api.post("/hunters").send(hunter).expect(201);
     expect(res.body).toMatchObject({
       name: hunter.name,
       type: hunter.type,
@@ -71,8 +83,8 @@ describe("CRUD completo de /hunters", () => {
       email: "vamp@example.com",
     };
     const before = await HunterModel.countDocuments();
-    const res = await request(app).post("/hunters").send(bad).expect(400);
-    expect(res.body).toHaveProperty("errors.name");
+    const res = await api.post("/hunters").send(bad).expect(400);
+    expect(invalidFields(res)).toContain("name");
     const after = await HunterModel.countDocuments();
     expect(after).toBe(before);
   });
@@ -88,7 +100,7 @@ describe("CRUD completo de /hunters", () => {
       email: "geralt@example.com",
       monsterSpecialty: ["estriges"],
     };
-    const res = await request(app).post("/hunters").send(hunter).expect(201);
+    const res = await api.post("/hunters").send(hunter).expect(201);
     expect(res.body).toMatchObject({
       name: "Geralt123",
       type: "brujo",
@@ -106,8 +118,8 @@ describe("CRUD completo de /hunters", () => {
       monsterSpecialty: ["vampiros"],
       email: "vamp@example.com",
     };
-    const res = await request(app).post("/hunters").send(bad).expect(400);
-    expect(res.body).toHaveProperty("errors.name");
+    const res = await api.post("/hunters").send(bad).expect(400);
+    expect(invalidFields(res)).toContain("name");
   });
 
   test("POST /hunters → 400 si enum type inválido", async () => {
@@ -120,8 +132,9 @@ describe("CRUD completo de /hunters", () => {
       monsterSpecialty: ["hombres lobo"],
       email: "alice@example.com",
     };
-    const res = await request(app).post("/hunters").send(bad).expect(400);
-    expect(res.body.message).toMatch(/no es un tipo de cazador permitido/);
+    const res = await api.post("/hunters").send(bad).expect(400);
+    expect(invalidFields(res)).toContain("type");
+    expect(errorMessages(res)).toMatch(/Debe ser uno de: brujo/);
   });
 
   test("POST /hunters → 400 si email inválido", async () => {
@@ -134,8 +147,9 @@ describe("CRUD completo de /hunters", () => {
       email: "not-an-email",
       monsterSpecialty: ["gólems"],
     };
-    const res = await request(app).post("/hunters").send(bad).expect(400);
-    expect(res.body.message).toMatch(/no es un email válido/);
+    const res = await api.post("/hunters").send(bad).expect(400);
+    expect(invalidFields(res)).toEqual(["email"]);
+    expect(errorMessages(res)).toMatch(/no es un email válido/);
   });
 
   test("POST /hunters → 400 si experiencia fuera de rango", async () => {
@@ -148,8 +162,8 @@ describe("CRUD completo de /hunters", () => {
       email: "ciri@example.com",
       monsterSpecialty: ["dragones"],
     };
-    const res = await request(app).post("/hunters").send(bad).expect(400);
-    expect(res.body.errors.experience).toBeDefined();
+    const res = await api.post("/hunters").send(bad).expect(400);
+    expect(invalidFields(res)).toContain("experience");
   });
 
   test("POST /hunters → 400 si monsterSpecialty vacío", async () => {
@@ -162,14 +176,15 @@ describe("CRUD completo de /hunters", () => {
       email: "dandy@example.com",
       monsterSpecialty: [],
     };
-    const res = await request(app).post("/hunters").send(bad).expect(400);
-    expect(res.body.message).toMatch(
+    const res = await api.post("/hunters").send(bad).expect(400);
+    expect(errorMessages(res)).toMatch(
       /Debe tener al menos una especialidad en monstruos/,
     );
   });
 
-  test("GET /hunters → 404 si no hay ninguno", async () => {
-    await request(app).get("/hunters").expect(404);
+  test("GET /hunters → 200 y página vacía si no hay ninguno", async () => {
+    const res = await api.get("/hunters").expect(200);
+    expect(res.body).toMatchObject({ data: [], total: 0, page: 1, pages: 0 });
   });
 
   test("GET /hunters → 200 y lista todos", async () => {
@@ -193,8 +208,8 @@ describe("CRUD completo de /hunters", () => {
         monsterSpecialty: ["trolls"],
       },
     ]);
-    const res = await request(app).get("/hunters").expect(200);
-    expect(res.body).toHaveLength(2);
+    const res = await api.get("/hunters").expect(200);
+    expect(res.body.data).toHaveLength(2);
   });
 
   test("GET /hunters → 200 y lista todos con campos correctos", async () => {
@@ -218,9 +233,9 @@ describe("CRUD completo de /hunters", () => {
         monsterSpecialty: ["trolls"],
       },
     ]);
-    const res = await request(app).get("/hunters").expect(200);
-    expect(res.body).toHaveLength(2);
-    const returned = res.body;
+    const res = await api.get("/hunters").expect(200);
+    expect(res.body.data).toHaveLength(2);
+    const returned = res.body.data;
     const returnedNames = returned.map((h: any) => h.name);
     expect(returnedNames).toEqual(expect.arrayContaining(["Hun2", "H222"]));
     docs.forEach((doc) => {
@@ -248,11 +263,11 @@ describe("CRUD completo de /hunters", () => {
       email: "fname@example.com",
       monsterSpecialty: ["gárgolas"],
     });
-    const res = await request(app)
+    const res = await api
       .get("/hunters")
       .query({ name: "FName" })
       .expect(200);
-    expect(res.body[0].name).toBe("FName");
+    expect(res.body.data[0].name).toBe("FName");
   });
 
   test("GET /hunters?type=mercenario → 200 y filtra por type", async () => {
@@ -265,11 +280,11 @@ describe("CRUD completo de /hunters", () => {
       email: "tname@example.com",
       monsterSpecialty: ["hombres pez"],
     });
-    const res = await request(app)
+    const res = await api
       .get("/hunters")
       .query({ type: "mercenario" })
       .expect(200);
-    expect(res.body[0].type).toBe("mercenario");
+    expect(res.body.data[0].type).toBe("mercenario");
   });
 
   test("GET /hunters/:id → 200 si existe", async () => {
@@ -282,17 +297,18 @@ describe("CRUD completo de /hunters", () => {
       email: "byid@example.com",
       monsterSpecialty: ["murciélagos"],
     });
-    const res = await request(app).get(`/hunters/${doc._id}`).expect(200);
+    const res = await api.get(`/hunters/${doc._id}`).expect(200);
     expect(res.body.name).toBe("ById");
   });
 
   test("GET /hunters/:id → 404 si no existe", async () => {
     const fake = new mongoose.Types.ObjectId().toString();
-    await request(app).get(`/hunters/${fake}`).expect(404);
+    await api.get(`/hunters/${fake}`).expect(404);
   });
 
-  test("GET /hunters/:id → 500 si id mal formado", async () => {
-    await request(app).get("/hunters/1234").expect(500);
+  test("GET /hunters/:id → 400 si id mal formado", async () => {
+    const res = await api.get("/hunters/1234").expect(400);
+    expect(invalidFields(res)).toEqual(["id"]);
   });
 
   test("PATCH /hunters?name=ByName → 200 modifica por name", async () => {
@@ -305,7 +321,7 @@ describe("CRUD completo de /hunters", () => {
       email: "byname@example.com",
       monsterSpecialty: ["zombis"],
     });
-    const res = await request(app)
+    const res = await api
       .patch("/hunters")
       .query({ name: "ByName" })
       .send({ coins: 20 })
@@ -314,11 +330,11 @@ describe("CRUD completo de /hunters", () => {
   });
 
   test("PATCH /hunters?name=… → 400 sin query name", async () => {
-    await request(app).patch("/hunters").send({ coins: 5 }).expect(400);
+    await api.patch("/hunters").send({ coins: 5 }).expect(400);
   });
 
   test("PATCH /hunters?name=… → 400 sin body", async () => {
-    await request(app).patch("/hunters").query({ name: "X" }).expect(400);
+    await api.patch("/hunters").query({ name: "X" }).expect(400);
   });
 
   test("PATCH /hunters?name=… → 400 campo no permitido", async () => {
@@ -331,7 +347,7 @@ describe("CRUD completo de /hunters", () => {
       email: "valid@example.com",
       monsterSpecialty: ["gárgolas"],
     });
-    await request(app)
+    await api
       .patch("/hunters")
       .query({ name: "Valid" })
       .send({ foo: "bar" })
@@ -339,7 +355,7 @@ describe("CRUD completo de /hunters", () => {
   });
 
   test("PATCH /hunters?name=… → 404 si no existe", async () => {
-    await request(app)
+    await api
       .patch("/hunters")
       .query({ name: "Nope" })
       .send({ coins: 0 })
@@ -356,7 +372,7 @@ describe("CRUD completo de /hunters", () => {
       email: "idname@example.com",
       monsterSpecialty: ["hadas"],
     });
-    const res = await request(app)
+    const res = await api
       .patch(`/hunters/${doc._id}`)
       .send({ name: "IdName2" })
       .expect(200);
@@ -373,7 +389,7 @@ describe("CRUD completo de /hunters", () => {
       email: "nobody@example.com",
       monsterSpecialty: ["espectros"],
     });
-    await request(app).patch(`/hunters/${doc._id}`).expect(400);
+    await api.patch(`/hunters/${doc._id}`).expect(400);
   });
 
   test("PATCH /hunters/:id → 400 campo no permitido", async () => {
@@ -386,7 +402,7 @@ describe("CRUD completo de /hunters", () => {
       email: "nofoo@example.com",
       monsterSpecialty: ["gárgolas"],
     });
-    await request(app)
+    await api
       .patch(`/hunters/${doc._id}`)
       .send({ bar: "baz" })
       .expect(400);
@@ -394,7 +410,7 @@ describe("CRUD completo de /hunters", () => {
 
   test("PATCH /hunters/:id → 404 si no existe", async () => {
     const fake = new mongoose.Types.ObjectId().toString();
-    await request(app).patch(`/hunters/${fake}`).send({ coins: 1 }).expect(404);
+    await api.patch(`/hunters/${fake}`).send({ coins: 1 }).expect(404);
   });
 
   test("PATCH /hunters?name=ByName → 200 modifica y persiste en DB", async () => {
@@ -407,7 +423,7 @@ describe("CRUD completo de /hunters", () => {
       email: "byname@example.com",
       monsterSpecialty: ["zombis"],
     });
-    const res = await request(app)
+    const res = await api
       .patch("/hunters")
       .query({ name: "ByName" })
       .send({ coins: 20 })
@@ -428,11 +444,11 @@ describe("CRUD completo de /hunters", () => {
       email: "xiddel@example.com",
       monsterSpecialty: ["murciélagos"],
     });
-    const before = await HunterModel.countDocuments();
-    await request(app).delete(`/hunters/${doc._id}`).expect(200);
-    const after = await HunterModel.countDocuments();
+    const before = await HunterModel.countDocuments({ deletedAt: null });
+    await api.delete(`/hunters/${doc._id}`).expect(200);
+    const after = await HunterModel.countDocuments({ deletedAt: null });
     expect(after).toBe(before - 1);
-    expect(await HunterModel.findById(doc._id)).toBeNull();
+    expect((await HunterModel.findById(doc._id))!.deletedAt).toBeInstanceOf(Date);
   });
 
   test("DELETE /hunters?name=ValidName → 200 elimina por name", async () => {
@@ -445,19 +461,19 @@ describe("CRUD completo de /hunters", () => {
       email: "validdel@example.com",
       monsterSpecialty: ["huesos"],
     });
-    await request(app)
+    await api
       .delete("/hunters")
       .query({ name: "ValidDel" })
       .expect(200);
-    expect(await HunterModel.findOne({ name: "ValidDel" })).toBeNull();
+    expect((await HunterModel.findOne({ name: "ValidDel" }))!.deletedAt).toBeInstanceOf(Date);
   });
 
   test("DELETE /hunters?name=… → 400 sin name", async () => {
-    await request(app).delete("/hunters").expect(400);
+    await api.delete("/hunters").expect(400);
   });
 
   test("DELETE /hunters?name=… → 404 si no existe", async () => {
-    await request(app).delete("/hunters").query({ name: "Nope" }).expect(404);
+    await api.delete("/hunters").query({ name: "Nope" }).expect(404);
   });
 
   test("DELETE /hunters/:id → 200 elimina por id", async () => {
@@ -470,16 +486,80 @@ describe("CRUD completo de /hunters", () => {
       email: "xiddel@example.com",
       monsterSpecialty: ["murciélagos"],
     });
-    await request(app).delete(`/hunters/${doc._id}`).expect(200);
-    expect(await HunterModel.findById(doc._id)).toBeNull();
+    await api.delete(`/hunters/${doc._id}`).expect(200);
+    expect((await HunterModel.findById(doc._id))!.deletedAt).toBeInstanceOf(Date);
   });
 
   test("DELETE /hunters/:id → 404 si no existe", async () => {
     const fake = new mongoose.Types.ObjectId().toString();
-    await request(app).delete(`/hunters/${fake}`).expect(404);
+    await api.delete(`/hunters/${fake}`).expect(404);
   });
 
   test("DELETE /hunters/:id → 400 id mal formado", async () => {
-    await request(app).delete("/hunters/1234").expect(400);
+    await api.delete("/hunters/1234").expect(400);
+  });
+});
+
+describe("Filtros de /hunters", () => {
+  beforeEach(async () => {
+    await HunterModel.create([
+      { name: "Vesemir", email: "vesemir@kaermorhen.com", type: "brujo", experience: 100, coins: 50, isActive: false, monsterSpecialty: ["vampiros", "espectros"] },
+      { name: "Lambert", email: "lambert@kaermorhen.com", type: "brujo", experience: 60, coins: 800, isActive: true, monsterSpecialty: ["espectros"] },
+      { name: "Roche", email: "roche@kaermorhen.com", type: "caballero", experience: 40, coins: 1200, isActive: true, monsterSpecialty: ["ahogados", "vampiros"] },
+    ]);
+  });
+
+  const names = (res: request.Response) =>
+    res.body.data.map((h: any) => h.name).sort();
+
+  test("GET /hunters?experience[gte]&coins[lt] → filtra por rangos", async () => {
+    const res = await api
+      .get("/hunters")
+      .query({ "experience[gte]": 50, "coins[lt]": 1000 })
+      .expect(200);
+    expect(names(res)).toEqual(["Lambert", "Vesemir"]);
+  });
+
+  test("GET /hunters?isActive=true → convierte el booleano", async () => {
+    const res = await api
+      .get("/hunters")
+      .query({ isActive: "true" })
+      .expect(200);
+    expect(names(res)).toEqual(["Lambert", "Roche"]);
+  });
+
+  test("GET /hunters?monsterSpecialty[any] → alguna especialidad", async () => {
+    const res = await api
+      .get("/hunters")
+      .query({ "monsterSpecialty[any]": "ahogados,espectros" })
+      .expect(200);
+    expect(names(res)).toEqual(["Lambert", "Roche", "Vesemir"]);
+  });
+
+  test("GET /hunters?monsterSpecialty[all] → todas las especialidades", async () => {
+    const res = await api
+      .get("/hunters")
+      .query({ "monsterSpecialty[all]": "vampiros,espectros" })
+      .expect(200);
+    expect(names(res)).toEqual(["Vesemir"]);
+  });
+
+  test("GET /hunters?isActive=quizas → 400 si el booleano no es válido", async () => {
+    const res = await api
+      .get("/hunters")
+      .query({ isActive: "quizas" })
+      .expect(400);
+    expect(res.body.detail).toMatch(/isActive/);
+  });
+
+  test("GET /hunters?experience[lte]=mucha → 400 si el número no es válido", async () => {
+    await api
+      .get("/hunters")
+      .query({ "experience[lte]": "mucha" })
+      .expect(400);
+  });
+
+  test("GET /hunters?email=x → 400 si el campo no es filtrable", async () => {
+    await api.get("/hunters").query({ email: "x" }).expect(400);
   });
 });
@@ -0,0 +1,122 @@
+import { describe, beforeAll, beforeEach, afterEach, test, expect } from "vitest";
+import request from "supertest";
+import { setupApp } from "../src/app.js";
+import { signToken } from "../src/utils/tokens.js";
+import { idempotencyOptions } from "../src/middleware/idempotency.js";
+import { IdempotencyKeyModel } from "../src/models/idempotency.js";
+import { GoodModel } from "../src/models/good.js";
+import { HunterModel } from "../src/models/hunter.js";
+import { MerchantModel } from "../src/models/merchant.js";
+import { InventoryModel } from "../src/models/inventory.js";
+import { TransactionModel } from "../src/models/transaction.js";
+import type { Express } from "express";
+
+let app: Express;
+/** Cliente autenticado como administrador */
+let api: ReturnType<typeof request.agent>;
+
+const defaults = { ...idempotencyOptions };
+const purchase = { type: "purchase", buyerName: "Geralt", items: [{ goodName: "Espada de plata", quantity: 2 }] };
+
+beforeAll(async () => {
+  app = await setupApp();
+  api = request.agent(app).auth(signToken({ sub: "admin", role: "admin" }), { type: "bearer" });
+});
+
+beforeEach(async () => {
+  await Promise.all([IdempotencyKeyModel.deleteMany({}), GoodModel.deleteMany({}), HunterModel.deleteMany({}), MerchantModel.deleteMany({}), InventoryModel.deleteMany({}), TransactionModel.deleteMany({})]);
+  await GoodModel.create({ id: 1101, name: "Espada de plata", material: "acero", weight: 2.5, value: 100, stock: 10 });
+  await HunterModel.create({ name: "Geralt", type: "brujo", experience: 95, coins: 1000, email: "geralt@rivia.com", monsterSpecialty: ["vampiros"] });
+});
+
+afterEach(() => {
+  Object.assign(idempotencyOptions, defaults);
+});
+
+describe("Idempotency-Key", () => {
+  test("un reintento recibe la transacción original sin repetirla", async () => {
+    const first = await api.post("/transactions").set("Idempotency-Key", "compra-1").send(purchase).expect(201);
+    expect(first.headers["idempotent-replayed"]).toBeUndefined();
+
+    const retry = await api.post("/transactions").set("Idempotency-Key", "compra-1").send({ items: purchase.items, buyerName: "Geralt", type: "purchase" }).expect(201);
+    expect(retry.headers["idempotent-replayed"]).toBe("true");
+    expect(retry.body).toEqual(first.body);
+
+    expect(await TransactionModel.countDocuments()).toBe(1);
+    expect((await GoodModel.findOne({ name: "Espada de plata" }))!.stock).toBe(8);
+    expect((await HunterModel.findOne({ name: "Geralt" }))!.coins).toBe(800);
+  });
+
+  test("sin la cabecera cada petición crea una transacción", async () => {
+    await api.post("/transactions").send(purchase).expect(201);
+    await api.post("/transactions").send(purchase).expect(201);
+    expect(await TransactionModel.countDocuments()).toBe(2);
+  });
+
+  test("→ 422 si la clave se reutiliza con otro cuerpo u otra ruta", async () => {
+    await api.post("/transactions").set("Idempotency-Key", "compra-1").send(purchase).expect(201);
+
+    const res = await api.post("/transactions").set("Idempotency-Key", "compra-1").send({ ...purchase, items: [{ goodName: "Espada de plata", quantity: 1 }] }).expect(422);
+    expect(res.body.code).toBe("IDEMPOTENCY_KEY_REUSED");
+    await api.post("/goods").set("Idempotency-Key", "compra-1").send({ id: 1102, name: "Daga", material: "madera", weight: 1, value: 10 }).expect(422);
+    expect(await TransactionModel.countDocuments()).toBe(1);
+  });
+
+  test("reenvía también las respuestas de error", async () => {
+    const body = { ...purchase, items: [{ goodName: "Espada de plata", quantity: 50 }] };
+    const first = await api.post("/transactions").set("Idempotency-Key", "sin-stock").send(body).expect(400);
+    const retry = await api.post("/transactions").set("Idempotency-Key", "sin-stock").send(body).expect(400);
+    expect(retry.headers["content-type"]).toMatch(/application\/problem\+json/);
+    expect(retry.body).toEqual(first.body);
+  });
+
+  test("→ 409 si la petición original aún se está procesando", async () => {
+    const first = await api.post("/transactions").set("Idempotency-Key", "compra-1").send(purchase).expect(201);
+    await IdempotencyKeyModel.updateOne({ key: "compra-1" }, { status: "pending", $unset: { response: 1 } });
+    const res = await api.post("/transactions").set("Idempotency-Key", "compra-1").send(purchase).expect(409);
+    expect(res.body.code).toBe("CONFLICT");
+    expect(first.body._id).toBeDefined();
+  });
+
+  test("las claves de cada usuario son independientes", async () => {
+    const other = request.agent(app).auth(signToken({ sub: "otro", role: "admin" }), { type: "bearer" });
+    await api.post("/transactions").set("Idempotency-Key", "compra-1").send(purchase).expect(201);
+    const res = await other.post("/transactions").set("Idempotency-Key", "compra-1").send(purchase).expect(201);
+    expect(res.headers["idempotent-replayed"]).toBeUndefined();
+    expect(await TransactionModel.countDocuments()).toBe(2);
+  });
+
+  test("las claves caducan tras el periodo de retención", async () => {
+    idempotencyOptions.retention = 0;
+    await api.post("/transactions").set("Idempotency-Key", "compra-1").send(purchase).expect(201);
+    const res = await api.post("/transactions").set("Idempotency-Key", "compra-1").send({ ...purchase, items: [{ goodName: "Espada de plata", quantity: 1 }] }).expect(201);
+    expect(res.headers["idempotent-replayed"]).toBeUndefined();
+    expect(await TransactionModel.countDocuments()).toBe(2);
+  });
+
+  test("funciona en las demás rutas POST", async () => {
+    const good = { id: 1102, name: "Daga de madera", material: "madera", weight: 1, value: 10 };
+    const first = await api.post("/goods").set("Idempotency-Key", "bien-1").send(good).expect(201);
+    const retry = await api.post("/goods").set("Idempotency-Key", "bien-1").send(good).expect(201);
+    expect(retry.body._id).toBe(first.body._id);
+    expect(await GoodModel.countDocuments({ name: "Daga de madera" })).toBe(1);
+  });
+
+  test("las importaciones CSV distintas con la misma clave → 422", async () => {
+    const csv = "id,name,material,weight,value\n1103,Escudo de roble,madera,5,60";
+    const first = await api.post("/goods/import").set("Idempotency-Key", "importacion-1").set("Content-Type", "text/csv").send(csv).expect(200);
+    const retry = await api.post("/goods/import").set("Idempotency-Key", "importacion-1").set("Content-Type", "text/csv").send(csv).expect(200);
+    expect(retry.headers["idempotent-replayed"]).toBe("true");
+    expect(retry.body).toEqual(first.body);
+
+    const res = await api.post("/goods/import").set("Idempotency-Key", "importacion-1").set("Content-Type", "text/csv").send("id,name,material,weight,value\n1104,Daga de madera,madera,1,10").expect(422);
+    expect(res.body.code).toBe("IDEMPOTENCY_KEY_REUSED");
+    expect(await GoodModel.countDocuments({ name: "Daga de madera" })).toBe(0);
+  });
+
+  test("→ 400 si la clave está vacía o es demasiado larga", async () => {
+    await api.post("/transactions").set("Idempotency-Key", " ").send(purchase).expect(400);
+    await api.post("/transactions").set("Idempotency-Key", "x".repeat(256)).send(purchase).expect(400);
+    expect(await TransactionModel.countDocuments()).toBe(0);
+  });
+});
@@ -4,6 +4,22 @@ import "./goods.spec.ts";
 import "./hunters.spec.ts";
 import "./merchants.spec.ts";
 import "./transactions.spec.ts";
+import "./search.spec.ts";
+import "./openapi.spec.ts";
+import "./errors.spec.ts";
+import "./auth.spec.ts";
+import "./audit.spec.ts";
+import "./softDelete.spec.ts";
+import "./integrity.spec.ts";
+import "./bulk.spec.ts";
+import "./reports.spec.ts";
+import "./lowStock.spec.ts";
+import "./webhooks.spec.ts";
+import "./stream.spec.ts";
+import "./graphql.spec.ts";
+import "./idempotency.spec.ts";
+import "./versioning.spec.ts";
+import "./pricing.spec.ts";
 
 afterAll(async () => {
   await mongoose.connection.dropDatabase();
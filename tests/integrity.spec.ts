@@ -0,0 +1,117 @@
+import { describe, beforeAll, beforeEach, test, expect } from "vitest";
+import request from "supertest";
+import { setupApp } from "../src/app.js";
+import { signToken } from "../src/utils/tokens.js";
+import { GoodModel, GoodDocument } from "../src/models/good.js";
+import { HunterModel, HunterDocument } from "../src/models/hunter.js";
+import { MerchantModel, MerchantDocument } from "../src/models/merchant.js";
+import { TransactionModel } from "../src/models/transaction.js";
+import { InventoryModel } from "../src/models/inventory.js";
+import type { Express } from "express";
+
+let app: Express;
+/** Cliente autenticado como administrador */
+let api: ReturnType<typeof request.agent>;
+let sword: GoodDocument;
+let geralt: HunterDocument;
+let zoltan: MerchantDocument;
+
+beforeAll(async () => {
+  app = await setupApp();
+  api = request.agent(app).auth(signToken({ sub: "admin", role: "admin" }), { type: "bearer" });
+});
+
+beforeEach(async () => {
+  await Promise.all([
+    GoodModel.deleteMany({}),
+    HunterModel.deleteMany({}),
+    MerchantModel.deleteMany({}),
+    TransactionModel.deleteMany({}),
+    InventoryModel.deleteMany({}),
+  ]);
+  sword = await GoodModel.create({ id: 801, name: "Espada de plata", material: "acero", weight: 2.5, value: 100, stock: 10 });
+  geralt = await HunterModel.create({ name: "Geralt", type: "brujo", experience: 95, coins: 1000, email: "geralt@rivia.com", monsterSpecialty: ["vampiros"] });
+  zoltan = await MerchantModel.create({ name: "Zoltan", location: "Novigrado", specialty: "armero", inventorySize: 50, reputation: 8, contact: "zoltan@dwarves.com" });
+});
+
+/** Compra de Geralt a la posada */
+const purchase = () =>
+  api.post("/transactions").send({ type: "purchase", buyerName: "Geralt", items: [{ goodName: "Espada de plata", quantity: 2 }] }).expect(201);
+
+describe("Integridad referencial de los bienes", () => {
+  test("DELETE /goods/:id → 409 con las transacciones que lo referencian", async () => {
+    const tx = await purchase();
+    const res = await api.delete(`/goods/${sword._id}`).expect(409);
+    expect(res.body.code).toBe("REFERENCED");
+    expect(res.body.transactions).toEqual([tx.body._id]);
+    expect((await GoodModel.findById(sword._id))!.deletedAt).toBeNull();
+  });
+
+  test("force=true no permite eliminar un bien con política restrict", async () => {
+    await purchase();
+    await api.delete("/goods").query({ name: "Espada de plata", force: true }).expect(409);
+    expect(await TransactionModel.countDocuments()).toBe(1);
+  });
+
+  test("un bien sin transacciones se elimina", async () => {
+    await api.delete(`/goods/${sword._id}`).expect(200);
+  });
+});
+
+describe("Integridad referencial de los clientes", () => {
+  test("DELETE /hunters?name=… → 409 sin force", async () => {
+    const tx = await purchase();
+    const res = await api.delete("/hunters").query({ name: "Geralt" }).expect(409);
+    expect(res.body.transactions).toEqual([tx.body._id]);
+    expect(res.body.detail).toMatch(/force=true/);
+    expect((await HunterModel.findById(geralt._id))!.deletedAt).toBeNull();
+  });
+
+  test("force=true conserva el comprador hasta la purga y lo recupera al restaurarlo", async () => {
+    const tx = await purchase();
+    await api.delete(`/hunters/${geralt._id}`).query({ force: true }).expect(200);
+    expect(String((await TransactionModel.findById(tx.body._id))!.buyer)).toBe(String(geralt._id));
+
+    await api.post(`/hunters/${geralt._id}/restore`).expect(200);
+    const history = await api.get(`/transactions/${tx.body._id}`).expect(200);
+    expect(history.body.buyer._id).toBe(String(geralt._id));
+  });
+
+  test("la purga anula el comprador y conserva la transacción", async () => {
+    const tx = await purchase();
+    await api.delete(`/hunters/${geralt._id}`).query({ force: true }).expect(200);
+    const res = await api.post("/hunters/purge").expect(200);
+    expect(res.body).toEqual({ purged: 1, kept: 0 });
+
+    const stored = await TransactionModel.findById(tx.body._id);
+    expect(stored!.buyer).toBeNull();
+    expect(stored!.buyerModel).toBe("Hunter");
+    expect(stored!.totalAmount).toBe(200);
+  });
+
+  test("revertir una transacción con el comprador anulado solo repone la posada", async () => {
+    const tx = await purchase();
+    await api.delete(`/hunters/${geralt._id}`).query({ force: true }).expect(200);
+    await api.post("/hunters/purge").expect(200);
+
+    await api.delete(`/transactions/${tx.body._id}`).expect(200);
+    expect((await GoodModel.findById(sword._id))!.stock).toBe(10);
+  });
+
+  test("la purga anula el vendedor de las ventas de un mercader", async () => {
+    await api.post(`/merchants/${zoltan._id}/inventory`).send({ goodName: "Espada de plata", quantity: 5 }).expect(201);
+    const tx = await api
+      .post("/transactions")
+      .send({ type: "sale", sellerName: "Zoltan", buyerName: "Geralt", items: [{ goodName: "Espada de plata", quantity: 1 }] })
+      .expect(201);
+
+    await api.delete("/merchants").query({ name: "Zoltan" }).expect(409);
+    await api.delete("/merchants").query({ name: "Zoltan", force: true }).expect(200);
+    expect(String((await TransactionModel.findById(tx.body._id))!.seller)).toBe(String(zoltan._id));
+
+    await api.post("/merchants/purge").expect(200);
+    const stored = await TransactionModel.findById(tx.body._id);
+    expect(stored!.seller).toBeNull();
+    expect(String(stored!.buyer)).toBe(String(geralt._id));
+  });
+});
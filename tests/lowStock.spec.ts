@@ -0,0 +1,116 @@
+import { describe, beforeAll, beforeEach, test, expect } from "vitest";
+import request from "supertest";
+import { setupApp } from "../src/app.js";
+import { signToken } from "../src/utils/tokens.js";
+import { appEvents } from "../src/utils/events.js";
+import { GoodModel, GoodDocument } from "../src/models/good.js";
+import { HunterModel } from "../src/models/hunter.js";
+import { MerchantModel } from "../src/models/merchant.js";
+import { InventoryModel } from "../src/models/inventory.js";
+import { TransactionModel } from "../src/models/transaction.js";
+import { StockAlertDocument, StockAlertModel } from "../src/models/alert.js";
+import type { Express } from "express";
+
+let app: Express;
+/** Cliente autenticado como administrador */
+let api: ReturnType<typeof request.agent>;
+let sword: GoodDocument;
+let dagger: GoodDocument;
+
+beforeAll(async () => {
+  app = await setupApp();
+  api = request.agent(app).auth(signToken({ sub: "admin", role: "admin" }), { type: "bearer" });
+});
+
+beforeEach(async () => {
+  await Promise.all([
+    GoodModel.deleteMany({}),
+    HunterModel.deleteMany({}),
+    MerchantModel.deleteMany({}),
+    InventoryModel.deleteMany({}),
+    TransactionModel.deleteMany({}),
+    StockAlertModel.deleteMany({}),
+  ]);
+  sword = await GoodModel.create({ id: 601, name: "Espada de plata", material: "acero", weight: 2.5, value: 100, stock: 10, reorderLevel: 5, reorderQuantity: 20 });
+  dagger = await GoodModel.create({ id: 602, name: "Daga de madera", material: "madera", weight: 1, value: 10, stock: 2 });
+  await HunterModel.create({ name: "Geralt", type: "brujo", experience: 95, coins: 10000, email: "geralt@rivia.com", monsterSpecialty: ["vampiros"] });
+});
+
+/** Compra de Geralt a la posada */
+const purchase = (items: Array<{ goodName: string; quantity: number }>) =>
+  api.post("/transactions").send({ type: "purchase", buyerName: "Geralt", items });
+
+describe("Alertas de stock bajo", () => {
+  test("una compra que deja el stock bajo el nivel registra una alerta y emite good.stock_low", async () => {
+    const emitted = new Promise<StockAlertDocument>((resolve) => appEvents.once("good.stock_low", resolve));
+    const tx = await purchase([{ goodName: "Espada de plata", quantity: 6 }]).expect(201);
+
+    const alert = await emitted;
+    expect(String(alert.good)).toBe(String(sword._id));
+    const stored = await StockAlertModel.find();
+    expect(stored).toHaveLength(1);
+    expect(String(stored[0].transaction)).toBe(tx.body._id);
+    expect(stored[0].stock).toBe(4);
+    expect(stored[0].reorderLevel).toBe(5);
+    expect(stored[0].toJSON().suggestion).toEqual({ type: "sale", items: [{ goodName: "Espada de plata", quantity: 20 }] });
+  });
+
+  test("no se repite la alerta si el bien ya estaba bajo el nivel", async () => {
+    await purchase([{ goodName: "Espada de plata", quantity: 6 }]).expect(201);
+    await purchase([{ goodName: "Espada de plata", quantity: 1 }]).expect(201);
+    expect(await StockAlertModel.countDocuments()).toBe(1);
+  });
+
+  test("no hay alerta si el stock queda en el nivel ni en bienes sin nivel", async () => {
+    await purchase([{ goodName: "Espada de plata", quantity: 5 }, { goodName: "Daga de madera", quantity: 2 }]).expect(201);
+    expect(await StockAlertModel.countDocuments()).toBe(0);
+  });
+
+  test("una transacción revertida no deja alertas", async () => {
+    await purchase([{ goodName: "Espada de plata", quantity: 6 }, { goodName: "Daga de madera", quantity: 3 }]).expect(400);
+    expect(await StockAlertModel.countDocuments()).toBe(0);
+    expect((await GoodModel.findById(sword._id))!.stock).toBe(10);
+  });
+
+  test("sugiere como vendedor al mercader con más unidades del bien", async () => {
+    const [zoltan, hattori] = await MerchantModel.create([
+      { name: "Zoltan", location: "Novigrado", specialty: "armero", inventorySize: 50, reputation: 8, contact: "zoltan@dwarves.com" },
+      { name: "Hattori", location: "Novigrado", specialty: "herrero", inventorySize: 50, reputation: 7, contact: "hattori@ex.com" },
+    ]);
+    await InventoryModel.create([
+      { merchant: zoltan._id, good: sword._id, quantity: 3 },
+      { merchant: hattori._id, good: sword._id, quantity: 12 },
+    ]);
+    await purchase([{ goodName: "Espada de plata", quantity: 9 }]).expect(201);
+
+    const alert = await StockAlertModel.findOne();
+    expect(alert!.suggestion.sellerName).toBe("Hattori");
+    expect(alert!.suggestion.items[0].quantity).toBe(20);
+  });
+});
+
+describe("GET /goods/low-stock", () => {
+  test("lista los bienes bajo su nivel con la reposición sugerida", async () => {
+    await GoodModel.updateOne({ _id: sword._id }, { stock: 1, reorderQuantity: 0 });
+    const res = await api.get("/goods/low-stock").expect(200);
+    expect(res.body.total).toBe(1);
+    expect(res.body.data[0]).toMatchObject({ name: "Espada de plata", stock: 1, suggestion: { type: "sale", items: [{ goodName: "Espada de plata", quantity: 4 }] } });
+  });
+
+  test("la reposición sugerida se puede enviar a POST /transactions", async () => {
+    const zoltan = await MerchantModel.create({ name: "Zoltan", location: "Novigrado", specialty: "armero", inventorySize: 50, reputation: 8, contact: "zoltan@dwarves.com" });
+    await InventoryModel.create({ merchant: zoltan._id, good: sword._id, quantity: 30 });
+    await GoodModel.updateOne({ _id: sword._id }, { stock: 1 });
+
+    const res = await api.get("/goods/low-stock").expect(200);
+    await api.post("/transactions").send(res.body.data[0].suggestion).expect(201);
+    expect((await GoodModel.findById(sword._id))!.stock).toBe(21);
+    expect((await api.get("/goods/low-stock").expect(200)).body.total).toBe(0);
+  });
+
+  test("PATCH /goods/:id permite cambiar el nivel de reposición", async () => {
+    await api.patch(`/goods/${dagger._id}`).send({ reorderLevel: 5, reorderQuantity: 10 }).expect(200);
+    const res = await api.get("/goods/low-stock").query({ sort: "stock" }).expect(200);
+    expect(res.body.data.map((good: { name: string }) => good.name)).toEqual(["Daga de madera"]);
+  });
+});
@@ -9,16 +9,29 @@ import {
 import request from "supertest";
 import mongoose from "mongoose";
 import { setupApp } from "../src/app.js";
+import { signToken } from "../src/utils/tokens.js";
 import { MerchantModel } from "../src/models/merchant.js";
 import { GoodModel } from "../src/models/good.js";
 import { HunterModel } from "../src/models/hunter.js";
 import { TransactionModel } from "../src/models/transaction.js";
+import { InventoryModel } from "../src/models/inventory.js";
 import type { Express } from "express";
 
 let app: Express;
+/** Cliente autenticado como administrador */
+let api: ReturnType<typeof request.agent>;
+
+/** Campos señalados en una respuesta 400 de validación */
+const invalidFields = (res: request.Response) =>
+  res.body.errors.map((e: { field: string }) => e.field);
+
+/** Mensajes de una respuesta 400 de validación */
+const errorMessages = (res: request.Response) =>
+  res.body.errors.map((e: { message: string }) => e.message).join("\n");
 
 beforeAll(async () => {
   app = await setupApp();
+  api = request.agent(app).auth(signToken({ sub: "admin", role: "admin" }), { type: "bearer" });
 });
 
 beforeEach(async () => {
@@ -27,6 +40,7 @@ beforeEach(async () => {
     HunterModel.deleteMany({}),
     MerchantModel.deleteMany({}),
     TransactionModel.deleteMany({}),
+    InventoryModel.deleteMany({}),
   ]);
 });
 
@@ -41,7 +55,7 @@ describe("CRUD completo de /merchants", () => {
       reputation: 5,
       contact: "shop@example.com",
     };
-    const res = await request(app)
+    const res = await api
       .post("/merchants")
       .send(merchant)
       .expect(201);
@@ -62,8 +76,8 @@ describe("CRUD completo de /merchants", () => {
       reputation: 3,
       contact: "contact@ex.com",
     };
-    const res = await request(app).post("/merchants").send(bad).expect(400);
-    expect(res.body).toHaveProperty("errors.name");
+    const res = await api.post("/merchants").send(bad).expect(400);
+    expect(invalidFields(res)).toContain("name");
   });
 
   test("POST /merchants → 400 si specialty inválido", async () => {
@@ -76,8 +90,9 @@ describe("CRUD completo de /merchants", () => {
       reputation: 2,
       contact: "badspec@ex.com",
     };
-    const res = await request(app).post("/merchants").send(bad).expect(400);
-    expect(res.body.message).toMatch(/no es una especialidad permitida/);
+    const res = await api.post("/merchants").send(bad).expect(400);
+    expect(invalidFields(res)).toContain("specialty");
+    expect(errorMessages(res)).toMatch(/Debe ser uno de:/);
   });
 
   test("POST /merchants → 400 si inventorySize fuera de rango", async () => {
@@ -90,8 +105,8 @@ describe("CRUD completo de /merchants", () => {
       reputation: 1,
       contact: "inv0@ex.com",
     };
-    const res = await request(app).post("/merchants").send(bad).expect(400);
-    expect(res.body.errors.inventorySize).toBeDefined();
+    const res = await api.post("/merchants").send(bad).expect(400);
+    expect(invalidFields(res)).toContain("inventorySize");
   });
 
   test("POST /merchants → 400 si reputation fuera de rango", async () => {
@@ -104,8 +119,8 @@ describe("CRUD completo de /merchants", () => {
       reputation: 11,
       contact: "rep@ex.com",
     };
-    const res = await request(app).post("/merchants").send(bad).expect(400);
-    expect(res.body.errors.reputation).toBeDefined();
+    const res = await api.post("/merchants").send(bad).expect(400);
+    expect(invalidFields(res)).toContain("reputation");
   });
 
   test("POST /merchants → 400 si contact inválido", async () => {
@@ -118,12 +133,14 @@ describe("CRUD completo de /merchants", () => {
       reputation: 7,
       contact: "invalid-email",
     };
-    const res = await request(app).post("/merchants").send(bad).expect(400);
-    expect(res.body.message).toMatch(/no es un email válido/);
+    const res = await api.post("/merchants").send(bad).expect(400);
+    expect(invalidFields(res)).toEqual(["contact"]);
+    expect(errorMessages(res)).toMatch(/no es un email válido/);
   });
 
-  test("GET /merchants → 404 si no hay ninguno", async () => {
-    await request(app).get("/merchants").expect(404);
+  test("GET /merchants → 200 y página vacía si no hay ninguno", async () => {
+    const res = await api.get("/merchants").expect(200);
+    expect(res.body).toMatchObject({ data: [], total: 0, page: 1, pages: 0 });
   });
 
   test("GET /merchants → 200 y lista todos", async () => {
@@ -147,8 +164,8 @@ describe("CRUD completo de /merchants", () => {
         contact: "mer2@ex.com",
       },
     ]);
-    const res = await request(app).get("/merchants").expect(200);
-    expect(res.body).toHaveLength(2);
+    const res = await api.get("/merchants").expect(200);
+    expect(res.body.data).toHaveLength(2);
   });
 
   test("GET /merchants?name=Mer1 → 200 y filtra por name", async () => {
@@ -161,11 +178,11 @@ describe("CRUD completo de /merchants", () => {
       reputation: 3,
       contact: "filter@ex.com",
     });
-    const res = await request(app)
+    const res = await api
       .get("/merchants")
       .query({ name: "FilterMe" })
       .expect(200);
-    expect(res.body[0].name).toBe("FilterMe");
+    expect(res.body.data[0].name).toBe("FilterMe");
   });
 
   test("GET /merchants?specialty=armero → 200 y filtra por specialty", async () => {
@@ -178,11 +195,11 @@ describe("CRUD completo de /merchants", () => {
       reputation: 5,
       contact: "spec@ex.com",
     });
-    const res = await request(app)
+    const res = await api
       .get("/merchants")
       .query({ specialty: "armero" })
       .expect(200);
-    expect(res.body[0].specialty).toBe("armero");
+    expect(res.body.data[0].specialty).toBe("armero");
   });
 
   test("GET /merchants/:id → 200 si existe", async () => {
@@ -195,17 +212,18 @@ describe("CRUD completo de /merchants", () => {
       reputation: 2,
       contact: "byid@ex.com",
     });
-    const res = await request(app).get(`/merchants/${doc._id}`).expect(200);
+    const res = await api.get(`/merchants/${doc._id}`).expect(200);
     expect(res.body.name).toBe("ById");
   });
 
   test("GET /merchants/:id → 404 si no existe", async () => {
     const fake = new mongoose.Types.ObjectId().toString();
-    await request(app).get(`/merchants/${fake}`).expect(404);
+    await api.get(`/merchants/${fake}`).expect(404);
   });
 
-  test("GET /merchants/:id → 500 si id mal formado", async () => {
-    await request(app).get("/merchants/1234").expect(500);
+  test("GET /merchants/:id → 400 si id mal formado", async () => {
+    const res = await api.get("/merchants/1234").expect(400);
+    expect(invalidFields(res)).toEqual(["id"]);
   });
 
   test("PATCH /merchants?name=ByName → 200 modifica por name", async () => {
@@ -218,7 +236,7 @@ describe("CRUD completo de /merchants", () => {
       reputation: 7,
       contact: "byname@ex.com",
     });
-    const res = await request(app)
+    const res = await api
       .patch("/merchants")
       .query({ name: "ByName" })
       .send({ reputation: 9 })
@@ -227,11 +245,11 @@ describe("CRUD completo de /merchants", () => {
   });
 
   test("PATCH /merchants?name=… → 400 sin query name", async () => {
-    await request(app).patch("/merchants").send({ reputation: 4 }).expect(400);
+    await api.patch("/merchants").send({ reputation: 4 }).expect(400);
   });
 
   test("PATCH /merchants?name=… → 400 sin body", async () => {
-    await request(app)
+    await api
       .patch("/merchants")
       .query({ name: "NoBody" })
       .expect(400);
@@ -247,7 +265,7 @@ describe("CRUD completo de /merchants", () => {
       reputation: 8,
       contact: "valid@ex.com",
     });
-    await request(app)
+    await api
       .patch("/merchants")
       .query({ name: "Valid" })
       .send({ foo: "bar" })
@@ -255,7 +273,7 @@ describe("CRUD completo de /merchants", () => {
   });
 
   test("PATCH /merchants?name=… → 404 si no existe", async () => {
-    await request(app)
+    await api
       .patch("/merchants")
       .query({ name: "Nope" })
       .send({ reputation: 1 })
@@ -272,7 +290,7 @@ describe("CRUD completo de /merchants", () => {
       reputation: 6,
       contact: "idname@ex.com",
     });
-    const res = await request(app)
+    const res = await api
       .patch(`/merchants/${doc._id}`)
       .send({ location: "Temeria" })
       .expect(200);
@@ -289,7 +307,7 @@ describe("CRUD completo de /merchants", () => {
       reputation: 3,
       contact: "nobody@ex.com",
     });
-    await request(app).patch(`/merchants/${doc._id}`).expect(400);
+    await api.patch(`/merchants/${doc._id}`).expect(400);
   });
 
   test("PATCH /merchants/:id → 400 campo no permitido", async () => {
@@ -302,7 +320,7 @@ describe("CRUD completo de /merchants", () => {
       reputation: 4,
       contact: "nofoo@ex.com",
     });
-    await request(app)
+    await api
       .patch(`/merchants/${doc._id}`)
       .send({ bar: "baz" })
       .expect(400);
@@ -310,7 +328,7 @@ describe("CRUD completo de /merchants", () => {
 
   test("PATCH /merchants/:id → 404 si no existe", async () => {
     const fake = new mongoose.Types.ObjectId().toString();
-    await request(app)
+    await api
       .patch(`/merchants/${fake}`)
       .send({ reputation: 2 })
       .expect(404);
@@ -326,19 +344,19 @@ describe("CRUD completo de /merchants", () => {
       reputation: 2,
       contact: "validdel@ex.com",
     });
-    await request(app)
+    await api
       .delete("/merchants")
       .query({ name: "ValidDel" })
       .expect(200);
-    expect(await MerchantModel.findOne({ name: "ValidDel" })).toBeNull();
+    expect((await MerchantModel.findOne({ name: "ValidDel" }))!.deletedAt).toBeInstanceOf(Date);
   });
 
   test("DELETE /merchants?name=… → 400 sin name", async () => {
-    await request(app).delete("/merchants").expect(400);
+    await api.delete("/merchants").expect(400);
   });
 
   test("DELETE /merchants?name=… → 404 si no existe", async () => {
-    await request(app).delete("/merchants").query({ name: "Nope" }).expect(404);
+    await api.delete("/merchants").query({ name: "Nope" }).expect(404);
   });
 
   test("DELETE /merchants/:id → 200 elimina por id", async () => {
@@ -351,17 +369,17 @@ describe("CRUD completo de /merchants", () => {
       reputation: 9,
       contact: "xiddel@ex.com",
     });
-    await request(app).delete(`/merchants/${doc._id}`).expect(200);
-    expect(await MerchantModel.findById(doc._id)).toBeNull();
+    await api.delete(`/merchants/${doc._id}`).expect(200);
+    expect((await MerchantModel.findById(doc._id))!.deletedAt).toBeInstanceOf(Date);
   });
 
   test("DELETE /merchants/:id → 404 si no existe", async () => {
     const fake = new mongoose.Types.ObjectId().toString();
-    await request(app).delete(`/merchants/${fake}`).expect(404);
+    await api.delete(`/merchants/${fake}`).expect(404);
   });
 
   test("DELETE /merchants/:id → 400 id mal formado", async () => {
-    await request(app).delete("/merchants/1234").expect(400);
+    await api.delete("/merchants/1234").expect(400);
   });
 
   test("POST /merchants → 201 y crea correctamente en DB", async () => {
@@ -375,7 +393,7 @@ describe("CRUD completo de /merchants", () => {
       contact: "shop@example.com",
     };
     const before = await MerchantModel.countDocuments();
-    const res = await request(app).post("/merchants").send(merchant).expect(201);
+    const res = await api.post("/merchants").send(merchant).expect(201);
     expect(res.body).toMatchObject({
       name: merchant.name,
       location: merchant.location,
@@ -403,8 +421,8 @@ describe("CRUD completo de /merchants", () => {
       contact: "contact@ex.com",
     };
     const before = await MerchantModel.countDocuments();
-    const res = await request(app).post("/merchants").send(bad).expect(400);
-    expect(res.body).toHaveProperty("errors.name");
+    const res = await api.post("/merchants").send(bad).expect(400);
+    expect(invalidFields(res)).toContain("name");
     const after = await MerchantModel.countDocuments();
     expect(after).toBe(before);
   });
@@ -430,12 +448,12 @@ describe("CRUD completo de /merchants", () => {
         contact: "mer2@ex.com",
       },
     ]);
-    const res = await request(app).get("/merchants").expect(200);
-    expect(res.body).toHaveLength(2);
-    const returnedNames = res.body.map((m: any) => m.name);
+    const res = await api.get("/merchants").expect(200);
+    expect(res.body.data).toHaveLength(2);
+    const returnedNames = res.body.data.map((m: any) => m.name);
     expect(returnedNames).toEqual(expect.arrayContaining(["Mer1", "Mer2"]));
     docs.forEach(doc => {
-      const match = res.body.find((m: any) => m.name === doc.name);
+      const match = res.body.data.find((m: any) => m.name === doc.name);
       expect(match).toBeDefined();
       expect(match).toMatchObject({
         name: doc.name,
@@ -459,7 +477,7 @@ describe("CRUD completo de /merchants", () => {
       reputation: 7,
       contact: "byname@ex.com",
     });
-    const res = await request(app)
+    const res = await api
       .patch("/merchants")
       .query({ name: "ByName" })
       .send({ reputation: 9 })
@@ -479,10 +497,164 @@ describe("CRUD completo de /merchants", () => {
       reputation: 9,
       contact: "xiddel@ex.com",
     });
-    const before = await MerchantModel.countDocuments();
-    await request(app).delete(`/merchants/${doc._id}`).expect(200);
-    const after = await MerchantModel.countDocuments();
+    const before = await MerchantModel.countDocuments({ deletedAt: null });
+    await api.delete(`/merchants/${doc._id}`).expect(200);
+    const after = await MerchantModel.countDocuments({ deletedAt: null });
     expect(after).toBe(before - 1);
-    expect(await MerchantModel.findById(doc._id)).toBeNull();
+    expect((await MerchantModel.findById(doc._id))!.deletedAt).toBeInstanceOf(Date);
+  });
+});
+
+describe("Inventario de /merchants/:id/inventory", () => {
+  async function seedInventory() {
+    const merchant = await MerchantModel.create({
+      name: "Invent",
+      location: "Oxenfurt",
+      contact: "invent@ex.com",
+      specialty: "armero",
+      inventorySize: 10,
+      reputation: 5,
+    });
+    const good = await GoodModel.create({
+      id: 100,
+      name: "Escudo",
+      material: "madera",
+      weight: 4,
+      value: 40,
+    });
+    return { merchant, good };
+  }
+
+  test("POST → 201 crea la línea con precio propio", async () => {
+    const { merchant, good } = await seedInventory();
+    const res = await api
+      .post(`/merchants/${merchant._id}/inventory`)
+      .send({ goodName: good.name, quantity: 4, price: 55 })
+      .expect(201);
+    expect(res.body).toMatchObject({ quantity: 4, price: 55 });
+
+    const line = await InventoryModel.findOne({ merchant: merchant._id });
+    expect(line!.quantity).toBe(4);
+  });
+
+  test("POST → 201 suma unidades a una línea existente", async () => {
+    const { merchant, good } = await seedInventory();
+    await api
+      .post(`/merchants/${merchant._id}/inventory`)
+      .send({ goodId: String(good._id), quantity: 3 })
+      .expect(201);
+    const res = await api
+      .post(`/merchants/${merchant._id}/inventory`)
+      .send({ goodId: String(good._id), quantity: 2 })
+      .expect(201);
+    expect(res.body.quantity).toBe(5);
+    expect(await InventoryModel.countDocuments()).toBe(1);
+  });
+
+  test("POST → 409 si la reposición supera inventorySize y no modifica nada", async () => {
+    const { merchant, good } = await seedInventory();
+    await api
+      .post(`/merchants/${merchant._id}/inventory`)
+      .send({ goodName: good.name, quantity: 8 })
+      .expect(201);
+    const res = await api
+      .post(`/merchants/${merchant._id}/inventory`)
+      .send({ goodName: good.name, quantity: 3 })
+      .expect(409);
+    expect(res.body.code).toBe("INVENTORY_FULL");
+    const line = await InventoryModel.findOne({ merchant: merchant._id });
+    expect(line!.quantity).toBe(8);
+  });
+
+  test("POST → 400 si la cantidad no es un entero positivo", async () => {
+    const { merchant, good } = await seedInventory();
+    await api
+      .post(`/merchants/${merchant._id}/inventory`)
+      .send({ goodName: good.name, quantity: 0 })
+      .expect(400);
+  });
+
+  test("POST → 404 si el bien o el mercader no existen", async () => {
+    const { merchant, good } = await seedInventory();
+    await api
+      .post(`/merchants/${merchant._id}/inventory`)
+      .send({ goodName: "Inexistente", quantity: 1 })
+      .expect(404);
+    const fake = new mongoose.Types.ObjectId().toString();
+    await api
+      .post(`/merchants/${fake}/inventory`)
+      .send({ goodName: good.name, quantity: 1 })
+      .expect(404);
+  });
+
+  test("GET → 200 devuelve capacidad, ocupación y líneas", async () => {
+    const { merchant, good } = await seedInventory();
+    await InventoryModel.create({
+      merchant: merchant._id,
+      good: good._id,
+      quantity: 6,
+    });
+    const res = await api
+      .get(`/merchants/${merchant._id}/inventory`)
+      .expect(200);
+    expect(res.body).toMatchObject({ inventorySize: 10, used: 6 });
+    expect(res.body.lines).toHaveLength(1);
+    expect(res.body.lines[0].good.name).toBe("Escudo");
+  });
+
+  test("GET → 404 si el mercader no existe", async () => {
+    const fake = new mongoose.Types.ObjectId().toString();
+    await api.get(`/merchants/${fake}/inventory`).expect(404);
+  });
+});
+
+describe("Filtros de /merchants", () => {
+  beforeEach(async () => {
+    await MerchantModel.create([
+      { name: "Hattori", contact: "hattori@ex.com", location: "Novigrado", specialty: "herrero", isTraveling: false, inventorySize: 40, reputation: 8 },
+      { name: "Fergus", contact: "fergus@ex.com", location: "Vizima", specialty: "herrero", isTraveling: true, inventorySize: 20, reputation: 6 },
+      { name: "Elihal", contact: "elihal@ex.com", location: "Novigrado", specialty: "armero", isTraveling: true, inventorySize: 80, reputation: 9 },
+    ]);
+  });
+
+  const names = (res: request.Response) =>
+    res.body.data.map((m: any) => m.name).sort();
+
+  test("GET /merchants?location&reputation[gte] → filtra por ubicación y rango", async () => {
+    const res = await api
+      .get("/merchants")
+      .query({ location: "Novigrado", "reputation[gte]": 8 })
+      .expect(200);
+    expect(names(res)).toEqual(["Elihal", "Hattori"]);
+  });
+
+  test("GET /merchants?isTraveling=false → convierte el booleano", async () => {
+    const res = await api
+      .get("/merchants")
+      .query({ isTraveling: "false" })
+      .expect(200);
+    expect(names(res)).toEqual(["Hattori"]);
+  });
+
+  test("GET /merchants?inventorySize[gt]&inventorySize[lt] → filtra por rango", async () => {
+    const res = await api
+      .get("/merchants")
+      .query({ "inventorySize[gt]": 20, "inventorySize[lt]": 80 })
+      .expect(200);
+    expect(names(res)).toEqual(["Hattori"]);
+  });
+
+  test("GET /merchants?reputation=alta → 400 si el número no es válido", async () => {
+    await api
+      .get("/merchants")
+      .query({ reputation: "alta" })
+      .expect(400);
+  });
+
+  test("GET /merchants?isTraveling=1 → 400 si el booleano no es válido", async () => {
+    await api
+      .get("/merchants")
+      .query({ isTraveling: "1" })
+      .expect(400);
   });
 });
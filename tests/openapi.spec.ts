@@ -0,0 +1,72 @@
+import { describe, beforeAll, test, expect } from "vitest";
+import request from "supertest";
+import { apiRouters, setupApp } from "../src/app.js";
+import type { Express, Router } from "express";
+
+let app: Express;
+
+beforeAll(async () => {
+  app = await setupApp();
+});
+
+/**
+ * Rutas declaradas en un router como `MÉTODO /ruta/{param}`.
+ */
+const routesOf = (base: string, router: Router) =>
+  router.stack
+    .filter((layer) => layer.route)
+    .flatMap((layer) => {
+      const route = layer.route as unknown as {
+        path: string;
+        methods: Record<string, boolean>;
+      };
+      const path = (base + route.path)
+        .replace(/\/$/, "")
+        .replace(/:(\w+)/g, "{$1}");
+      return Object.keys(route.methods).map((method) => `${method} ${path}`);
+    });
+
+describe("Documento OpenAPI", () => {
+  test("GET /openapi.json → 200 con un documento OpenAPI 3.1", async () => {
+    const res = await request(app).get("/openapi.json").expect(200);
+    expect(res.body.openapi).toBe("3.1.0");
+    expect(res.body.paths).toHaveProperty("/goods");
+  });
+
+  test("todas las rutas de la API tienen entrada en el documento", async () => {
+    const res = await request(app).get("/openapi.json").expect(200);
+    const documented = Object.entries(res.body.paths).flatMap(
+      ([path, operations]) =>
+        Object.keys(operations as object).map((method) => `${method} ${path}`),
+    );
+    const routes = apiRouters.flatMap(([base, router]) =>
+      routesOf(base, router),
+    );
+    expect(routes.length).toBeGreaterThan(0);
+    expect(routes.filter((route) => !documented.includes(route))).toEqual([]);
+  });
+
+  test("los esquemas incluyen enumerados, límites y campos obligatorios", async () => {
+    const res = await request(app).get("/openapi.json").expect(200);
+    const { Good, Hunter, Transaction, GoodUpdate } = res.body.components.schemas;
+    expect(Good.properties.material.enum).toEqual(
+      expect.arrayContaining(["acero", "madera"]),
+    );
+    expect(Good.required).toEqual(
+      expect.arrayContaining(["id", "name", "material", "weight", "value"]),
+    );
+    expect(Hunter.properties.experience).toMatchObject({ minimum: 0, maximum: 100 });
+    expect(Hunter.properties.monsterSpecialty).toMatchObject({
+      type: "array",
+      items: { type: "string" },
+    });
+    expect(Transaction.properties.type.enum).toEqual(["purchase", "sale"]);
+    expect(Transaction.properties.items.items.properties.quantity.minimum).toBe(1);
+    expect(GoodUpdate).not.toHaveProperty("required");
+  });
+
+  test("GET /api-docs/ → 200 con el visor interactivo", async () => {
+    const res = await request(app).get("/api-docs/").expect(200);
+    expect(res.headers["content-type"]).toMatch(/html/);
+  });
+});
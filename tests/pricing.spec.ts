@@ -0,0 +1,123 @@
+import { describe, beforeAll, beforeEach, test, expect } from "vitest";
+import request from "supertest";
+import { setupApp } from "../src/app.js";
+import { signToken } from "../src/utils/tokens.js";
+import { PricingRuleModel } from "../src/models/pricing.js";
+import { GoodModel } from "../src/models/good.js";
+import { HunterModel, HunterDocument } from "../src/models/hunter.js";
+import { MerchantModel, MerchantDocument } from "../src/models/merchant.js";
+import { InventoryModel } from "../src/models/inventory.js";
+import { TransactionModel } from "../src/models/transaction.js";
+import type { Express } from "express";
+
+let app: Express;
+/** Cliente autenticado como administrador */
+let api: ReturnType<typeof request.agent>;
+let geralt: HunterDocument;
+let zoltan: MerchantDocument;
+
+const renowned = { name: "Mercaderes de renombre", party: "seller", partyModel: "Merchant", minReputation: 8, adjustment: 20, priority: 1 };
+const veterans = { name: "Brujos veteranos", party: "buyer", hunterTypes: ["brujo"], minExperience: 80, adjustment: -10, priority: 2 };
+const nobles = { name: "Nobles", party: "buyer", partyModel: "Hunter", hunterTypes: ["noble"], adjustment: 25 };
+
+/** Compra de espadas de plata por un comprador (a la posada si no hay vendedor) */
+const purchase = (buyerName: string, quantity: number, sellerName?: string) => ({ type: "purchase", buyerName, sellerName, items: [{ goodName: "Espada de plata", quantity }] });
+
+beforeAll(async () => {
+  app = await setupApp();
+  api = request.agent(app).auth(signToken({ sub: "admin", role: "admin" }), { type: "bearer" });
+  // El índice único de los nombres debe existir antes de probar los duplicados
+  await PricingRuleModel.init();
+});
+
+beforeEach(async () => {
+  await Promise.all([PricingRuleModel.deleteMany({}), GoodModel.deleteMany({}), HunterModel.deleteMany({}), MerchantModel.deleteMany({}), InventoryModel.deleteMany({}), TransactionModel.deleteMany({})]);
+  const sword = await GoodModel.create({ id: 1301, name: "Espada de plata", material: "acero", weight: 2.5, value: 100, stock: 10 });
+  geralt = await HunterModel.create({ name: "Geralt", type: "brujo", experience: 95, coins: 1000, email: "geralt@rivia.com", monsterSpecialty: ["vampiros"] });
+  await HunterModel.create({ name: "Yennefer", type: "noble", experience: 90, coins: 1000, email: "yennefer@vengerberg.com", monsterSpecialty: ["djinns"] });
+  zoltan = await MerchantModel.create({ name: "Zoltan", location: "Novigrado", specialty: "armero", inventorySize: 50, reputation: 9, coins: 1000, contact: "zoltan@dwarves.com" });
+  await InventoryModel.create({ merchant: zoltan._id, good: sword._id, quantity: 5 });
+  await PricingRuleModel.create([renowned, veterans, nobles]);
+});
+
+describe("Reglas de precio en las transacciones", () => {
+  test("los brujos veteranos compran con descuento y el ítem registra la regla", async () => {
+    const res = await api.post("/transactions").send(purchase("Geralt", 2)).expect(201);
+    expect(res.body.items[0]).toMatchObject({ basePrice: 100, priceAtTransaction: 90, appliedRules: [{ name: "Brujos veteranos", adjustment: -10 }] });
+    expect(res.body.totalAmount).toBe(180);
+    expect((await HunterModel.findById(geralt._id))!.coins).toBe(820);
+  });
+
+  test("las reglas del comprador y del vendedor se acumulan por prioridad", async () => {
+    const res = await api.post("/transactions").send(purchase("Geralt", 1, "Zoltan")).expect(201);
+    expect(res.body.items[0].priceAtTransaction).toBe(108);
+    expect(res.body.items[0].appliedRules.map((r: { name: string }) => r.name)).toEqual(["Mercaderes de renombre", "Brujos veteranos"]);
+    expect((await MerchantModel.findById(zoltan._id))!.coins).toBe(1108);
+  });
+
+  test("los nobles pagan más; las reglas inactivas o de otro tipo no se aplican", async () => {
+    const first = await api.post("/transactions").send(purchase("Yennefer", 1)).expect(201);
+    expect(first.body.items[0].priceAtTransaction).toBe(125);
+
+    await PricingRuleModel.updateOne({ name: "Nobles" }, { active: false });
+    await PricingRuleModel.create({ name: "Solo ventas", party: "buyer", transactionType: "sale", adjustment: 50 });
+    const second = await api.post("/transactions").send(purchase("Yennefer", 1)).expect(201);
+    expect(second.body.items[0]).toMatchObject({ basePrice: 100, priceAtTransaction: 100, appliedRules: [] });
+  });
+
+  test("la reputación del mercader debe alcanzar el mínimo", async () => {
+    await MerchantModel.updateOne({ _id: zoltan._id }, { reputation: 5 });
+    const res = await api.post("/transactions").send(purchase("Geralt", 1, "Zoltan")).expect(201);
+    expect(res.body.items[0].appliedRules.map((r: { name: string }) => r.name)).toEqual(["Brujos veteranos"]);
+  });
+
+  test("las transacciones conservan su precio si la regla cambia; PUT lo recalcula", async () => {
+    const tx = await api.post("/transactions").send(purchase("Geralt", 1)).expect(201);
+    await PricingRuleModel.updateOne({ name: "Brujos veteranos" }, { adjustment: -20 });
+
+    const stored = await api.get(`/transactions/${tx.body._id}`).expect(200);
+    expect(stored.body.items[0]).toMatchObject({ priceAtTransaction: 90, appliedRules: [{ adjustment: -10 }] });
+
+    const updated = await api.put(`/transactions/${tx.body._id}`).send(purchase("Geralt", 1)).expect(200);
+    expect(updated.body.items[0]).toMatchObject({ priceAtTransaction: 80, appliedRules: [{ adjustment: -20 }] });
+    expect((await HunterModel.findById(geralt._id))!.coins).toBe(920);
+  });
+});
+
+describe("/pricing-rules", () => {
+  test("POST → 201; nombre repetido → 409; campos no válidos → 400", async () => {
+    const res = await api.post("/pricing-rules").send({ name: "Bandidos", party: "buyer", hunterTypes: ["bandido"], adjustment: 30 }).expect(201);
+    expect(res.body).toMatchObject({ name: "Bandidos", partyModel: null, minExperience: null, priority: 0, active: true });
+
+    await api.post("/pricing-rules").send({ name: "Bandidos", party: "buyer", adjustment: 5 }).expect(409);
+    await api.post("/pricing-rules").send({ name: "Elfos", party: "buyer", hunterTypes: ["elfo"], adjustment: 5 }).expect(400);
+    await api.post("/pricing-rules").send({ name: "Regalo", party: "buyer", adjustment: -150 }).expect(400);
+    await api.post("/pricing-rules").send({ name: "Sin parte", adjustment: 5 }).expect(400);
+  });
+
+  test("GET lista las reglas en orden de aplicación y admite filtros", async () => {
+    const res = await api.get("/pricing-rules").expect(200);
+    expect(res.body.data.map((r: { name: string }) => r.name)).toEqual(["Nobles", "Mercaderes de renombre", "Brujos veteranos"]);
+    const sellers = await api.get("/pricing-rules").query({ party: "seller" }).expect(200);
+    expect(sellers.body.data).toHaveLength(1);
+  });
+
+  test("PATCH elimina condiciones con null; DELETE → 200 y luego 404", async () => {
+    const rule = (await PricingRuleModel.findOne({ name: "Mercaderes de renombre" }))!;
+    const res = await api.patch(`/pricing-rules/${rule._id}`).send({ minReputation: null, adjustment: 15 }).expect(200);
+    expect(res.body).toMatchObject({ minReputation: null, adjustment: 15 });
+    await api.patch(`/pricing-rules/${rule._id}`).send({}).expect(400);
+
+    await api.delete(`/pricing-rules/${rule._id}`).expect(200);
+    await api.get(`/pricing-rules/${rule._id}`).expect(404);
+    await api.delete(`/pricing-rules/${rule._id}`).expect(404);
+  });
+
+  test("cualquier usuario las consulta; solo los administradores las gestionan", async () => {
+    const reader = request.agent(app).auth(signToken({ sub: "ro", role: "read-only" }), { type: "bearer" });
+    await reader.get("/pricing-rules").expect(200);
+    await reader.post("/pricing-rules").send({ name: "Bandidos", party: "buyer", adjustment: 30 }).expect(403);
+    const rule = (await PricingRuleModel.findOne({ name: "Nobles" }))!;
+    await reader.delete(`/pricing-rules/${rule._id}`).expect(403);
+  });
+});
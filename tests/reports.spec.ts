@@ -0,0 +1,195 @@
+import { describe, beforeAll, beforeEach, test, expect } from "vitest";
+import request from "supertest";
+import { setupApp } from "../src/app.js";
+import { signToken } from "../src/utils/tokens.js";
+import { GoodModel, GoodDocument } from "../src/models/good.js";
+import { HunterModel, HunterDocument } from "../src/models/hunter.js";
+import { MerchantModel, MerchantDocument } from "../src/models/merchant.js";
+import { TransactionModel } from "../src/models/transaction.js";
+import { InventoryModel } from "../src/models/inventory.js";
+import type { Express } from "express";
+
+let app: Express;
+/** Cliente autenticado como administrador */
+let api: ReturnType<typeof request.agent>;
+let sword: GoodDocument;
+let dagger: GoodDocument;
+let geralt: HunterDocument;
+let zoltan: MerchantDocument;
+
+/** Intervalo de los informes: todo 2025 */
+const year = { startDate: "2025-01-01T00:00:00Z", endDate: "2025-12-31T23:59:59Z" };
+
+beforeAll(async () => {
+  app = await setupApp();
+  api = request.agent(app).auth(signToken({ sub: "admin", role: "admin" }), { type: "bearer" });
+});
+
+beforeEach(async () => {
+  await Promise.all([GoodModel.deleteMany({}), HunterModel.deleteMany({}), MerchantModel.deleteMany({}), TransactionModel.deleteMany({}), InventoryModel.deleteMany({})]);
+  sword = await GoodModel.create({ id: 701, name: "Espada de plata", material: "acero", weight: 2.5, value: 100, stock: 10 });
+  dagger = await GoodModel.create({ id: 702, name: "Daga de madera", material: "madera", weight: 1, value: 10, stock: 10 });
+  geralt = await HunterModel.create({ name: "Geralt", type: "brujo", experience: 95, email: "geralt@rivia.com", monsterSpecialty: ["vampiros"] });
+  zoltan = await MerchantModel.create({ name: "Zoltan", location: "Novigrado", specialty: "armero", inventorySize: 50, reputation: 8, contact: "zoltan@dwarves.com" });
+
+  // Se crean directamente y en orden para fijar la fecha de cada transacción
+  for (const transaction of [
+    { type: "purchase", date: new Date("2024-12-31T12:00:00Z"), buyer: geralt._id, buyerModel: "Hunter", items: [{ good: sword._id, quantity: 1, priceAtTransaction: 100 }], totalAmount: 100 },
+    { type: "purchase", date: new Date("2025-05-05T10:00:00Z"), buyer: geralt._id, buyerModel: "Hunter", items: [{ good: sword._id, quantity: 2, priceAtTransaction: 100 }], totalAmount: 200 },
+    { type: "purchase", date: new Date("2025-05-20T10:00:00Z"), buyer: zoltan._id, buyerModel: "Merchant", items: [{ good: dagger._id, quantity: 5, priceAtTransaction: 10 }, { good: sword._id, quantity: 1, priceAtTransaction: 100 }], totalAmount: 150 },
+    { type: "sale", date: new Date("2025-06-03T10:00:00Z"), seller: zoltan._id, sellerModel: "Merchant", buyer: geralt._id, buyerModel: "Hunter", items: [{ good: dagger._id, quantity: 3, priceAtTransaction: 12 }], totalAmount: 36 },
+  ]) {
+    await TransactionModel.create(transaction);
+  }
+});
+
+describe("GET /reports/sales/:by", () => {
+  test("agrupa por bien y mes dentro del intervalo de fechas", async () => {
+    const res = await api.get("/reports/sales/goods").query(year).expect(200);
+    expect(res.body).toEqual([
+      { period: "2025-05", key: String(sword._id), name: "Espada de plata", revenue: 300, units: 3, transactions: 2 },
+      { period: "2025-05", key: String(dagger._id), name: "Daga de madera", revenue: 50, units: 5, transactions: 1 },
+      { period: "2025-06", key: String(dagger._id), name: "Daga de madera", revenue: 36, units: 3, transactions: 1 },
+    ]);
+  });
+
+  test("agrupa por material", async () => {
+    const res = await api.get("/reports/sales/materials").query(year).expect(200);
+    expect(res.body.map((row: { period: string; key: string; revenue: number }) => [row.period, row.key, row.revenue])).toEqual([
+      ["2025-05", "acero", 300],
+      ["2025-05", "madera", 50],
+      ["2025-06", "madera", 36],
+    ]);
+  });
+
+  test("los mercaderes se agrupan por sus ventas y los cazadores por sus compras", async () => {
+    const merchants = await api.get("/reports/sales/merchants").query(year).expect(200);
+    expect(merchants.body).toEqual([{ period: "2025-06", key: String(zoltan._id), name: "Zoltan", revenue: 36, units: 3, transactions: 1 }]);
+
+    const hunters = await api.get("/reports/sales/hunters").query(year).expect(200);
+    expect(hunters.body.map((row: { period: string; revenue: number }) => [row.period, row.revenue])).toEqual([
+      ["2025-05", 200],
+      ["2025-06", 36],
+    ]);
+  });
+
+  test("interval=week usa semanas ISO e interval=day días", async () => {
+    const weeks = await api.get("/reports/sales/hunters").query({ ...year, interval: "week" }).expect(200);
+    expect(weeks.body.map((row: { period: string }) => row.period)).toEqual(["2025-W19", "2025-W23"]);
+
+    const days = await api.get("/reports/sales/hunters").query({ ...year, interval: "day" }).expect(200);
+    expect(days.body.map((row: { period: string }) => row.period)).toEqual(["2025-05-05", "2025-06-03"]);
+  });
+
+  test("format=csv devuelve el informe como CSV", async () => {
+    const res = await api.get("/reports/sales/materials").query({ ...year, format: "csv" }).expect(200);
+    expect(res.headers["content-type"]).toMatch(/text\/csv/);
+    expect(res.headers["content-disposition"]).toMatch(/sales-materials\.csv/);
+    expect(res.text.split("\r\n").slice(0, 2)).toEqual(["period,key,name,revenue,units,transactions", "2025-05,acero,acero,300,3,2"]);
+  });
+
+  test("→ 400 si la dimensión o las fechas no son válidas", async () => {
+    await api.get("/reports/sales/planets").query(year).expect(400);
+    await api.get("/reports/sales/goods").query({ startDate: "2025-01-01" }).expect(400);
+    await api.get("/reports/sales/goods").query({ ...year, interval: "year" }).expect(400);
+  });
+});
+
+describe("Rankings de /reports", () => {
+  test("GET /reports/top-goods ordena por unidades vendidas", async () => {
+    const res = await api.get("/reports/top-goods").query(year).expect(200);
+    expect(res.body).toEqual([
+      { key: String(dagger._id), name: "Daga de madera", material: "madera", units: 8, revenue: 86 },
+      { key: String(sword._id), name: "Espada de plata", material: "acero", units: 3, revenue: 300 },
+    ]);
+  });
+
+  test("limit acota el número de filas", async () => {
+    const res = await api.get("/reports/top-goods").query({ ...year, limit: 1 }).expect(200);
+    expect(res.body).toHaveLength(1);
+    expect(res.body[0].name).toBe("Daga de madera");
+  });
+
+  test("GET /reports/top-spenders ordena cazadores y mercaderes por gasto", async () => {
+    const res = await api.get("/reports/top-spenders").query(year).expect(200);
+    expect(res.body).toEqual([
+      { key: String(geralt._id), name: "Geralt", model: "Hunter", spent: 236, transactions: 2 },
+      { key: String(zoltan._id), name: "Zoltan", model: "Merchant", spent: 150, transactions: 1 },
+    ]);
+  });
+
+  test("format=csv devuelve el ranking como CSV", async () => {
+    const res = await api.get("/reports/top-spenders").query({ ...year, format: "csv" }).expect(200);
+    expect(res.text.split("\r\n")[1]).toBe(`${geralt._id},Geralt,Hunter,236,2`);
+  });
+});
+
+describe("GET /reports/inventory", () => {
+  test("valora el stock de la posada por material y por bien", async () => {
+    const res = await api.get("/reports/inventory").expect(200);
+    expect(res.body.total).toEqual({ goods: 2, stock: 11, value: 650, weight: 20 });
+    expect(res.body.materials).toEqual([
+      { material: "acero", goods: 1, stock: 6, value: 600, weight: 15 },
+      { material: "madera", goods: 1, stock: 5, value: 50, weight: 5 },
+    ]);
+    expect(res.body.goods[0]).toEqual({ key: String(sword._id), id: 701, name: "Espada de plata", material: "acero", stock: 6, value: 600, weight: 15 });
+  });
+
+  test("no incluye los bienes eliminados", async () => {
+    await GoodModel.updateOne({ _id: dagger._id }, { deletedAt: new Date() });
+    const res = await api.get("/reports/inventory").expect(200);
+    expect(res.body.total).toMatchObject({ goods: 1, value: 600 });
+  });
+
+  test("sin bienes todos los totales son 0", async () => {
+    await GoodModel.deleteMany({});
+    const res = await api.get("/reports/inventory").expect(200);
+    expect(res.body).toEqual({ total: { goods: 0, stock: 0, value: 0, weight: 0 }, materials: [], goods: [] });
+  });
+});
+
+describe("GET /goods/:id/stock-history", () => {
+  test("reconstruye el stock desde el actual con las transacciones de la posada", async () => {
+    const res = await api.get(`/goods/${sword._id}/stock-history`).expect(200);
+    expect(res.body).toMatchObject({ good: String(sword._id), name: "Espada de plata", stock: 6, opening: 10, closing: 6 });
+    expect(res.body.movements.map((m: { quantity: number; balance: number }) => [m.quantity, m.balance])).toEqual([
+      [-1, 9],
+      [-2, 7],
+      [-1, 6],
+    ]);
+  });
+
+  test("from y to acotan los movimientos y fijan el stock inicial y final", async () => {
+    const res = await api.get(`/goods/${sword._id}/stock-history`).query({ from: "2025-01-01T00:00:00Z", to: "2025-05-10T00:00:00Z" }).expect(200);
+    expect(res.body).toMatchObject({ opening: 9, closing: 7 });
+    expect(res.body.movements).toEqual([expect.objectContaining({ type: "purchase", quantity: -2, balance: 7, date: "2025-05-05T10:00:00.000Z" })]);
+  });
+
+  test("ignora las transacciones entre mercaderes y cazadores", async () => {
+    const res = await api.get(`/goods/${dagger._id}/stock-history`).expect(200);
+    expect(res.body.movements.map((m: { quantity: number }) => m.quantity)).toEqual([-5]);
+    expect(res.body).toMatchObject({ opening: 10, closing: 5 });
+  });
+
+  test("→ 404 si el bien no existe", async () => {
+    await api.get("/goods/507f1f77bcf86cd799439011/stock-history").expect(404);
+  });
+});
+
+describe("Permisos de /reports", () => {
+  test("los usuarios de solo lectura pueden consultar los informes", async () => {
+    await request(app)
+      .get("/reports/top-goods")
+      .query(year)
+      .set("Authorization", `Bearer ${signToken({ sub: "ro", role: "read-only" })}`)
+      .expect(200);
+  });
+
+  test("→ 403 para cazadores y mercaderes", async () => {
+    await request(app)
+      .get("/reports/sales/goods")
+      .query(year)
+      .set("Authorization", `Bearer ${signToken({ sub: "geralt", role: "hunter", party: String(geralt._id) })}`)
+      .expect(403);
+  });
+});
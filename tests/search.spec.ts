@@ -0,0 +1,122 @@
+import { describe, beforeAll, beforeEach, test, expect } from "vitest";
+import request from "supertest";
+import { setupApp } from "../src/app.js";
+import { signToken } from "../src/utils/tokens.js";
+import { GoodModel } from "../src/models/good.js";
+import { HunterModel } from "../src/models/hunter.js";
+import { MerchantModel } from "../src/models/merchant.js";
+import { TransactionModel } from "../src/models/transaction.js";
+import type { Express } from "express";
+
+let app: Express;
+/** Cliente autenticado como administrador */
+let api: ReturnType<typeof request.agent>;
+
+beforeAll(async () => {
+  app = await setupApp();
+  api = request.agent(app).auth(signToken({ sub: "admin", role: "admin" }), { type: "bearer" });
+  // Espera a que existan los índices de texto antes de buscar
+  await Promise.all([GoodModel.init(), HunterModel.init(), MerchantModel.init()]);
+});
+
+beforeEach(async () => {
+  await Promise.all([
+    GoodModel.deleteMany({}),
+    HunterModel.deleteMany({}),
+    MerchantModel.deleteMany({}),
+    TransactionModel.deleteMany({}),
+  ]);
+  await GoodModel.create([
+    { id: 301, name: "Espada de plata", description: "Forjada para monstruos", material: "acero", weight: 3, value: 500 },
+    { id: 302, name: "Daga", description: "Más ligera que una espada", material: "acero", weight: 1, value: 80 },
+    { id: 303, name: "Poción Golondrina", description: "Cura heridas", material: "cuero", weight: 0.5, value: 40 },
+  ]);
+  await HunterModel.create([
+    { name: "Geralt", email: "geralt@kaermorhen.com", type: "brujo", experience: 100, preferredWeapon: "Espada de acero", monsterSpecialty: ["vampiros"] },
+    { name: "Milva", email: "milva@brokilon.com", type: "mercenario", experience: 70, preferredWeapon: "Arco", monsterSpecialty: ["ahogados"] },
+  ]);
+  await MerchantModel.create([
+    { name: "Hattori", contact: "hattori@ex.com", location: "Novigrado", specialty: "herrero", inventorySize: 50, reputation: 7 },
+    { name: "Bram", contact: "bram@ex.com", location: "Vizima", specialty: "alquimista", inventorySize: 30, reputation: 6 },
+  ]);
+});
+
+describe("Búsqueda de texto en /search", () => {
+  test("GET /search?q=espada → agrupa por colección sin distinguir mayúsculas", async () => {
+    const res = await api.get("/search").query({ q: "espada" }).expect(200);
+    expect(res.body.q).toBe("espada");
+    expect(res.body.goods.total).toBe(2);
+    expect(res.body.hunters.total).toBe(1);
+    expect(res.body.merchants.total).toBe(0);
+    expect(res.body.hunters.results[0]).toMatchObject({
+      type: "hunters",
+      document: { name: "Geralt" },
+    });
+  });
+
+  test("GET /search?q=espada → ordena por relevancia", async () => {
+    const res = await api.get("/search").query({ q: "espada" }).expect(200);
+    const [first, second] = res.body.goods.results;
+    expect(first.document.name).toBe("Espada de plata");
+    expect(second.document.name).toBe("Daga");
+    expect(first.score).toBeGreaterThan(second.score);
+  });
+
+  test("GET /search?types=merchants&limit=1 → limita colecciones y resultados", async () => {
+    const res = await api
+      .get("/search")
+      .query({ q: "novigrado vizima", types: "merchants", limit: 1 })
+      .expect(200);
+    expect(res.body).not.toHaveProperty("goods");
+    expect(res.body.merchants.total).toBe(2);
+    expect(res.body.merchants.results).toHaveLength(1);
+  });
+
+  test("GET /search → 400 si falta q", async () => {
+    const res = await api.get("/search").expect(400);
+    expect(res.body).toHaveProperty("detail");
+  });
+
+  test("GET /search?types=transactions → 400 si la colección no existe", async () => {
+    await api.get("/search").query({ q: "espada", types: "transactions" }).expect(400);
+  });
+});
+
+describe("Parámetro q en los listados", () => {
+  test("GET /goods?q=espada → página ordenada por relevancia", async () => {
+    const res = await api.get("/goods").query({ q: "espada" }).expect(200);
+    expect(res.body.total).toBe(2);
+    expect(res.body.data.map((g: any) => g.id)).toEqual([301, 302]);
+  });
+
+  test("GET /goods?q&sort → respeta el orden explícito y los filtros", async () => {
+    const res = await api
+      .get("/goods")
+      .query({ q: "espada", sort: "value" })
+      .expect(200);
+    expect(res.body.data.map((g: any) => g.id)).toEqual([302, 301]);
+
+    const filtered = await api
+      .get("/goods")
+      .query({ q: "espada", "value[gt]": 100 })
+      .expect(200);
+    expect(filtered.body.data.map((g: any) => g.id)).toEqual([301]);
+  });
+
+  test("GET /hunters?q=vampiros → busca en las especialidades", async () => {
+    const res = await api.get("/hunters").query({ q: "vampiros" }).expect(200);
+    expect(res.body.data.map((h: any) => h.name)).toEqual(["Geralt"]);
+  });
+
+  test("GET /merchants?q=vizima → busca por ubicación", async () => {
+    const res = await api.get("/merchants").query({ q: "vizima" }).expect(200);
+    expect(res.body.data.map((m: any) => m.name)).toEqual(["Bram"]);
+  });
+
+  test("GET /transactions/date-range?q=espada → 400 si el listado no admite búsqueda", async () => {
+    await api
+      .get("/transactions/date-range")
+      .query({ startDate: "2020-01-01", endDate: "2030-01-01", q: "espada" })
+      .expect(400);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, beforeAll, beforeEach, test, expect } from "vitest";
+import request from "supertest";
+import { setupApp } from "../src/app.js";
+import { signToken } from "../src/utils/tokens.js";
+import { GoodModel } from "../src/models/good.js";
+import { HunterModel } from "../src/models/hunter.js";
+import { MerchantModel } from "../src/models/merchant.js";
+import { TransactionModel } from "../src/models/transaction.js";
+import { InventoryModel } from "../src/models/inventory.js";
+import type { Express } from "express";
+
+let app: Express;
+/** Cliente autenticado como administrador */
+let api: ReturnType<typeof request.agent>;
+
+beforeAll(async () => {
+  app = await setupApp();
+  api = request.agent(app).auth(signToken({ sub: "admin", role: "admin" }), { type: "bearer" });
+});
+
+beforeEach(async () => {
+  await Promise.all([
+    GoodModel.deleteMany({}),
+    HunterModel.deleteMany({}),
+    MerchantModel.deleteMany({}),
+    TransactionModel.deleteMany({}),
+    InventoryModel.deleteMany({}),
+  ]);
+});
+
+const sword = { id: 701, name: "Espada de plata", material: "acero", weight: 2.5, value: 250, stock: 10 };
+const dagger = { id: 702, name: "Daga de hierro", material: "madera", weight: 1, value: 40, stock: 10 };
+const geralt = { name: "Geralt", type: "brujo", experience: 95, coins: 1000, email: "geralt@rivia.com", monsterSpecialty: ["vampiros"] };
+const zoltan = { name: "Zoltan", location: "Novigrado", specialty: "armero", inventorySize: 50, reputation: 8, contact: "zoltan@dwarves.com" };
+
+describe("Borrado lógico", () => {
+  test("DELETE oculta el bien de los listados y de GET /:id", async () => {
+    const good = await GoodModel.create(sword);
+    const res = await api.delete(`/goods/${good._id}`).expect(200);
+    expect(res.body.deletedAt).not.toBeNull();
+
+    const list = await api.get("/goods").expect(200);
+    expect(list.body.total).toBe(0);
+    await api.get(`/goods/${good._id}`).expect(404);
+    await api.delete(`/goods/${good._id}`).expect(404);
+    await api.patch(`/goods/${good._id}`).send({ value: 1 }).expect(404);
+  });
+
+  test("includeDeleted=true muestra los eliminados a los administradores", async () => {
+    const good = await GoodModel.create(sword);
+    await api.delete(`/goods/${good._id}`).expect(200);
+
+    const list = await api.get("/goods").query({ includeDeleted: true }).expect(200);
+    expect(list.body.total).toBe(1);
+    await api.get(`/goods/${good._id}`).query({ includeDeleted: true }).expect(200);
+  });
+
+  test("includeDeleted=true → 403 para usuarios que no son administradores", async () => {
+    const res = await request(app)
+      .get("/hunters")
+      .query({ includeDeleted: true })
+      .set("Authorization", `Bearer ${signToken({ sub: "ro", role: "read-only" })}`)
+      .expect(403);
+    expect(res.body.code).toBe("FORBIDDEN");
+  });
+
+  test("no se puede comprar a un cazador eliminado ni un bien eliminado", async () => {
+    const hunter = await HunterModel.create(geralt);
+    const good = await GoodModel.create(sword);
+    await api.delete(`/hunters/${hunter._id}`).expect(200);
+    await api
+      .post("/transactions")
+      .send({ type: "purchase", buyerName: "Geralt", items: [{ goodName: "Espada de plata", quantity: 1 }] })
+      .expect(404);
+
+    await api.post(`/hunters/${hunter._id}/restore`).expect(200);
+    await api.delete(`/goods/${good._id}`).expect(200);
+    await api
+      .post("/transactions")
+      .send({ type: "purchase", buyerName: "Geralt", items: [{ goodName: "Espada de plata", quantity: 1 }] })
+      .expect(404);
+  });
+
+  test("un mercader eliminado no aparece en la búsqueda global", async () => {
+    const merchant = await MerchantModel.create(zoltan);
+    await api.delete(`/merchants/${merchant._id}`).expect(200);
+    const res = await api.get("/search").query({ q: "Zoltan" }).expect(200);
+    expect(res.body.merchants.total).toBe(0);
+  });
+});
+
+describe("POST /:id/restore", () => {
+  test("restaura un cazador eliminado", async () => {
+    const hunter = await HunterModel.create(geralt);
+    await api.delete("/hunters").query({ name: "Geralt" }).expect(200);
+
+    const res = await api.post(`/hunters/${hunter._id}/restore`).expect(200);
+    expect(res.body.deletedAt).toBeNull();
+    await api.get(`/hunters/${hunter._id}`).expect(200);
+  });
+
+  test("→ 409 si el documento no está eliminado", async () => {
+    const merchant = await MerchantModel.create(zoltan);
+    const res = await api.post(`/merchants/${merchant._id}/restore`).expect(409);
+    expect(res.body.code).toBe("CONFLICT");
+  });
+
+  test("→ 404 si no existe y 403 si no es administrador", async () => {
+    await api.post("/goods/507f1f77bcf86cd799439011/restore").expect(404);
+    const good = await GoodModel.create(sword);
+    await request(app)
+      .post(`/goods/${good._id}/restore`)
+      .set("Authorization", `Bearer ${signToken({ sub: "ro", role: "read-only" })}`)
+      .expect(403);
+  });
+});
+
+describe("POST /purge", () => {
+  test("elimina los bienes sin referencias y conserva los que están en un inventario", async () => {
+    await GoodModel.create([sword, dagger]);
+    const merchant = await MerchantModel.create(zoltan);
+    await api.post(`/merchants/${merchant._id}/inventory`).send({ goodName: "Espada de plata", quantity: 1 }).expect(201);
+    await api.delete("/goods").query({ name: "Espada de plata" }).expect(200);
+    await api.delete("/goods").query({ name: "Daga de hierro" }).expect(200);
+
+    const res = await api.post("/goods/purge").expect(200);
+    expect(res.body).toEqual({ purged: 1, kept: 1 });
+    expect(await GoodModel.exists({ name: "Daga de hierro" })).toBeNull();
+    expect(await GoodModel.exists({ name: "Espada de plata" })).not.toBeNull();
+  });
+
+  test("no toca los documentos que no están eliminados", async () => {
+    await HunterModel.create(geralt);
+    const res = await api.post("/hunters/purge").expect(200);
+    expect(res.body).toEqual({ purged: 0, kept: 0 });
+    expect(await HunterModel.countDocuments()).toBe(1);
+  });
+
+  test("elimina el inventario de los mercaderes purgados", async () => {
+    const merchant = await MerchantModel.create(zoltan);
+    await GoodModel.create(sword);
+    await api.post(`/merchants/${merchant._id}/inventory`).send({ goodName: "Espada de plata", quantity: 3 }).expect(201);
+    await api.delete(`/merchants/${merchant._id}`).expect(200);
+
+    const res = await api.post("/merchants/purge").expect(200);
+    expect(res.body).toEqual({ purged: 1, kept: 0 });
+    expect(await InventoryModel.countDocuments({ merchant: merchant._id })).toBe(0);
+  });
+});
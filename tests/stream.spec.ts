@@ -0,0 +1,171 @@
+import { describe, beforeAll, beforeEach, afterAll, afterEach, test, expect } from "vitest";
+import request from "supertest";
+import { get, IncomingMessage, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { setupApp } from "../src/app.js";
+import { signToken } from "../src/utils/tokens.js";
+import { streamOptions } from "../src/utils/stream.js";
+import { GoodModel } from "../src/models/good.js";
+import { HunterModel, HunterDocument } from "../src/models/hunter.js";
+import { MerchantModel } from "../src/models/merchant.js";
+import { InventoryModel } from "../src/models/inventory.js";
+import { TransactionModel } from "../src/models/transaction.js";
+import type { Express } from "express";
+
+let app: Express;
+/** Cliente autenticado como administrador */
+let api: ReturnType<typeof request.agent>;
+/** Servidor en el que se abren los flujos */
+let server: Server;
+let geralt: HunterDocument;
+/** Flujos abiertos en cada prueba */
+let streams: Stream[] = [];
+
+const adminToken = signToken({ sub: "admin", role: "admin" });
+const defaults = { ...streamOptions };
+
+/** Flujo abierto con los mensajes recibidos */
+interface Stream {
+  response: IncomingMessage;
+  /** Mensajes de evento recibidos */
+  events: Array<{ id: string; event: string; data: Record<string, unknown> }>;
+  /** Texto recibido sin procesar */
+  raw: string;
+  close: () => void;
+}
+
+/** Abre `GET /transactions/stream` y acumula los mensajes recibidos */
+function openStream(query = "", headers: Record<string, string> = {}): Promise<Stream> {
+  const { port } = server.address() as AddressInfo;
+  return new Promise((resolve, reject) => {
+    const req = get({ port, host: "127.0.0.1", path: `/transactions/stream${query}`, headers: { Authorization: `Bearer ${adminToken}`, ...headers } }, (response) => {
+      const stream: Stream = { response, events: [], raw: "", close: () => req.destroy() };
+      let pending = "";
+      response.setEncoding("utf8");
+      response.on("data", (chunk: string) => {
+        stream.raw += chunk;
+        const blocks = (pending + chunk).split("\n\n");
+        pending = blocks.pop()!;
+        for (const block of blocks) {
+          const fields = Object.fromEntries(block.split("\n").filter((line) => !line.startsWith(":") && line.includes(": ")).map((line) => [line.slice(0, line.indexOf(": ")), line.slice(line.indexOf(": ") + 2)]));
+          if (fields.event) stream.events.push({ id: fields.id, event: fields.event, data: JSON.parse(fields.data) });
+        }
+      });
+      response.on("error", () => undefined);
+      streams.push(stream);
+      resolve(stream);
+    });
+    req.on("error", reject);
+  });
+}
+
+/** Espera a que se cumpla una condición, comprobándola cada 20 ms */
+async function waitFor(condition: () => boolean, timeout = 3000) {
+  const end = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > end) throw new Error("Tiempo de espera agotado");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+/** Compra de Geralt a la posada */
+const purchase = (goodName: string) => api.post("/transactions").send({ type: "purchase", buyerName: "Geralt", items: [{ goodName, quantity: 1 }] }).expect(201);
+
+beforeAll(async () => {
+  app = await setupApp();
+  api = request.agent(app).auth(adminToken, { type: "bearer" });
+  server = app.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(async () => {
+  await Promise.all([GoodModel.deleteMany({}), HunterModel.deleteMany({}), MerchantModel.deleteMany({}), InventoryModel.deleteMany({}), TransactionModel.deleteMany({})]);
+  await GoodModel.create([
+    { id: 901, name: "Espada de plata", material: "acero", weight: 2.5, value: 100, stock: 10 },
+    { id: 902, name: "Daga de madera", material: "madera", weight: 1, value: 10, stock: 10 },
+  ]);
+  geralt = await HunterModel.create({ name: "Geralt", type: "brujo", experience: 95, coins: 1000, email: "geralt@rivia.com", monsterSpecialty: ["vampiros"] });
+  await MerchantModel.create({ name: "Zoltan", location: "Novigrado", specialty: "armero", inventorySize: 50, reputation: 8, coins: 1000, contact: "zoltan@dwarves.com" });
+});
+
+afterEach(() => {
+  streams.forEach((stream) => stream.close());
+  streams = [];
+  Object.assign(streamOptions, defaults);
+});
+
+describe("GET /transactions/stream", () => {
+  test("envía las transacciones creadas, modificadas y eliminadas", async () => {
+    const stream = await openStream();
+    expect(stream.response.statusCode).toBe(200);
+    expect(stream.response.headers["content-type"]).toMatch(/text\/event-stream/);
+
+    const tx = await purchase("Espada de plata");
+    await api.put(`/transactions/${tx.body._id}`).send({ type: "purchase", buyerName: "Geralt", items: [{ goodName: "Espada de plata", quantity: 2 }] }).expect(200);
+    await api.delete(`/transactions/${tx.body._id}`).expect(200);
+
+    await waitFor(() => stream.events.length === 3);
+    expect(stream.events.map((e) => e.event)).toEqual(["transaction.created", "transaction.updated", "transaction.deleted"]);
+    expect(stream.events[0].data).toMatchObject({ _id: tx.body._id, type: "purchase", buyer: String(geralt._id), totalAmount: 100 });
+    expect(stream.events[1].data.totalAmount).toBe(200);
+    const ids = stream.events.map((e) => Number(e.id));
+    expect(ids[1]).toBe(ids[0] + 1);
+  });
+
+  test("filtra por tipo, cliente y bien", async () => {
+    const byGood = await openStream("?goodName=Daga%20de%20madera");
+    const byType = await openStream("?type=sale");
+    const byClient = await openStream("?clientName=Geralt");
+
+    await purchase("Espada de plata");
+    await purchase("Daga de madera");
+
+    await waitFor(() => byClient.events.length === 2 && byGood.events.length === 1);
+    expect((byGood.events[0].data.items as Array<{ good: string }>)[0].good).toBe(String((await GoodModel.findOne({ name: "Daga de madera" }))!._id));
+    expect(byType.events).toHaveLength(0);
+  });
+
+  test("Last-Event-ID reenvía los eventos perdidos", async () => {
+    const first = await openStream();
+    await purchase("Espada de plata");
+    await waitFor(() => first.events.length === 1);
+    first.close();
+
+    await purchase("Daga de madera");
+    await purchase("Espada de plata");
+
+    const resumed = await openStream("", { "Last-Event-ID": first.events[0].id });
+    await waitFor(() => resumed.events.length === 2);
+    expect(resumed.events.map((e) => Number(e.id))).toEqual([Number(first.events[0].id) + 1, Number(first.events[0].id) + 2]);
+  });
+
+  test("envía comentarios de heartbeat en las conexiones inactivas", async () => {
+    streamOptions.heartbeat = 30;
+    const stream = await openStream();
+    await waitFor(() => stream.raw.split(": heartbeat").length > 2);
+    expect(stream.events).toHaveLength(0);
+  });
+
+  test("los cazadores solo reciben sus propias transacciones", async () => {
+    const yennefer = await HunterModel.create({ name: "Yennefer", type: "noble", experience: 90, coins: 1000, email: "yennefer@vengerberg.com", monsterSpecialty: ["djinns"] });
+    const token = signToken({ sub: "yennefer", role: "hunter", party: String(yennefer._id) });
+    const stream = await openStream("", { Authorization: `Bearer ${token}` });
+
+    await purchase("Espada de plata");
+    await api.post("/transactions").send({ type: "purchase", buyerName: "Yennefer", items: [{ goodName: "Daga de madera", quantity: 1 }] }).expect(201);
+
+    await waitFor(() => stream.events.length === 1);
+    expect(stream.events[0].data.buyer).toBe(String(yennefer._id));
+    await request(app).get("/transactions/stream").query({ clientName: "Geralt" }).set("Authorization", `Bearer ${token}`).expect(403);
+  });
+
+  test("→ 400 y 404 si los filtros no son válidos", async () => {
+    await api.get("/transactions/stream").query({ type: "gift" }).expect(400);
+    await api.get("/transactions/stream").query({ clientName: "Ciri" }).expect(404);
+    await api.get("/transactions/stream").query({ goodName: "Excalibur" }).expect(404);
+  });
+});
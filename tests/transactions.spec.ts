@@ -9,16 +9,23 @@ import {
 import request from "supertest";
 import mongoose from "mongoose";
 import { setupApp } from "../src/app.js";
+import { signToken } from "../src/utils/tokens.js";
 import { TransactionModel } from "../src/models/transaction.js";
 import { GoodModel } from "../src/models/good.js";
 import { HunterModel } from "../src/models/hunter.js";
 import { MerchantModel } from "../src/models/merchant.js";
+import { InventoryModel } from "../src/models/inventory.js";
+import { InnModel } from "../src/models/inn.js";
+import { migrateTransactionParties } from "../src/db/migrations.js";
 import type { Express } from "express";
 
 let app: Express;
+/** Cliente autenticado como administrador */
+let api: ReturnType<typeof request.agent>;
 
 beforeAll(async () => {
   app = await setupApp();
+  api = request.agent(app).auth(signToken({ sub: "admin", role: "admin" }), { type: "bearer" });
 });
 
 beforeEach(async () => {
@@ -27,6 +34,8 @@ beforeEach(async () => {
     GoodModel.deleteMany({}),
     HunterModel.deleteMany({}),
     MerchantModel.deleteMany({}),
+    InventoryModel.deleteMany({}),
+    InnModel.deleteMany({}),
   ]);
 });
 
@@ -35,7 +44,7 @@ async function seedData() {
     name: "Geralt",
     type: "brujo",
     experience: 95,
-    coins: 500,
+    coins: 1000,
     isActive: true,
     monsterSpecialty: ["vampiros"],
     email: "geralt@rivia.com",
@@ -70,13 +79,18 @@ async function seedData() {
     },
   ]);
 
+  await InventoryModel.create([
+    { merchant: merchant._id, good: goods[0]._id, quantity: 10 },
+    { merchant: merchant._id, good: goods[1]._id, quantity: 20 },
+  ]);
+
   return { hunter, merchant, goods };
 }
 
 describe("/transactions CRUD y validaciones", () => {
   test("POST compra exitosa descuenta stock y retorna 201", async () => {
     const { hunter } = await seedData();
-    const res = await request(app)
+    const res = await api
       .post("/transactions")
       .send({
         type: "purchase",
@@ -103,7 +117,7 @@ describe("/transactions CRUD y validaciones", () => {
 
   test("POST venta exitosa incrementa stock y retorna 201", async () => {
     const { merchant } = await seedData();
-    const res = await request(app)
+    const res = await api
       .post("/transactions")
       .send({
         type: "sale",
@@ -120,7 +134,7 @@ describe("/transactions CRUD y validaciones", () => {
 
   test("POST sin tipo da 400", async () => {
     await seedData();
-    const res = await request(app)
+    const res = await api
       .post("/transactions")
       .send({
         clientName: "Geralt",
@@ -140,26 +154,26 @@ describe("/transactions CRUD y validaciones", () => {
 
     await TransactionModel.create({
       type: "purchase",
-      client: hunter._id,
-      clientModel: "Hunter",
+      buyer: hunter._id,
+      buyerModel: "Hunter",
       items: [{ good: espada._id, quantity: 1, priceAtTransaction: 250 }],
       totalAmount: 250,
     });
     await TransactionModel.create({
       type: "sale",
-      client: merchant._id,
-      clientModel: "Merchant",
+      seller: merchant._id,
+      sellerModel: "Merchant",
       items: [{ good: pocion._id, quantity: 2, priceAtTransaction: 50 }],
       totalAmount: 100,
     });
 
-    const res = await request(app)
+    const res = await api
       .get("/transactions/client")
       .query({ clientName: hunter.name });
 
     expect(res.status).toBe(200);
-    expect(res.body).toHaveLength(1);
-    expect(res.body[0].type).toBe("purchase");
+    expect(res.body.data).toHaveLength(1);
+    expect(res.body.data[0].type).toBe("purchase");
   });
 
   test("GET /date-range devuelve transacciones dentro de rango y opcional tipo", async () => {
@@ -172,41 +186,41 @@ describe("/transactions CRUD y validaciones", () => {
 
     const t1 = {
       type: "purchase",
-      client: hunter._id,
-      clientModel: "Hunter",
+      buyer: hunter._id,
+      buyerModel: "Hunter",
       items: [{ good: swordId, quantity: 1, priceAtTransaction: 250 }],
       totalAmount: 250,
       date: new Date("2025-01-01"),
     };
     const t2 = {
       type: "sale",
-      client: merchant._id,
-      clientModel: "Merchant",
+      seller: merchant._id,
+      sellerModel: "Merchant",
       items: [{ good: swordId, quantity: 1, priceAtTransaction: 250 }],
       totalAmount: 250,
       date: new Date("2025-02-01"),
     };
     await TransactionModel.create([t1, t2]);
 
-    let res = await request(app)
+    let res = await api
       .get("/transactions/date-range")
       .query({ startDate: "2025-01-01", endDate: "2025-01-31" });
     expect(res.status).toBe(200);
-    expect(res.body).toHaveLength(1);
+    expect(res.body.data).toHaveLength(1);
 
-    res = await request(app)
+    res = await api
       .get("/transactions/date-range")
       .query({ startDate: "2025-01-01", endDate: "2025-12-31", type: "sale" });
-    expect(res.body).toHaveLength(1);
-    expect(res.body[0].type).toBe("sale");
+    expect(res.body.data).toHaveLength(1);
+    expect(res.body.data[0].type).toBe("sale");
   });
 
   test("GET /:id retorna transacción o 404 si no existe", async () => {
     const { hunter } = await seedData();
     const tx = (await TransactionModel.create({
       type: "purchase",
-      client: hunter._id,
-      clientModel: "Hunter",
+      buyer: hunter._id,
+      buyerModel: "Hunter",
       items: [
         {
           good: (await GoodModel.findOne({ name: "Espada de plata" }))!._id,
@@ -217,12 +231,12 @@ describe("/transactions CRUD y validaciones", () => {
       totalAmount: 250,
     })) as mongoose.Document & { _id: mongoose.Types.ObjectId };
 
-    let res = await request(app).get(`/transactions/${tx._id}`);
+    let res = await api.get(`/transactions/${tx._id}`);
     expect(res.status).toBe(200);
     expect(res.body._id).toBe(tx._id.toString());
 
     const fake = new mongoose.Types.ObjectId();
-    res = await request(app).get(`/transactions/${fake}`);
+    res = await api.get(`/transactions/${fake}`);
     expect(res.status).toBe(404);
   });
 
@@ -237,8 +251,8 @@ describe("/transactions CRUD y validaciones", () => {
 
     const tx = await TransactionModel.create({
       type: "purchase",
-      client: hunter._id,
-      clientModel: "Hunter",
+      buyer: hunter._id,
+      buyerModel: "Hunter",
       items: [
         {
           good: sword._id,
@@ -249,7 +263,7 @@ describe("/transactions CRUD y validaciones", () => {
       totalAmount: sword.value * 2,
     });
 
-    const res = await request(app)
+    const res = await api
       .put(`/transactions/${tx._id}`)
       .send({
         type: "sale",
@@ -275,8 +289,8 @@ describe("/transactions CRUD y validaciones", () => {
 
     const tx = await TransactionModel.create({
       type: "purchase",
-      client: hunter._id,
-      clientModel: "Hunter",
+      buyer: hunter._id,
+      buyerModel: "Hunter",
       items: [
         { good: sword!._id, quantity: 3, priceAtTransaction: sword!.value },
       ],
@@ -291,7 +305,7 @@ describe("/transactions CRUD y validaciones", () => {
     }
     expect(updated.stock).toBe(7);
 
-    const res = await request(app).delete(`/transactions/${tx._id}`);
+    const res = await api.delete(`/transactions/${tx._id}`);
     expect(res.status).toBe(200);
 
     updated = await GoodModel.findById(sword._id);
@@ -309,7 +323,7 @@ describe("/transactions CRUD y validaciones", () => {
     const beforeGoods = await GoodModel.find().lean();
     const beforeTx = await TransactionModel.countDocuments();
 
-    const res = await request(app)
+    const res = await api
       .post("/transactions")
       .send({ type: "purchase", clientName: hunter.name, items: [
         { goodName: "Espada de plata", quantity: 2 },
@@ -338,7 +352,7 @@ describe("/transactions CRUD y validaciones", () => {
     const beforeGoods = await GoodModel.find().lean();
     const beforeTx = await TransactionModel.countDocuments();
 
-    const res = await request(app)
+    const res = await api
       .post("/transactions")
       .send({ type: "sale", clientName: merchant.name, items: [
         { goodName: "Espada de plata", quantity: 5 }
@@ -357,51 +371,51 @@ describe("/transactions CRUD y validaciones", () => {
   test("POST /transactions → 400 si falta tipo y no crea transacción", async () => {
     await seedData();
     const beforeTx = await TransactionModel.countDocuments();
-    const res = await request(app)
+    const res = await api
       .post("/transactions")
       .send({
         clientName: "Geralt",
         items: [{ goodName: "Espada de plata", quantity: 1 }],
       })
       .expect(400);
-    expect(res.body).toHaveProperty("error");
+    expect(res.body).toHaveProperty("detail");
     const afterTx = await TransactionModel.countDocuments();
     expect(afterTx).toBe(beforeTx);
   });
   
   test("GET /transactions/client → 200 filtra por cliente", async () => {
     const { hunter, merchant } = await seedData();
-    await TransactionModel.create({ type: "purchase", client: hunter._id, clientModel: "Hunter", items: [{ good: (await GoodModel.findOne({ name: "Espada de plata" }))!._id, quantity: 1, priceAtTransaction: 250 }], totalAmount: 250 });
-    await TransactionModel.create({ type: "sale", client: merchant._id, clientModel: "Merchant", items: [{ good: (await GoodModel.findOne({ name: "Poción de salud" }))!._id, quantity: 2, priceAtTransaction: 50 }], totalAmount: 100 });
+    await TransactionModel.create({ type: "purchase", buyer: hunter._id, buyerModel: "Hunter", items: [{ good: (await GoodModel.findOne({ name: "Espada de plata" }))!._id, quantity: 1, priceAtTransaction: 250 }], totalAmount: 250 });
+    await TransactionModel.create({ type: "sale", seller: merchant._id, sellerModel: "Merchant", items: [{ good: (await GoodModel.findOne({ name: "Poción de salud" }))!._id, quantity: 2, priceAtTransaction: 50 }], totalAmount: 100 });
 
-    const res = await request(app).get("/transactions/client").query({ clientName: hunter.name }).expect(200);
-    expect(res.body).toHaveLength(1);
-    expect(res.body[0].type).toBe("purchase");
+    const res = await api.get("/transactions/client").query({ clientName: hunter.name }).expect(200);
+    expect(res.body.data).toHaveLength(1);
+    expect(res.body.data[0].type).toBe("purchase");
   });
 
   test("GET /transactions/date-range → 200 filtra por rango y tipo opcional", async () => {
     const { hunter, merchant } = await seedData();
     const sword = (await GoodModel.findOne({ name: "Espada de plata" }))!;
-    const t1 = { type: "purchase", client: hunter._id, clientModel: "Hunter", items: [{ good: sword._id, quantity: 1, priceAtTransaction: sword.value }], totalAmount: sword.value, date: new Date("2025-01-01") };
-    const t2 = { type: "sale", client: merchant._id, clientModel: "Merchant", items: [{ good: sword._id, quantity: 1, priceAtTransaction: sword.value }], totalAmount: sword.value, date: new Date("2025-02-01") };
+    const t1 = { type: "purchase", buyer: hunter._id, buyerModel: "Hunter", items: [{ good: sword._id, quantity: 1, priceAtTransaction: sword.value }], totalAmount: sword.value, date: new Date("2025-01-01") };
+    const t2 = { type: "sale", seller: merchant._id, sellerModel: "Merchant", items: [{ good: sword._id, quantity: 1, priceAtTransaction: sword.value }], totalAmount: sword.value, date: new Date("2025-02-01") };
     await TransactionModel.create([t1, t2]);
 
-    let res = await request(app).get("/transactions/date-range").query({ startDate: "2025-01-01", endDate: "2025-01-31" }).expect(200);
-    expect(res.body).toHaveLength(1);
-    expect(res.body[0].date).toContain("2025-01");
+    let res = await api.get("/transactions/date-range").query({ startDate: "2025-01-01", endDate: "2025-01-31" }).expect(200);
+    expect(res.body.data).toHaveLength(1);
+    expect(res.body.data[0].date).toContain("2025-01");
 
-    res = await request(app).get("/transactions/date-range").query({ startDate: "2025-01-01", endDate: "2025-12-31", type: "sale" }).expect(200);
-    expect(res.body).toHaveLength(1);
-    expect(res.body[0].type).toBe("sale");
+    res = await api.get("/transactions/date-range").query({ startDate: "2025-01-01", endDate: "2025-12-31", type: "sale" }).expect(200);
+    expect(res.body.data).toHaveLength(1);
+    expect(res.body.data[0].type).toBe("sale");
   });
 
   test("GET /transactions/:id → 200 retorna transacción y 404 si no existe", async () => {
     const { hunter } = await seedData();
-    const tx = await TransactionModel.create({ type: "purchase", client: hunter._id, clientModel: "Hunter", items: [{ good: (await GoodModel.findOne({ name: "Espada de plata" }))!._id, quantity: 1, priceAtTransaction: 250 }], totalAmount: 250 }) as mongoose.Document & { _id: mongoose.Types.ObjectId };
-    const res = await request(app).get(`/transactions/${tx._id}`).expect(200);
+    const tx = await TransactionModel.create({ type: "purchase", buyer: hunter._id, buyerModel: "Hunter", items: [{ good: (await GoodModel.findOne({ name: "Espada de plata" }))!._id, quantity: 1, priceAtTransaction: 250 }], totalAmount: 250 }) as mongoose.Document & { _id: mongoose.Types.ObjectId };
+    const res = await api.get(`/transactions/${tx._id}`).expect(200);
     expect(res.body._id).toBe(tx._id.toString());
     const fake = new mongoose.Types.ObjectId();
-    await request(app).get(`/transactions/${fake}`).expect(404);
+    await api.get(`/transactions/${fake}`).expect(404);
   });
 
   test("DELETE /transactions/:id → 200 elimina transacción y revierte stock en DB", async () => {
@@ -409,8 +423,8 @@ describe("/transactions CRUD y validaciones", () => {
     const sword = (await GoodModel.findOne({ name: "Espada de plata" }))!;
     const txDoc = await TransactionModel.create({
       type: "purchase",
-      client: hunter._id,
-      clientModel: "Hunter",
+      buyer: hunter._id,
+      buyerModel: "Hunter",
       items: [{ good: sword._id, quantity: 3, priceAtTransaction: sword.value }],
       totalAmount: sword.value * 3,
     }) as mongoose.Document & { _id: mongoose.Types.ObjectId };
@@ -418,7 +432,7 @@ describe("/transactions CRUD y validaciones", () => {
     const beforeStock = (await GoodModel.findById(sword._id))!.stock;
     const beforeTx = await TransactionModel.countDocuments();
   
-    await request(app).delete(`/transactions/${txId}`).expect(200);
+    await api.delete(`/transactions/${txId}`).expect(200);
   
     const afterStock = (await GoodModel.findById(sword._id))!.stock;
     expect(afterStock).toBe(beforeStock + 3);
@@ -426,5 +440,607 @@ describe("/transactions CRUD y validaciones", () => {
     const afterTx = await TransactionModel.countDocuments();
     expect(afterTx).toBe(beforeTx - 1);
   });
-  
+
+  test("POST compra → descuenta monedas del cazador", async () => {
+    const { hunter } = await seedData();
+    await api
+      .post("/transactions")
+      .send({
+        type: "purchase",
+        clientName: hunter.name,
+        items: [{ goodName: "Espada de plata", quantity: 2 }],
+      })
+      .expect(201);
+
+    const updated = await HunterModel.findById(hunter._id);
+    expect(updated!.coins).toBe(1000 - 250 * 2);
+  });
+
+  test("POST compra → 400 si el cazador no puede pagar y no modifica nada", async () => {
+    const { hunter } = await seedData();
+    await HunterModel.updateOne({ _id: hunter._id }, { coins: 0 });
+    const beforeTx = await TransactionModel.countDocuments();
+
+    const res = await api
+      .post("/transactions")
+      .send({
+        type: "purchase",
+        clientName: hunter.name,
+        items: [{ goodName: "Espada de plata", quantity: 1 }],
+      })
+      .expect(400);
+    expect(res.body.detail).toMatch(/Monedas insuficientes/);
+    expect(res.body.code).toBe("INSUFFICIENT_FUNDS");
+
+    expect(await TransactionModel.countDocuments()).toBe(beforeTx);
+    const sword = await GoodModel.findOne({ name: "Espada de plata" });
+    expect(sword!.stock).toBe(10);
+    expect((await HunterModel.findById(hunter._id))!.coins).toBe(0);
+  });
+
+  test("POST venta → abona el importe a la tesorería del mercader", async () => {
+    const { merchant } = await seedData();
+    await api
+      .post("/transactions")
+      .send({
+        type: "sale",
+        clientName: merchant.name,
+        items: [{ goodName: "Poción de salud", quantity: 4 }],
+      })
+      .expect(201);
+
+    const updated = await MerchantModel.findById(merchant._id);
+    expect(updated!.coins).toBe(50 * 4);
+  });
+
+  test("PUT /transactions/:id → reembolsa o cobra la diferencia al cazador", async () => {
+    const { hunter } = await seedData();
+    const created = await api
+      .post("/transactions")
+      .send({
+        type: "purchase",
+        clientName: hunter.name,
+        items: [{ goodName: "Espada de plata", quantity: 2 }],
+      })
+      .expect(201);
+
+    await api
+      .put(`/transactions/${created.body._id}`)
+      .send({
+        type: "purchase",
+        clientName: hunter.name,
+        items: [{ goodName: "Espada de plata", quantity: 1 }],
+      })
+      .expect(200);
+    expect((await HunterModel.findById(hunter._id))!.coins).toBe(1000 - 250);
+
+    await api
+      .put(`/transactions/${created.body._id}`)
+      .send({
+        type: "purchase",
+        clientName: hunter.name,
+        items: [{ goodName: "Espada de plata", quantity: 3 }],
+      })
+      .expect(200);
+    expect((await HunterModel.findById(hunter._id))!.coins).toBe(
+      1000 - 250 * 3,
+    );
+  });
+
+  test("PUT /transactions/:id → 400 por stock insuficiente no mueve monedas ni stock", async () => {
+    const { hunter } = await seedData();
+    await GoodModel.updateOne({ name: "Poción de salud" }, { stock: 3 });
+    const created = await api
+      .post("/transactions")
+      .send({
+        type: "purchase",
+        clientName: hunter.name,
+        items: [{ goodName: "Poción de salud", quantity: 2 }],
+      })
+      .expect(201);
+
+    await api
+      .put(`/transactions/${created.body._id}`)
+      .send({
+        type: "purchase",
+        clientName: hunter.name,
+        items: [{ goodName: "Poción de salud", quantity: 4 }],
+      })
+      .expect(400);
+    expect((await HunterModel.findById(hunter._id))!.coins).toBe(900);
+    const potion = await GoodModel.findOne({ name: "Poción de salud" });
+    expect(potion!.stock).toBe(1);
+    const stored = await TransactionModel.findById(created.body._id);
+    expect(stored!.items[0].quantity).toBe(2);
+  });
+
+  test("DELETE /transactions/:id → devuelve las monedas al cazador", async () => {
+    const { hunter } = await seedData();
+    const created = await api
+      .post("/transactions")
+      .send({
+        type: "purchase",
+        clientName: hunter.name,
+        items: [{ goodName: "Poción de salud", quantity: 2 }],
+      })
+      .expect(201);
+    expect((await HunterModel.findById(hunter._id))!.coins).toBe(900);
+
+    await api.delete(`/transactions/${created.body._id}`).expect(200);
+    expect((await HunterModel.findById(hunter._id))!.coins).toBe(1000);
+  });
+
+  test("DELETE /transactions/:id → 400 si el mercader no puede devolver el importe", async () => {
+    const { merchant } = await seedData();
+    const created = await api
+      .post("/transactions")
+      .send({
+        type: "sale",
+        clientName: merchant.name,
+        items: [{ goodName: "Espada de plata", quantity: 1 }],
+      })
+      .expect(201);
+    await MerchantModel.updateOne({ _id: merchant._id }, { coins: 0 });
+
+    await api.delete(`/transactions/${created.body._id}`).expect(400);
+    expect(await TransactionModel.findById(created.body._id)).not.toBeNull();
+  });
+
+  test("la tesorería de la posada cobra las compras y paga las ventas", async () => {
+    const { hunter, merchant } = await seedData();
+    await api
+      .post("/transactions")
+      .send({
+        type: "purchase",
+        clientName: hunter.name,
+        items: [{ goodName: "Espada de plata", quantity: 2 }],
+      })
+      .expect(201);
+    const sale = await api
+      .post("/transactions")
+      .send({
+        type: "sale",
+        clientName: merchant.name,
+        items: [{ goodName: "Poción de salud", quantity: 4 }],
+      })
+      .expect(201);
+
+    const res = await api.get("/reports/treasury").expect(200);
+    expect(res.body).toEqual({
+      inn: 500 - 200,
+      hunters: 500,
+      merchants: 200,
+      total: 1000,
+    });
+
+    await api.delete(`/transactions/${sale.body._id}`).expect(200);
+    expect((await InnModel.findOne())!.coins).toBe(500);
+  });
+
+  test("DELETE /transactions/:id → 409 si el cazador está eliminado y no toca su saldo", async () => {
+    const { hunter } = await seedData();
+    const created = await api
+      .post("/transactions")
+      .send({
+        type: "purchase",
+        clientName: hunter.name,
+        items: [{ goodName: "Poción de salud", quantity: 2 }],
+      })
+      .expect(201);
+    await HunterModel.updateOne({ _id: hunter._id }, { deletedAt: new Date() });
+
+    const res = await api
+      .delete(`/transactions/${created.body._id}`)
+      .expect(409);
+    expect(res.body.code).toBe("CONFLICT");
+    expect((await HunterModel.findById(hunter._id))!.coins).toBe(900);
+    expect(await TransactionModel.findById(created.body._id)).not.toBeNull();
+  });
+});
+
+describe("/transactions atomicidad (replica set de un nodo)", () => {
+  test("POST → 404 en el segundo ítem no modifica stock ni monedas", async () => {
+    const { hunter } = await seedData();
+
+    await api
+      .post("/transactions")
+      .send({
+        type: "purchase",
+        clientName: hunter.name,
+        items: [
+          { goodName: "Espada de plata", quantity: 1 },
+          { goodName: "Inexistente", quantity: 1 },
+        ],
+      })
+      .expect(404);
+
+    expect((await GoodModel.findOne({ name: "Espada de plata" }))!.stock).toBe(
+      10,
+    );
+    expect((await HunterModel.findById(hunter._id))!.coins).toBe(1000);
+    expect(await TransactionModel.countDocuments()).toBe(0);
+  });
+
+  test("PUT → 404 en el segundo ítem deja la transacción, el stock y las monedas intactos", async () => {
+    const { hunter } = await seedData();
+    const created = await api
+      .post("/transactions")
+      .send({
+        type: "purchase",
+        clientName: hunter.name,
+        items: [{ goodName: "Espada de plata", quantity: 2 }],
+      })
+      .expect(201);
+
+    await api
+      .put(`/transactions/${created.body._id}`)
+      .send({
+        type: "purchase",
+        clientName: hunter.name,
+        items: [
+          { goodName: "Poción de salud", quantity: 5 },
+          { goodName: "Inexistente", quantity: 1 },
+        ],
+      })
+      .expect(404);
+
+    const sword = await GoodModel.findOne({ name: "Espada de plata" });
+    const potion = await GoodModel.findOne({ name: "Poción de salud" });
+    expect(sword!.stock).toBe(8);
+    expect(potion!.stock).toBe(20);
+    expect((await HunterModel.findById(hunter._id))!.coins).toBe(500);
+    const tx = await TransactionModel.findById(created.body._id).lean();
+    expect(tx!.items).toHaveLength(1);
+    expect(tx!.totalAmount).toBe(500);
+  });
+
+  test("PUT → 400 por monedas insuficientes revierte el stock ya reajustado", async () => {
+    const { hunter } = await seedData();
+    const created = await api
+      .post("/transactions")
+      .send({
+        type: "purchase",
+        clientName: hunter.name,
+        items: [{ goodName: "Poción de salud", quantity: 1 }],
+      })
+      .expect(201);
+
+    await api
+      .put(`/transactions/${created.body._id}`)
+      .send({
+        type: "purchase",
+        clientName: hunter.name,
+        items: [{ goodName: "Espada de plata", quantity: 5 }],
+      })
+      .expect(400);
+
+    expect((await GoodModel.findOne({ name: "Espada de plata" }))!.stock).toBe(
+      10,
+    );
+    expect((await GoodModel.findOne({ name: "Poción de salud" }))!.stock).toBe(
+      19,
+    );
+    expect((await HunterModel.findById(hunter._id))!.coins).toBe(950);
+  });
+
+  test("DELETE → 400 si no se puede revertir el stock y no elimina nada", async () => {
+    const { merchant } = await seedData();
+    const created = await api
+      .post("/transactions")
+      .send({
+        type: "sale",
+        clientName: merchant.name,
+        items: [{ goodName: "Espada de plata", quantity: 5 }],
+      })
+      .expect(201);
+    await GoodModel.updateOne({ name: "Espada de plata" }, { stock: 2 });
+
+    await api.delete(`/transactions/${created.body._id}`).expect(400);
+
+    expect((await GoodModel.findOne({ name: "Espada de plata" }))!.stock).toBe(
+      2,
+    );
+    expect((await MerchantModel.findById(merchant._id))!.coins).toBe(250 * 5);
+    expect(await TransactionModel.findById(created.body._id)).not.toBeNull();
+  });
+});
+
+describe("/transactions con comprador y vendedor", () => {
+  test("POST compra con vendedor → registra ambas partes y mueve las monedas", async () => {
+    const { hunter, merchant } = await seedData();
+
+    const res = await api
+      .post("/transactions")
+      .send({
+        type: "purchase",
+        buyerName: hunter.name,
+        sellerId: String(merchant._id),
+        items: [{ goodName: "Espada de plata", quantity: 1 }],
+      })
+      .expect(201);
+
+    expect(res.body.buyer).toBe(String(hunter._id));
+    expect(res.body.buyerModel).toBe("Hunter");
+    expect(res.body.seller).toBe(String(merchant._id));
+    expect(res.body.sellerModel).toBe("Merchant");
+    expect((await HunterModel.findById(hunter._id))!.coins).toBe(750);
+    expect((await MerchantModel.findById(merchant._id))!.coins).toBe(250);
+  });
+
+  test("POST venta entre mercaderes → el comprador paga y el vendedor cobra", async () => {
+    const { merchant } = await seedData();
+    const buyer = await MerchantModel.create({
+      name: "Hattori",
+      location: "Novigrado",
+      contact: "hattori@ex.com",
+      specialty: "herrero",
+      inventorySize: 10,
+      reputation: 6,
+      coins: 300,
+    });
+
+    await api
+      .post("/transactions")
+      .send({
+        type: "sale",
+        sellerName: merchant.name,
+        buyerName: buyer.name,
+        items: [{ goodName: "Poción de salud", quantity: 2 }],
+      })
+      .expect(201);
+
+    expect((await MerchantModel.findById(buyer._id))!.coins).toBe(200);
+    expect((await MerchantModel.findById(merchant._id))!.coins).toBe(100);
+  });
+
+  test("POST → 400 si comprador y vendedor coinciden", async () => {
+    const { merchant } = await seedData();
+    await api
+      .post("/transactions")
+      .send({
+        type: "sale",
+        sellerName: merchant.name,
+        buyerName: merchant.name,
+        items: [{ goodName: "Poción de salud", quantity: 1 }],
+      })
+      .expect(400);
+  });
+
+  test("POST → 404 si el vendedor indicado no existe", async () => {
+    const { hunter } = await seedData();
+    await api
+      .post("/transactions")
+      .send({
+        type: "purchase",
+        buyerName: hunter.name,
+        sellerName: "Nadie",
+        items: [{ goodName: "Poción de salud", quantity: 1 }],
+      })
+      .expect(404);
+  });
+
+  test("GET /transactions/client → incluye transacciones en cualquiera de los lados", async () => {
+    const { hunter, merchant } = await seedData();
+    await api
+      .post("/transactions")
+      .send({
+        type: "purchase",
+        buyerName: hunter.name,
+        sellerName: merchant.name,
+        items: [{ goodName: "Poción de salud", quantity: 1 }],
+      })
+      .expect(201);
+    await api
+      .post("/transactions")
+      .send({
+        type: "sale",
+        sellerName: merchant.name,
+        items: [{ goodName: "Espada de plata", quantity: 1 }],
+      })
+      .expect(201);
+
+    const res = await api
+      .get("/transactions/client")
+      .query({ clientName: merchant.name })
+      .expect(200);
+    expect(res.body.data).toHaveLength(2);
+    expect(res.body.data.map((t: any) => t.seller.name)).toEqual([
+      "Zoltan",
+      "Zoltan",
+    ]);
+  });
+
+  test("migrateTransactionParties → convierte client/clientModel en comprador o vendedor", async () => {
+    const { hunter, merchant, goods } = await seedData();
+    const item = { good: goods[0]._id, quantity: 1, priceAtTransaction: 250 };
+    await TransactionModel.collection.insertMany([
+      {
+        type: "purchase",
+        date: new Date(),
+        client: hunter._id,
+        clientModel: "Hunter",
+        items: [item],
+        totalAmount: 250,
+      },
+      {
+        type: "sale",
+        date: new Date(),
+        client: merchant._id,
+        clientModel: "Merchant",
+        items: [item],
+        totalAmount: 250,
+      },
+    ]);
+
+    expect(await migrateTransactionParties()).toBe(2);
+    expect(await migrateTransactionParties()).toBe(0);
+
+    const purchase = await TransactionModel.findOne({ type: "purchase" }).lean();
+    expect(purchase!.buyer!.toString()).toBe(String(hunter._id));
+    expect(purchase!.buyerModel).toBe("Hunter");
+    expect(purchase!.seller).toBeNull();
+    expect(purchase).not.toHaveProperty("client");
+
+    const sale = await TransactionModel.findOne({ type: "sale" }).lean();
+    expect(sale!.seller!.toString()).toBe(String(merchant._id));
+    expect(sale!.sellerModel).toBe("Merchant");
+    expect(sale!.buyer).toBeNull();
+  });
+});
+
+describe("/transactions e inventario de los mercaderes", () => {
+  test("POST venta → retira unidades del inventario del vendedor", async () => {
+    const { merchant, goods } = await seedData();
+    await api
+      .post("/transactions")
+      .send({
+        type: "sale",
+        sellerName: merchant.name,
+        items: [{ goodName: "Espada de plata", quantity: 4 }],
+      })
+      .expect(201);
+
+    const line = await InventoryModel.findOne({
+      merchant: merchant._id,
+      good: goods[0]._id,
+    });
+    expect(line!.quantity).toBe(6);
+    expect((await GoodModel.findById(goods[0]._id))!.stock).toBe(14);
+  });
+
+  test("POST venta → 400 si el vendedor no tiene unidades suficientes", async () => {
+    const { merchant, goods } = await seedData();
+    await api
+      .post("/transactions")
+      .send({
+        type: "sale",
+        sellerName: merchant.name,
+        items: [{ goodName: "Espada de plata", quantity: 11 }],
+      })
+      .expect(400);
+
+    const line = await InventoryModel.findOne({
+      merchant: merchant._id,
+      good: goods[0]._id,
+    });
+    expect(line!.quantity).toBe(10);
+    expect(await TransactionModel.countDocuments()).toBe(0);
+  });
+
+  test("POST compra a un mercader → usa su precio y no toca el stock de la posada", async () => {
+    const { hunter, merchant, goods } = await seedData();
+    await InventoryModel.updateOne(
+      { merchant: merchant._id, good: goods[0]._id },
+      { price: 300 },
+    );
+
+    const res = await api
+      .post("/transactions")
+      .send({
+        type: "purchase",
+        buyerName: hunter.name,
+        sellerName: merchant.name,
+        items: [{ goodName: "Espada de plata", quantity: 2 }],
+      })
+      .expect(201);
+
+    expect(res.body.items[0].priceAtTransaction).toBe(300);
+    expect(res.body.totalAmount).toBe(600);
+    expect((await GoodModel.findById(goods[0]._id))!.stock).toBe(10);
+    const line = await InventoryModel.findOne({
+      merchant: merchant._id,
+      good: goods[0]._id,
+    });
+    expect(line!.quantity).toBe(8);
+  });
+
+  test("POST venta a otro mercader → 409 si supera su inventorySize", async () => {
+    const { merchant } = await seedData();
+    const buyer = await MerchantModel.create({
+      name: "Pequeño",
+      location: "Vizima",
+      contact: "pequeno@ex.com",
+      specialty: "sastre",
+      inventorySize: 2,
+      reputation: 3,
+      coins: 1000,
+    });
+
+    const res = await api
+      .post("/transactions")
+      .send({
+        type: "sale",
+        sellerName: merchant.name,
+        buyerName: buyer.name,
+        items: [{ goodName: "Poción de salud", quantity: 3 }],
+      })
+      .expect(409);
+    expect(res.body.code).toBe("INVENTORY_FULL");
+
+    expect(
+      await InventoryModel.countDocuments({ merchant: buyer._id }),
+    ).toBe(0);
+    expect((await MerchantModel.findById(buyer._id))!.coins).toBe(1000);
+  });
+});
+
+describe("/transactions validación declarativa de peticiones", () => {
+  test("POST → 400 con errores de campo si los items no son enteros positivos", async () => {
+    const { hunter, goods } = await seedData();
+    const res = await api
+      .post("/transactions")
+      .send({
+        type: "purchase",
+        buyerName: hunter.name,
+        items: [
+          { goodName: "Espada de plata", quantity: 0 },
+          { goodName: "Poción de salud", quantity: 1.5 },
+          { quantity: 1 },
+        ],
+      })
+      .expect(400);
+
+    expect(res.body.detail).toBe("La petición no es válida");
+    expect(res.body.errors.map((e: any) => e.field)).toEqual([
+      "items.0.quantity",
+      "items.1.quantity",
+      "items.2.goodName",
+    ]);
+    expect(await TransactionModel.countDocuments()).toBe(0);
+    expect((await GoodModel.findById(goods[0]._id))!.stock).toBe(10);
+    expect((await HunterModel.findById(hunter._id))!.coins).toBe(1000);
+  });
+
+  test("POST → 400 si items no es una lista no vacía", async () => {
+    const res = await api
+      .post("/transactions")
+      .send({ type: "purchase", buyerName: "Geralt", items: [] })
+      .expect(400);
+    expect(res.body.errors).toEqual([
+      { location: "body", field: "items", message: "Debe contener al menos 1 elemento(s)" },
+    ]);
+  });
+
+  test("GET, PUT y DELETE /transactions/:id → 400 si el id no es un ObjectId", async () => {
+    await api.get("/transactions/1234").expect(400);
+    await api.delete("/transactions/1234").expect(400);
+    const res = await api
+      .put("/transactions/1234")
+      .send({ type: "purchase", items: [{ goodName: "Espada de plata", quantity: 1 }] })
+      .expect(400);
+    expect(res.body.errors).toEqual([
+      { location: "params", field: "id", message: "No es un identificador válido" },
+    ]);
+  });
+
+  test("GET /date-range → 400 si las fechas o el tipo no son válidos", async () => {
+    const res = await api
+      .get("/transactions/date-range")
+      .query({ startDate: "ayer", endDate: "2030-01-01", type: "regalo" })
+      .expect(400);
+    expect(res.body.errors.map((e: any) => e.field).sort()).toEqual([
+      "startDate",
+      "type",
+    ]);
+  });
 });
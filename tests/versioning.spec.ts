@@ -0,0 +1,107 @@
+import { describe, beforeAll, beforeEach, test, expect } from "vitest";
+import request from "supertest";
+import { setupApp } from "../src/app.js";
+import { signToken } from "../src/utils/tokens.js";
+import { GoodModel, GoodDocument } from "../src/models/good.js";
+import { HunterModel, HunterDocument } from "../src/models/hunter.js";
+import { MerchantModel, MerchantDocument } from "../src/models/merchant.js";
+import { InventoryModel } from "../src/models/inventory.js";
+import { TransactionModel } from "../src/models/transaction.js";
+import type { Express } from "express";
+
+let app: Express;
+/** Cliente autenticado como administrador */
+let api: ReturnType<typeof request.agent>;
+let sword: GoodDocument;
+let geralt: HunterDocument;
+let zoltan: MerchantDocument;
+
+beforeAll(async () => {
+  app = await setupApp();
+  api = request.agent(app).auth(signToken({ sub: "admin", role: "admin" }), { type: "bearer" });
+});
+
+beforeEach(async () => {
+  await Promise.all([GoodModel.deleteMany({}), HunterModel.deleteMany({}), MerchantModel.deleteMany({}), InventoryModel.deleteMany({}), TransactionModel.deleteMany({})]);
+  sword = await GoodModel.create({ id: 1201, name: "Espada de plata", material: "acero", weight: 2.5, value: 100, stock: 10 });
+  geralt = await HunterModel.create({ name: "Geralt", type: "brujo", experience: 95, coins: 1000, email: "geralt@rivia.com", monsterSpecialty: ["vampiros"] });
+  zoltan = await MerchantModel.create({ name: "Zoltan", location: "Novigrado", specialty: "armero", inventorySize: 50, reputation: 8, coins: 1000, contact: "zoltan@dwarves.com" });
+});
+
+describe("ETag e If-None-Match", () => {
+  test("GET por id devuelve la versión en ETag y aumenta con cada cambio", async () => {
+    const first = await api.get(`/goods/${sword._id}`).expect(200);
+    expect(first.headers.etag).toBe('"0"');
+    expect(first.body.version).toBe(0);
+
+    const patched = await api.patch(`/goods/${sword._id}`).send({ value: 120 }).expect(200);
+    expect(patched.headers.etag).toBe('"1"');
+    const second = await api.get(`/goods/${sword._id}`).expect(200);
+    expect(second.headers.etag).toBe('"1"');
+  });
+
+  test("→ 304 si la versión no ha cambiado", async () => {
+    const { headers } = await api.get(`/hunters/${geralt._id}`).expect(200);
+    const cached = await api.get(`/hunters/${geralt._id}`).set("If-None-Match", headers.etag).expect(304);
+    expect(cached.text).toBe("");
+
+    await api.patch(`/hunters/${geralt._id}`).send({ experience: 96 }).expect(200);
+    const fresh = await api.get(`/hunters/${geralt._id}`).set("If-None-Match", headers.etag).expect(200);
+    expect(fresh.body.experience).toBe(96);
+  });
+
+  test("los movimientos de stock y monedas también cambian la versión", async () => {
+    const tx = await api.post("/transactions").send({ type: "purchase", buyerName: "Geralt", items: [{ goodName: "Espada de plata", quantity: 1 }] }).expect(201);
+    expect((await api.get(`/goods/${sword._id}`)).headers.etag).toBe('"1"');
+    expect((await api.get(`/hunters/${geralt._id}`)).headers.etag).toBe('"1"');
+    expect((await api.get(`/transactions/${tx.body._id}`)).headers.etag).toBe('"0"');
+  });
+});
+
+describe("If-Match", () => {
+  test("→ 412 si otro cliente modificó el bien antes", async () => {
+    const { headers } = await api.get(`/goods/${sword._id}`).expect(200);
+    await api.patch(`/goods/${sword._id}`).set("If-Match", headers.etag).send({ value: 150 }).expect(200);
+
+    const stale = await api.patch(`/goods/${sword._id}`).set("If-Match", headers.etag).send({ value: 80 }).expect(412);
+    expect(stale.body.code).toBe("PRECONDITION_FAILED");
+    expect((await GoodModel.findById(sword._id))!.value).toBe(150);
+    await api.patch("/goods").query({ name: "Espada de plata" }).set("If-Match", headers.etag).send({ value: 80 }).expect(412);
+    await api.delete(`/goods/${sword._id}`).set("If-Match", headers.etag).expect(412);
+    expect((await GoodModel.findById(sword._id))!.deletedAt).toBeNull();
+  });
+
+  test("admite la versión actual, listas de etiquetas y *", async () => {
+    await api.patch(`/merchants/${zoltan._id}`).set("If-Match", '"0"').send({ reputation: 9 }).expect(200);
+    await api.patch("/merchants").query({ name: "Zoltan" }).set("If-Match", '"0", "1"').send({ reputation: 10 }).expect(200);
+    await api.patch(`/merchants/${zoltan._id}`).set("If-Match", "*").send({ reputation: 7 }).expect(200);
+    await api.patch(`/merchants/${zoltan._id}`).set("If-Match", 'W/"3"').send({ reputation: 6 }).expect(412);
+    await api.delete(`/merchants/${zoltan._id}`).set("If-Match", '"3"').expect(200);
+  });
+
+  test("→ 404 si el documento no existe", async () => {
+    await api.patch("/hunters/507f1f77bcf86cd799439011").set("If-Match", '"0"').send({ experience: 1 }).expect(404);
+    await api.delete("/hunters/507f1f77bcf86cd799439011").set("If-Match", '"0"').expect(404);
+  });
+
+  test("PUT y DELETE de transacciones no revierten nada si la versión no coincide", async () => {
+    const tx = await api.post("/transactions").send({ type: "purchase", buyerName: "Geralt", items: [{ goodName: "Espada de plata", quantity: 1 }] }).expect(201);
+    const updated = await api.put(`/transactions/${tx.body._id}`).set("If-Match", '"0"').send({ type: "purchase", buyerName: "Geralt", items: [{ goodName: "Espada de plata", quantity: 2 }] }).expect(200);
+    expect(updated.headers.etag).toBe('"1"');
+
+    await api.put(`/transactions/${tx.body._id}`).set("If-Match", '"0"').send({ type: "purchase", buyerName: "Geralt", items: [{ goodName: "Espada de plata", quantity: 5 }] }).expect(412);
+    const res = await api.delete(`/transactions/${tx.body._id}`).set("If-Match", '"0"').expect(412);
+    expect(res.body.code).toBe("PRECONDITION_FAILED");
+    expect((await GoodModel.findById(sword._id))!.stock).toBe(8);
+    expect((await HunterModel.findById(geralt._id))!.coins).toBe(800);
+
+    await api.delete(`/transactions/${tx.body._id}`).set("If-Match", updated.headers.etag).expect(200);
+    expect((await GoodModel.findById(sword._id))!.stock).toBe(10);
+  });
+
+  test("la versión no se puede fijar desde el cuerpo", async () => {
+    await api.patch(`/goods/${sword._id}`).send({ version: 7 }).expect(400);
+    const created = await api.post("/goods").send({ id: 1202, name: "Daga de madera", material: "madera", weight: 1, value: 10, version: 7 }).expect(201);
+    expect(created.body.version).toBe(0);
+  });
+});
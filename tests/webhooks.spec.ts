@@ -0,0 +1,208 @@
+import { describe, beforeAll, beforeEach, afterAll, test, expect } from "vitest";
+import request from "supertest";
+import { createHmac } from "node:crypto";
+import { createServer, IncomingHttpHeaders, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { setupApp } from "../src/app.js";
+import { signToken } from "../src/utils/tokens.js";
+import { webhookOptions } from "../src/utils/webhooks.js";
+import { WebhookDeliveryModel, WebhookModel } from "../src/models/webhook.js";
+import { GoodModel } from "../src/models/good.js";
+import { HunterModel } from "../src/models/hunter.js";
+import { InventoryModel } from "../src/models/inventory.js";
+import { TransactionModel } from "../src/models/transaction.js";
+import { StockAlertModel } from "../src/models/alert.js";
+import type { Express } from "express";
+
+let app: Express;
+/** Cliente autenticado como administrador */
+let api: ReturnType<typeof request.agent>;
+
+/** Receptor local de las notificaciones */
+let receiver: Server;
+/** URL del receptor */
+let url: string;
+/** Notificaciones recibidas */
+let received: Array<{ headers: IncomingHttpHeaders; body: string }>;
+/** Códigos de estado con los que responde el receptor, en orden (luego 200) */
+let statuses: number[];
+
+const secret = "secreto-de-pruebas-0123456789";
+const defaults = { ...webhookOptions };
+
+/** Espera a que se cumpla una condición, comprobándola cada 20 ms */
+async function waitFor(condition: () => boolean | Promise<boolean>, timeout = 3000) {
+  const end = Date.now() + timeout;
+  while (!(await condition())) {
+    if (Date.now() > end) throw new Error("Tiempo de espera agotado");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+beforeAll(async () => {
+  app = await setupApp();
+  api = request.agent(app).auth(signToken({ sub: "admin", role: "admin" }), { type: "bearer" });
+  receiver = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+});
+
+afterAll(async () => {
+  Object.assign(webhookOptions, defaults);
+  await new Promise((resolve) => receiver.close(resolve));
+});
+
+beforeEach(async () => {
+  await Promise.all([
+    WebhookModel.deleteMany({}),
+    WebhookDeliveryModel.deleteMany({}),
+    GoodModel.deleteMany({}),
+    HunterModel.deleteMany({}),
+    InventoryModel.deleteMany({}),
+    TransactionModel.deleteMany({}),
+    StockAlertModel.deleteMany({}),
+  ]);
+  received = [];
+  statuses = [];
+  Object.assign(webhookOptions, defaults, { retryDelay: 20 });
+});
+
+/** Crea una suscripción del receptor a los eventos indicados */
+const subscribe = async (events: string[]) => (await api.post("/webhooks").send({ url, events, secret }).expect(201)).body;
+
+describe("Suscripciones /webhooks", () => {
+  test("POST devuelve el secreto una sola vez", async () => {
+    const res = await api.post("/webhooks").send({ url, events: ["good.created"] }).expect(201);
+    expect(res.body).toMatchObject({ url, events: ["good.created"], active: true });
+    expect(res.body.secret).toMatch(/^[0-9a-f]{64}$/);
+
+    const stored = await api.get(`/webhooks/${res.body._id}`).expect(200);
+    expect(stored.body.secret).toBeUndefined();
+    const list = await api.get("/webhooks").expect(200);
+    expect(list.body.total).toBe(1);
+    expect(list.body.data[0].secret).toBeUndefined();
+  });
+
+  test("→ 400 si la URL, los eventos o el secreto no son válidos", async () => {
+    await api.post("/webhooks").send({ url: "ftp://example.com", events: ["good.created"] }).expect(400);
+    await api.post("/webhooks").send({ url, events: [] }).expect(400);
+    await api.post("/webhooks").send({ url, events: ["good.exploded"] }).expect(400);
+    await api.post("/webhooks").send({ url, events: ["good.created"], secret: "corto" }).expect(400);
+  });
+
+  test("PATCH modifica los eventos y DELETE elimina también el registro", async () => {
+    const webhook = await subscribe(["good.created"]);
+    await api.patch(`/webhooks/${webhook._id}`).send({ events: ["good.deleted"] }).expect(200);
+    const good = await api.post("/goods").send({ id: 801, name: "Espada de plata", material: "acero", weight: 2.5, value: 100 }).expect(201);
+    await api.delete(`/goods/${good.body._id}`).expect(200);
+
+    await waitFor(() => received.length === 1);
+    expect(received[0].headers["x-webhook-event"]).toBe("good.deleted");
+    await waitFor(async () => (await WebhookDeliveryModel.countDocuments({ status: "delivered" })) === 1);
+
+    await api.delete(`/webhooks/${webhook._id}`).expect(200);
+    await api.get(`/webhooks/${webhook._id}`).expect(404);
+    expect(await WebhookDeliveryModel.countDocuments()).toBe(0);
+  });
+
+  test("→ 403 para usuarios que no son administradores", async () => {
+    await request(app)
+      .get("/webhooks")
+      .set("Authorization", `Bearer ${signToken({ sub: "ro", role: "read-only" })}`)
+      .expect(403);
+  });
+});
+
+describe("Notificaciones", () => {
+  test("una transacción notifica transaction.created con el cuerpo firmado", async () => {
+    await subscribe(["transaction.created"]);
+    await GoodModel.create({ id: 802, name: "Espada de plata", material: "acero", weight: 2.5, value: 100, stock: 10 });
+    await HunterModel.create({ name: "Geralt", type: "brujo", experience: 95, coins: 1000, email: "geralt@rivia.com", monsterSpecialty: ["vampiros"] });
+    const tx = await api.post("/transactions").send({ type: "purchase", buyerName: "Geralt", items: [{ goodName: "Espada de plata", quantity: 1 }] }).expect(201);
+
+    await waitFor(() => received.length === 1);
+    const { headers, body } = received[0];
+    const expected = createHmac("sha256", secret).update(`${headers["x-webhook-timestamp"]}.${body}`).digest("hex");
+    expect(headers["x-webhook-signature"]).toBe(`sha256=${expected}`);
+    expect(headers["x-webhook-event"]).toBe("transaction.created");
+    expect(headers["content-type"]).toBe("application/json");
+
+    const payload = JSON.parse(body);
+    expect(payload).toMatchObject({ id: headers["x-webhook-id"], event: "transaction.created", data: { _id: tx.body._id, totalAmount: 100 } });
+  });
+
+  test("solo se notifican los eventos de la suscripción", async () => {
+    await subscribe(["hunter.deleted"]);
+    const hunter = await api.post("/hunters").send({ name: "Geralt", type: "brujo", experience: 95, email: "geralt@rivia.com", monsterSpecialty: ["vampiros"] }).expect(201);
+    await api.delete(`/hunters/${hunter.body._id}`).expect(200);
+
+    await waitFor(() => received.length === 1);
+    expect(received[0].headers["x-webhook-event"]).toBe("hunter.deleted");
+    expect(JSON.parse(received[0].body).data.deletedAt).not.toBeNull();
+    expect(await WebhookDeliveryModel.countDocuments()).toBe(1);
+  });
+
+  test("una compra que deja el stock bajo notifica good.stock_low", async () => {
+    await subscribe(["good.stock_low"]);
+    await GoodModel.create({ id: 803, name: "Espada de plata", material: "acero", weight: 2.5, value: 100, stock: 10, reorderLevel: 5 });
+    await HunterModel.create({ name: "Geralt", type: "brujo", experience: 95, coins: 1000, email: "geralt@rivia.com", monsterSpecialty: ["vampiros"] });
+    await api.post("/transactions").send({ type: "purchase", buyerName: "Geralt", items: [{ goodName: "Espada de plata", quantity: 6 }] }).expect(201);
+
+    await waitFor(() => received.length === 1);
+    expect(JSON.parse(received[0].body).data).toMatchObject({ stock: 4, reorderLevel: 5, suggestion: { type: "sale" } });
+  });
+
+  test("reintenta con espera exponencial hasta que el receptor responde 2xx", async () => {
+    statuses = [500, 503];
+    const webhook = await subscribe(["good.created"]);
+    await api.post("/goods").send({ id: 804, name: "Espada de plata", material: "acero", weight: 2.5, value: 100 }).expect(201);
+
+    await waitFor(async () => (await WebhookDeliveryModel.findOne())?.status === "delivered");
+    expect(received).toHaveLength(3);
+    expect(new Set(received.map((r) => r.headers["x-webhook-id"])).size).toBe(1);
+
+    const log = await api.get(`/webhooks/${webhook._id}/deliveries`).expect(200);
+    expect(log.body.total).toBe(1);
+    const [delivery] = log.body.data;
+    expect(delivery).toMatchObject({ event: "good.created", status: "delivered", nextAttemptAt: null });
+    expect(delivery.attempts.map((a: { statusCode: number }) => a.statusCode)).toEqual([500, 503, 200]);
+    expect(delivery.attempts[0].error).toBe("Respuesta HTTP 500");
+    const at = delivery.attempts.map((a: { at: string }) => Date.parse(a.at));
+    expect(at[2] - at[1]).toBeGreaterThanOrEqual(40);
+  });
+
+  test("marca la notificación como fallida al agotar los intentos", async () => {
+    webhookOptions.maxAttempts = 2;
+    statuses = [500, 500, 500];
+    const webhook = await subscribe(["good.created"]);
+    await api.post("/goods").send({ id: 805, name: "Espada de plata", material: "acero", weight: 2.5, value: 100 }).expect(201);
+
+    await waitFor(async () => (await WebhookDeliveryModel.findOne())?.status === "failed");
+    expect(received).toHaveLength(2);
+    const log = await api.get(`/webhooks/${webhook._id}/deliveries`).query({ status: "failed" }).expect(200);
+    expect(log.body.data[0].attempts).toHaveLength(2);
+    expect((await api.get(`/webhooks/${webhook._id}/deliveries`).query({ status: "delivered" }).expect(200)).body.total).toBe(0);
+  });
+
+  test("las suscripciones desactivadas no reciben notificaciones", async () => {
+    const [inactive, active] = [await subscribe(["good.created"]), await subscribe(["good.created"])];
+    await api.patch(`/webhooks/${inactive._id}`).send({ active: false }).expect(200);
+    await api.post("/goods").send({ id: 806, name: "Espada de plata", material: "acero", weight: 2.5, value: 100 }).expect(201);
+
+    await waitFor(() => received.length === 1);
+    expect(await WebhookDeliveryModel.countDocuments({ webhook: inactive._id })).toBe(0);
+    expect(await WebhookDeliveryModel.countDocuments({ webhook: active._id })).toBe(1);
+  });
+
+  test("GET /webhooks/:id/deliveries → 404 si la suscripción no existe", async () => {
+    await api.get("/webhooks/507f1f77bcf86cd799439011/deliveries").expect(404);
+  });
+});